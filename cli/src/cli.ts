@@ -0,0 +1,124 @@
+import { parseArgs } from 'node:util';
+import { apiErrorOf, createClient } from './client';
+import { GLOBAL_OPTIONS, stringOption, UsageError, type Command, type Option } from './command';
+import { COMMANDS } from './commands';
+import { configPath, readConfig, resolveSetting } from './config';
+import { formatCommandHelp, formatHelp } from './help';
+import { createOutput, type Output } from './output';
+
+// Exit statuses
+const OK = 0;
+const FAILED = 1; // The server refused or could not be reached
+const USAGE = 2; // The command line was wrong
+
+export type RunOptions = {
+  env?: Record<string, string | undefined>;
+  output?: Output; // Chosen from --json unless given, for tests
+  readStdin?: () => Promise<string>;
+};
+
+// Global options that take a value; the word after them is not a command
+const GLOBAL_VALUE_FLAGS = Object.entries(GLOBAL_OPTIONS)
+  .filter(([, option]) => option.type === 'string')
+  .map(([name]) => `--${name}`);
+
+// The command and the rest of the arguments. Global options may come before
+// the command, e.g. 'todo --json ls'.
+export const splitCommand = (argv: string[]): { name: string | undefined; rest: string[] } => {
+  for (let i = 0; i < argv.length; i++) {
+    if (GLOBAL_VALUE_FLAGS.includes(argv[i])) {
+      i++;
+    } else if (argv[i] === '--') {
+      break;
+    } else if (!argv[i].startsWith('-')) {
+      return { name: argv[i], rest: [...argv.slice(0, i), ...argv.slice(i + 1)] };
+    }
+  }
+  return { name: undefined, rest: argv };
+};
+
+// node:util's parseArgs takes the options without descriptions
+const parseConfig = (options: Record<string, Option>) => Object.fromEntries(Object.entries(options).map(([name, option]) =>
+  [name, { type: option.type, ...(option.short ? { short: option.short } : {}), ...(option.multiple ? { multiple: true } : {}) }]));
+
+export const parseCommandLine = (command: Command, argv: string[]) => {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: parseConfig({ ...GLOBAL_OPTIONS, ...command.options }),
+      allowPositionals: true,
+      strict: true
+    });
+    return { options: values, args: positionals };
+  } catch (error) {
+    // parseArgs explains itself, e.g. "Unknown option '--nope'"
+    throw new UsageError(error instanceof Error ? error.message.replace(/\. To specify a positional argument.*$/s, '') : String(error));
+  }
+};
+
+const reportError = (output: Output, code: string, message: string) => {
+  if (output.json) {
+    output.warn(JSON.stringify({ error: { code, message } }));
+  } else {
+    output.warn(`todo: ${message}`);
+  }
+};
+
+// Runs the command line, without the program's own arguments, and resolves
+// to the exit status
+export const run = async (argv: string[], runOptions: RunOptions = {}): Promise<number> => {
+  const env = runOptions.env ?? process.env;
+  const { name, rest } = splitCommand(argv);
+  const output = runOptions.output ?? createOutput(argv.includes('--json'));
+
+  const command = COMMANDS.find(command => command.name === name);
+  if (!command) {
+    if (name === undefined && (argv.includes('--help') || argv.includes('-h') || argv.length === 0)) {
+      output.print(formatHelp(COMMANDS));
+      return argv.length === 0 ? USAGE : OK;
+    }
+    reportError(output, 'USAGE', name === undefined ? 'Give a command; see "todo help"' : `Unknown command "${name}"; see "todo help"`);
+    return USAGE;
+  }
+
+  try {
+    const { options, args } = parseCommandLine(command, rest);
+    if (options['help'] === true) {
+      output.print(formatCommandHelp(command));
+      return OK;
+    }
+
+    const client = () => {
+      const flags = { server: stringOption(options, 'server'), token: stringOption(options, 'token') };
+      const file = readConfig(configPath(env));
+      const token = resolveSetting('token', flags, env, file).value;
+      if (!token) {
+        throw new UsageError('No API token; create one under API tokens in the app, then run "todo config set token -"');
+      }
+      return createClient(resolveSetting('server', flags, env, file).value!, token);
+    };
+
+    const status = await command.run({
+      args,
+      options,
+      output,
+      client,
+      commands: COMMANDS,
+      env,
+      readStdin: runOptions.readStdin ?? (() => Bun.stdin.text())
+    });
+    return status ?? OK;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      reportError(output, 'USAGE', error.message);
+      return USAGE;
+    }
+    const apiError = apiErrorOf(error);
+    if (apiError) {
+      reportError(output, apiError.code, apiError.message);
+      return FAILED;
+    }
+    reportError(output, 'ERROR', error instanceof Error ? error.message : String(error));
+    return FAILED;
+  }
+};
@@ -0,0 +1,38 @@
+import { createTRPCClient, httpBatchLink, TRPCClientError } from '@trpc/client';
+import superjson from 'superjson';
+import type { AppRouter } from '../../server/src';
+
+// Calls the tRPC procedures as the owner of the API token. The server URL is
+// where the procedures are served: the server itself (http://localhost:2022)
+// or the app's /api path behind its proxy.
+export const createClient = (server: string, token: string) => createTRPCClient<AppRouter>({
+  links: [
+    httpBatchLink({
+      url: server,
+      transformer: superjson,
+      headers: { Authorization: `Bearer ${token}` }
+    })
+  ]
+});
+
+export type Client = ReturnType<typeof createClient>;
+
+export type ApiError = {
+  code: string; // tRPC error code, e.g. 'NOT_FOUND'; 'NETWORK_ERROR' when the server was not reached
+  message: string;
+};
+
+// What went wrong with an API call, as the server explained it. Invalid input
+// is reported by its first field message.
+export const apiErrorOf = (error: unknown): ApiError | null => {
+  if (!(error instanceof TRPCClientError)) {
+    return null;
+  }
+  const apiError = error as TRPCClientError<AppRouter>;
+  if (!apiError.data) {
+    return { code: 'NETWORK_ERROR', message: `Could not reach the server: ${apiError.message}` };
+  }
+  const zodError = apiError.data.zodError;
+  const [first] = zodError ? [...zodError.formErrors, ...Object.values(zodError.fieldErrors).flat()] : [];
+  return { code: apiError.data.code, message: first ?? apiError.message };
+};
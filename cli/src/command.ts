@@ -0,0 +1,92 @@
+import { type Client } from './client';
+import { type Output } from './output';
+import type { TodoPriority } from '../../server/src/schema';
+
+// Commands describe their options once; the same description parses the
+// command line, prints help and generates shell completions.
+
+export type Option = {
+  type: 'string' | 'boolean';
+  short?: string;
+  multiple?: boolean; // May be given more than once
+  description: string;
+  valueName?: string; // Placeholder for the value in help, e.g. 'date'; 'file' completes file names
+  choices?: readonly string[]; // Values shell completion offers
+};
+
+export type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+export type CommandContext = {
+  args: string[]; // Positional arguments after the command's name
+  options: OptionValues;
+  output: Output;
+  // Connects to the configured server. Commands that do not call the API
+  // never ask for it, so they work without a token.
+  client: () => Client;
+  commands: Command[]; // Every command, for help and completions
+  env: Record<string, string | undefined>;
+  readStdin: () => Promise<string>;
+};
+
+export type Command = {
+  name: string;
+  summary: string;
+  usage: string; // Arguments after the command's name, e.g. '<id...>'
+  options: Record<string, Option>;
+  arguments?: readonly string[]; // Words shell completion offers for the arguments
+  // Resolves to the exit status, 0 unless given
+  run: (context: CommandContext) => Promise<number | void>;
+};
+
+// Options every command takes
+export const GLOBAL_OPTIONS: Record<string, Option> = {
+  json: { type: 'boolean', description: 'Print JSON for scripts instead of text' },
+  server: { type: 'string', valueName: 'url', description: 'Server to use instead of the configured one' },
+  token: { type: 'string', valueName: 'token', description: 'API token to use instead of the configured one' },
+  help: { type: 'boolean', short: 'h', description: 'Show help for the command' }
+};
+
+export const PRIORITIES = ['none', 'low', 'medium', 'high', 'urgent'] as const satisfies readonly TodoPriority[];
+
+// The command line is wrong; the user can fix it by reading the help
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const stringOption = (options: OptionValues, name: string): string | undefined => {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+export const stringsOption = (options: OptionValues, name: string): string[] => {
+  const value = options[name];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+// The value, checked against the choices the option offers
+export const choiceOption = <T extends string>(options: OptionValues, name: string, choices: readonly T[]): T | undefined => {
+  const value = stringOption(options, name);
+  if (value !== undefined && !(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  }
+  return value as T | undefined;
+};
+
+export const parseId = (text: string): number => {
+  const id = Number(text.replace(/^#/, ''));
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new UsageError(`"${text}" is not a todo id`);
+  }
+  return id;
+};
+
+export const parsePositiveInteger = (text: string, name: string): number => {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new UsageError(`--${name} must be a whole number above 0`);
+  }
+  return value;
+};
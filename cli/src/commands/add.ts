@@ -0,0 +1,44 @@
+import { choiceOption, parseId, PRIORITIES, stringOption, stringsOption, UsageError, type Command } from '../command';
+import { dueOption } from '../dates';
+import { resolveListId, resolveTagIds } from '../lookups';
+
+export const addCommand: Command = {
+  name: 'add',
+  summary: 'Add a todo',
+  usage: '<title...>',
+  options: {
+    description: { type: 'string', short: 'd', valueName: 'text', description: 'Notes for the todo' },
+    list: { type: 'string', short: 'l', valueName: 'list', description: 'List name or id; defaults to the Inbox' },
+    priority: { type: 'string', short: 'p', valueName: 'priority', choices: PRIORITIES, description: 'How important it is' },
+    due: { type: 'string', valueName: 'date', description: 'today, tomorrow, 2026-10-20 or "2026-10-20 09:30"' },
+    tag: { type: 'string', short: 't', multiple: true, valueName: 'tag', description: 'Tag to attach, created if missing; repeat for more' },
+    parent: { type: 'string', valueName: 'id', description: 'Add it as a subtask of this todo' }
+  },
+  run: async ({ args, options, output, client }) => {
+    const title = args.join(' ').trim();
+    if (!title) {
+      throw new UsageError('Give the todo a title');
+    }
+    const priority = choiceOption(options, 'priority', PRIORITIES);
+    const due = dueOption(stringOption(options, 'due'), { clearable: false });
+    const parent = stringOption(options, 'parent');
+    const list = stringOption(options, 'list');
+
+    const api = client();
+    const todo = await api.createTodo.mutate({
+      title,
+      description: stringOption(options, 'description') ?? null,
+      list_id: list === undefined ? undefined : await resolveListId(api, list),
+      parent_id: parent === undefined ? undefined : parseId(parent),
+      priority,
+      ...due,
+      tag_ids: await resolveTagIds(api, stringsOption(options, 'tag'), { create: true })
+    });
+
+    if (output.json) {
+      output.printJson(todo);
+    } else {
+      output.print(`Added #${todo.id} ${todo.title}`);
+    }
+  }
+};
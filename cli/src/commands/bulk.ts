@@ -0,0 +1,29 @@
+import type { BulkResult } from '../../../server/src/schema';
+import { parseId, UsageError, type CommandContext } from '../command';
+import { plural } from '../output';
+
+// The ids a command was given, e.g. 'todo done 12 #13'
+export const idsOf = (args: string[]): number[] => {
+  if (args.length === 0) {
+    throw new UsageError('Give the id of at least one todo');
+  }
+  return [...new Set(args.map(parseId))];
+};
+
+// Prints what happened to each todo and returns the exit status: 1 when any
+// of them failed
+export const reportBulkResult = ({ output }: CommandContext, result: BulkResult, done: string): number => {
+  const failures = result.results.filter(item => !item.success);
+  if (output.json) {
+    output.printJson(result);
+  } else {
+    for (const failure of failures) {
+      output.warn(`#${failure.id}: ${failure.error ?? 'Failed'}`);
+    }
+    const succeeded = result.results.length - failures.length;
+    if (succeeded > 0) {
+      output.print(`${done} ${plural(succeeded, 'todo')}`);
+    }
+  }
+  return failures.length > 0 ? 1 : 0;
+};
@@ -0,0 +1,18 @@
+import { UsageError, type Command } from '../command';
+import { completionScript, SHELLS, type Shell } from '../completion';
+
+export const completionCommand: Command = {
+  name: 'completion',
+  summary: 'Print a shell completion script',
+  usage: '<bash | zsh | fish>',
+  options: {},
+  arguments: SHELLS,
+  run: async ({ args, output, commands }) => {
+    const [shell] = args;
+    if (!(SHELLS as readonly string[]).includes(shell)) {
+      throw new UsageError(`Choose a shell: ${SHELLS.join(', ')}`);
+    }
+    // Printed as is, even with --json, so it can be sourced
+    output.print(completionScript(shell as Shell, commands).replace(/\n$/, ''));
+  }
+};
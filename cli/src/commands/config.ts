@@ -0,0 +1,91 @@
+import { stringOption, UsageError, type Command } from '../command';
+import { CONFIG_KEYS, configPath, DEFAULT_SERVER, isConfigKey, maskToken, readConfig, resolveSetting, writeConfig, type ConfigKey } from '../config';
+import { formatTable } from '../output';
+
+const ACTIONS = ['list', 'get', 'set', 'unset', 'path'] as const;
+
+const keyOf = (key: string | undefined): ConfigKey => {
+  if (key === undefined || !isConfigKey(key)) {
+    throw new UsageError(`Give a setting: ${CONFIG_KEYS.join(' or ')}`);
+  }
+  return key;
+};
+
+export const configCommand: Command = {
+  name: 'config',
+  summary: 'Show or change the server and token to use',
+  usage: '[list | get <key> | set <key> <value> | unset <key> | path]',
+  options: {},
+  arguments: [...ACTIONS, ...CONFIG_KEYS],
+  run: async ({ args, options, output, env, readStdin }) => {
+    const [action = 'list', key, ...rest] = args;
+    const path = configPath(env);
+    const file = readConfig(path);
+
+    switch (action) {
+      case 'list': {
+        const flags = { server: stringOption(options, 'server'), token: stringOption(options, 'token') };
+        const settings = CONFIG_KEYS.map(key => ({ key, ...resolveSetting(key, flags, env, file) }));
+        if (output.json) {
+          // The token stays masked here too; 'config get token' prints it
+          output.printJson(Object.fromEntries(settings.map(({ key, value, source }) =>
+            [key, { value: key === 'token' && value ? maskToken(value) : value ?? null, source }])));
+        } else {
+          output.print(formatTable(['KEY', 'VALUE', 'FROM'], settings.map(({ key, value, source }) =>
+            [key, key === 'token' && value ? maskToken(value) : value ?? '', source ?? ''])));
+        }
+        return;
+      }
+      case 'get': {
+        const value = file[keyOf(key)];
+        if (output.json) {
+          output.printJson(value ?? null);
+        } else if (value !== undefined) {
+          output.print(value);
+        }
+        return value === undefined ? 1 : 0;
+      }
+      case 'set': {
+        const name = keyOf(key);
+        if (rest.length !== 1) {
+          throw new UsageError(`Give one value for ${name}, or - to read it from standard input`);
+        }
+        // Reading the token from standard input keeps it out of the shell's history
+        const value = (rest[0] === '-' ? await readStdin() : rest[0]).trim();
+        if (!value) {
+          throw new UsageError(`The value for ${name} is empty`);
+        }
+        if (name === 'server') {
+          try {
+            new URL(value);
+          } catch {
+            throw new UsageError(`"${value}" is not a URL, e.g. ${DEFAULT_SERVER}`);
+          }
+        }
+        writeConfig(path, { ...file, [name]: value });
+        if (!output.json) {
+          output.print(`Saved ${name} to ${path}`);
+        }
+        return;
+      }
+      case 'unset': {
+        const name = keyOf(key);
+        const { [name]: _removed, ...remaining } = file;
+        writeConfig(path, remaining);
+        if (!output.json) {
+          output.print(`Removed ${name} from ${path}`);
+        }
+        return;
+      }
+      case 'path':
+        if (output.json) {
+          output.printJson(path);
+        } else {
+          output.print(path);
+        }
+        return;
+      default:
+        throw new UsageError(`Unknown config action "${action}"; use one of ${ACTIONS.join(', ')}`);
+    }
+  }
+};
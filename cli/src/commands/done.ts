@@ -0,0 +1,17 @@
+import { type Command } from '../command';
+import { idsOf, reportBulkResult } from './bulk';
+
+export const doneCommand: Command = {
+  name: 'done',
+  summary: 'Mark todos as completed',
+  usage: '<id...>',
+  options: {
+    undo: { type: 'boolean', description: 'Mark them as pending again' }
+  },
+  run: async (context) => {
+    const ids = idsOf(context.args);
+    const completed = context.options['undo'] !== true;
+    const result = await context.client().bulkUpdateTodos.mutate({ target: { ids }, changes: { completed } });
+    return reportBulkResult(context, result, completed ? 'Completed' : 'Reopened');
+  }
+};
@@ -0,0 +1,78 @@
+import type { UpdateTodoInput } from '../../../server/src/schema';
+import { choiceOption, parseId, PRIORITIES, stringOption, stringsOption, UsageError, type Command } from '../command';
+import { dueOption } from '../dates';
+import { resolveListId, resolveTagIds } from '../lookups';
+
+export const editCommand: Command = {
+  name: 'edit',
+  summary: 'Change a todo',
+  usage: '<id>',
+  options: {
+    title: { type: 'string', valueName: 'title', description: 'New title' },
+    description: { type: 'string', short: 'd', valueName: 'text', description: 'New notes; "" removes them' },
+    priority: { type: 'string', short: 'p', valueName: 'priority', choices: PRIORITIES, description: 'How important it is' },
+    due: { type: 'string', valueName: 'date', description: 'today, tomorrow, 2026-10-20, "2026-10-20 09:30", or none' },
+    list: { type: 'string', short: 'l', valueName: 'list', description: 'Move it to this list, by name or id' },
+    tag: { type: 'string', short: 't', multiple: true, valueName: 'tag', description: 'Tag to attach, created if missing; repeat for more' },
+    untag: { type: 'string', multiple: true, valueName: 'tag', description: 'Tag to detach; repeat for more' }
+  },
+  run: async ({ args, options, output, client }) => {
+    if (args.length !== 1) {
+      throw new UsageError('Give the id of one todo');
+    }
+    const id = parseId(args[0]);
+    const title = stringOption(options, 'title');
+    const description = stringOption(options, 'description');
+    const priority = choiceOption(options, 'priority', PRIORITIES);
+    const due = dueOption(stringOption(options, 'due'), { clearable: true });
+    const list = stringOption(options, 'list');
+    const tagNames = stringsOption(options, 'tag');
+    const untagNames = stringsOption(options, 'untag');
+    if (title !== undefined && !title.trim()) {
+      throw new UsageError('--title must not be empty');
+    }
+
+    const api = client();
+    const changes: Partial<UpdateTodoInput> = {
+      title: title?.trim(),
+      description: description === undefined ? undefined : description || null,
+      priority,
+      ...(due === null ? { due_at: null } : due),
+      list_id: list === undefined ? undefined : await resolveListId(api, list)
+    };
+    const hasChanges = Object.values(changes).some(value => value !== undefined);
+    if (!hasChanges && tagNames.length === 0 && untagNames.length === 0) {
+      throw new UsageError('Say what to change, e.g. --title or --due');
+    }
+
+    // Updates must name the version they change; reading it just before
+    // only fails when someone else edits the todo in between
+    const current = await api.getTodo.query({ id });
+    const untagIds = untagNames.map(name => {
+      const tag = current.tags.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+      if (!tag) {
+        throw new UsageError(`#${id} has no tag called "${name}"`);
+      }
+      return tag.id;
+    });
+    const tagIds = (await resolveTagIds(api, tagNames, { create: true }))
+      .filter(tagId => !current.tags.some(tag => tag.id === tagId));
+
+    if (hasChanges) {
+      await api.updateTodo.mutate({ ...changes, id, expectedVersion: current.version });
+    }
+    for (const tagId of tagIds) {
+      await api.attachTag.mutate({ todo_id: id, tag_id: tagId });
+    }
+    for (const tagId of untagIds) {
+      await api.detachTag.mutate({ todo_id: id, tag_id: tagId });
+    }
+
+    const todo = await api.getTodo.query({ id });
+    if (output.json) {
+      output.printJson(todo);
+    } else {
+      output.print(`Updated #${todo.id} ${todo.title}`);
+    }
+  }
+};
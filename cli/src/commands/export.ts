@@ -0,0 +1,43 @@
+import { writeFileSync } from 'node:fs';
+import type { TodoFileFormat } from '../../../server/src/schema';
+import { choiceOption, stringOption, type Command } from '../command';
+import { resolveListId } from '../lookups';
+
+const FORMATS = ['json', 'csv', 'markdown', 'todotxt', 'ical'] as const satisfies readonly TodoFileFormat[];
+
+export const exportCommand: Command = {
+  name: 'export',
+  summary: 'Export todos as a file',
+  usage: '',
+  options: {
+    format: { type: 'string', short: 'f', valueName: 'format', choices: FORMATS, description: 'File format; json unless given' },
+    list: { type: 'string', short: 'l', valueName: 'list', description: 'Only this list, by name or id' },
+    output: { type: 'string', short: 'o', valueName: 'file', description: 'File to write; the export is printed unless given' },
+    events: { type: 'boolean', description: 'iCalendar only: also write dated todos as events' }
+  },
+  run: async ({ options, output, client }) => {
+    const format = choiceOption(options, 'format', FORMATS) ?? 'json';
+    const list = stringOption(options, 'list');
+    const path = stringOption(options, 'output');
+
+    const api = client();
+    const file = await api.exportTodos.query({
+      format,
+      list_id: list === undefined ? undefined : await resolveListId(api, list),
+      calendar_events: options['events'] === true ? true : undefined
+    });
+
+    if (path !== undefined) {
+      writeFileSync(path, file.content);
+      if (output.json) {
+        output.printJson({ path, filename: file.filename, mime_type: file.mime_type });
+      } else {
+        output.print(`Exported to ${path}`);
+      }
+    } else if (output.json) {
+      output.printJson(file);
+    } else {
+      output.print(file.content.replace(/\n$/, ''));
+    }
+  }
+};
@@ -0,0 +1,21 @@
+import { UsageError, type Command } from '../command';
+import { formatCommandHelp, formatHelp } from '../help';
+
+export const helpCommand: Command = {
+  name: 'help',
+  summary: 'Show help for todo or one of its commands',
+  usage: '[command]',
+  options: {},
+  run: async ({ args, output, commands }) => {
+    const [name] = args;
+    if (name === undefined) {
+      output.print(formatHelp(commands));
+      return;
+    }
+    const command = commands.find(command => command.name === name);
+    if (!command) {
+      throw new UsageError(`Unknown command "${name}"`);
+    }
+    output.print(formatCommandHelp(command));
+  }
+};
@@ -0,0 +1,15 @@
+import { type Command } from '../command';
+import { addCommand } from './add';
+import { completionCommand } from './completion';
+import { configCommand } from './config';
+import { doneCommand } from './done';
+import { editCommand } from './edit';
+import { exportCommand } from './export';
+import { helpCommand } from './help';
+import { lsCommand } from './ls';
+import { rmCommand } from './rm';
+
+const commands: Command[] = [addCommand, lsCommand, doneCommand, editCommand, rmCommand, exportCommand, configCommand, completionCommand];
+
+// In the order help lists them
+export const COMMANDS: Command[] = [...commands, { ...helpCommand, arguments: commands.map(command => command.name) }];
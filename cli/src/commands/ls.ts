@@ -0,0 +1,85 @@
+import type { GetTodosInput, TodoListItem, TodoSortField, TodoStatusFilter, DueBucket } from '../../../server/src/schema';
+import { choiceOption, parsePositiveInteger, stringOption, stringsOption, type Command } from '../command';
+import { formatDue, localTimeZone } from '../dates';
+import { resolveListId, resolveTagIds } from '../lookups';
+import { formatTable, plural } from '../output';
+
+const STATUSES = ['pending', 'completed', 'all'] as const satisfies readonly TodoStatusFilter[];
+const DUE_BUCKETS = ['overdue', 'today', 'upcoming'] as const satisfies readonly DueBucket[];
+const SORT_FIELDS = ['priority', 'due_at', 'created_at', 'updated_at', 'title', 'position'] as const satisfies readonly TodoSortField[];
+const MAX_PAGE_SIZE = 100; // The most the API returns at once
+
+// One row per todo, with subtasks indented under their parents
+const rowsOf = (todos: TodoListItem[], listNames: Map<number, string>, timeZone: string, depth = 0): string[][] =>
+  todos.flatMap(todo => [
+    [
+      String(todo.id),
+      todo.completed ? 'x' : '',
+      todo.priority === 'none' ? '' : todo.priority,
+      formatDue(todo, timeZone),
+      todo.list_id === null ? '' : listNames.get(todo.list_id) ?? '',
+      todo.tags.map(tag => tag.name).join(', '),
+      `${'  '.repeat(depth)}${todo.title}`
+    ],
+    ...rowsOf(todo.children, listNames, timeZone, depth + 1)
+  ]);
+
+export const lsCommand: Command = {
+  name: 'ls',
+  summary: 'List todos',
+  usage: '',
+  options: {
+    list: { type: 'string', short: 'l', valueName: 'list', description: 'Only this list, by name or id' },
+    status: { type: 'string', short: 's', valueName: 'status', choices: STATUSES, description: 'Which todos to show; pending unless given' },
+    tag: { type: 'string', short: 't', multiple: true, valueName: 'tag', description: 'Only todos with this tag; repeat for more' },
+    due: { type: 'string', valueName: 'when', choices: DUE_BUCKETS, description: 'Only todos due then, in your time zone' },
+    search: { type: 'string', short: 'q', valueName: 'words', description: 'Only todos containing the words' },
+    sort: { type: 'string', valueName: 'field', choices: SORT_FIELDS, description: 'Order to list them in; priority unless given' },
+    asc: { type: 'boolean', description: 'Sort ascending instead of descending' },
+    limit: { type: 'string', short: 'n', valueName: 'count', description: `How many to show, up to ${MAX_PAGE_SIZE}; 20 unless given` },
+    all: { type: 'boolean', short: 'a', description: 'Show every matching todo, fetching page after page' }
+  },
+  run: async ({ options, output, client }) => {
+    const limitText = stringOption(options, 'limit');
+    const limit = limitText === undefined ? 20 : Math.min(parsePositiveInteger(limitText, 'limit'), MAX_PAGE_SIZE);
+    const timeZone = localTimeZone();
+    const list = stringOption(options, 'list');
+
+    const api = client();
+    const tagIds = await resolveTagIds(api, stringsOption(options, 'tag'), { create: false });
+    const input: GetTodosInput = {
+      status: choiceOption(options, 'status', STATUSES) ?? 'pending',
+      list_id: list === undefined ? undefined : await resolveListId(api, list),
+      due_bucket: choiceOption(options, 'due', DUE_BUCKETS),
+      tag_ids: tagIds.length > 0 ? tagIds : undefined,
+      search: stringOption(options, 'search'),
+      time_zone: timeZone,
+      sort_by: choiceOption(options, 'sort', SORT_FIELDS) ?? 'priority',
+      sort_direction: options['asc'] === true ? 'asc' : 'desc',
+      limit: options['all'] === true ? MAX_PAGE_SIZE : limit
+    };
+
+    const todos: TodoListItem[] = [];
+    let page = await api.getTodos.query(input);
+    todos.push(...page.items);
+    while (options['all'] === true && page.nextCursor) {
+      page = await api.getTodos.query({ ...input, cursor: page.nextCursor });
+      todos.push(...page.items);
+    }
+
+    if (output.json) {
+      output.printJson(todos);
+      return;
+    }
+    if (todos.length === 0) {
+      output.print('No todos');
+      return;
+    }
+    const lists = await api.getLists.query();
+    const listNames = new Map(lists.map(list => [list.id, list.name]));
+    output.print(formatTable(['ID', 'DONE', 'PRIORITY', 'DUE', 'LIST', 'TAGS', 'TITLE'], rowsOf(todos, listNames, timeZone)));
+    if (page.totalCount > todos.length) {
+      output.print(`\nShowing ${todos.length} of ${plural(page.totalCount, 'todo')}; use --all or --limit for more`);
+    }
+  }
+};
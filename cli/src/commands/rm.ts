@@ -0,0 +1,14 @@
+import { type Command } from '../command';
+import { idsOf, reportBulkResult } from './bulk';
+
+export const rmCommand: Command = {
+  name: 'rm',
+  summary: 'Move todos to the trash, with their subtasks',
+  usage: '<id...>',
+  options: {},
+  run: async (context) => {
+    const ids = idsOf(context.args);
+    const result = await context.client().bulkDeleteTodos.mutate({ target: { ids } });
+    return reportBulkResult(context, result, 'Moved to the trash:');
+  }
+};
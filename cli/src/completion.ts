@@ -0,0 +1,164 @@
+import { GLOBAL_OPTIONS, type Command, type Option } from './command';
+
+// Completion scripts for the shells, generated from the commands' option
+// descriptions so they never fall behind. Tags and lists are not completed;
+// that would take a request to the server on every tab.
+
+export const SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+export type Shell = typeof SHELLS[number];
+
+type Entry = [name: string, option: Option];
+
+const flagsOf = ([name, option]: Entry): string[] => option.short ? [`-${option.short}`, `--${name}`] : [`--${name}`];
+
+// Options that are followed by a value, which is not a command name
+const valueFlags = (commands: Command[]): string[] => [...new Set(
+  [GLOBAL_OPTIONS, ...commands.map(command => command.options)]
+    .flatMap(options => Object.entries(options).filter(([, option]) => option.type === 'string').flatMap(flagsOf))
+)];
+
+const bashScript = (commands: Command[]): string => {
+  const globalFlags = Object.entries(GLOBAL_OPTIONS).flatMap(flagsOf).join(' ');
+  const cases = commands.map(command => {
+    const entries = Object.entries(command.options);
+    const valueCases = entries.filter(([, option]) => option.type === 'string').map(entry => {
+      const [, option] = entry;
+      const reply = option.choices
+        ? `COMPREPLY=($(compgen -W "${option.choices.join(' ')}" -- "$cur"))`
+        : option.valueName === 'file' ? 'COMPREPLY=($(compgen -f -- "$cur"))' : 'COMPREPLY=()';
+      return `        ${flagsOf(entry).join('|')}) ${reply}; return ;;`;
+    });
+    const words = command.arguments ? ` ${command.arguments.join(' ')}` : '';
+    return [
+      `    ${command.name})`,
+      ...(valueCases.length > 0 ? ['      case "$prev" in', ...valueCases, '      esac'] : []),
+      `      words="${entries.flatMap(flagsOf).join(' ')}${words}" ;;`
+    ].join('\n');
+  });
+
+  return `# bash completion for todo. Load it with: source <(todo completion bash)
+_todo() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}" cmd="" words i
+  # The command is the first word that is neither an option nor an option's value
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    case "\${COMP_WORDS[i]}" in
+      ${valueFlags(commands).join('|')}) ((i++)) ;;
+      -*) ;;
+      *) cmd="\${COMP_WORDS[i]}"; break ;;
+    esac
+  done
+
+  case "$prev" in
+    --server|--token) COMPREPLY=(); return ;;
+  esac
+  case "$cmd" in
+    "") words="${commands.map(command => command.name).join(' ')}" ;;
+${cases.join('\n')}
+  esac
+  if [[ "$cur" == -* ]]; then
+    words="$words ${globalFlags}"
+  fi
+  COMPREPLY=($(compgen -W "$words" -- "$cur"))
+}
+complete -F _todo todo
+`;
+};
+
+// Text inside a single-quoted zsh _arguments spec
+const zshText = (text: string): string => text.replace(/'/g, `'\\''`).replace(/[[\]:]/g, match => `\\${match}`);
+
+const zshSpecs = (options: Record<string, Option>): string[] => Object.entries(options).map(entry => {
+  const [name, option] = entry;
+  const flags = flagsOf(entry);
+  const value = option.type === 'boolean'
+    ? ''
+    : `:${option.valueName ?? name}:${option.choices ? `(${option.choices.join(' ')})` : option.valueName === 'file' ? '_files' : ' '}`;
+  const spec = `[${zshText(option.description)}]${value}'`;
+  if (flags.length === 1) {
+    return `'${option.multiple ? '*' : ''}${flags[0]}${spec}`;
+  }
+  // Both spellings, which exclude each other unless the option repeats
+  return `'${option.multiple ? '*' : `(${flags.join(' ')})`}'{${flags.join(',')}}'${spec}`;
+});
+
+const zshScript = (commands: Command[]): string => {
+  const globals = zshSpecs(GLOBAL_OPTIONS);
+  const cases = commands.map(command => {
+    const specs = [...zshSpecs(command.options), ...globals];
+    if (command.arguments) {
+      specs.push(`'*:argument:(${command.arguments.join(' ')})'`);
+    } else if (command.usage) {
+      specs.push(`'*: :'`);
+    }
+    return `        ${command.name})\n          _arguments -s \\\n            ${specs.join(' \\\n            ')} ;;`;
+  });
+
+  return `#compdef todo
+# zsh completion for todo. Load it with: source <(todo completion zsh)
+_todo() {
+  local -a commands
+  commands=(
+${commands.map(command => `    '${command.name}:${zshText(command.summary)}'`).join('\n')}
+  )
+  local context state line
+  _arguments -C -s \\
+    ${globals.join(' \\\n    ')} \\
+    '1:command:->command' \\
+    '*::argument:->argument'
+  case $state in
+    command) _describe 'command' commands ;;
+    argument)
+      case $words[1] in
+${cases.join('\n')}
+      esac ;;
+  esac
+}
+compdef _todo todo
+`;
+};
+
+// Text inside a single-quoted fish string
+const fishText = (text: string): string => text.replace(/[\\']/g, match => `\\${match}`);
+
+const fishLines = (options: Record<string, Option>, condition: string): string[] => Object.entries(options).map(([name, option]) => {
+  const parts = [`complete -c todo${condition}`];
+  if (option.short) {
+    parts.push(`-s ${option.short}`);
+  }
+  parts.push(`-l ${name}`);
+  if (option.type === 'string') {
+    parts.push(option.valueName === 'file' ? '-r -F' : '-x');
+  }
+  if (option.choices) {
+    parts.push(`-a '${option.choices.join(' ')}'`);
+  }
+  parts.push(`-d '${fishText(option.description)}'`);
+  return parts.join(' ');
+});
+
+const fishScript = (commands: Command[]): string => [
+  '# fish completion for todo. Load it with: todo completion fish | source',
+  'complete -c todo -f',
+  ...fishLines(GLOBAL_OPTIONS, ''),
+  ...commands.map(command => `complete -c todo -n __fish_use_subcommand -a ${command.name} -d '${fishText(command.summary)}'`),
+  ...commands.flatMap(command => {
+    const condition = ` -n '__fish_seen_subcommand_from ${command.name}'`;
+    return [
+      ...fishLines(command.options, condition),
+      ...(command.arguments ? [`complete -c todo${condition} -a '${command.arguments.join(' ')}'`] : [])
+    ];
+  }),
+  ''
+].join('\n');
+
+export const completionScript = (shell: Shell, commands: Command[]): string => {
+  switch (shell) {
+    case 'bash':
+      return bashScript(commands);
+    case 'zsh':
+      return zshScript(commands);
+    case 'fish':
+      return fishScript(commands);
+  }
+};
@@ -0,0 +1,87 @@
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+// Settings are read from the command line first, then the environment, then
+// the config file. The file holds the token, so only its owner may read it.
+
+export const CONFIG_KEYS = ['server', 'token'] as const;
+
+export type ConfigKey = typeof CONFIG_KEYS[number];
+
+export type Config = Partial<Record<ConfigKey, string>>;
+
+export const DEFAULT_SERVER = 'http://localhost:2022';
+
+// Environment variables that override each setting
+const ENV_NAMES: Record<ConfigKey, string> = {
+  server: 'TODO_SERVER',
+  token: 'TODO_TOKEN'
+};
+
+type Env = Record<string, string | undefined>;
+
+export const isConfigKey = (key: string): key is ConfigKey => (CONFIG_KEYS as readonly string[]).includes(key);
+
+// $TODO_CONFIG, or config.json in the todo folder of the user's config directory
+export const configPath = (env: Env = process.env): string =>
+  env['TODO_CONFIG'] || join(env['XDG_CONFIG_HOME'] || join(homedir(), '.config'), 'todo', 'config.json');
+
+// The settings in the file; none when it does not exist yet
+export const readConfig = (path: string): Config => {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`${path} is not valid JSON`);
+  }
+  const config: Config = {};
+  if (typeof parsed === 'object' && parsed !== null) {
+    for (const key of CONFIG_KEYS) {
+      const value = (parsed as Record<string, unknown>)[key];
+      if (typeof value === 'string') {
+        config[key] = value;
+      }
+    }
+  }
+  return config;
+};
+
+export const writeConfig = (path: string, config: Config): void => {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  chmodSync(path, 0o600); // writeFileSync only sets the mode of new files
+};
+
+// The setting in effect and where it comes from
+export const resolveSetting = (
+  key: ConfigKey,
+  flags: Config,
+  env: Env,
+  file: Config
+): { value: string | undefined; source: 'flag' | 'environment' | 'file' | 'default' | null } => {
+  if (flags[key]) {
+    return { value: flags[key], source: 'flag' };
+  }
+  if (env[ENV_NAMES[key]]) {
+    return { value: env[ENV_NAMES[key]], source: 'environment' };
+  }
+  if (file[key]) {
+    return { value: file[key], source: 'file' };
+  }
+  return key === 'server' ? { value: DEFAULT_SERVER, source: 'default' } : { value: undefined, source: null };
+};
+
+// Shows enough of a token to tell tokens apart
+export const maskToken = (token: string): string =>
+  token.length > 16 ? `${token.slice(0, 13)}...${token.slice(-4)}` : '****';
@@ -0,0 +1,79 @@
+import { UsageError } from './command';
+
+// Due dates as the server stores them: all-day dates at UTC midnight of the
+// calendar date, other times as instants with the zone they were set in.
+
+export type DueDate = {
+  due_at: Date;
+  due_all_day: boolean;
+  due_time_zone: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/i;
+
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The calendar date at the instant in the zone, e.g. '2026-10-18'
+const dateIn = (instant: Date, timeZone: string): string => instant.toLocaleDateString('en-CA', { timeZone });
+
+// Reads 'today', 'tomorrow', a date such as 2026-10-20 (all day), or a date
+// and time such as '2026-10-20 09:30' (in the local zone unless an offset is
+// given). Null when the text is none of these.
+export const parseDue = (text: string, now: Date = new Date(), timeZone: string = localTimeZone()): DueDate | null => {
+  const value = text.trim().toLowerCase();
+  if (value === 'today' || value === 'tomorrow') {
+    const today = new Date(`${dateIn(now, timeZone)}T00:00:00Z`);
+    const due_at = value === 'today' ? today : new Date(today.getTime() + DAY_MS);
+    return { due_at, due_all_day: true, due_time_zone: timeZone };
+  }
+
+  const date = DATE.exec(value);
+  if (date) {
+    const due_at = new Date(`${value}T00:00:00Z`);
+    // Rejects dates such as 2026-02-30, which Date would roll over
+    return Number.isNaN(due_at.getTime()) || due_at.toISOString().slice(0, 10) !== value
+      ? null
+      : { due_at, due_all_day: true, due_time_zone: timeZone };
+  }
+
+  if (DATE_TIME.test(value)) {
+    const due_at = new Date(value.toUpperCase().replace(' ', 'T'));
+    return Number.isNaN(due_at.getTime()) ? null : { due_at, due_all_day: false, due_time_zone: timeZone };
+  }
+
+  return null;
+};
+
+// The --due option: the date to set, null for 'none' when clearing is
+// allowed, undefined when the option was not given
+export const dueOption = (text: string | undefined, { clearable }: { clearable: boolean }): DueDate | null | undefined => {
+  if (text === undefined) {
+    return undefined;
+  }
+  if (clearable && text.trim().toLowerCase() === 'none') {
+    return null;
+  }
+  const due = parseDue(text);
+  if (!due) {
+    throw new UsageError(`--due must be today, tomorrow, a date like 2026-10-20 or a date and time like "2026-10-20 09:30"${clearable ? ', or none' : ''}`);
+  }
+  return due;
+};
+
+// The due date for a table: the date for all-day todos, the local date and
+// time for others
+export const formatDue = (
+  todo: { due_at: Date | null; due_all_day: boolean },
+  timeZone: string = localTimeZone()
+): string => {
+  if (!todo.due_at) {
+    return '';
+  }
+  if (todo.due_all_day) {
+    return todo.due_at.toISOString().slice(0, 10);
+  }
+  const time = todo.due_at.toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' });
+  return `${dateIn(todo.due_at, timeZone)} ${time}`;
+};
@@ -0,0 +1,41 @@
+import { GLOBAL_OPTIONS, type Command, type Option } from './command';
+import { formatTable } from './output';
+
+const optionRows = (options: Record<string, Option>): string[][] => Object.entries(options).map(([name, option]) => {
+  const flags = option.short ? `-${option.short}, --${name}` : `    --${name}`;
+  const value = option.type === 'string' ? ` <${option.valueName ?? name}>` : '';
+  const choices = option.choices ? ` (${option.choices.join(', ')})` : '';
+  return [`  ${flags}${value}`, `${option.description}${choices}`];
+});
+
+// Two columns without a header row
+const columns = (rows: string[][]): string => formatTable(['', ''], rows).split('\n').slice(1).join('\n');
+
+export const formatHelp = (commands: Command[]): string => [
+  'Usage: todo <command> [options]',
+  '',
+  'Commands:',
+  columns(commands.map(command => [`  ${command.name}`, command.summary])),
+  '',
+  'Options:',
+  columns(optionRows(GLOBAL_OPTIONS)),
+  '',
+  'The server and token come from --server and --token, then TODO_SERVER and',
+  'TODO_TOKEN, then the config file (see "todo config"). Create a token under',
+  'API tokens in the app.',
+  '',
+  'Run "todo help <command>" for the options of a command.'
+].join('\n');
+
+export const formatCommandHelp = (command: Command): string => {
+  const options = optionRows(command.options);
+  return [
+    `Usage: todo ${command.name}${command.usage ? ` ${command.usage}` : ''} [options]`,
+    '',
+    command.summary,
+    ...(options.length > 0 ? ['', 'Options:', columns(options)] : []),
+    '',
+    'Global options:',
+    columns(optionRows(GLOBAL_OPTIONS))
+  ].join('\n');
+};
@@ -0,0 +1,36 @@
+import { type Client } from './client';
+import { UsageError } from './command';
+
+// Lists and tags are named on the command line; the API takes their ids.
+
+// The list with the id or, ignoring case, the name
+export const resolveListId = async (client: Client, nameOrId: string): Promise<number> => {
+  const lists = await client.getLists.query();
+  const wanted = nameOrId.trim().toLowerCase();
+  const list = lists.find(list => String(list.id) === wanted) ?? lists.find(list => list.name.toLowerCase() === wanted);
+  if (!list) {
+    throw new UsageError(`There is no list called "${nameOrId}"`);
+  }
+  return list.id;
+};
+
+// The tags with the names, ignoring case. Missing tags are created when
+// asked to, and are an error otherwise.
+export const resolveTagIds = async (client: Client, names: string[], { create }: { create: boolean }): Promise<number[]> => {
+  if (names.length === 0) {
+    return [];
+  }
+  const tags = await client.getTags.query();
+  const ids: number[] = [];
+  for (const name of names) {
+    const tag = tags.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+    if (tag) {
+      ids.push(tag.id);
+    } else if (create) {
+      ids.push((await client.createTag.mutate({ name })).id);
+    } else {
+      throw new UsageError(`There is no tag called "${name}"`);
+    }
+  }
+  return [...new Set(ids)];
+};
@@ -0,0 +1,33 @@
+// Where commands print. JSON mode prints what the API returned, for scripts
+// to parse; text mode prints for people.
+
+export type Output = {
+  json: boolean;
+  print: (text: string) => void; // A line to stdout
+  printJson: (value: unknown) => void;
+  warn: (text: string) => void; // A line to stderr
+};
+
+type Stream = { write: (text: string) => unknown };
+
+export const createOutput = (json: boolean, stdout: Stream = process.stdout, stderr: Stream = process.stderr): Output => ({
+  json,
+  print: (text) => stdout.write(`${text}\n`),
+  printJson: (value) => stdout.write(`${JSON.stringify(value, null, 2)}\n`),
+  warn: (text) => stderr.write(`${text}\n`)
+});
+
+// Columns padded to their widest cell; the last one is left ragged so long
+// titles do not pad every line
+export const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => (row[column] ?? '').length)));
+  const line = (cells: string[]) => cells
+    .map((cell, column) => column === cells.length - 1 ? cell : cell.padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+  return [line(headers), ...rows.map(line)].join('\n');
+};
+
+// "1 todo", "3 todos"
+export const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCommandLine, run, splitCommand } from '../cli';
+import { UsageError } from '../command';
+import { addCommand } from '../commands/add';
+import { createOutput } from '../output';
+
+// Runs the command line, collecting what it prints
+const runCli = async (argv: string[], env: Record<string, string | undefined> = {}, stdin = '') => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const output = createOutput(argv.includes('--json'), { write: text => stdout.push(text) }, { write: text => stderr.push(text) });
+  const status = await run(argv, { env, output, readStdin: async () => stdin });
+  return { status, stdout: stdout.join(''), stderr: stderr.join('') };
+};
+
+describe('command line', () => {
+  it('should find the command after global options and their values', () => {
+    expect(splitCommand(['--server', 'ls', '--json', 'add', 'Buy', 'milk'])).toEqual({
+      name: 'add',
+      rest: ['--server', 'ls', '--json', 'Buy', 'milk']
+    });
+    expect(splitCommand(['--json'])).toEqual({ name: undefined, rest: ['--json'] });
+  });
+
+  it('should parse the command and global options together', () => {
+    const { options, args } = parseCommandLine(addCommand, ['Buy', 'milk', '-p', 'high', '-t', 'home', '--tag=errands', '--json']);
+
+    expect(args).toEqual(['Buy', 'milk']);
+    expect(options).toEqual({ priority: 'high', tag: ['home', 'errands'], json: true });
+    expect(() => parseCommandLine(addCommand, ['--undo'])).toThrow(UsageError);
+  });
+
+  it('should exit with 2 on usage errors, explaining them on stderr', async () => {
+    const unknown = await runCli(['frobnicate']);
+    const badChoice = await runCli(['add', 'Milk', '-p', 'highest', '--token', 'todo_pat_x']);
+
+    expect(unknown.status).toEqual(2);
+    expect(unknown.stderr).toEqual('todo: Unknown command "frobnicate"; see "todo help"\n');
+    expect(badChoice.status).toEqual(2);
+    expect(badChoice.stderr).toContain('--priority must be one of none, low, medium, high, urgent');
+  });
+
+  it('should report errors as JSON in JSON mode', async () => {
+    const result = await runCli(['ls', '--json'], { TODO_CONFIG: join(tmpdir(), 'todo-missing', 'config.json') });
+
+    expect(result.status).toEqual(2);
+    expect(JSON.parse(result.stderr).error.code).toEqual('USAGE');
+    expect(result.stdout).toEqual('');
+  });
+
+  it('should show help for todo and for each command', async () => {
+    const general = await runCli(['--help']);
+    const command = await runCli(['edit', '-h']);
+
+    expect(general.status).toEqual(0);
+    expect(general.stdout).toContain('completion  Print a shell completion script');
+    expect(command.stdout).toContain('Usage: todo edit <id> [options]');
+    expect(command.stdout).toContain('--untag <tag>');
+  });
+
+  it('should save settings, reading values from stdin when asked', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'todo-cli-')), 'config.json');
+    const env = { TODO_CONFIG: path };
+
+    await runCli(['config', 'set', 'server', 'https://todos.example.com/api'], env);
+    await runCli(['config', 'set', 'token', '-'], env, 'todo_pat_abcdefghijklmnopqrstuvwxyz\n');
+    const list = await runCli(['config', '--json'], env);
+    const badServer = await runCli(['config', 'set', 'server', 'not a url'], env);
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({
+      server: 'https://todos.example.com/api',
+      token: 'todo_pat_abcdefghijklmnopqrstuvwxyz'
+    });
+    expect(JSON.parse(list.stdout)).toEqual({
+      server: { value: 'https://todos.example.com/api', source: 'file' },
+      token: { value: 'todo_pat_abcd...wxyz', source: 'file' }
+    });
+    expect(badServer.status).toEqual(2);
+  });
+});
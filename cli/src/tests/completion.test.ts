@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'bun:test';
+import { COMMANDS } from '../commands';
+import { completionScript } from '../completion';
+
+describe('completionScript', () => {
+  it('should complete commands, options and their choices in bash', () => {
+    const script = completionScript('bash', COMMANDS);
+
+    expect(script).toContain('"") words="add ls done edit rm export config completion help" ;;');
+    expect(script).toContain('-s|--status) COMPREPLY=($(compgen -W "pending completed all" -- "$cur")); return ;;');
+    expect(script).toContain('-o|--output) COMPREPLY=($(compgen -f -- "$cur")); return ;;');
+    expect(script).toContain('complete -F _todo todo');
+  });
+
+  it('should escape descriptions for zsh specs', () => {
+    const script = completionScript('zsh', COMMANDS);
+
+    expect(script).toContain(`'(-p --priority)'{-p,--priority}'[How important it is]:priority:(none low medium high urgent)'`);
+    expect(script).toContain(`'*'{-t,--tag}'[Tag to attach, created if missing; repeat for more]:tag: '`);
+    expect(script).toContain('"2026-10-20 09\\:30"');
+  });
+
+  it('should limit options to their command in fish', () => {
+    const script = completionScript('fish', COMMANDS);
+
+    expect(script).toContain(`complete -c todo -n '__fish_seen_subcommand_from done' -l undo -d 'Mark them as pending again'`);
+    expect(script).toContain(`complete -c todo -n '__fish_seen_subcommand_from completion' -a 'bash zsh fish'`);
+  });
+});
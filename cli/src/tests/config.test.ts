@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configPath, DEFAULT_SERVER, maskToken, readConfig, resolveSetting, writeConfig } from '../config';
+
+let dir: string;
+
+describe('config', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'todo-config-'));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find the file from the environment', () => {
+    expect(configPath({ TODO_CONFIG: '/etc/todo.json' })).toEqual('/etc/todo.json');
+    expect(configPath({ XDG_CONFIG_HOME: '/home/ada/.config' })).toEqual('/home/ada/.config/todo/config.json');
+  });
+
+  it('should write settings only the owner can read and read them back', () => {
+    const path = join(dir, 'todo', 'config.json');
+
+    expect(readConfig(path)).toEqual({});
+    writeConfig(path, { server: 'https://todos.example.com/api', token: 'todo_pat_secret' });
+
+    expect(readConfig(path)).toEqual({ server: 'https://todos.example.com/api', token: 'todo_pat_secret' });
+    expect(statSync(path).mode & 0o777).toEqual(0o600);
+  });
+
+  it('should ignore unknown and malformed settings and report invalid files', () => {
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({ server: 'http://localhost:2022', token: 42, color: 'red' }));
+
+    expect(readConfig(path)).toEqual({ server: 'http://localhost:2022' });
+    writeFileSync(path, '{server');
+    expect(() => readConfig(path)).toThrow('is not valid JSON');
+  });
+
+  it('should prefer flags, then the environment, then the file', () => {
+    const file = { server: 'http://file', token: 'file-token' };
+
+    expect(resolveSetting('server', { server: 'http://flag' }, { TODO_SERVER: 'http://env' }, file))
+      .toEqual({ value: 'http://flag', source: 'flag' });
+    expect(resolveSetting('token', {}, { TODO_TOKEN: 'env-token' }, file)).toEqual({ value: 'env-token', source: 'environment' });
+    expect(resolveSetting('token', {}, {}, file)).toEqual({ value: 'file-token', source: 'file' });
+    expect(resolveSetting('server', {}, {}, {})).toEqual({ value: DEFAULT_SERVER, source: 'default' });
+    expect(resolveSetting('token', {}, {}, {})).toEqual({ value: undefined, source: null });
+  });
+
+  it('should mask tokens', () => {
+    expect(maskToken('todo_pat_abcdefghijklmnopqrstuvwxyz')).toEqual('todo_pat_abcd...wxyz');
+    expect(maskToken('short')).toEqual('****');
+  });
+});
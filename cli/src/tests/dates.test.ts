@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+import { UsageError } from '../command';
+import { dueOption, formatDue, parseDue } from '../dates';
+
+// Late evening in New York is already tomorrow in UTC
+const now = new Date('2026-10-19T02:30:00Z');
+
+describe('parseDue', () => {
+  it('should read today and tomorrow as all-day dates in the time zone', () => {
+    expect(parseDue('today', now, 'America/New_York')).toEqual({
+      due_at: new Date('2026-10-18T00:00:00Z'),
+      due_all_day: true,
+      due_time_zone: 'America/New_York'
+    });
+    expect(parseDue('Tomorrow', now, 'UTC')?.due_at).toEqual(new Date('2026-10-20T00:00:00Z'));
+  });
+
+  it('should read dates as all-day and reject impossible ones', () => {
+    expect(parseDue('2026-10-20', now, 'UTC')).toEqual({
+      due_at: new Date('2026-10-20T00:00:00Z'),
+      due_all_day: true,
+      due_time_zone: 'UTC'
+    });
+    expect(parseDue('2026-02-30', now, 'UTC')).toBeNull();
+  });
+
+  it('should read dates with times as instants', () => {
+    expect(parseDue('2026-10-20T09:30Z', now, 'Europe/Paris')).toEqual({
+      due_at: new Date('2026-10-20T09:30:00Z'),
+      due_all_day: false,
+      due_time_zone: 'Europe/Paris'
+    });
+    expect(parseDue('2026-10-20 09:30+02:00', now, 'UTC')?.due_at).toEqual(new Date('2026-10-20T07:30:00Z'));
+  });
+
+  it('should refuse anything else', () => {
+    expect(parseDue('next week', now, 'UTC')).toBeNull();
+    expect(parseDue('20/10/2026', now, 'UTC')).toBeNull();
+  });
+});
+
+describe('dueOption', () => {
+  it('should clear the due date with none only where allowed', () => {
+    expect(dueOption(undefined, { clearable: true })).toBeUndefined();
+    expect(dueOption('none', { clearable: true })).toBeNull();
+    expect(() => dueOption('none', { clearable: false })).toThrow(UsageError);
+  });
+});
+
+describe('formatDue', () => {
+  it('should show all-day dates as dates and others in the time zone', () => {
+    expect(formatDue({ due_at: new Date('2026-10-20T00:00:00Z'), due_all_day: true }, 'America/New_York')).toEqual('2026-10-20');
+    expect(formatDue({ due_at: new Date('2026-10-20T09:30:00Z'), due_all_day: false }, 'Europe/Paris')).toEqual('2026-10-20 11:30');
+    expect(formatDue({ due_at: null, due_all_day: false }, 'UTC')).toEqual('');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { createOutput, formatTable, plural } from '../output';
+
+describe('formatTable', () => {
+  it('should pad columns to their widest cell and leave the last ragged', () => {
+    const table = formatTable(['ID', 'DUE', 'TITLE'], [
+      ['1', '2026-10-20', 'Buy milk'],
+      ['12', '', 'Walk the dog']
+    ]);
+
+    expect(table).toEqual([
+      'ID  DUE         TITLE',
+      '1   2026-10-20  Buy milk',
+      '12              Walk the dog'
+    ].join('\n'));
+  });
+
+  it('should not leave trailing spaces on rows with empty last cells', () => {
+    expect(formatTable(['ID', 'TAGS'], [['1', '']])).toEqual('ID  TAGS\n1');
+  });
+});
+
+describe('createOutput', () => {
+  it('should print lines and JSON to stdout and warnings to stderr', () => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const output = createOutput(true, { write: text => stdout.push(text) }, { write: text => stderr.push(text) });
+
+    output.print('Done');
+    output.printJson({ id: 1 });
+    output.warn('Careful');
+
+    expect(output.json).toBe(true);
+    expect(stdout).toEqual(['Done\n', '{\n  "id": 1\n}\n']);
+    expect(stderr).toEqual(['Careful\n']);
+  });
+});
+
+describe('plural', () => {
+  it('should add an s unless there is one', () => {
+    expect(plural(1, 'todo')).toEqual('1 todo');
+    expect(plural(0, 'todo')).toEqual('0 todos');
+  });
+});
@@ -0,0 +1,67 @@
+// Service worker that lets the built app open without a network connection.
+// Installing caches index.html and the scripts and styles it references;
+// other same-origin files are cached the first time they load. API calls
+// under /api always go to the network, the app keeps its own data offline.
+
+const CACHE = 'todo-app-shell-v1';
+
+// Asset paths referenced by the built index.html, e.g. /assets/index-abc123.js
+const assetUrls = (html) =>
+  [...html.matchAll(/(?:src|href)="(\/[^"]+)"/g)].map((match) => match[1]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    const response = await fetch('/index.html', { cache: 'no-cache' });
+    const html = await response.clone().text();
+    await cache.put('/index.html', response);
+    // One missing file, such as an absent favicon, should not fail the install
+    await Promise.all(assetUrls(html).map((url) => cache.add(url).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+// Drop caches left by earlier versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name !== CACHE).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api')) {
+    return;
+  }
+
+  // Pages come from the network when possible so new builds are picked up
+  if (event.request.mode === 'navigate') {
+    event.respondWith((async () => {
+      const cache = await caches.open(CACHE);
+      try {
+        const response = await fetch(event.request);
+        await cache.put('/index.html', response.clone());
+        return response;
+      } catch {
+        return (await cache.match('/index.html')) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  // Built assets have content hashes in their names, so cached copies stay valid
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE);
+    const cached = await cache.match(event.request);
+    if (cached) {
+      return cached;
+    }
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  })());
+});
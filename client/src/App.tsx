@@ -5,89 +5,847 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import TodoFilters from '@/components/TodoFilters';
+import type { TodoListFilters } from '@/components/TodoFilters';
+import DueDatePicker from '@/components/DueDatePicker';
+import type { DueDateValue } from '@/components/DueDatePicker';
+import PrioritySelect from '@/components/PrioritySelect';
+import TagInput from '@/components/TagInput';
+import ListSidebar from '@/components/ListSidebar';
+import AuthScreen from '@/components/AuthScreen';
+import SubtaskTree from '@/components/SubtaskTree';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
+import ConflictDialog from '@/components/ConflictDialog';
+import TrashSheet from '@/components/TrashSheet';
+import TodoHistorySheet from '@/components/TodoHistorySheet';
+import BulkActionBar from '@/components/BulkActionBar';
+import ReorderControls from '@/components/ReorderControls';
+import SearchPalette from '@/components/SearchPalette';
+import ExportMenu from '@/components/ExportMenu';
+import ImportDialog from '@/components/ImportDialog';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
+import ApiTokensSheet from '@/components/ApiTokensSheet';
+import type { BulkChanges } from '@/components/BulkActionBar';
+import type { TodoChanges, TodoConflict } from '@/components/ConflictDialog';
+import { browserTimeZone, formatDueDate, isOverdue } from '@/utils/dueDates';
+import { describeRule } from '@/utils/recurrence';
+import { applyTodoChange, findTodo } from '@/utils/todoChanges';
+import { draftTodo, nextTempId, replayOutbox, updateChanges } from '@/utils/outbox';
+import { addToOutbox, clearOfflineData, readCachedPage, readOutbox, writeCachedPage } from '@/utils/offlineStore';
+import type { OutboxEntry } from '@/utils/offlineStore';
 import { trpc } from '@/utils/trpc';
+import { getAuthToken, getCachedUser, setAuthToken, setCachedUser } from '@/utils/auth';
+import { conflictingTodo, fieldErrors, isNetworkError, reportError } from '@/utils/errors';
+import type { FieldErrors } from '@/utils/errors';
 import { useState, useEffect, useCallback } from 'react';
-import type { Todo, CreateTodoInput } from '../../server/src/schema';
+import { toast } from 'sonner';
+import type {
+  AuthSession,
+  BulkItemResult,
+  CreateListInput,
+  ListDeleteMode,
+  ListSummary,
+  SearchResult,
+  Tag,
+  Todo,
+  TodoChange,
+  TodoListItem,
+  CreateTodoInput,
+  DueBucket,
+  TodoPage,
+  TodoPriority,
+  User
+} from '../../server/src/schema';
 
-function App() {
-  const [todos, setTodos] = useState<Todo[]>([]);
+const PAGE_SIZE = 10;
+const RECONNECT_INTERVAL_MS = 30_000; // How often to look for the server while offline
+const SEARCH_DELAY_MS = 300; // Waits for a pause in typing before searching the list
+const JUMP_HIGHLIGHT_MS = 2000; // How long the todo jumped to stays highlighted
+
+// Identifies a page of todos in the offline cache
+const pageCacheKey = (userId: number, filters: TodoListFilters, cursor: string | null): string =>
+  `${userId}:${JSON.stringify({ ...filters, cursor })}`;
+
+interface TodoAppProps {
+  user: User;
+  onLogOut: () => void;
+}
+
+function TodoApp({ user, onLogOut }: TodoAppProps) {
+  const [todos, setTodos] = useState<TodoListItem[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [lists, setLists] = useState<ListSummary[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingTodos, setIsLoadingTodos] = useState(true);
 
+  // List state: filters, cursor of every visited page, and the current page
+  const [filters, setFilters] = useState<TodoListFilters>({
+    status: 'all',
+    sort_by: 'position',
+    sort_direction: 'asc'
+  });
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+
   // Form state
   const [formData, setFormData] = useState<CreateTodoInput>({
     title: '',
-    description: null
+    description: null,
+    priority: 'none',
+    due_at: null,
+    due_all_day: false,
+    due_time_zone: null,
+    recurrence_rule: null,
+    tag_ids: []
   });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
+  const [conflict, setConflict] = useState<TodoConflict | null>(null);
+  const [trash, setTrash] = useState<Todo[]>([]);
+  const [historyTodoId, setHistoryTodoId] = useState<number | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [selectionAnchorId, setSelectionAnchorId] = useState<number | null>(null); // Last clicked todo
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [jumpTargetId, setJumpTargetId] = useState<number | null>(null); // Waiting to appear in the list
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+
+  // Offline state: whether the server is unreachable, changes waiting to be
+  // sent, and the cache key of the page on screen
+  const [isOffline, setIsOffline] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [pageKey, setPageKey] = useState<string | null>(null);
 
-  // Load todos
+  const showPage = (page: TodoPage, key: string) => {
+    setTodos(page.items);
+    setNextCursor(page.nextCursor);
+    setTotalCount(page.totalCount);
+    setPageKey(key);
+  };
+
+  // Load todos, falling back to the cached page while the server is unreachable
   const loadTodos = useCallback(async () => {
+    const key = pageCacheKey(user.id, filters, pageCursors[pageIndex]);
     try {
       setIsLoadingTodos(true);
-      const result = await trpc.getTodos.query();
-      setTodos(result);
+      const result = await trpc.getTodos.query({
+        ...filters,
+        time_zone: browserTimeZone,
+        limit: PAGE_SIZE,
+        cursor: pageCursors[pageIndex]
+      });
+      showPage(result, key);
+      setIsOffline(false);
     } catch (error) {
-      console.error('Failed to load todos:', error);
+      if (isNetworkError(error)) {
+        const cached = await readCachedPage(key).catch(() => undefined);
+        showPage(cached ?? { items: [], nextCursor: null, totalCount: 0 }, key);
+        setIsOffline(true);
+      } else {
+        reportError('Failed to load todos', error);
+      }
     } finally {
       setIsLoadingTodos(false);
     }
-  }, []);
+  }, [user.id, filters, pageCursors, pageIndex]);
 
   useEffect(() => {
     loadTodos();
   }, [loadTodos]);
 
+  // Remember the page on screen, changes made offline included
+  useEffect(() => {
+    if (!pageKey) return;
+    writeCachedPage(pageKey, { items: todos, nextCursor, totalCount })
+      .catch((error: unknown) => console.error('Failed to cache todos:', error));
+  }, [pageKey, todos, nextCursor, totalCount]);
+
+  // Load tags for autocomplete and filtering
+  const loadTags = useCallback(async () => {
+    try {
+      const result = await trpc.getTags.query();
+      setTags(result);
+    } catch (error) {
+      reportError('Failed to load tags', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Load lists with their todo counts for the sidebar
+  const loadLists = useCallback(async () => {
+    try {
+      const result = await trpc.getLists.query();
+      setLists(result);
+    } catch (error) {
+      reportError('Failed to load lists', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  // Send changes made offline; returns how many were handled
+  const syncOutbox = useCallback(async (): Promise<number> => {
+    try {
+      const sent = await replayOutbox((entry: OutboxEntry, error: unknown) => {
+        const current = conflictingTodo(error);
+        if (current && entry.type !== 'create') {
+          setConflict({ current, changes: entry.type === 'update' ? updateChanges(entry.input) : null });
+        } else {
+          reportError('Failed to sync a change made offline', error);
+        }
+      });
+      setPendingCount((await readOutbox()).length);
+      return sent;
+    } catch (error) {
+      console.error('Failed to sync changes made offline:', error);
+      return 0;
+    }
+  }, []);
+
+  // Changes left queued by an earlier visit go out as soon as possible
+  useEffect(() => {
+    const sendQueued = async () => {
+      if (await syncOutbox() > 0) {
+        await loadTodos();
+        await loadLists();
+      }
+    };
+    sendQueued();
+  }, [syncOutbox, loadTodos, loadLists]);
+
+  // While offline, look for the server now and then, and when the browser
+  // reports a connection again
+  useEffect(() => {
+    if (!isOffline) return;
+    const reconnect = async () => {
+      try {
+        await trpc.healthcheck.query();
+      } catch {
+        return;
+      }
+      await syncOutbox();
+      await loadTodos();
+      await loadLists();
+    };
+    const timer = setInterval(reconnect, RECONNECT_INTERVAL_MS);
+    window.addEventListener('online', reconnect);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', reconnect);
+    };
+  }, [isOffline, syncOutbox, loadTodos, loadLists]);
+
+  // Apply changes made in other tabs or by other devices as they happen
+  useEffect(() => {
+    const subscription = trpc.onTodoChanged.subscribe(undefined, {
+      onData: (change: TodoChange) => {
+        setTodos((prev: TodoListItem[]) => applyTodoChange(prev, change, filters, pageIndex === 0));
+        // Keep the sidebar's counts current
+        loadLists();
+      },
+      onError: (error: unknown) => reportError('Live updates stopped', error)
+    });
+    return () => subscription.unsubscribe();
+  }, [filters, pageIndex, loadLists]);
+
+  // Selections only span the page on screen
+  useEffect(() => {
+    setSelectedIds([]);
+    setSelectionAnchorId(null);
+  }, [filters, pageIndex]);
+
+  // Changing filters or sorting starts again from the first page
+  const handleFiltersChange = (newFilters: TodoListFilters) => {
+    setFilters(newFilters);
+    setPageCursors([null]);
+    setPageIndex(0);
+    setJumpTargetId(null);
+  };
+
+  // The search box filters the list once typing pauses
+  useEffect(() => {
+    const search = searchText.trim() || undefined;
+    if (search === filters.search) return;
+    const timer = setTimeout(() => {
+      setFilters((prev: TodoListFilters) => ({ ...prev, search }));
+      setPageCursors([null]);
+      setPageIndex(0);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, filters.search]);
+
+  // Ctrl+K (Cmd+K on macOS) opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setIsPaletteOpen((prev: boolean) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Shows the top-level todo of a palette result. Todos not on screen are
+  // looked for by searching the whole list for the same words.
+  const jumpToTodo = (result: SearchResult, query: string) => {
+    setIsPaletteOpen(false);
+    if (!todos.some((todo: TodoListItem) => todo.id === result.root_id)) {
+      setSearchText(query);
+      handleFiltersChange({ status: 'all', sort_by: filters.sort_by, sort_direction: filters.sort_direction, search: query });
+    }
+    setJumpTargetId(result.root_id);
+  };
+
+  // Scroll to the todo jumped to as soon as it is on screen, and highlight it for a moment
+  useEffect(() => {
+    if (jumpTargetId === null || !todos.some((todo: TodoListItem) => todo.id === jumpTargetId)) return;
+    document.querySelector(`[data-todo-id="${jumpTargetId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(jumpTargetId);
+    setJumpTargetId(null);
+  }, [todos, jumpTargetId]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), JUMP_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Due views list the most pressing todos first, the rest keeps the manual order
+  const handleDueViewChange = (view: string) => {
+    const dueBucket = view === 'all' ? undefined : view as DueBucket;
+    handleFiltersChange({
+      ...filters,
+      due_bucket: dueBucket,
+      sort_by: dueBucket ? 'due_at' : 'position',
+      sort_direction: 'asc'
+    });
+  };
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setPageCursors((prev: (string | null)[]) => [...prev.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex((prev: number) => prev + 1);
+  };
+
+  const goToPreviousPage = () => {
+    setPageIndex((prev: number) => Math.max(prev - 1, 0));
+  };
+
   // Create todo
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.title.trim()) return;
 
+    const input: CreateTodoInput = {
+      ...formData,
+      // Add to the list being viewed; the server falls back to the Inbox
+      list_id: filters.list_id,
+      // Timed due dates remember the zone they were entered in
+      due_time_zone: formData.due_at && !formData.due_all_day ? browserTimeZone : null
+    };
+    const resetForm = () => setFormData({
+      title: '',
+      description: null,
+      priority: 'none',
+      due_at: null,
+      due_all_day: false,
+      due_time_zone: null,
+      recurrence_rule: null,
+      tag_ids: []
+    });
+
     setIsLoading(true);
+    setFormErrors({});
     try {
-      const newTodo = await trpc.createTodo.mutate(formData);
-      setTodos((prev: Todo[]) => [...prev, newTodo]);
-      // Reset form
-      setFormData({
-        title: '',
-        description: null
-      });
+      await trpc.createTodo.mutate(input);
+      // Show the first page so the new todo is placed by the current sort order
+      if (pageIndex === 0) {
+        await loadTodos();
+      } else {
+        setPageIndex(0);
+      }
+      await loadLists();
+      resetForm();
     } catch (error) {
-      console.error('Failed to create todo:', error);
+      if (isNetworkError(error)) {
+        await queueCreate(input, null);
+        resetForm();
+      } else {
+        setFormErrors(fieldErrors(error));
+        reportError('Failed to create todo', error);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Queues a change to send once the server is reachable, and shows it right away
+  const queueOffline = async (entry: OutboxEntry, apply: (items: TodoListItem[]) => TodoListItem[]) => {
+    try {
+      await addToOutbox(entry);
+    } catch (error) {
+      reportError('Failed to save the change offline', error);
+      return;
+    }
+    setIsOffline(true);
+    setPendingCount((count: number) => count + 1);
+    setTodos(apply);
+  };
+
+  const queueCreate = async (input: CreateTodoInput, parent: TodoListItem | null) => {
+    const tempId = nextTempId();
+    const inboxId = lists.find((list: ListSummary) => list.is_inbox)?.id ?? null;
+    const todo = draftTodo(tempId, input, user.id, parent?.list_id ?? inboxId, tags);
+    await queueOffline({ type: 'create', tempId, input }, (items: TodoListItem[]) =>
+      applyTodoChange(items, { type: 'created', todo }, filters, pageIndex === 0)
+    );
+  };
+
+  // Queues an update, or a delete when there are no changes
+  const queueChange = async (todo: Todo, changes: TodoChanges | null) => {
+    const entry: OutboxEntry = changes
+      ? { type: 'update', input: { id: todo.id, expectedVersion: todo.version, ...changes } }
+      : { type: 'delete', input: { id: todo.id, expectedVersion: todo.version } };
+    await queueOffline(entry, (items: TodoListItem[]) => {
+      if (!changes) {
+        return applyTodoChange(items, { type: 'deleted', id: todo.id }, filters, pageIndex === 0);
+      }
+      const existing = findTodo(items, todo.id);
+      if (!existing) return items;
+      const updated = { ...existing, ...changes, version: todo.version + 1, updated_at: new Date() };
+      return applyTodoChange(items, { type: 'updated', todo: updated }, filters, pageIndex === 0);
+    });
+  };
+
+  // Queues writes while offline, offers to resolve writes rejected for being
+  // stale, and reports any other failure
+  const handleWriteError = (action: string, error: unknown, todo: Todo, changes: TodoChanges | null) => {
+    if (isNetworkError(error)) {
+      queueChange(todo, changes);
+      return;
+    }
+    const current = conflictingTodo(error);
+    if (current) {
+      setConflict({ current, changes });
+    } else {
+      reportError(action, error);
+    }
+  };
+
   // Toggle todo completion
   const toggleTodo = async (todo: Todo) => {
+    const changes: TodoChanges = { completed: !todo.completed };
     try {
       const updatedTodo = await trpc.updateTodo.mutate({
         id: todo.id,
-        completed: !todo.completed
+        expectedVersion: todo.version,
+        ...changes
       });
-      setTodos((prev: Todo[]) =>
-        prev.map((t: Todo) => t.id === todo.id ? updatedTodo : t)
+      if (filters.status === 'all' && !todo.recurrence_rule) {
+        setTodos((prev: TodoListItem[]) =>
+          prev.map((t: TodoListItem) => t.id === todo.id ? { ...t, ...updatedTodo } : t)
+        );
+      } else {
+        // The todo no longer matches the status filter, or its next occurrence was created
+        await loadTodos();
+      }
+      await loadLists();
+    } catch (error) {
+      handleWriteError('Failed to update todo', error, todo, changes);
+    }
+  };
+
+  // Create a subtask under a todo
+  const createSubtask = async (parent: TodoListItem, title: string) => {
+    const input: CreateTodoInput = { title, description: null, parent_id: parent.id };
+    try {
+      await trpc.createTodo.mutate(input);
+      await loadTodos();
+      await loadLists();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await queueCreate(input, parent);
+      } else {
+        reportError('Failed to create subtask', error);
+      }
+    }
+  };
+
+  // Toggle subtask completion; reloading refreshes the parent's progress
+  const toggleSubtask = async (subtask: TodoListItem) => {
+    const changes: TodoChanges = { completed: !subtask.completed };
+    try {
+      await trpc.updateTodo.mutate({ id: subtask.id, expectedVersion: subtask.version, ...changes });
+      await loadTodos();
+      await loadLists();
+    } catch (error) {
+      handleWriteError('Failed to update subtask', error, subtask, changes);
+    }
+  };
+
+  // Delete a subtask together with its own subtasks
+  const deleteSubtask = async (subtask: TodoListItem) => {
+    try {
+      await trpc.deleteTodo.mutate({ id: subtask.id, expectedVersion: subtask.version });
+      offerUndo(subtask);
+      await loadTodos();
+      await loadLists();
+    } catch (error) {
+      handleWriteError('Failed to delete subtask', error, subtask, null);
+    }
+  };
+
+  // Change todo priority
+  const changePriority = async (todo: Todo, priority: TodoPriority) => {
+    try {
+      await trpc.updateTodo.mutate({ id: todo.id, expectedVersion: todo.version, priority });
+      // Reload so the todo moves to its place in the priority ordering
+      await loadTodos();
+    } catch (error) {
+      handleWriteError('Failed to update todo priority', error, todo, { priority });
+    }
+  };
+
+  // Create a tag from the tag input; returns null when it could not be created
+  const createTag = async (name: string): Promise<Tag | null> => {
+    try {
+      const tag = await trpc.createTag.mutate({ name });
+      setTags((prev: Tag[]) =>
+        [...prev, tag].sort((a: Tag, b: Tag) => a.name.localeCompare(b.name))
+      );
+      return tag;
+    } catch (error) {
+      reportError('Failed to create tag', error);
+      return null;
+    }
+  };
+
+  // Attach a tag to a todo
+  const attachTag = async (todo: TodoListItem, tag: Tag) => {
+    try {
+      await trpc.attachTag.mutate({ todo_id: todo.id, tag_id: tag.id });
+      setTodos((prev: TodoListItem[]) =>
+        prev.map((t: TodoListItem) =>
+          t.id === todo.id ? { ...t, tags: [...t.tags, tag] } : t
+        )
+      );
+    } catch (error) {
+      reportError('Failed to attach tag', error);
+    }
+  };
+
+  // Detach a tag from a todo
+  const detachTag = async (todo: TodoListItem, tag: Tag) => {
+    try {
+      await trpc.detachTag.mutate({ todo_id: todo.id, tag_id: tag.id });
+      setTodos((prev: TodoListItem[]) =>
+        prev.map((t: TodoListItem) =>
+          t.id === todo.id ? { ...t, tags: t.tags.filter((x: Tag) => x.id !== tag.id) } : t
+        )
       );
     } catch (error) {
-      console.error('Failed to update todo:', error);
+      reportError('Failed to detach tag', error);
+    }
+  };
+
+  // Create a list
+  const createList = async (input: CreateListInput) => {
+    try {
+      await trpc.createList.mutate(input);
+      await loadLists();
+    } catch (error) {
+      reportError('Failed to create list', error);
+    }
+  };
+
+  // Delete a list, either moving its todos to the Inbox or deleting them
+  const deleteList = async (list: ListSummary, mode: ListDeleteMode) => {
+    try {
+      await trpc.deleteList.mutate({ id: list.id, mode });
+      if (filters.list_id === list.id) {
+        handleFiltersChange({ ...filters, list_id: undefined });
+      } else {
+        await loadTodos();
+      }
+      await loadLists();
+    } catch (error) {
+      reportError('Failed to delete list', error);
     }
   };
 
+  const loadTrash = async () => {
+    try {
+      setTrash(await trpc.listTrash.query());
+    } catch (error) {
+      reportError('Failed to load trash', error);
+    }
+  };
+
+  // Bring a todo back from the trash, with the subtasks deleted along with it
+  const restoreTodo = async (todo: Todo) => {
+    try {
+      await trpc.restoreTodo.mutate({ id: todo.id });
+      setTrash((prev: Todo[]) => prev.filter((t: Todo) => t.id !== todo.id));
+      await loadTodos();
+      await loadLists();
+    } catch (error) {
+      reportError('Failed to restore todo', error);
+    }
+  };
+
+  // Imports may add lists and tags as well as todos
+  const reloadAfterImport = async () => {
+    await loadTodos();
+    await loadLists();
+    await loadTags();
+  };
+
+  const emptyTrash = async () => {
+    try {
+      const { deleted } = await trpc.emptyTrash.mutate();
+      setTrash([]);
+      toast(`Permanently deleted ${deleted} ${deleted === 1 ? 'todo' : 'todos'}`);
+    } catch (error) {
+      reportError('Failed to empty trash', error);
+    }
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting((prev: boolean) => !prev);
+    setSelectedIds([]);
+    setSelectionAnchorId(null);
+  };
+
+  // Shift-click selects every todo between the last clicked one and this one
+  const toggleSelected = (todo: Todo, extendRange: boolean) => {
+    const ids = todos.map((t: TodoListItem) => t.id);
+    const anchorIndex = selectionAnchorId === null ? -1 : ids.indexOf(selectionAnchorId);
+    if (extendRange && anchorIndex >= 0) {
+      const index = ids.indexOf(todo.id);
+      const range = ids.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      setSelectedIds((prev: number[]) => [...new Set([...prev, ...range])]);
+    } else {
+      setSelectedIds((prev: number[]) =>
+        prev.includes(todo.id) ? prev.filter((id: number) => id !== todo.id) : [...prev, todo.id]
+      );
+    }
+    setSelectionAnchorId(todo.id);
+  };
+
+  const todoCount = (count: number): string => `${count} ${count === 1 ? 'todo' : 'todos'}`;
+
+  // Reports the todos a bulk operation skipped and returns the ids it changed
+  const bulkSucceeded = (results: BulkItemResult[]): number[] => {
+    const failed = results.filter((result: BulkItemResult) => !result.success);
+    if (failed.length > 0) {
+      toast.error(`${todoCount(failed.length)} could not be changed`, {
+        description: failed[0].error ?? undefined
+      });
+    }
+    return results.filter((result: BulkItemResult) => result.success).map((result: BulkItemResult) => result.id);
+  };
+
+  const bulkUpdate = async (changes: BulkChanges) => {
+    setIsBulkRunning(true);
+    try {
+      const { results } = await trpc.bulkUpdateTodos.mutate({ target: { ids: selectedIds }, changes });
+      const updated = bulkSucceeded(results);
+      if (updated.length > 0) {
+        toast(`Updated ${todoCount(updated.length)}`);
+      }
+      setSelectedIds([]);
+      await loadTodos();
+      await loadLists();
+    } catch (error) {
+      reportError('Failed to update todos', error);
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const bulkDelete = async () => {
+    setIsBulkRunning(true);
+    try {
+      const { results } = await trpc.bulkDeleteTodos.mutate({ target: { ids: selectedIds } });
+      const deleted = bulkSucceeded(results);
+      if (deleted.length > 0) {
+        toast(`Moved ${todoCount(deleted.length)} to trash`, {
+          action: { label: 'Undo', onClick: () => restoreTodos(deleted) }
+        });
+      }
+      setSelectedIds([]);
+      // Step back when every todo on the page was removed
+      if (deleted.length >= todos.length && pageIndex > 0) {
+        goToPreviousPage();
+      } else {
+        await loadTodos();
+      }
+      await loadLists();
+    } catch (error) {
+      reportError('Failed to delete todos', error);
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const restoreTodos = async (ids: number[]) => {
+    try {
+      for (const id of ids) {
+        await trpc.restoreTodo.mutate({ id });
+      }
+    } catch (error) {
+      reportError('Failed to restore todos', error);
+    }
+    await loadTodos();
+    await loadLists();
+  };
+
+  // Todos can be arranged by hand while the list shows the manual order.
+  // Moves are not queued offline, since ranks depend on the server's state.
+  const canReorder = filters.sort_by === 'position' && filters.sort_direction === 'asc' && !isSelecting && !isOffline;
+
+  // Moves a todo to the given index on the page. The server ranks it between
+  // its new neighbours; at the edges of the page, next to the one neighbour
+  // on the page, so it stays clear of todos on other pages.
+  const moveTodo = async (todo: TodoListItem, index: number) => {
+    const others = todos.filter((t: TodoListItem) => t.id !== todo.id);
+    const before = others[index - 1] ?? null;
+    const after = others[index] ?? null;
+    if (!before && !after) return;
+
+    setTodos([...others.slice(0, index), todo, ...others.slice(index)]);
+    try {
+      const moved = await trpc.moveTodo.mutate({ id: todo.id, before_id: before?.id, after_id: after?.id });
+      setTodos((prev: TodoListItem[]) =>
+        prev.map((t: TodoListItem) => t.id === moved.id ? { ...t, ...moved } : t)
+      );
+    } catch (error) {
+      reportError('Failed to move todo', error);
+      await loadTodos();
+    }
+  };
+
+  const startDrag = (e: React.DragEvent<HTMLSpanElement>, todo: TodoListItem) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', todo.title);
+    // Drag the whole card rather than the handle
+    const card = e.currentTarget.closest('[data-todo-card]');
+    if (card) {
+      e.dataTransfer.setDragImage(card, 24, 24);
+    }
+    setDraggedId(todo.id);
+  };
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  // The dragged todo takes the place of the one it is dropped on
+  const dropOn = (target: TodoListItem) => {
+    const dragged = todos.find((t: TodoListItem) => t.id === draggedId);
+    endDrag();
+    if (dragged && dragged.id !== target.id) {
+      moveTodo(dragged, todos.indexOf(target));
+    }
+  };
+
+  // Where the dragged todo would land relative to the card under it
+  const dropIndicator = (todo: TodoListItem): string => {
+    if (dropTargetId !== todo.id || draggedId === null || draggedId === todo.id) return '';
+    const draggedIndex = todos.findIndex((t: TodoListItem) => t.id === draggedId);
+    return draggedIndex < todos.indexOf(todo)
+      ? 'border-b-4 border-b-indigo-400'
+      : 'border-t-4 border-t-indigo-400';
+  };
+
+  // Deleted todos go to the trash, so the toast can offer to take it back
+  const offerUndo = (todo: Todo) => {
+    toast('Moved to trash', {
+      description: todo.title,
+      action: { label: 'Undo', onClick: () => restoreTodo(todo) }
+    });
+  };
+
   // Delete todo
-  const deleteTodo = async (todoId: number) => {
+  const deleteTodo = async (todo: Todo) => {
     try {
-      await trpc.deleteTodo.mutate({ id: todoId });
-      setTodos((prev: Todo[]) => prev.filter((t: Todo) => t.id !== todoId));
+      await trpc.deleteTodo.mutate({ id: todo.id, expectedVersion: todo.version });
+      offerUndo(todo);
+      // Refill the page, stepping back when its last todo was removed
+      if (todos.length === 1 && pageIndex > 0) {
+        goToPreviousPage();
+      } else {
+        await loadTodos();
+      }
+      await loadLists();
     } catch (error) {
-      console.error('Failed to delete todo:', error);
+      handleWriteError('Failed to delete todo', error, todo, null);
     }
   };
 
-  const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-  const totalCount = todos.length;
+  // Keeps the server's copy of a conflicting todo
+  const discardConflict = async () => {
+    setConflict(null);
+    await loadTodos();
+  };
+
+  // Saves the chosen changes on top of the server's copy of a conflicting todo
+  const applyConflict = async (changes: TodoChanges) => {
+    if (!conflict) return;
+    if (Object.keys(changes).length === 0) {
+      await discardConflict();
+      return;
+    }
+    setConflict(null);
+    try {
+      await trpc.updateTodo.mutate({ id: conflict.current.id, expectedVersion: conflict.current.version, ...changes });
+    } catch (error) {
+      handleWriteError('Failed to update todo', error, conflict.current, changes);
+    }
+    await loadTodos();
+    await loadLists();
+  };
+
+  // Deletes a conflicting todo after all
+  const deleteConflict = async () => {
+    if (!conflict) return;
+    setConflict(null);
+    try {
+      await trpc.deleteTodo.mutate({ id: conflict.current.id, expectedVersion: conflict.current.version });
+      offerUndo(conflict.current);
+    } catch (error) {
+      handleWriteError('Failed to delete todo', error, conflict.current, null);
+    }
+    await loadTodos();
+    await loadLists();
+  };
+
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+  const listOf = (todo: Todo): ListSummary | undefined =>
+    lists.find((list: ListSummary) => list.id === todo.list_id);
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
+    <div className={`min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 ${isSelecting ? 'pb-28' : ''}`}>
       <div className="container mx-auto max-w-2xl px-4">
         {/* Header */}
         <div className="text-center mb-8">
@@ -96,12 +854,46 @@ function App() {
           {totalCount > 0 && (
             <div className="mt-4 flex justify-center items-center gap-2">
               <Badge variant="secondary" className="text-sm">
-                {completedCount} of {totalCount} completed
+                {totalCount} {filters.status === 'all' ? '' : `${filters.status} `}
+                {totalCount === 1 ? 'todo' : 'todos'}
               </Badge>
             </div>
           )}
         </div>
 
+        {/* Account and list switcher */}
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <ListSidebar
+            lists={lists}
+            selectedListId={filters.list_id ?? null}
+            onSelect={(listId: number | null) =>
+              handleFiltersChange({ ...filters, list_id: listId ?? undefined })
+            }
+            onCreate={createList}
+            onDelete={deleteList}
+          />
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            {(isOffline || pendingCount > 0) && (
+              <Badge variant="secondary" title="Changes are saved on this device and sent when the server is reachable">
+                {isOffline ? 'Offline' : 'Syncing'}
+                {pendingCount > 0 && ` · ${pendingCount} pending`}
+              </Badge>
+            )}
+            <span>{user.name || user.email}</span>
+            <ExportMenu
+              listId={filters.list_id}
+              listName={lists.find((list: ListSummary) => list.id === filters.list_id)?.name}
+            />
+            <ImportDialog lists={lists} listId={filters.list_id} onImported={reloadAfterImport} />
+            <CalendarFeedDialog />
+            <ApiTokensSheet />
+            <TrashSheet items={trash} onOpen={loadTrash} onRestore={restoreTodo} onEmpty={emptyTrash} />
+            <Button variant="outline" size="sm" className="bg-white" onClick={onLogOut}>
+              Log out
+            </Button>
+          </div>
+        </div>
+
         {/* Add Todo Form */}
         <Card className="mb-8 shadow-lg form-card">
           <CardHeader>
@@ -120,8 +912,12 @@ function App() {
                     }))
                   }
                   className="text-lg"
+                  aria-invalid={formErrors.title ? true : undefined}
                   required
                 />
+                {formErrors.title && (
+                  <p className="mt-1 text-sm text-red-600">{formErrors.title[0]}</p>
+                )}
               </div>
               <div>
                 <Textarea
@@ -136,9 +932,56 @@ function App() {
                   rows={3}
                 />
               </div>
+              <div className="flex flex-wrap gap-2">
+                <PrioritySelect
+                  value={formData.priority ?? 'none'}
+                  onChange={(priority: TodoPriority) =>
+                    setFormData((prev: CreateTodoInput) => ({ ...prev, priority }))
+                  }
+                  disabled={isLoading}
+                />
+                <DueDatePicker
+                  value={{
+                    due_at: formData.due_at ?? null,
+                    due_all_day: formData.due_all_day ?? false
+                  }}
+                  onChange={(value: DueDateValue) =>
+                    setFormData((prev: CreateTodoInput) => ({ ...prev, ...value }))
+                  }
+                  disabled={isLoading}
+                />
+                <RecurrenceEditor
+                  value={formData.recurrence_rule ?? null}
+                  onChange={(rule: string | null) =>
+                    setFormData((prev: CreateTodoInput) => ({ ...prev, recurrence_rule: rule }))
+                  }
+                  disabled={isLoading}
+                />
+              </div>
+              {formData.recurrence_rule && !formData.due_at && (
+                <p className="text-sm text-amber-600">Repeating todos need a due date.</p>
+              )}
+              <TagInput
+                allTags={tags}
+                selectedTags={tags.filter((tag: Tag) => formData.tag_ids?.includes(tag.id))}
+                onAdd={(tag: Tag) =>
+                  setFormData((prev: CreateTodoInput) => ({
+                    ...prev,
+                    tag_ids: [...(prev.tag_ids ?? []), tag.id]
+                  }))
+                }
+                onRemove={(tag: Tag) =>
+                  setFormData((prev: CreateTodoInput) => ({
+                    ...prev,
+                    tag_ids: (prev.tag_ids ?? []).filter((id: number) => id !== tag.id)
+                  }))
+                }
+                onCreate={createTag}
+                disabled={isLoading}
+              />
               <Button 
                 type="submit" 
-                disabled={isLoading || !formData.title.trim()}
+                disabled={isLoading || !formData.title.trim() || (!!formData.recurrence_rule && !formData.due_at)}
                 className="w-full"
                 size="lg"
               >
@@ -150,13 +993,31 @@ function App() {
 
         {/* Todos List */}
         <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              type="search"
+              value={searchText}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchText(e.target.value)}
+              placeholder="🔍 Search todos"
+              aria-label="Search todos"
+              className="bg-white"
+            />
+            <Button
+              variant="outline"
+              className="shrink-0 bg-white"
+              onClick={() => setIsPaletteOpen(true)}
+              title="Jump to a todo (Ctrl+K)"
+            >
+              Jump to… <kbd className="text-xs text-gray-400">Ctrl K</kbd>
+            </Button>
+          </div>
           {isLoadingTodos ? (
             <Card>
               <CardContent className="p-8 text-center">
                 <div className="text-gray-500">Loading todos...</div>
               </CardContent>
             </Card>
-          ) : todos.length === 0 ? (
+          ) : todos.length === 0 && filters.status === 'all' && !filters.due_bucket && !filters.tag_ids && !filters.search ? (
             <Card>
               <CardContent className="p-8 text-center">
                 <div className="text-6xl mb-4">📝</div>
@@ -170,35 +1031,118 @@ function App() {
             </Card>
           ) : (
             <>
-              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-                Your Todos
-              </h2>
-              {todos.map((todo: Todo) => (
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                  <h2 className="text-2xl font-semibold text-gray-800">
+                    Your Todos
+                  </h2>
+                  <Button
+                    variant={isSelecting ? 'secondary' : 'outline'}
+                    size="sm"
+                    className={isSelecting ? '' : 'bg-white'}
+                    onClick={toggleSelecting}
+                    aria-pressed={isSelecting}
+                  >
+                    {isSelecting ? 'Done' : 'Select'}
+                  </Button>
+                </div>
+                <TodoFilters
+                  filters={filters}
+                  tags={tags}
+                  onChange={handleFiltersChange}
+                  disabled={isLoadingTodos}
+                />
+              </div>
+              <Tabs value={filters.due_bucket ?? 'all'} onValueChange={handleDueViewChange}>
+                <TabsList className="w-full">
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="today">Today</TabsTrigger>
+                  <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+                  <TabsTrigger value="overdue">Overdue</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {todos.length === 0 && (
+                <Card>
+                  <CardContent className="p-8 text-center text-gray-500">
+                    No todos match this view.
+                  </CardContent>
+                </Card>
+              )}
+              {todos.map((todo: TodoListItem, index: number) => (
                 <Card 
                   key={todo.id} 
+                  data-todo-card
+                  data-todo-id={todo.id}
                   className={`todo-card-hover ${
                     todo.completed 
                       ? 'completed-todo' 
                       : 'pending-todo'
-                  }`}
+                  } ${isOverdue(todo) ? 'border-red-300 bg-red-50' : ''} ${
+                    selectedIds.includes(todo.id) ? 'ring-2 ring-indigo-400' : ''
+                  } ${highlightedId === todo.id ? 'ring-2 ring-yellow-400' : ''} ${
+                    draggedId === todo.id ? 'opacity-50' : ''
+                  } ${dropIndicator(todo)}`}
+                  onDragOver={(e: React.DragEvent<HTMLDivElement>) => {
+                    if (draggedId === null) return;
+                    e.preventDefault();
+                    setDropTargetId(todo.id);
+                  }}
+                  onDrop={(e: React.DragEvent<HTMLDivElement>) => {
+                    e.preventDefault();
+                    dropOn(todo);
+                  }}
                 >
                   <CardContent className="p-6">
                     <div className="flex items-start gap-4">
-                      <Checkbox
-                        checked={todo.completed}
-                        onCheckedChange={() => toggleTodo(todo)}
-                        className="mt-1"
-                      />
+                      {canReorder && (
+                        <ReorderControls
+                          title={todo.title}
+                          canMoveUp={index > 0}
+                          canMoveDown={index < todos.length - 1}
+                          onMove={(offset: -1 | 1) => moveTodo(todo, index + offset)}
+                          onDragStart={(e: React.DragEvent<HTMLSpanElement>) => startDrag(e, todo)}
+                          onDragEnd={endDrag}
+                        />
+                      )}
+                      {isSelecting ? (
+                        <Checkbox
+                          checked={selectedIds.includes(todo.id)}
+                          onClick={(e: React.MouseEvent) => toggleSelected(todo, e.shiftKey)}
+                          className="mt-1 border-indigo-400"
+                          aria-label={`Select ${todo.title}`}
+                          title="Shift-click to select a range"
+                        />
+                      ) : (
+                        <Checkbox
+                          checked={todo.completed}
+                          onCheckedChange={() => toggleTodo(todo)}
+                          className="mt-1"
+                        />
+                      )}
                       <div className="flex-1 min-w-0">
-                        <h3 
-                          className={`text-lg font-medium mb-2 ${
-                            todo.completed 
-                              ? 'line-through text-gray-500' 
-                              : 'text-gray-900'
-                          }`}
-                        >
-                          {todo.title}
-                        </h3>
+                        <div className="flex items-start justify-between gap-2 mb-2">
+                          <h3 
+                            className={`text-lg font-medium ${
+                              todo.completed 
+                                ? 'line-through text-gray-500' 
+                                : 'text-gray-900'
+                            }`}
+                          >
+                            <button
+                              type="button"
+                              className="text-left hover:underline"
+                              title="Show history"
+                              onClick={() => setHistoryTodoId(todo.id)}
+                            >
+                              {todo.title}
+                            </button>
+                          </h3>
+                          <PrioritySelect
+                            value={todo.priority}
+                            onChange={(priority: TodoPriority) => changePriority(todo, priority)}
+                            size="sm"
+                          />
+                        </div>
                         {todo.description && (
                           <p 
                             className={`text-sm mb-3 ${
@@ -210,9 +1154,42 @@ function App() {
                             {todo.description}
                           </p>
                         )}
+                        <div className="mb-3">
+                          <SubtaskTree
+                            parent={todo}
+                            onToggle={toggleSubtask}
+                            onDelete={deleteSubtask}
+                            onCreate={createSubtask}
+                          />
+                        </div>
+                        <div className="mb-3">
+                          <TagInput
+                            allTags={tags}
+                            selectedTags={todo.tags}
+                            onAdd={(tag: Tag) => attachTag(todo, tag)}
+                            onRemove={(tag: Tag) => detachTag(todo, tag)}
+                            onCreate={createTag}
+                          />
+                        </div>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2 text-xs text-gray-400">
                             <span>Created: {todo.created_at.toLocaleDateString()}</span>
+                            {filters.list_id === undefined && listOf(todo) && (
+                              <span>{listOf(todo)?.icon} {listOf(todo)?.name}</span>
+                            )}
+                            {todo.due_at && (
+                              <Badge
+                                variant={isOverdue(todo) ? 'destructive' : 'outline'}
+                                className="text-xs"
+                              >
+                                {isOverdue(todo) ? '⏰ Overdue' : '📅 Due'}: {formatDueDate(todo)}
+                              </Badge>
+                            )}
+                            {todo.recurrence_rule && (
+                              <Badge variant="outline" className="text-xs">
+                                🔁 {describeRule(todo.recurrence_rule)}
+                              </Badge>
+                            )}
                             {todo.completed && (
                               <Badge variant="outline" className="text-xs">
                                 ✅ Completed
@@ -222,7 +1199,7 @@ function App() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => deleteTodo(todo.id)}
+                            onClick={() => deleteTodo(todo)}
                             className="text-red-500 hover:text-red-700 hover:bg-red-50"
                           >
                             🗑️ Delete
@@ -233,6 +1210,39 @@ function App() {
                   </CardContent>
                 </Card>
               ))}
+              {(pageIndex > 0 || nextCursor) && (
+                <Pagination className="pt-2">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        aria-disabled={pageIndex === 0}
+                        className={pageIndex === 0 ? 'pointer-events-none opacity-50' : ''}
+                        onClick={(e: React.MouseEvent<HTMLAnchorElement>) => {
+                          e.preventDefault();
+                          goToPreviousPage();
+                        }}
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <span className="px-3 text-sm text-gray-600">
+                        Page {pageIndex + 1} of {pageCount}
+                      </span>
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        aria-disabled={!nextCursor}
+                        className={!nextCursor ? 'pointer-events-none opacity-50' : ''}
+                        onClick={(e: React.MouseEvent<HTMLAnchorElement>) => {
+                          e.preventDefault();
+                          goToNextPage();
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
             </>
           )}
         </div>
@@ -247,8 +1257,101 @@ function App() {
           </div>
         )}
       </div>
+
+      <SearchPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} onSelect={jumpToTodo} />
+
+      <ConflictDialog
+        conflict={conflict}
+        onApply={applyConflict}
+        onDelete={deleteConflict}
+        onDiscard={discardConflict}
+      />
+
+      {isSelecting && (
+        <BulkActionBar
+          count={selectedIds.length}
+          lists={lists}
+          tags={tags}
+          disabled={isBulkRunning}
+          onUpdate={bulkUpdate}
+          onDelete={bulkDelete}
+          onSelectAll={() => setSelectedIds(todos.map((todo: TodoListItem) => todo.id))}
+          onCancel={toggleSelecting}
+        />
+      )}
+
+      <TodoHistorySheet
+        todo={historyTodoId === null ? null : findTodo(todos, historyTodoId) ?? null}
+        lists={lists}
+        onClose={() => setHistoryTodoId(null)}
+      />
     </div>
   );
 }
 
+// Shows the todo app for a signed-in user, the login screen otherwise
+function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+
+  // Resume the stored session, if it is still valid
+  useEffect(() => {
+    const resumeSession = async () => {
+      if (!getAuthToken()) {
+        setIsCheckingSession(false);
+        return;
+      }
+      try {
+        const current = await trpc.me.query();
+        setCachedUser(current);
+        setUser(current);
+      } catch (error) {
+        // Without a connection the session cannot be checked; keep using it
+        const cached = getCachedUser();
+        if (isNetworkError(error) && cached) {
+          setUser(cached);
+          return;
+        }
+        console.error('Failed to resume session:', error);
+        setAuthToken(null);
+        setCachedUser(null);
+      } finally {
+        setIsCheckingSession(false);
+      }
+    };
+    resumeSession();
+  }, []);
+
+  const handleAuthenticated = (session: AuthSession) => {
+    setAuthToken(session.token);
+    setCachedUser(session.user);
+    setUser(session.user);
+  };
+
+  const handleLogOut = async () => {
+    try {
+      await trpc.logOut.mutate();
+    } catch (error) {
+      reportError('Failed to log out', error);
+    } finally {
+      setAuthToken(null);
+      setCachedUser(null);
+      // Cached todos and unsent changes belong to this user only
+      await clearOfflineData().catch((error: unknown) => console.error('Failed to clear offline data:', error));
+      setUser(null);
+    }
+  };
+
+  if (isCheckingSession) {
+    return null;
+  }
+
+  if (!user) {
+    return <AuthScreen onAuthenticated={handleAuthenticated} />;
+  }
+
+  // Keyed by user so nothing from a previous session is kept
+  return <TodoApp key={user.id} user={user} onLogOut={handleLogOut} />;
+}
+
 export default App;
\ No newline at end of file
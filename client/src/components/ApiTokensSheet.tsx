@@ -0,0 +1,212 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { ApiToken, ApiTokenScope, CreatedApiToken } from '../../../server/src/schema';
+
+// Choices for how long a new token works, in days; 'never' for no expiry
+const EXPIRY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' }
+];
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read_only: 'Read only',
+  read_write: 'Read and write'
+};
+
+const isExpired = (token: ApiToken): boolean => token.expires_at !== null && token.expires_at.getTime() <= Date.now();
+
+// Lists the user's personal access tokens for scripts and creates new ones.
+// The server keeps only a hash, so a token is shown once, right after it is created.
+export default function ApiTokensSheet() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('read_only');
+  const [expiry, setExpiry] = useState('90');
+  const [isWorking, setIsWorking] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    setCreated(null);
+    if (!open) return;
+    try {
+      setTokens(await trpc.getApiTokens.query());
+    } catch (error) {
+      reportError('Failed to load API tokens', error);
+    }
+  };
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    try {
+      const token = await trpc.createApiToken.mutate({
+        name,
+        scope,
+        expires_in_days: expiry === 'never' ? null : Number(expiry)
+      });
+      setCreated(token);
+      setTokens((current: ApiToken[]) => [token, ...current]);
+      setName('');
+    } catch (error) {
+      reportError('Failed to create the API token', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const revokeToken = async (token: ApiToken) => {
+    setRevokingId(token.id);
+    try {
+      await trpc.revokeApiToken.mutate({ id: token.id });
+      setTokens((current: ApiToken[]) => current.filter((other: ApiToken) => other.id !== token.id));
+      if (created?.id === token.id) setCreated(null);
+      toast.success(`Revoked "${token.name}"`);
+    } catch (error) {
+      reportError('Failed to revoke the API token', error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!created) return;
+    try {
+      await navigator.clipboard.writeText(created.token);
+      toast.success('Token copied');
+    } catch (error) {
+      reportError('Failed to copy the token', error);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-white">
+          🔑 API tokens
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>API tokens</SheetTitle>
+          <SheetDescription>
+            Let scripts and the command line use your todos. Send a token as "Authorization: Bearer &lt;token&gt;".
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={createToken} className="space-y-3 px-4">
+          <div className="space-y-1">
+            <Label htmlFor="api-token-name">Name</Label>
+            <Input
+              id="api-token-name"
+              placeholder="What is it for?"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label>Access</Label>
+              <Select value={scope} onValueChange={(value: string) => setScope(value as ApiTokenScope)}>
+                <SelectTrigger className="w-full bg-white" aria-label="Access">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map((value: ApiTokenScope) => (
+                    <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label>Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="w-full bg-white" aria-label="Expires after">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button type="submit" className="w-full" disabled={isWorking || !name.trim()}>
+            Create token
+          </Button>
+        </form>
+
+        {created && (
+          <div className="space-y-2 px-4">
+            <Label htmlFor="api-token-value">New token</Label>
+            <div className="flex gap-2">
+              <Input
+                id="api-token-value"
+                readOnly
+                value={created.token}
+                onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+              />
+              <Button variant="outline" onClick={copyToken}>Copy</Button>
+            </div>
+            <p className="text-sm text-gray-500">This token is only shown now. Store it somewhere safe before closing.</p>
+          </div>
+        )}
+
+        {tokens.length === 0 ? (
+          <p className="px-4 text-sm text-gray-500">No API tokens yet.</p>
+        ) : (
+          <ul className="space-y-2 px-4 pb-4">
+            {tokens.map((token: ApiToken) => (
+              <li key={token.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 truncate font-medium">
+                    {token.name}
+                    <Badge variant="secondary">{SCOPE_LABELS[token.scope]}</Badge>
+                    {isExpired(token) && <Badge variant="destructive">Expired</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {token.last_used_at ? `Last used ${token.last_used_at.toLocaleString()}` : 'Never used'}
+                    {' · '}
+                    {token.expires_at ? `${isExpired(token) ? 'Expired' : 'Expires'} ${token.expires_at.toLocaleDateString()}` : 'Never expires'}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  disabled={revokingId === token.id}
+                  onClick={() => revokeToken(token)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,126 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { trpc } from '@/utils/trpc';
+import { errorMessage, fieldErrors } from '@/utils/errors';
+import type { FieldErrors } from '@/utils/errors';
+import { useState } from 'react';
+import type { AuthSession } from '../../../server/src/schema';
+
+type AuthMode = 'log_in' | 'sign_up';
+
+interface AuthScreenProps {
+  onAuthenticated: (session: AuthSession) => void;
+}
+
+export default function AuthScreen({ onAuthenticated }: AuthScreenProps) {
+  const [mode, setMode] = useState<AuthMode>('log_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setErrors({});
+    setIsSubmitting(true);
+    try {
+      const session = mode === 'log_in'
+        ? await trpc.logIn.mutate({ email, password })
+        : await trpc.signUp.mutate({ email, password, name: name.trim() || null });
+      onAuthenticated(session);
+    } catch (error) {
+      console.error('Failed to authenticate:', error);
+      // Field problems show next to their input, anything else below the form
+      const invalidFields = fieldErrors(error);
+      setErrors(invalidFields);
+      setError(Object.keys(invalidFields).length > 0 ? null : errorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="auth-email">Email</Label>
+        <Input
+          id="auth-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+          aria-invalid={errors.email ? true : undefined}
+          required
+        />
+        {errors.email && <p className="text-sm text-red-600">{errors.email[0]}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="auth-password">Password</Label>
+        <Input
+          id="auth-password"
+          type="password"
+          autoComplete={mode === 'log_in' ? 'current-password' : 'new-password'}
+          minLength={mode === 'sign_up' ? 8 : undefined}
+          value={password}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+          aria-invalid={errors.password ? true : undefined}
+          required
+        />
+        {errors.password && <p className="text-sm text-red-600">{errors.password[0]}</p>}
+      </div>
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">✅ Todo App</CardTitle>
+          <CardDescription>Log in or create an account to see your todos.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs
+            value={mode}
+            onValueChange={(value: string) => {
+              setMode(value as AuthMode);
+              setError(null);
+              setErrors({});
+            }}
+          >
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="log_in">Log in</TabsTrigger>
+              <TabsTrigger value="sign_up">Sign up</TabsTrigger>
+            </TabsList>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <TabsContent value="log_in" className="space-y-4">
+                {fields}
+              </TabsContent>
+              <TabsContent value="sign_up" className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="auth-name">Name (optional)</Label>
+                  <Input
+                    id="auth-name"
+                    autoComplete="name"
+                    value={name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                  />
+                </div>
+                {fields}
+              </TabsContent>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {mode === 'log_in' ? 'Log in' : 'Create account'}
+              </Button>
+            </form>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
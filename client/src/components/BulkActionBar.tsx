@@ -0,0 +1,120 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { priorityOrder, priorityStyles } from '@/utils/priorities';
+import type { BulkUpdateTodosInput, ListSummary, Tag, TodoPriority } from '../../../server/src/schema';
+
+export type BulkChanges = BulkUpdateTodosInput['changes'];
+
+interface BulkActionBarProps {
+  count: number; // Number of selected todos
+  lists: ListSummary[];
+  tags: Tag[];
+  disabled?: boolean; // While a bulk operation is running
+  onUpdate: (changes: BulkChanges) => void;
+  onDelete: () => void;
+  onSelectAll: () => void;
+  onCancel: () => void; // Leaves selection mode
+}
+
+// Floats at the bottom of the screen while todos are selected
+export default function BulkActionBar({
+  count,
+  lists,
+  tags,
+  disabled = false,
+  onUpdate,
+  onDelete,
+  onSelectAll,
+  onCancel
+}: BulkActionBarProps) {
+  if (count === 0) return null;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 flex-wrap items-center justify-center gap-2 rounded-lg border bg-white p-2 shadow-xl"
+    >
+      <Badge variant="secondary">{count} selected</Badge>
+      <Button size="sm" variant="outline" disabled={disabled} onClick={() => onUpdate({ completed: true })}>
+        ✅ Complete
+      </Button>
+      <Button size="sm" variant="outline" disabled={disabled} onClick={() => onUpdate({ completed: false })}>
+        ↩️ Reopen
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" disabled={disabled}>Priority ▾</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {priorityOrder.map((priority: TodoPriority) => (
+            <DropdownMenuItem key={priority} onSelect={() => onUpdate({ priority })}>
+              <Badge className={priorityStyles[priority].badgeClassName}>
+                {priorityStyles[priority].label}
+              </Badge>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" disabled={disabled}>Move to ▾</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {lists.map((list: ListSummary) => (
+            <DropdownMenuItem key={list.id} onSelect={() => onUpdate({ list_id: list.id })}>
+              {list.icon} {list.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {tags.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={disabled}>Tags ▾</Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuLabel>Add</DropdownMenuLabel>
+            {tags.map((tag: Tag) => (
+              <DropdownMenuItem key={`add-${tag.id}`} onSelect={() => onUpdate({ add_tag_ids: [tag.id] })}>
+                <span className="size-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Remove</DropdownMenuLabel>
+            {tags.map((tag: Tag) => (
+              <DropdownMenuItem key={`remove-${tag.id}`} onSelect={() => onUpdate({ remove_tag_ids: [tag.id] })}>
+                <span className="size-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+        disabled={disabled}
+        onClick={onDelete}
+      >
+        🗑️ Delete
+      </Button>
+      <Button size="sm" variant="ghost" disabled={disabled} onClick={onSelectAll}>
+        Select page
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
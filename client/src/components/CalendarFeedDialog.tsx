@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { CalendarFeed } from '../../../server/src/schema';
+
+// The server is reached through the same /api prefix as the tRPC client
+const feedUrl = (path: string): string => `${window.location.origin}/api${path}`;
+
+// Shows the URL calendar apps subscribe to for the user's todos. The server
+// keeps no copy of the URL, so it is only shown right after it is created.
+export default function CalendarFeedDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [includeEvents, setIncludeEvents] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    setUrl(null);
+    if (!open) return;
+    try {
+      const current = await trpc.getCalendarFeed.query();
+      setFeed(current);
+      setIncludeEvents(current?.include_events ?? false);
+    } catch (error) {
+      reportError('Failed to load the calendar feed', error);
+    }
+  };
+
+  const createFeed = async () => {
+    setIsWorking(true);
+    try {
+      const created = await trpc.createCalendarFeed.mutate({ include_events: includeEvents });
+      setFeed(created);
+      setUrl(feedUrl(created.path));
+    } catch (error) {
+      reportError('Failed to create the calendar feed', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changeEvents = async (checked: boolean) => {
+    setIncludeEvents(checked);
+    if (!feed) return;
+    try {
+      setFeed(await trpc.updateCalendarFeed.mutate({ include_events: checked }));
+    } catch (error) {
+      setIncludeEvents(!checked);
+      reportError('Failed to update the calendar feed', error);
+    }
+  };
+
+  const deleteFeed = async () => {
+    setIsWorking(true);
+    try {
+      await trpc.deleteCalendarFeed.mutate();
+      setFeed(null);
+      setUrl(null);
+      toast.success('Calendar feed turned off');
+    } catch (error) {
+      reportError('Failed to turn off the calendar feed', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Feed URL copied');
+    } catch (error) {
+      reportError('Failed to copy the feed URL', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-white">
+          📅 Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar feed</DialogTitle>
+          <DialogDescription>
+            Subscribe to your todos from a calendar app. Anyone with the feed URL can read your todos, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="calendar-feed-events">Also show todos with a due date as events</Label>
+          <Switch id="calendar-feed-events" checked={includeEvents} onCheckedChange={changeEvents} />
+        </div>
+
+        {url ? (
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Feed URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="calendar-feed-url"
+                readOnly
+                value={url}
+                onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+              />
+              <Button variant="outline" onClick={copyUrl}>Copy</Button>
+            </div>
+            <p className="text-sm text-gray-500">This URL is only shown now. Add it to your calendar app before closing.</p>
+          </div>
+        ) : feed && (
+          <p className="text-sm text-gray-600">
+            The feed has been on since {feed.created_at.toLocaleDateString()}. Its URL cannot be shown again; create a new one to see it, which stops the old one from working.
+          </p>
+        )}
+
+        <DialogFooter>
+          {feed && (
+            <Button variant="outline" disabled={isWorking} onClick={deleteFeed}>
+              Turn off
+            </Button>
+          )}
+          <Button disabled={isWorking} onClick={createFeed}>
+            {feed ? 'Create a new URL' : 'Create feed URL'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
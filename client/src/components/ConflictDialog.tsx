@@ -0,0 +1,160 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useEffect, useState } from 'react';
+import type { Todo, UpdateTodoInput } from '../../../server/src/schema';
+
+// Fields of an update, without the id and version it was sent with
+export type TodoChanges = Omit<UpdateTodoInput, 'id' | 'expectedVersion'>;
+
+export interface TodoConflict {
+  current: Todo; // The server's copy when the write was rejected
+  changes: TodoChanges | null; // null when the rejected write was a delete
+}
+
+type ChangedField = keyof TodoChanges;
+type Side = 'mine' | 'server';
+
+const fieldLabels: Record<ChangedField, string> = {
+  title: 'Title',
+  description: 'Description',
+  completed: 'Status',
+  list_id: 'List',
+  parent_id: 'Parent',
+  priority: 'Priority',
+  due_at: 'Due',
+  due_all_day: 'All day',
+  due_time_zone: 'Time zone',
+  recurrence_rule: 'Repeats'
+};
+
+const formatValue = (field: ChangedField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'completed') return value ? 'Done' : 'Not done';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value instanceof Date) return value.toLocaleString();
+  return String(value);
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+interface ConflictDialogProps {
+  conflict: TodoConflict | null;
+  // The parent clears the conflict once it has acted on the choice
+  onApply: (changes: TodoChanges) => Promise<void>; // Saves on top of the server's copy
+  onDelete: () => Promise<void>;
+  onDiscard: () => void; // Keeps the server's copy
+}
+
+export default function ConflictDialog({ conflict, onApply, onDelete, onDiscard }: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<ChangedField, Side>>>({});
+
+  // Start every field on the user's own value
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const changes = conflict?.changes ?? null;
+  const differing = changes
+    ? (Object.keys(changes) as ChangedField[]).filter((field: ChangedField) =>
+        !sameValue(changes[field], conflict?.current[field])
+      )
+    : [];
+
+  const merged = (): TodoChanges => {
+    const result: TodoChanges = {};
+    for (const field of differing) {
+      if ((choices[field] ?? 'mine') === 'mine') {
+        Object.assign(result, { [field]: changes?.[field] });
+      }
+    }
+    return result;
+  };
+
+  return (
+    <AlertDialog open={conflict !== null} onOpenChange={(open: boolean) => !open && onDiscard()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>“{conflict?.current.title}” changed elsewhere</AlertDialogTitle>
+          <AlertDialogDescription>
+            {changes
+              ? 'Someone saved this todo after you opened it. Keep your changes, take the saved version, or pick each field.'
+              : 'Someone saved this todo after you opened it. Delete it anyway, or keep the saved version.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {differing.length > 0 && (
+          <div className="space-y-3">
+            {differing.map((field: ChangedField) => (
+              <div key={field} className="space-y-1">
+                <p className="text-sm font-medium">{fieldLabels[field]}</p>
+                <RadioGroup
+                  value={choices[field] || 'mine'}
+                  onValueChange={(side: string) =>
+                    setChoices((prev: Partial<Record<ChangedField, Side>>) => ({ ...prev, [field]: side as Side }))
+                  }
+                  className="grid-cols-2"
+                >
+                  <Label className="font-normal">
+                    <RadioGroupItem value="mine" />
+                    Mine: {formatValue(field, changes?.[field])}
+                  </Label>
+                  <Label className="font-normal">
+                    <RadioGroupItem value="server" />
+                    Saved: {formatValue(field, conflict?.current[field])}
+                  </Label>
+                </RadioGroup>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Take saved version</AlertDialogCancel>
+          {changes ? (
+            <>
+              <AlertDialogAction
+                className={buttonVariants({ variant: 'outline' })}
+                onClick={(e: React.MouseEvent) => {
+                  e.preventDefault();
+                  onApply(merged());
+                }}
+              >
+                Merge selected
+              </AlertDialogAction>
+              <AlertDialogAction
+                onClick={(e: React.MouseEvent) => {
+                  e.preventDefault();
+                  onApply(changes);
+                }}
+              >
+                Keep mine
+              </AlertDialogAction>
+            </>
+          ) : (
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e: React.MouseEvent) => {
+                e.preventDefault();
+                onDelete();
+              }}
+            >
+              Delete anyway
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
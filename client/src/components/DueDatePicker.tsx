@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useState } from 'react';
+import {
+  allDayToLocalDate,
+  combineDateAndTime,
+  formatTime,
+  localDateToAllDay
+} from '@/utils/dueDates';
+
+export interface DueDateValue {
+  due_at: Date | null;
+  due_all_day: boolean;
+}
+
+interface DueDatePickerProps {
+  value: DueDateValue;
+  onChange: (value: DueDateValue) => void;
+  disabled?: boolean;
+}
+
+export default function DueDatePicker({ value, onChange, disabled = false }: DueDatePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [time, setTime] = useState<string>(
+    value.due_at && !value.due_all_day ? formatTime(value.due_at) : '09:00'
+  );
+
+  // Calendar date currently selected, in local time
+  const selectedDate = value.due_at
+    ? value.due_all_day ? allDayToLocalDate(value.due_at) : value.due_at
+    : undefined;
+
+  const emit = (date: Date | undefined, allDay: boolean, timeValue: string) => {
+    if (!date) {
+      onChange({ due_at: null, due_all_day: allDay });
+      return;
+    }
+    onChange({
+      due_at: allDay ? localDateToAllDay(date) : combineDateAndTime(date, timeValue),
+      due_all_day: allDay
+    });
+  };
+
+  const label = !value.due_at
+    ? '📅 Set due date'
+    : value.due_all_day
+      ? `📅 ${allDayToLocalDate(value.due_at).toLocaleDateString()}`
+      : `📅 ${value.due_at.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled} className="justify-start font-normal">
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          onSelect={(date: Date | undefined) => emit(date, value.due_all_day, time)}
+          initialFocus
+        />
+        <div className="space-y-3 border-t p-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="due-all-day"
+              checked={value.due_all_day}
+              onCheckedChange={(checked: boolean | 'indeterminate') =>
+                emit(selectedDate, checked === true, time)
+              }
+            />
+            <Label htmlFor="due-all-day">All day</Label>
+          </div>
+          {!value.due_all_day && (
+            <Input
+              type="time"
+              value={time}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setTime(e.target.value);
+                emit(selectedDate, false, e.target.value);
+              }}
+            />
+          )}
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => emit(undefined, false, time)}
+            >
+              Clear
+            </Button>
+            <Button type="button" size="sm" onClick={() => setIsOpen(false)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,54 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { downloadFile, fileFormatOrder, fileFormats } from '@/utils/todoFiles';
+import { useState } from 'react';
+import type { TodoFileFormat } from '../../../server/src/schema';
+
+interface ExportMenuProps {
+  listId?: number; // Exports only this list's todos when set
+  listName?: string;
+}
+
+// Downloads the todos as a file in the chosen format
+export default function ExportMenu({ listId, listName }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportAs = async (format: TodoFileFormat) => {
+    setIsExporting(true);
+    try {
+      downloadFile(await trpc.exportTodos.query({ format, list_id: listId }));
+    } catch (error) {
+      reportError('Failed to export todos', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-white" disabled={isExporting}>
+          ⬇️ Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{listName ? `Export ${listName}` : 'Export all todos'}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {fileFormatOrder.map((format: TodoFileFormat) => (
+          <DropdownMenuItem key={format} onSelect={() => exportAs(format)}>
+            {fileFormats[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
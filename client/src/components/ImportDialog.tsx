@@ -0,0 +1,269 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { csvHeaders, fieldOfHeader, fileFormatOrder, fileFormats, formatOfFile, importFieldLabels } from '@/utils/todoFiles';
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import type {
+  ImportAction,
+  ImportField,
+  ImportItemResult,
+  ImportResult,
+  ListSummary,
+  TodoFileFormat
+} from '../../../server/src/schema';
+
+interface ImportDialogProps {
+  lists: ListSummary[];
+  listId?: number; // Where todos that name no list go; the Inbox when unset
+  onImported: () => Promise<void>; // Reloads what the import changed
+}
+
+interface ChosenFile {
+  name: string;
+  format: TodoFileFormat;
+  content: string;
+}
+
+const IGNORE = 'ignore'; // Select value for CSV columns that are not read
+
+const actionLabels: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip'
+};
+
+const acceptedExtensions = fileFormatOrder.flatMap((format: TodoFileFormat) => fileFormats[format].extensions).join(',');
+
+// Imports a todo file after previewing what it would change
+export default function ImportDialog({ lists, listId, onImported }: ImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<ChosenFile | null>(null);
+  const [columns, setColumns] = useState<Record<string, ImportField | null>>({});
+  const [targetListId, setTargetListId] = useState<number | undefined>(listId);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setFile(null);
+      setPreview(null);
+      setTargetListId(listId);
+    }
+  };
+
+  const chooseFile = async (chosen: File | undefined) => {
+    if (!chosen) return;
+    const format = formatOfFile(chosen.name);
+    if (!format) {
+      toast.error('Unsupported file', { description: 'Choose a .json, .csv, .md, .txt or .ics file.' });
+      return;
+    }
+
+    const content = await chosen.text();
+    // Columns named like a field are read as that field until mapped otherwise
+    const headers = format === 'csv' ? csvHeaders(content) : [];
+    setColumns(Object.fromEntries(headers.map((header: string) => [header, fieldOfHeader(header)])));
+    setFile({ name: chosen.name, format, content });
+    setPreview(null);
+  };
+
+  const mapColumn = (header: string, value: string) => {
+    setColumns((prev: Record<string, ImportField | null>) => ({
+      ...prev,
+      [header]: value === IGNORE ? null : value as ImportField
+    }));
+    setPreview(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const result = await trpc.importTodos.mutate({
+        format: file.format,
+        content: file.content,
+        dry_run: dryRun,
+        list_id: targetListId,
+        csv_columns: file.format === 'csv' ? columns : undefined
+      });
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      toast.success('Import finished', {
+        description: `${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+      });
+      setIsOpen(false);
+      await onImported();
+    } catch (error) {
+      reportError(dryRun ? 'Failed to preview the import' : 'Failed to import todos', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const isTitleMapped = Object.values(columns).includes('title');
+  const inboxId = lists.find((list: ListSummary) => list.is_inbox)?.id;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-white">
+          ⬆️ Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import todos</DialogTitle>
+          <DialogDescription>
+            From a JSON export, a CSV file, a Markdown checklist, a todo.txt file or an iCalendar file. Todos that match existing ones by id or title are updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => fileInput.current?.click()}
+          onKeyDown={(e: React.KeyboardEvent) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              e.preventDefault();
+              fileInput.current?.click();
+            }
+          }}
+          onDragOver={(e: React.DragEvent) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e: React.DragEvent) => {
+            e.preventDefault();
+            setIsDragging(false);
+            chooseFile(e.dataTransfer.files[0]);
+          }}
+          className={`cursor-pointer rounded-lg border-2 border-dashed p-6 text-center text-sm transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+          }`}
+        >
+          {file
+            ? <>📄 {file.name} <span className="text-gray-500">({fileFormats[file.format].label})</span></>
+            : 'Drop a file here or click to choose one'}
+          <input
+            ref={fileInput}
+            type="file"
+            accept={acceptedExtensions}
+            className="hidden"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              chooseFile(e.target.files?.[0]);
+              e.target.value = ''; // Choosing the same file again still reads it
+            }}
+          />
+        </div>
+
+        {file && (
+          <div className="space-y-2">
+            <Label>Todos without a list go to</Label>
+            <Select
+              value={(targetListId ?? inboxId)?.toString()}
+              onValueChange={(value: string) => {
+                setTargetListId(parseInt(value, 10));
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {lists.map((list: ListSummary) => (
+                  <SelectItem key={list.id} value={list.id.toString()}>
+                    {list.icon} {list.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {file?.format === 'csv' && (
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            {Object.keys(columns).map((header: string) => (
+              <div key={header} className="flex items-center gap-2">
+                <span className="w-1/2 truncate text-sm" title={header}>{header}</span>
+                <Select value={columns[header] ?? IGNORE} onValueChange={(value: string) => mapColumn(header, value)}>
+                  <SelectTrigger className="w-1/2" aria-label={`Field for column ${header}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE}>Don't import</SelectItem>
+                    {(Object.keys(importFieldLabels) as ImportField[]).map((field: ImportField) => (
+                      <SelectItem key={field} value={field}>{importFieldLabels[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {!isTitleMapped && (
+              <p className="text-sm text-red-600">Choose the column that holds the title.</p>
+            )}
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{preview.created} to create</Badge>
+              <Badge variant="secondary">{preview.updated} to update</Badge>
+              <Badge variant="secondary">{preview.skipped} to skip</Badge>
+            </div>
+            <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border p-2 text-sm">
+              {preview.items.map((item: ImportItemResult) => (
+                <li key={item.row} className="flex items-baseline gap-2">
+                  <span className="w-10 shrink-0 text-right text-gray-400">{item.row}</span>
+                  <Badge variant={item.action === 'skip' ? 'outline' : 'secondary'}>{actionLabels[item.action]}</Badge>
+                  <span className="truncate">{item.title ?? 'Untitled'}</span>
+                  {item.reason && <span className="text-gray-500">— {item.reason}</span>}
+                </li>
+              ))}
+              {preview.items.length === 0 && (
+                <li className="text-gray-500">The file has no todos.</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={!file || isWorking || (file.format === 'csv' && !isTitleMapped)}
+            onClick={() => run(true)}
+          >
+            Preview
+          </Button>
+          <Button
+            disabled={!preview || isWorking || preview.created + preview.updated === 0}
+            onClick={() => run(false)}
+          >
+            {isWorking ? 'Working…' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,189 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import {
+  NavigationMenu,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList
+} from '@/components/ui/navigation-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useState } from 'react';
+import type { CreateListInput, ListDeleteMode, ListSummary } from '../../../server/src/schema';
+
+interface ListSidebarProps {
+  lists: ListSummary[];
+  selectedListId: number | null; // null shows todos from every list
+  onSelect: (listId: number | null) => void;
+  onCreate: (input: CreateListInput) => Promise<void>;
+  onDelete: (list: ListSummary, mode: ListDeleteMode) => Promise<void>;
+}
+
+export default function ListSidebar({
+  lists,
+  selectedListId,
+  onSelect,
+  onCreate,
+  onDelete
+}: ListSidebarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [listToDelete, setListToDelete] = useState<ListSummary | null>(null);
+  const [formData, setFormData] = useState<CreateListInput>({
+    name: '',
+    icon: '📋'
+  });
+
+  const selectedList = lists.find((list: ListSummary) => list.id === selectedListId);
+
+  const selectList = (listId: number | null) => {
+    onSelect(listId);
+    setIsOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onCreate(formData);
+      setFormData({ name: '', icon: '📋' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmDelete = async (mode: ListDeleteMode) => {
+    if (!listToDelete) return;
+    await onDelete(listToDelete, mode);
+    setListToDelete(null);
+  };
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline" className="bg-white">
+            ☰ {selectedList ? `${selectedList.icon} ${selectedList.name}` : 'All lists'}
+          </Button>
+        </SheetTrigger>
+        <SheetContent side="left" className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Lists</SheetTitle>
+            <SheetDescription>Switch between your lists or create a new one.</SheetDescription>
+          </SheetHeader>
+          <NavigationMenu orientation="vertical" viewport={false} className="max-w-none px-4 items-stretch">
+            <NavigationMenuList className="flex-col items-stretch">
+              <NavigationMenuItem>
+                <NavigationMenuLink
+                  active={selectedListId === null}
+                  onSelect={() => selectList(null)}
+                  className="flex-row items-center justify-between cursor-pointer"
+                >
+                  <span>🗂️ All lists</span>
+                </NavigationMenuLink>
+              </NavigationMenuItem>
+              {lists.map((list: ListSummary) => (
+                <NavigationMenuItem key={list.id} className="group/list flex items-center gap-1">
+                  <NavigationMenuLink
+                    active={selectedListId === list.id}
+                    onSelect={() => selectList(list.id)}
+                    className="flex-1 flex-row items-center justify-between cursor-pointer"
+                  >
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="size-2.5 rounded-full"
+                        style={{ backgroundColor: list.color }}
+                      />
+                      {list.icon} {list.name}
+                    </span>
+                    <span className="text-xs text-gray-500">{list.pending_count}</span>
+                  </NavigationMenuLink>
+                  {!list.is_inbox && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setListToDelete(list)}
+                      aria-label={`Delete list ${list.name}`}
+                    >
+                      🗑️
+                    </Button>
+                  )}
+                </NavigationMenuItem>
+              ))}
+            </NavigationMenuList>
+          </NavigationMenu>
+          <Separator />
+          <form onSubmit={handleSubmit} className="flex gap-2 px-4 pb-4">
+            <Input
+              value={formData.icon || ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateListInput) => ({ ...prev, icon: e.target.value || undefined }))
+              }
+              className="w-14 text-center"
+              aria-label="List icon"
+              maxLength={8}
+            />
+            <Input
+              placeholder="New list name"
+              value={formData.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateListInput) => ({ ...prev, name: e.target.value }))
+              }
+              required
+            />
+            <Button type="submit" disabled={isSubmitting || !formData.name.trim()}>
+              Add
+            </Button>
+          </form>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog
+        open={listToDelete !== null}
+        onOpenChange={(open: boolean) => !open && setListToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{listToDelete?.name}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This list has {listToDelete?.todo_count ?? 0} todo(s). Move them to the Inbox,
+              or delete them together with the list.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmDelete('move_to_inbox')}>
+              Move to Inbox
+            </AlertDialogAction>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => confirmDelete('cascade')}
+            >
+              Delete todos too
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
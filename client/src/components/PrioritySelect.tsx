@@ -0,0 +1,34 @@
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { priorityOrder, priorityStyles } from '@/utils/priorities';
+import type { TodoPriority } from '../../../server/src/schema';
+
+interface PrioritySelectProps {
+  value: TodoPriority;
+  onChange: (priority: TodoPriority) => void;
+  disabled?: boolean;
+  size?: 'sm' | 'default';
+}
+
+export default function PrioritySelect({ value, onChange, disabled = false, size = 'default' }: PrioritySelectProps) {
+  return (
+    <Select
+      value={value || 'none'}
+      onValueChange={(priority: string) => onChange(priority as TodoPriority)}
+      disabled={disabled}
+    >
+      <SelectTrigger size={size} className="bg-white" aria-label="Priority">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {priorityOrder.map((priority: TodoPriority) => (
+          <SelectItem key={priority} value={priority}>
+            <Badge className={priorityStyles[priority].badgeClassName}>
+              {priorityStyles[priority].label}
+            </Badge>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
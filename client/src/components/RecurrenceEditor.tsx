@@ -0,0 +1,152 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useState } from 'react';
+import {
+  describeRule,
+  draftToRule,
+  ruleToDraft,
+  weekdayLabels,
+  weekdays
+} from '@/utils/recurrence';
+import type { RecurrenceDraft, RecurrenceEnd, RecurrenceFrequency, Weekday } from '@/utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  disabled?: boolean;
+}
+
+export default function RecurrenceEditor({ value, onChange, disabled = false }: RecurrenceEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // The draft keeps settings such as the end date while the rule is being edited
+  const [draft, setDraft] = useState<RecurrenceDraft>(() => ruleToDraft(value));
+
+  const update = (changes: Partial<RecurrenceDraft>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(draftToRule(next));
+  };
+
+  const openChange = (open: boolean) => {
+    if (open) {
+      setDraft(ruleToDraft(value));
+    }
+    setIsOpen(open);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={openChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled} className="justify-start font-normal">
+          🔁 {value ? describeRule(value) : 'Repeat'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="start">
+        <div className="flex items-center gap-2">
+          <Label className="w-16">Repeat</Label>
+          <Select
+            value={draft.freq || 'NONE'}
+            onValueChange={(freq: string) => update({ freq: freq as RecurrenceFrequency | 'NONE' })}
+          >
+            <SelectTrigger className="flex-1" aria-label="Repeat frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="NONE">Does not repeat</SelectItem>
+              <SelectItem value="DAILY">Daily</SelectItem>
+              <SelectItem value="WEEKLY">Weekly</SelectItem>
+              <SelectItem value="MONTHLY">Monthly</SelectItem>
+              <SelectItem value="YEARLY">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {draft.freq !== 'NONE' && (
+          <>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="recurrence-interval" className="w-16">Every</Label>
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min={1}
+                value={draft.interval}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  update({ interval: Math.max(parseInt(e.target.value, 10) || 1, 1) })
+                }
+                className="w-20"
+              />
+              <span className="text-sm text-gray-600">
+                {{ DAILY: 'day(s)', WEEKLY: 'week(s)', MONTHLY: 'month(s)', YEARLY: 'year(s)' }[draft.freq]}
+              </span>
+            </div>
+            {draft.freq === 'WEEKLY' && (
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={draft.byDay}
+                onValueChange={(days: string[]) => update({ byDay: days as Weekday[] })}
+                aria-label="Repeat on"
+              >
+                {weekdays.map((day: Weekday) => (
+                  <ToggleGroupItem key={day} value={day} aria-label={weekdayLabels[day]}>
+                    {weekdayLabels[day].slice(0, 2)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+            <div className="flex items-center gap-2">
+              <Label className="w-16">Ends</Label>
+              <Select
+                value={draft.end || 'never'}
+                onValueChange={(end: string) => update({ end: end as RecurrenceEnd })}
+              >
+                <SelectTrigger className="flex-1" aria-label="Repeat ends">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="count">After</SelectItem>
+                  <SelectItem value="until">On date</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.end === 'count' && (
+              <div className="flex items-center gap-2 pl-[4.5rem]">
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.count}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    update({ count: Math.max(parseInt(e.target.value, 10) || 1, 1) })
+                  }
+                  className="w-20"
+                  aria-label="Number of occurrences"
+                />
+                <span className="text-sm text-gray-600">occurrence(s)</span>
+              </div>
+            )}
+            {draft.end === 'until' && (
+              <div className="pl-[4.5rem]">
+                <Input
+                  type="date"
+                  value={draft.until}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ until: e.target.value })}
+                  aria-label="Repeat until"
+                />
+              </div>
+            )}
+          </>
+        )}
+        <div className="flex justify-end">
+          <Button type="button" size="sm" onClick={() => setIsOpen(false)}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
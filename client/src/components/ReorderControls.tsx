@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button';
+
+interface ReorderControlsProps {
+  title: string; // Title of the todo, for screen readers
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMove: (offset: -1 | 1) => Promise<void>;
+  onDragStart: (e: React.DragEvent<HTMLSpanElement>) => void;
+  onDragEnd: () => void;
+}
+
+// Drag handle and move up/down buttons for arranging todos by hand. The
+// buttons make reordering possible from the keyboard.
+export default function ReorderControls({
+  title,
+  canMoveUp,
+  canMoveDown,
+  onMove,
+  onDragStart,
+  onDragEnd
+}: ReorderControlsProps) {
+  // The card moves in the page, so hand focus back to the button that moved it
+  const move = async (e: React.MouseEvent<HTMLButtonElement>, offset: -1 | 1) => {
+    const button = e.currentTarget;
+    await onMove(offset);
+    button.focus();
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-gray-400"
+        disabled={!canMoveUp}
+        onClick={(e: React.MouseEvent<HTMLButtonElement>) => move(e, -1)}
+        aria-label={`Move ${title} up`}
+        title="Move up"
+      >
+        ▲
+      </Button>
+      <span
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        className="cursor-grab select-none px-1 text-gray-400 active:cursor-grabbing"
+        title="Drag to reorder"
+        aria-hidden
+      >
+        ⠿
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-1 text-gray-400"
+        disabled={!canMoveDown}
+        onClick={(e: React.MouseEvent<HTMLButtonElement>) => move(e, 1)}
+        aria-label={`Move ${title} down`}
+        title="Move down"
+      >
+        ▼
+      </Button>
+    </div>
+  );
+}
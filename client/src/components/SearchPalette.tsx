@@ -0,0 +1,121 @@
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { useEffect, useState } from 'react';
+import type { HighlightSegment, SearchResult } from '../../../server/src/schema';
+
+const RESULT_LIMIT = 20;
+const SEARCH_DELAY_MS = 200; // Waits for a pause in typing before searching
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: SearchResult, query: string) => void;
+}
+
+// Text with the parts that matched the search marked
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment: HighlightSegment, index: number) =>
+        segment.match
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
+
+// Ctrl+K palette that searches every todo and jumps to the chosen one
+export default function SearchPalette({ open, onOpenChange, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!open || !text) {
+      setResults([]);
+      return;
+    }
+
+    // Answers to earlier queries are dropped when they arrive late
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await trpc.searchTodos.query({ query: text, limit: RESULT_LIMIT });
+        if (isCurrent) setResults(found);
+      } catch (error) {
+        if (isCurrent) reportError('Search failed', error);
+      } finally {
+        if (isCurrent) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [open, query]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogHeader className="sr-only">
+        <DialogTitle>Search todos</DialogTitle>
+        <DialogDescription>Find a todo by words in its title or description.</DialogDescription>
+      </DialogHeader>
+      <DialogContent className="overflow-hidden p-0">
+        {/* The server ranks the results, so the palette shows them unfiltered */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search todos…"
+          />
+          <CommandList>
+            {query.trim() && !isSearching && (
+              <CommandEmpty>No todos found.</CommandEmpty>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading="Todos">
+                {results.map((result: SearchResult) => (
+                  <CommandItem
+                    key={result.todo.id}
+                    value={String(result.todo.id)}
+                    onSelect={() => onSelect(result, query.trim())}
+                    className="flex-col items-start gap-1"
+                  >
+                    <span className={result.todo.completed ? 'text-gray-500 line-through' : ''}>
+                      {result.todo.parent_id !== null && <span className="text-gray-400">↳ </span>}
+                      <Highlighted segments={result.title} />
+                    </span>
+                    {result.snippet.length > 0 && (
+                      <span className="text-xs text-gray-500">
+                        <Highlighted segments={result.snippet} />
+                      </span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
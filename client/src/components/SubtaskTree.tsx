@@ -0,0 +1,106 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useState } from 'react';
+import type { TodoListItem } from '../../../server/src/schema';
+
+interface SubtaskTreeProps {
+  parent: TodoListItem;
+  onToggle: (todo: TodoListItem) => Promise<void>;
+  onDelete: (todo: TodoListItem) => Promise<void>;
+  // Only passed for the top-level tree; nested levels cannot add subtasks
+  onCreate?: (parent: TodoListItem, title: string) => Promise<void>;
+}
+
+export default function SubtaskTree({ parent, onToggle, onDelete, onCreate }: SubtaskTreeProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [title, setTitle] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { completed, total } = parent.progress;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreate || !title.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onCreate(parent, title.trim());
+      setTitle('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (total === 0 && !onCreate) {
+    return null;
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2">
+      <div className="flex items-center gap-3">
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs">
+            {isOpen ? '▾' : '▸'} Subtasks
+          </Button>
+        </CollapsibleTrigger>
+        {total > 0 && (
+          <>
+            <Progress value={(completed / total) * 100} className="h-1.5 flex-1" />
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {completed}/{total} done
+            </span>
+          </>
+        )}
+      </div>
+      <CollapsibleContent className="space-y-1 border-l pl-4 ml-2">
+        {parent.children.map((child: TodoListItem) => (
+          <div key={child.id} className="space-y-1">
+            <div className="group/subtask flex items-center gap-2">
+              <Checkbox
+                checked={child.completed}
+                onCheckedChange={() => onToggle(child)}
+                aria-label={`Complete ${child.title}`}
+              />
+              <span
+                className={`flex-1 text-sm ${
+                  child.completed ? 'line-through text-gray-400' : 'text-gray-700'
+                }`}
+              >
+                {child.title}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(child)}
+                className="h-6 px-2 text-red-500 hover:text-red-700 hover:bg-red-50"
+                aria-label={`Delete subtask ${child.title}`}
+              >
+                🗑️
+              </Button>
+            </div>
+            {child.children.length > 0 && (
+              <SubtaskTree parent={child} onToggle={onToggle} onDelete={onDelete} />
+            )}
+          </div>
+        ))}
+        {onCreate && (
+          <form onSubmit={handleSubmit} className="flex gap-2 pt-1">
+            <Input
+              placeholder="Add a subtask"
+              value={title}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+              className="h-8 text-sm"
+            />
+            <Button type="submit" size="sm" disabled={isSubmitting || !title.trim()}>
+              Add
+            </Button>
+          </form>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,132 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useState } from 'react';
+import type { Tag } from '../../../server/src/schema';
+
+interface TagInputProps {
+  allTags: Tag[];
+  selectedTags: Tag[];
+  onAdd: (tag: Tag) => void;
+  onRemove: (tag: Tag) => void;
+  // Creates a tag from the typed name; resolves to null when creation failed
+  onCreate: (name: string) => Promise<Tag | null>;
+  disabled?: boolean;
+}
+
+export default function TagInput({
+  allTags,
+  selectedTags,
+  onAdd,
+  onRemove,
+  onCreate,
+  disabled = false
+}: TagInputProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedIds = new Set(selectedTags.map((tag: Tag) => tag.id));
+  const availableTags = allTags.filter((tag: Tag) => !selectedIds.has(tag.id));
+  const trimmedSearch = search.trim();
+  const hasExactMatch = allTags.some(
+    (tag: Tag) => tag.name.toLowerCase() === trimmedSearch.toLowerCase()
+  );
+
+  const selectTag = (tag: Tag) => {
+    onAdd(tag);
+    setSearch('');
+    setIsOpen(false);
+  };
+
+  const createTag = async () => {
+    setIsCreating(true);
+    try {
+      const tag = await onCreate(trimmedSearch);
+      if (tag) {
+        selectTag(tag);
+      }
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {selectedTags.map((tag: Tag) => (
+        <Badge
+          key={tag.id}
+          className="gap-1 border-transparent text-white"
+          style={{ backgroundColor: tag.color }}
+        >
+          {tag.name}
+          <button
+            type="button"
+            onClick={() => onRemove(tag)}
+            disabled={disabled}
+            className="ml-0.5 rounded-full hover:bg-black/20 px-1"
+            aria-label={`Remove tag ${tag.name}`}
+          >
+            ×
+          </button>
+        </Badge>
+      ))}
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" disabled={disabled}>
+            🏷️ Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create..."
+              value={search}
+              onValueChange={setSearch}
+            />
+            <CommandList>
+              <CommandEmpty>{trimmedSearch ? 'No matching tags.' : 'No tags yet.'}</CommandEmpty>
+              {availableTags.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {availableTags.map((tag: Tag) => (
+                    <CommandItem
+                      key={tag.id}
+                      value={tag.name}
+                      onSelect={() => selectTag(tag)}
+                    >
+                      <span
+                        className="size-2.5 rounded-full"
+                        style={{ backgroundColor: tag.color }}
+                      />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {trimmedSearch && !hasExactMatch && (
+                <CommandGroup forceMount>
+                  <CommandItem
+                    value={`create ${trimmedSearch}`}
+                    onSelect={createTag}
+                    disabled={isCreating}
+                    forceMount
+                  >
+                    ➕ Create “{trimmedSearch}”
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type {
+  DueBucket,
+  SortDirection,
+  Tag,
+  TodoSortField,
+  TodoStatusFilter
+} from '../../../server/src/schema';
+
+export interface TodoListFilters {
+  status: TodoStatusFilter;
+  list_id?: number;
+  due_bucket?: DueBucket;
+  tag_ids?: number[];
+  search?: string; // Set by the search box above the list
+  sort_by: TodoSortField;
+  sort_direction: SortDirection;
+}
+
+interface TodoFiltersProps {
+  filters: TodoListFilters;
+  tags: Tag[];
+  onChange: (filters: TodoListFilters) => void;
+  disabled?: boolean;
+}
+
+// Sort field and direction are combined into one select value, e.g. "created_at:desc"
+const sortOptions: { value: `${TodoSortField}:${SortDirection}`; label: string }[] = [
+  { value: 'position:asc', label: 'Manual order' },
+  { value: 'priority:desc', label: 'Priority' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'updated_at:desc', label: 'Recently updated' },
+  { value: 'due_at:asc', label: 'Due soonest' },
+  { value: 'title:asc', label: 'Title A–Z' },
+  { value: 'title:desc', label: 'Title Z–A' }
+];
+
+export default function TodoFilters({ filters, tags, onChange, disabled = false }: TodoFiltersProps) {
+  // The picker filters by a single tag; 'any' clears the filter
+  const selectedTag = filters.tag_ids?.[0]?.toString() ?? 'any';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={filters.status || 'all'}
+        onValueChange={(value: string) =>
+          onChange({ ...filters, status: value as TodoStatusFilter })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-36 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All todos</SelectItem>
+          <SelectItem value="pending">Pending</SelectItem>
+          <SelectItem value="completed">Completed</SelectItem>
+        </SelectContent>
+      </Select>
+      {tags.length > 0 && (
+        <Select
+          value={selectedTag}
+          onValueChange={(value: string) =>
+            onChange({ ...filters, tag_ids: value === 'any' ? undefined : [parseInt(value, 10)] })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-36 bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any tag</SelectItem>
+            {tags.map((tag: Tag) => (
+              <SelectItem key={tag.id} value={tag.id.toString()}>
+                <span className="size-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select
+        value={`${filters.sort_by}:${filters.sort_direction}`}
+        onValueChange={(value: string) => {
+          const [sortBy, sortDirection] = value.split(':');
+          onChange({
+            ...filters,
+            sort_by: sortBy as TodoSortField,
+            sort_direction: sortDirection as SortDirection
+          });
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-44 bg-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { Separator } from '@/components/ui/separator';
+import { trpc } from '@/utils/trpc';
+import { reportError } from '@/utils/errors';
+import { describeChanges, operationLabels } from '@/utils/history';
+import type { ChangeLine } from '@/utils/history';
+import { useCallback, useEffect, useState } from 'react';
+import type { ListSummary, Todo, TodoEvent } from '../../../server/src/schema';
+
+const PAGE_SIZE = 20;
+
+interface TodoHistorySheetProps {
+  todo: Todo | null; // The open todo; null keeps the sheet closed
+  lists: ListSummary[]; // Names the lists a todo moved between
+  onClose: () => void;
+}
+
+export default function TodoHistorySheet({ todo, lists, onClose }: TodoHistorySheetProps) {
+  const [events, setEvents] = useState<TodoEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadHistory = useCallback(async (todoId: number, cursor: number | null) => {
+    setIsLoading(true);
+    try {
+      const page = await trpc.getTodoHistory.query({ todo_id: todoId, limit: PAGE_SIZE, cursor });
+      setEvents((prev: TodoEvent[]) => cursor === null ? page.items : [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      reportError('Failed to load history', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload when another todo is opened, and when the open one changes
+  const todoId = todo?.id ?? null;
+  const version = todo?.version;
+  useEffect(() => {
+    setEvents([]);
+    setNextCursor(null);
+    if (todoId !== null) {
+      loadHistory(todoId, null);
+    }
+  }, [todoId, version, loadHistory]);
+
+  return (
+    <Sheet open={todo !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{todo?.title}</SheetTitle>
+          <SheetDescription>Every change made to this todo, newest first.</SheetDescription>
+        </SheetHeader>
+        <ol className="space-y-4 px-4 pb-4">
+          {events.map((event: TodoEvent, index: number) => (
+            <li key={event.id} className="space-y-1">
+              {index > 0 && <Separator className="mb-4" />}
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-medium">{operationLabels[event.operation]}</span>
+                <time className="text-xs text-gray-500" dateTime={event.created_at.toISOString()}>
+                  {event.created_at.toLocaleString()}
+                </time>
+              </div>
+              {event.actor_id === null && (
+                <p className="text-xs text-gray-500">By the automatic trash cleanup</p>
+              )}
+              <ul className="space-y-0.5 text-sm text-gray-600">
+                {describeChanges(event, lists).map((line: ChangeLine) => (
+                  <li key={line.field}>
+                    <span className="text-gray-500">{line.label}:</span>{' '}
+                    {event.operation === 'created' ? line.after : `${line.before} → ${line.after}`}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+        {!isLoading && events.length === 0 && (
+          <p className="px-4 text-sm text-gray-500">No changes recorded yet.</p>
+        )}
+        {nextCursor !== null && todo && (
+          <div className="px-4 pb-4">
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={isLoading}
+              onClick={() => loadHistory(todo.id, nextCursor)}
+            >
+              Show older changes
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
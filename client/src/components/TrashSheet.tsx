@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useState } from 'react';
+import type { Todo } from '../../../server/src/schema';
+
+interface TrashSheetProps {
+  items: Todo[];
+  onOpen: () => Promise<void>; // Loads the trash when the sheet opens
+  onRestore: (todo: Todo) => Promise<void>;
+  onEmpty: () => Promise<void>;
+}
+
+export default function TrashSheet({ items, onOpen, onRestore, onEmpty }: TrashSheetProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      onOpen();
+    }
+  };
+
+  const restore = async (todo: Todo) => {
+    setRestoringId(todo.id);
+    try {
+      await onRestore(todo);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-white">
+            🗑️ Trash
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Trash</SheetTitle>
+            <SheetDescription>
+              Deleted todos stay here for a while before they are removed for good.
+            </SheetDescription>
+          </SheetHeader>
+          {items.length === 0 ? (
+            <p className="px-4 text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            <ul className="space-y-2 px-4">
+              {items.map((todo: Todo) => (
+                <li key={todo.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{todo.title}</p>
+                    {todo.deleted_at && (
+                      <p className="text-xs text-gray-500">Deleted {todo.deleted_at.toLocaleString()}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={restoringId === todo.id}
+                    onClick={() => restore(todo)}
+                  >
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="px-4 pb-4">
+            <Button
+              variant="outline"
+              className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+              disabled={items.length === 0}
+              onClick={() => setIsConfirmingEmpty(true)}
+            >
+              Empty trash
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={isConfirmingEmpty} onOpenChange={setIsConfirmingEmpty}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {items.length} todo(s) and their subtasks will be deleted permanently. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={onEmpty}>
+              Empty trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import superjson from 'superjson';
+import type { User } from '../../../server/src/schema';
+
+// Bearer token of the current session, kept across reloads
+const TOKEN_KEY = 'todo-app:token';
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const setAuthToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
+
+// The signed-in user, so the app can open without reaching the server
+const USER_KEY = 'todo-app:user';
+
+export const getCachedUser = (): User | null => {
+  const stored = localStorage.getItem(USER_KEY);
+  return stored ? superjson.parse<User>(stored) : null;
+};
+
+export const setCachedUser = (user: User | null): void => {
+  if (user) {
+    localStorage.setItem(USER_KEY, superjson.stringify(user));
+  } else {
+    localStorage.removeItem(USER_KEY);
+  }
+};
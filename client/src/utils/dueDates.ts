@@ -0,0 +1,38 @@
+import type { Todo } from '../../../server/src/schema';
+
+export const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// All-day due dates travel as UTC midnight of their calendar date, so they
+// are converted to and from local calendar dates for display and editing.
+export const allDayToLocalDate = (dueAt: Date): Date =>
+  new Date(dueAt.getUTCFullYear(), dueAt.getUTCMonth(), dueAt.getUTCDate());
+
+export const localDateToAllDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+// Combines a picked calendar date with an "HH:mm" time in the local zone
+export const combineDateAndTime = (date: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map((part: string) => parseInt(part, 10));
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours || 0, minutes || 0);
+};
+
+export const formatTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const startOfToday = (now: Date): Date =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+export const isOverdue = (todo: Todo, now: Date = new Date()): boolean => {
+  if (todo.completed || !todo.due_at) return false;
+  return todo.due_all_day
+    ? allDayToLocalDate(todo.due_at) < startOfToday(now)
+    : todo.due_at < now;
+};
+
+export const formatDueDate = (todo: Todo): string | null => {
+  if (!todo.due_at) return null;
+  if (todo.due_all_day) {
+    return allDayToLocalDate(todo.due_at).toLocaleDateString();
+  }
+  return todo.due_at.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
@@ -0,0 +1,46 @@
+import { TRPCClientError } from '@trpc/client';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/src';
+import type { Todo } from '../../../server/src/schema';
+
+// Zod messages per input field, as sent by the server's error formatter
+export type FieldErrors = Partial<Record<string, string[]>>;
+
+const isApiError = (error: unknown): error is TRPCClientError<AppRouter> =>
+  error instanceof TRPCClientError;
+
+// The server could not be reached, as opposed to rejecting the request
+export const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || (isApiError(error) && !error.data);
+
+export const fieldErrors = (error: unknown): FieldErrors =>
+  isApiError(error) ? error.data?.zodError?.fieldErrors ?? {} : {};
+
+// Message fit for users: the first validation message, the server's message
+// for expected failures, and a generic one for everything else
+export const errorMessage = (error: unknown): string => {
+  if (!isApiError(error)) {
+    return 'Something went wrong. Please try again.';
+  }
+
+  const zodError = error.data?.zodError;
+  if (zodError) {
+    const [first] = [...zodError.formErrors, ...Object.values(zodError.fieldErrors).flat()];
+    if (first) return first;
+  }
+
+  if (!error.data || error.data.code === 'INTERNAL_SERVER_ERROR') {
+    return 'Something went wrong. Please try again.';
+  }
+  return error.message;
+};
+
+// Logs the failure and shows it in a toast
+export const reportError = (action: string, error: unknown): void => {
+  console.error(`${action}:`, error);
+  toast.error(action, { description: errorMessage(error) });
+};
+
+// Server copy of a todo when a write was rejected because it changed since it was read
+export const conflictingTodo = (error: unknown): Todo | null =>
+  isApiError(error) && error.data?.code === 'CONFLICT' ? error.data.currentTodo ?? null : null;
@@ -0,0 +1,68 @@
+import { describeRule } from '@/utils/recurrence';
+import type { ListSummary, TodoEvent, TodoFieldChange, TodoOperation } from '../../../server/src/schema';
+
+export const operationLabels: Record<TodoOperation, string> = {
+  created: '✨ Created',
+  updated: '✏️ Updated',
+  deleted: '🗑️ Moved to trash',
+  restored: '♻️ Restored',
+  purged: '🔥 Deleted permanently'
+};
+
+const fieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  completed: 'Completed',
+  list_id: 'List',
+  parent_id: 'Parent todo',
+  priority: 'Priority',
+  due_at: 'Due',
+  due_all_day: 'All day',
+  due_time_zone: 'Time zone',
+  recurrence_rule: 'Repeats',
+  deleted_at: 'In trash since',
+  tags: 'Tags'
+};
+
+// Fields shown by the operation itself, e.g. the trash timestamp
+const implicitFields: Partial<Record<TodoOperation, string[]>> = {
+  deleted: ['deleted_at'],
+  restored: ['deleted_at']
+};
+
+// History stores values as JSON, so dates arrive as ISO strings
+const formatValue = (field: string, value: unknown, lists: ListSummary[]): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if ((field === 'due_at' || field === 'deleted_at') && typeof value === 'string') {
+    return new Date(value).toLocaleString();
+  }
+  if (field === 'list_id') {
+    const list = lists.find((item: ListSummary) => item.id === value);
+    return list ? `${list.icon} ${list.name}` : 'A deleted list';
+  }
+  if (field === 'parent_id') return `#${value}`;
+  if (field === 'recurrence_rule' && typeof value === 'string') return describeRule(value);
+  return String(value);
+};
+
+export interface ChangeLine {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// The event's changes as readable lines
+export const describeChanges = (event: TodoEvent, lists: ListSummary[]): ChangeLine[] => {
+  const hidden = implicitFields[event.operation] ?? [];
+  return Object.entries(event.changes)
+    .filter(([field]: [string, TodoFieldChange]) => !hidden.includes(field))
+    .map(([field, change]: [string, TodoFieldChange]) => ({
+      field,
+      label: fieldLabels[field] ?? field,
+      before: formatValue(field, change.before, lists),
+      after: formatValue(field, change.after, lists)
+    }));
+};
@@ -0,0 +1,73 @@
+import type {
+  CreateTodoInput,
+  DeleteTodoInput,
+  TodoPage,
+  UpdateTodoInput
+} from '../../../server/src/schema';
+
+// IndexedDB keeps what the app needs while the server is unreachable: the
+// last seen todo pages, and the changes made since, waiting to be sent.
+const DB_NAME = 'todo-app';
+const DB_VERSION = 1;
+const PAGES = 'pages'; // Keyed by user and query
+const OUTBOX = 'outbox'; // Auto-incremented keys keep the order changes were made in
+
+// A change made offline. Todos created offline get a negative temporary id
+// until the server assigns theirs.
+export type OutboxEntry =
+  | { id?: number; type: 'create'; tempId: number; input: CreateTodoInput }
+  | { id?: number; type: 'update'; input: UpdateTodoInput }
+  | { id?: number; type: 'delete'; input: DeleteTodoInput };
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PAGES);
+      request.result.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+};
+
+const objectStore = async (name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+export const readCachedPage = async (key: string): Promise<TodoPage | undefined> =>
+  settle<TodoPage | undefined>((await objectStore(PAGES, 'readonly')).get(key));
+
+export const writeCachedPage = async (key: string, page: TodoPage): Promise<void> => {
+  await settle((await objectStore(PAGES, 'readwrite')).put(page, key));
+};
+
+// Queued changes, oldest first
+export const readOutbox = async (): Promise<OutboxEntry[]> =>
+  settle<OutboxEntry[]>((await objectStore(OUTBOX, 'readonly')).getAll());
+
+export const addToOutbox = async (entry: OutboxEntry): Promise<void> => {
+  await settle((await objectStore(OUTBOX, 'readwrite')).add(entry));
+};
+
+export const replaceOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await settle((await objectStore(OUTBOX, 'readwrite')).put(entry));
+};
+
+export const removeFromOutbox = async (id: number): Promise<void> => {
+  await settle((await objectStore(OUTBOX, 'readwrite')).delete(id));
+};
+
+// Forgets everything stored for the signed-in user, e.g. on logout
+export const clearOfflineData = async (): Promise<void> => {
+  await settle((await objectStore(PAGES, 'readwrite')).clear());
+  await settle((await objectStore(OUTBOX, 'readwrite')).clear());
+};
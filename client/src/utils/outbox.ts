@@ -0,0 +1,125 @@
+import { trpc } from '@/utils/trpc';
+import { isNetworkError } from '@/utils/errors';
+import {
+  readOutbox,
+  removeFromOutbox,
+  replaceOutboxEntry,
+  type OutboxEntry
+} from '@/utils/offlineStore';
+import type { TodoChanges } from '@/components/ConflictDialog';
+import type { CreateTodoInput, Tag, TodoWithTags, UpdateTodoInput } from '../../../server/src/schema';
+
+let lastTempId = 0;
+
+// Temporary ids are negative so they never clash with server ids, and based
+// on the clock so they stay unique across reloads while changes are queued
+export const nextTempId = (): number => {
+  lastTempId = Math.min(-Date.now(), lastTempId - 1);
+  return lastTempId;
+};
+
+// The todo as it will look once the server creates it
+export const draftTodo = (
+  tempId: number,
+  input: CreateTodoInput,
+  ownerId: number,
+  listId: number | null,
+  tags: Tag[]
+): TodoWithTags => {
+  const now = new Date();
+  return {
+    id: tempId,
+    owner_id: ownerId,
+    title: input.title,
+    description: input.description,
+    completed: false,
+    list_id: input.list_id ?? listId,
+    parent_id: input.parent_id ?? null,
+    priority: input.priority ?? 'none',
+    due_at: input.due_at ?? null,
+    due_all_day: input.due_all_day ?? false,
+    due_time_zone: input.due_time_zone ?? null,
+    recurrence_rule: input.recurrence_rule ?? null,
+    position: '', // Sorts first, where the server ranks new todos
+    version: 1,
+    deleted_at: null,
+    created_at: now,
+    updated_at: now,
+    tags: tags.filter((tag: Tag) => input.tag_ids?.includes(tag.id))
+  };
+};
+
+// The fields an update changes, without the id and version it targets
+export const updateChanges = (input: UpdateTodoInput): TodoChanges =>
+  Object.fromEntries(
+    Object.entries(input).filter(([key]: [string, unknown]) => key !== 'id' && key !== 'expectedVersion')
+  );
+
+// Points an entry at the server ids of todos created earlier in the queue
+const remap = (entry: OutboxEntry, serverIds: Map<number, number>): OutboxEntry => {
+  const id = (value: number): number => serverIds.get(value) ?? value;
+  const parentId = (value: number | null | undefined) =>
+    value === null || value === undefined ? value : id(value);
+
+  switch (entry.type) {
+    case 'create':
+      return { ...entry, input: { ...entry.input, parent_id: parentId(entry.input.parent_id) } };
+    case 'update':
+      return { ...entry, input: { ...entry.input, id: id(entry.input.id), parent_id: parentId(entry.input.parent_id) } };
+    case 'delete':
+      return { ...entry, input: { ...entry.input, id: id(entry.input.id) } };
+  }
+};
+
+const send = async (entry: OutboxEntry): Promise<number | null> => {
+  switch (entry.type) {
+    case 'create':
+      return (await trpc.createTodo.mutate(entry.input)).id;
+    case 'update':
+      await trpc.updateTodo.mutate(entry.input);
+      return null;
+    case 'delete':
+      await trpc.deleteTodo.mutate(entry.input);
+      return null;
+  }
+};
+
+const replay = async (onRejected: (entry: OutboxEntry, error: unknown) => void): Promise<number> => {
+  const entries = await readOutbox();
+  const serverIds = new Map<number, number>(); // Temporary id to server id
+  let sent = 0;
+
+  for (const [index, queued] of entries.entries()) {
+    const entry = remap(queued, serverIds);
+    try {
+      const createdId = await send(entry);
+      if (entry.type === 'create' && createdId !== null) {
+        serverIds.set(entry.tempId, createdId);
+        // Store the server id with later changes in case replay stops before them
+        for (const later of entries.slice(index + 1)) {
+          await replaceOutboxEntry(remap(later, serverIds));
+        }
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        break; // Still offline; this and later changes stay queued
+      }
+      onRejected(entry, error);
+    }
+    await removeFromOutbox(entry.id!);
+    sent++;
+  }
+
+  return sent;
+};
+
+let replaying: Promise<number> | null = null;
+
+// Sends queued changes in the order they were made and returns how many were
+// handled. Changes the server rejects are dropped after calling onRejected.
+export const replayOutbox = (onRejected: (entry: OutboxEntry, error: unknown) => void): Promise<number> => {
+  replaying ??= replay(onRejected).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+};
@@ -0,0 +1,17 @@
+import type { TodoPriority } from '../../../server/src/schema';
+
+interface PriorityStyle {
+  label: string;
+  badgeClassName: string;
+}
+
+// Most important first, the order used by pickers
+export const priorityOrder: TodoPriority[] = ['urgent', 'high', 'medium', 'low', 'none'];
+
+export const priorityStyles: Record<TodoPriority, PriorityStyle> = {
+  urgent: { label: 'Urgent', badgeClassName: 'bg-red-600 text-white border-transparent' },
+  high: { label: 'High', badgeClassName: 'bg-orange-500 text-white border-transparent' },
+  medium: { label: 'Medium', badgeClassName: 'bg-yellow-400 text-yellow-950 border-transparent' },
+  low: { label: 'Low', badgeClassName: 'bg-sky-100 text-sky-800 border-sky-200' },
+  none: { label: 'No priority', badgeClassName: 'bg-gray-100 text-gray-600 border-gray-200' }
+};
@@ -0,0 +1,96 @@
+// Builds and describes the RRULE subset the server understands
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurrenceEnd = 'never' | 'count' | 'until';
+
+export const weekdays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = typeof weekdays[number];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year'
+};
+
+// Editable form of a rule; `until` is a "YYYY-MM-DD" date input value
+export interface RecurrenceDraft {
+  freq: RecurrenceFrequency | 'NONE';
+  interval: number;
+  byDay: Weekday[];
+  end: RecurrenceEnd;
+  count: number;
+  until: string;
+}
+
+export const emptyRecurrenceDraft: RecurrenceDraft = {
+  freq: 'NONE',
+  interval: 1,
+  byDay: [],
+  end: 'never',
+  count: 5,
+  until: ''
+};
+
+export const draftToRule = (draft: RecurrenceDraft): string | null => {
+  if (draft.freq === 'NONE') return null;
+
+  const parts = [`FREQ=${draft.freq}`];
+  if (draft.interval > 1) {
+    parts.push(`INTERVAL=${draft.interval}`);
+  }
+  if (draft.freq === 'WEEKLY' && draft.byDay.length > 0) {
+    const days = weekdays.filter((day: Weekday) => draft.byDay.includes(day));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (draft.end === 'count' && draft.count > 0) {
+    parts.push(`COUNT=${draft.count}`);
+  }
+  if (draft.end === 'until' && draft.until) {
+    parts.push(`UNTIL=${draft.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+};
+
+const ruleParts = (rule: string): Map<string, string> =>
+  new Map(rule.split(';').map((part: string) => {
+    const [key, value] = part.split('=');
+    return [key.toUpperCase(), (value ?? '').toUpperCase()];
+  }));
+
+export const ruleToDraft = (rule: string | null | undefined): RecurrenceDraft => {
+  if (!rule) return emptyRecurrenceDraft;
+
+  const parts = ruleParts(rule);
+  const until = parts.get('UNTIL');
+  return {
+    freq: (parts.get('FREQ') as RecurrenceFrequency | undefined) ?? 'NONE',
+    interval: parseInt(parts.get('INTERVAL') ?? '1', 10) || 1,
+    byDay: (parts.get('BYDAY')?.split(',') ?? [])
+      .filter((day: string): day is Weekday => weekdays.includes(day as Weekday)),
+    end: parts.has('COUNT') ? 'count' : until ? 'until' : 'never',
+    count: parseInt(parts.get('COUNT') ?? '5', 10) || 5,
+    until: until ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : ''
+  };
+};
+
+// Human readable summary such as "Every 2 weeks on Mon, Thu, 3 more times"
+export const describeRule = (rule: string): string => {
+  const draft = ruleToDraft(rule);
+  if (draft.freq === 'NONE') return 'Does not repeat';
+
+  const unit = frequencyUnits[draft.freq];
+  let text = draft.interval > 1 ? `Every ${draft.interval} ${unit}s` : `Every ${unit}`;
+  const days = ruleParts(rule).get('BYDAY');
+  if (days) {
+    text += ` on ${days.split(',').map((day: string) => weekdayLabels[day as Weekday] ?? day).join(', ')}`;
+  }
+  if (draft.end === 'count') {
+    text += draft.count === 1 ? ', last time' : `, ${draft.count - 1} more times`;
+  }
+  if (draft.end === 'until') {
+    text += ` until ${new Date(`${draft.until}T00:00:00`).toLocaleDateString()}`;
+  }
+  return text;
+};
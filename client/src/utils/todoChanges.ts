@@ -0,0 +1,97 @@
+import type { TodoListFilters } from '@/components/TodoFilters';
+import type { Tag, TodoChange, TodoListItem, TodoWithTags } from '../../../server/src/schema';
+
+// Whether a top-level todo belongs in the list under the given filters. Due
+// buckets depend on the server's notion of "today" and searches on its word
+// matching, so they are left to the next reload and new todos are not added
+// while either is in use.
+const matchesFilters = (todo: TodoWithTags, filters: TodoListFilters): boolean => {
+  if (filters.status === 'completed' && !todo.completed) return false;
+  if (filters.status === 'pending' && todo.completed) return false;
+  if (filters.list_id !== undefined && todo.list_id !== filters.list_id) return false;
+  const tagIds = todo.tags.map((tag: Tag) => tag.id);
+  return (filters.tag_ids ?? []).every((id: number) => tagIds.includes(id));
+};
+
+const withProgress = (item: TodoListItem): TodoListItem => ({
+  ...item,
+  progress: {
+    completed: item.children.filter((child: TodoListItem) => child.completed).length,
+    total: item.children.length
+  }
+});
+
+export const findTodo = (items: TodoListItem[], id: number): TodoListItem | undefined => {
+  for (const item of items) {
+    const found = item.id === id ? item : findTodo(item.children, id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const removeTodo = (items: TodoListItem[], id: number): TodoListItem[] =>
+  items
+    .filter((item: TodoListItem) => item.id !== id)
+    .map((item: TodoListItem) => withProgress({ ...item, children: removeTodo(item.children, id) }));
+
+const replaceTodo = (items: TodoListItem[], todo: TodoListItem): TodoListItem[] =>
+  items.map((item: TodoListItem) =>
+    item.id === todo.id ? todo : withProgress({ ...item, children: replaceTodo(item.children, todo) })
+  );
+
+const addSubtask = (items: TodoListItem[], parentId: number, subtask: TodoListItem): TodoListItem[] =>
+  items.map((item: TodoListItem) =>
+    withProgress({
+      ...item,
+      children: item.id === parentId
+        ? [...item.children, subtask]
+        : addSubtask(item.children, parentId, subtask)
+    })
+  );
+
+// Ranks compare as plain strings; todos sharing one fall back to their id
+const inManualOrder = (items: TodoListItem[], filters: TodoListFilters): TodoListItem[] => {
+  const sign = filters.sort_direction === 'asc' ? 1 : -1;
+  return [...items].sort((a: TodoListItem, b: TodoListItem) =>
+    sign * (a.position === b.position ? a.id - b.id : a.position < b.position ? -1 : 1)
+  );
+};
+
+// Applies a change pushed by the server to the todos on screen. Known todos
+// are updated in place, and take their new place in the manual order. New
+// ones appear first, on the first page only, since their place in the sort
+// order depends on todos on other pages.
+export const applyTodoChange = (
+  items: TodoListItem[],
+  change: TodoChange,
+  filters: TodoListFilters,
+  isFirstPage: boolean
+): TodoListItem[] => {
+  if (change.type === 'deleted') {
+    return removeTodo(items, change.id);
+  }
+
+  const { todo } = change;
+  const existing = findTodo(items, todo.id);
+  if (existing && existing.version > todo.version) {
+    return items; // A change that was overtaken by one already applied
+  }
+
+  const item = withProgress({ ...todo, children: existing?.children ?? [], progress: { completed: 0, total: 0 } });
+  const isListed = todo.parent_id !== null || matchesFilters(todo, filters);
+
+  if (existing && existing.parent_id === todo.parent_id) {
+    if (!isListed) {
+      return removeTodo(items, todo.id);
+    }
+    const updated = replaceTodo(items, item);
+    return todo.parent_id === null && filters.sort_by === 'position' ? inManualOrder(updated, filters) : updated;
+  }
+
+  // Moved to another parent, or new
+  const others = existing ? removeTodo(items, todo.id) : items;
+  if (todo.parent_id !== null) {
+    return addSubtask(others, todo.parent_id, item);
+  }
+  return isListed && isFirstPage && (existing || (filters.due_bucket === undefined && !filters.search)) ? [item, ...others] : others;
+};
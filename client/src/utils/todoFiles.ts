@@ -0,0 +1,89 @@
+import type { ExportedFile, ImportField, TodoFileFormat } from '../../../server/src/schema';
+
+interface FileFormatInfo {
+  label: string;
+  extensions: string[]; // The first one is what exports are saved as
+}
+
+export const fileFormats: Record<TodoFileFormat, FileFormatInfo> = {
+  json: { label: 'JSON', extensions: ['.json'] },
+  csv: { label: 'CSV (spreadsheets)', extensions: ['.csv'] },
+  markdown: { label: 'Markdown checklist', extensions: ['.md', '.markdown'] },
+  todotxt: { label: 'todo.txt', extensions: ['.txt'] },
+  ical: { label: 'iCalendar', extensions: ['.ics', '.ical'] }
+};
+
+export const fileFormatOrder: TodoFileFormat[] = ['json', 'csv', 'markdown', 'todotxt', 'ical'];
+
+// Fields a CSV column can hold, in the order the mapping offers them
+export const importFieldLabels: Record<ImportField, string> = {
+  title: 'Title',
+  description: 'Description',
+  completed: 'Done',
+  priority: 'Priority',
+  list: 'List',
+  tags: 'Tags',
+  due_at: 'Due',
+  due_all_day: 'All day',
+  due_time_zone: 'Time zone',
+  recurrence_rule: 'Repeats',
+  id: 'Id',
+  parent_id: 'Parent id'
+};
+
+// The format a file is in, going by its name
+export const formatOfFile = (name: string): TodoFileFormat | null => {
+  const lowerName = name.toLowerCase();
+  return fileFormatOrder.find((format: TodoFileFormat) =>
+    fileFormats[format].extensions.some((extension: string) => lowerName.endsWith(extension))
+  ) ?? null;
+};
+
+// Names in the header row of a CSV file, leading blank lines skipped
+export const csvHeaders = (text: string): string[] => {
+  const headers: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let index = text.startsWith('\uFEFF') ? 1 : 0; index < text.length; index++) {
+    const char = text[index];
+    if (isQuoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      isQuoted = true;
+    } else if (char === ',') {
+      headers.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (headers.length > 0 || field !== '') break;
+    } else {
+      field += char;
+    }
+  }
+
+  // Unnamed columns cannot be told apart, so they are left out
+  return [...headers, field].filter((header: string) => header.trim() !== '');
+};
+
+// The field a column holds when left unmapped; the server matches headers the same way
+export const fieldOfHeader = (header: string): ImportField | null => {
+  const name = header.trim().toLowerCase().replace(/\s+/g, '_');
+  return name in importFieldLabels ? name as ImportField : null;
+};
+
+// Saves an exported file through the browser's download
+export const downloadFile = (file: ExportedFile): void => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mime_type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
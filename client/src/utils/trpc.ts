@@ -1,10 +1,31 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getAuthToken } from './auth';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    // Subscriptions stream over server-sent events; EventSource cannot set
+    // headers, so the token travels as a connection param instead
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({
+        url: '/api',
+        transformer: superjson,
+        connectionParams: () => {
+          const token = getAuthToken();
+          return token ? { token } : null;
+        }
+      }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        headers: () => {
+          const token = getAuthToken();
+          return token ? { Authorization: `Bearer ${token}` } : {};
+        }
+      })
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -15,6 +15,13 @@ export default defineConfig({
         target: 'http://localhost:2022',
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api/, ''),
+        // Lets the REST docs point requests back through this proxy
+        headers: { 'X-Forwarded-Prefix': '/api' },
+      },
+      // CalDAV is served at the paths its responses point to
+      '^/(caldav|\\.well-known/caldav)': {
+        target: 'http://localhost:2022',
+        changeOrigin: true,
       },
     },
   },
@@ -0,0 +1,821 @@
+import { createHash } from 'crypto';
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { db } from './db';
+import { caldavObjectsTable, listsTable, tagsTable, todosTable, todoTagsTable, type List } from './db/schema';
+import { importedTodoSchema, type Todo, type User } from './schema';
+import { and, asc, count, desc, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { authenticateToken, basicCredentials, bearerToken, toPublicUser, verifyCredentials, type TokenAccess } from './helpers/auth';
+import { parseComponents, readTodo, todoUid, toICalendar, unescapeText, type Component } from './helpers/icalendar';
+import { exportedTodoOf } from './helpers/todoFormats';
+import { readBody } from './helpers/http';
+import { type DbExecutor } from './helpers/lists';
+import { childElement, childElements, escapeXml, parseXml, type XmlElement } from './helpers/xml';
+import { createTodo } from './handlers/create_todo';
+import { updateTodo } from './handlers/update_todo';
+import { deleteTodo } from './handlers/delete_todo';
+import { createTag } from './handlers/create_tag';
+import { attachTag } from './handlers/attach_tag';
+import { detachTag } from './handlers/detach_tag';
+import { DomainError, VersionConflictError } from './errors';
+
+// A minimal CalDAV server (RFC 4791), so calendar apps can sync todos both
+// ways. Each list is a calendar collection holding a VTODO per todo:
+//
+//   /caldav/                               where clients start
+//   /caldav/principal/                     the signed-in user
+//   /caldav/calendars/                     their calendar home
+//   /caldav/calendars/<list id>/           a list
+//   /caldav/calendars/<list id>/<name>     a todo, todo-<id>.ics unless a client named it
+//
+// Clients sign in with HTTP Basic (email and password) or a bearer token,
+// either a session's or a personal API token; read-only tokens cannot write.
+// It answers PROPFIND, REPORT (calendar-query and calendar-multiget), GET,
+// PUT and DELETE; ETags are the todos' versions, plus a digest of their tags
+// when they have any, as tags change without a new version. Writes go through
+// the same handlers as the API, so history and live updates follow along.
+
+const ROOT = '/caldav/';
+const PRINCIPAL = `${ROOT}principal/`;
+const HOME = `${ROOT}calendars/`;
+const WELL_KNOWN = '/.well-known/caldav';
+
+const DAV = 'DAV:';
+const CALDAV = 'urn:ietf:params:xml:ns:caldav';
+const CALENDARSERVER = 'http://calendarserver.org/ns/';
+const APPLE_ICAL = 'http://apple.com/ns/ical/';
+
+// Prefixes responses use for the namespaces they know
+const PREFIXES: Record<string, string> = { [DAV]: 'd', [CALDAV]: 'c', [CALENDARSERVER]: 'cs', [APPLE_ICAL]: 'ical' };
+
+const DEFAULT_NAME = /^todo-(\d+)\.ics$/;
+const MAX_BODY_BYTES = 5_000_000;
+const ALLOWED_METHODS = 'OPTIONS, GET, HEAD, PUT, DELETE, PROPFIND, PROPPATCH, REPORT';
+
+// Ends a request with a status; condition is the precondition or
+// postcondition element that failed, sent in a DAV:error body
+class CalDAVError extends Error {
+  constructor(readonly status: number, message: string, readonly condition: string | null = null) {
+    super(message);
+    this.name = 'CalDAVError';
+  }
+}
+
+type CalendarObject = {
+  todo: Todo;
+  name: string;
+  uid: string;
+  parentUid: string | null;
+  tags: string[];
+};
+
+type Calendar = {
+  list: List;
+  ctag: string; // Changes whenever a todo in the list or its tags do
+};
+
+type Resource =
+  | { kind: 'root' | 'principal' | 'home'; href: string }
+  | { kind: 'calendar'; href: string; calendar: Calendar }
+  | { kind: 'object'; href: string; calendar: Calendar; object: CalendarObject };
+
+type Path =
+  | { kind: 'root' | 'principal' | 'home' }
+  | { kind: 'calendar'; listId: number }
+  | { kind: 'object'; listId: number; name: string };
+
+// Which properties a PROPFIND or REPORT asks for
+type PropertyRequest =
+  | { type: 'prop'; names: { namespace: string; name: string }[] }
+  | { type: 'allprop' | 'propname' };
+
+const calendarHref = (listId: number): string => `${HOME}${listId}/`;
+
+const objectHref = (listId: number, name: string): string => `${calendarHref(listId)}${encodeURIComponent(name)}`;
+
+// Attaching, detaching, renaming and deleting tags leave versions alone, but
+// the tags are the todo's CATEGORIES, so they count towards its ETag
+const tagsDigest = (names: string[]): string => createHash('sha1').update(names.join('\n')).digest('hex').slice(0, 12);
+
+const etagOf = (object: CalendarObject): string =>
+  object.tags.length === 0 ? `"${object.todo.version}"` : `"${object.todo.version}-${tagsDigest(object.tags)}"`;
+
+// Paths may come as full URLs, as the hrefs of multiget reports do
+const parsePath = (url: string): Path | null => {
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'http://localhost').pathname;
+  } catch {
+    return null;
+  }
+  if (pathname !== ROOT.slice(0, -1) && !pathname.startsWith(ROOT)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = pathname.slice(ROOT.length).split('/').filter(segment => segment !== '').map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  const [section, listId, name, ...rest] = segments;
+  if (section === undefined) {
+    return { kind: 'root' };
+  }
+  if (section === 'principal' && listId === undefined) {
+    return { kind: 'principal' };
+  }
+  if (section !== 'calendars' || rest.length > 0 || (listId !== undefined && !/^\d+$/.test(listId))) {
+    return null;
+  }
+  if (listId === undefined) {
+    return { kind: 'home' };
+  }
+  return name === undefined ? { kind: 'calendar', listId: Number(listId) } : { kind: 'object', listId: Number(listId), name };
+};
+
+export const isCalDAVRequest = (url: string | undefined): boolean => {
+  const pathname = (url ?? '').split('?')[0];
+  return pathname === WELL_KNOWN || pathname === ROOT.slice(0, -1) || pathname.startsWith(ROOT);
+};
+
+// The user of a Basic or Bearer Authorization header. Bearer tokens may be
+// session or API tokens.
+const authenticate = async (req: IncomingMessage): Promise<TokenAccess | null> => {
+  const credentials = basicCredentials(req.headers.authorization);
+  if (credentials) {
+    const user = await verifyCredentials(credentials.email, credentials.password);
+    return user ? { user: toPublicUser(user), scope: 'read_write', isApiToken: false } : null;
+  }
+  const token = bearerToken(req.headers.authorization);
+  return token ? await authenticateToken(token) : null;
+};
+
+const requestBody = async (req: IncomingMessage): Promise<string> => {
+  const body = await readBody(req, MAX_BODY_BYTES);
+  if (body === null) {
+    throw new CalDAVError(413, 'The request body is too large');
+  }
+  return body;
+};
+
+const parseBody = (body: string): XmlElement | null => {
+  if (body.trim() === '') {
+    return null;
+  }
+  try {
+    return parseXml(body);
+  } catch (error) {
+    throw new CalDAVError(400, error instanceof Error ? error.message : 'The request body is not valid XML');
+  }
+};
+
+// Lists with a tag for their contents: the number of live todos, the sum of
+// the versions of all of them and a digest of the live todos' tags, so any
+// write, trashing, purge or tag change changes it
+const loadCalendars = async (ownerId: number, listId?: number): Promise<Calendar[]> => {
+  const lists = await db.select()
+    .from(listsTable)
+    .where(and(eq(listsTable.owner_id, ownerId), listId !== undefined ? eq(listsTable.id, listId) : undefined))
+    .orderBy(desc(listsTable.is_inbox), asc(listsTable.sort_order), asc(listsTable.id))
+    .execute();
+
+  const tags = await db.select({
+    list_id: todosTable.list_id,
+    live: sql<number>`count(*) filter (where ${todosTable.deleted_at} is null)`.mapWith(Number),
+    versions: sql<number>`coalesce(sum(${todosTable.version}), 0)`.mapWith(Number),
+    total: count()
+  })
+    .from(todosTable)
+    .where(and(eq(todosTable.owner_id, ownerId), listId !== undefined ? eq(todosTable.list_id, listId) : undefined))
+    .groupBy(todosTable.list_id)
+    .execute();
+
+  const tagged = await db.select({
+    list_id: todosTable.list_id,
+    digest: sql<string>`md5(string_agg(concat(${todosTable.id}, ':', ${tagsTable.name}), ',' order by ${todosTable.id}, ${tagsTable.name}))`
+  })
+    .from(todoTagsTable)
+    .innerJoin(todosTable, eq(todoTagsTable.todo_id, todosTable.id))
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(and(
+      eq(todosTable.owner_id, ownerId),
+      isNull(todosTable.deleted_at),
+      listId !== undefined ? eq(todosTable.list_id, listId) : undefined
+    ))
+    .groupBy(todosTable.list_id)
+    .execute();
+  const digestOf = new Map(tagged.map(row => [row.list_id, `-${row.digest.slice(0, 12)}`]));
+
+  const tagOf = new Map(tags.map(tag => [tag.list_id, `${tag.live}-${tag.total}-${tag.versions}${digestOf.get(tag.list_id) ?? ''}`]));
+  return lists.map(list => ({ list, ctag: tagOf.get(list.id) ?? '0-0-0' }));
+};
+
+// The live todos of a list as calendar objects, optionally narrowed down
+const loadObjects = async (ownerId: number, listId: number, filter?: SQL): Promise<CalendarObject[]> => {
+  const parentObjects = alias(caldavObjectsTable, 'parent_objects');
+  const rows = await db.select({ todo: todosTable, object: caldavObjectsTable, parentUid: parentObjects.uid })
+    .from(todosTable)
+    .leftJoin(caldavObjectsTable, eq(caldavObjectsTable.todo_id, todosTable.id))
+    .leftJoin(parentObjects, eq(parentObjects.todo_id, todosTable.parent_id))
+    .where(and(
+      eq(todosTable.owner_id, ownerId),
+      eq(todosTable.list_id, listId),
+      isNull(todosTable.deleted_at),
+      filter
+    ))
+    .orderBy(asc(todosTable.id))
+    .execute();
+
+  const ids = rows.map(row => row.todo.id);
+  const tagRows = ids.length > 0
+    ? await db.select({ todo_id: todoTagsTable.todo_id, name: tagsTable.name })
+      .from(todoTagsTable)
+      .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+      .where(inArray(todoTagsTable.todo_id, ids))
+      .orderBy(asc(tagsTable.name))
+      .execute()
+    : [];
+  const tagNames = new Map<number, string[]>();
+  for (const row of tagRows) {
+    tagNames.set(row.todo_id, [...tagNames.get(row.todo_id) ?? [], row.name]);
+  }
+
+  return rows.map(({ todo, object, parentUid }) => ({
+    todo,
+    name: object?.name ?? `todo-${todo.id}.ics`,
+    uid: object?.uid ?? todoUid(todo.id),
+    parentUid: todo.parent_id === null ? null : parentUid ?? todoUid(todo.parent_id),
+    tags: tagNames.get(todo.id) ?? []
+  }));
+};
+
+// The object a resource name stands for. Todos that a client named go only
+// by that name.
+const findObject = async (ownerId: number, listId: number, name: string): Promise<CalendarObject | null> => {
+  const defaultId = DEFAULT_NAME.exec(name)?.[1];
+  const [object] = await loadObjects(ownerId, listId, or(
+    eq(caldavObjectsTable.name, name),
+    defaultId !== undefined ? and(isNull(caldavObjectsTable.name), eq(todosTable.id, Number(defaultId))) : undefined
+  ));
+  return object ?? null;
+};
+
+// The live todo with the UID, in whichever list it is
+const findObjectByUid = async (ownerId: number, uid: string): Promise<{ listId: number; object: CalendarObject } | null> => {
+  const defaultId = /^todo-(\d+)@todo-app$/.exec(uid)?.[1];
+  const todos = await db.select({ id: todosTable.id, list_id: todosTable.list_id })
+    .from(todosTable)
+    .leftJoin(caldavObjectsTable, eq(caldavObjectsTable.todo_id, todosTable.id))
+    .where(and(
+      eq(todosTable.owner_id, ownerId),
+      isNull(todosTable.deleted_at),
+      or(
+        eq(caldavObjectsTable.uid, uid),
+        defaultId !== undefined ? and(isNull(caldavObjectsTable.uid), eq(todosTable.id, Number(defaultId))) : undefined
+      )
+    ))
+    .execute();
+
+  if (todos.length === 0 || todos[0].list_id === null) {
+    return null;
+  }
+  const [object] = await loadObjects(ownerId, todos[0].list_id, eq(todosTable.id, todos[0].id));
+  return object ? { listId: todos[0].list_id, object } : null;
+};
+
+const resolve = async (ownerId: number, path: Path): Promise<Resource | null> => {
+  switch (path.kind) {
+    case 'root':
+      return { kind: 'root', href: ROOT };
+    case 'principal':
+      return { kind: 'principal', href: PRINCIPAL };
+    case 'home':
+      return { kind: 'home', href: HOME };
+    case 'calendar':
+    case 'object': {
+      const [calendar] = await loadCalendars(ownerId, path.listId);
+      if (!calendar) {
+        return null;
+      }
+      if (path.kind === 'calendar') {
+        return { kind: 'calendar', href: calendarHref(calendar.list.id), calendar };
+      }
+      const object = await findObject(ownerId, path.listId, path.name);
+      return object ? { kind: 'object', href: objectHref(calendar.list.id, object.name), calendar, object } : null;
+    }
+  }
+};
+
+const calendarData = (list: List, objects: CalendarObject[]): string => {
+  const uids = new Map(objects.map(object => [object.todo.id, object.uid]));
+  const parentUids = new Map(objects.flatMap(object =>
+    object.todo.parent_id !== null && object.parentUid !== null ? [[object.todo.parent_id, object.parentUid]] : []));
+  return toICalendar(objects.map(object => exportedTodoOf(object.todo, list.name, object.tags)), {
+    name: list.name,
+    events: false,
+    uidOf: (id: number) => uids.get(id) ?? parentUids.get(id) ?? todoUid(id)
+  });
+};
+
+const hrefElement = (href: string): string => `<d:href>${escapeXml(href)}</d:href>`;
+
+const PRIVILEGES = ['read', 'write', 'write-properties', 'write-content', 'bind', 'unbind']
+  .map(privilege => `<d:privilege><d:${privilege}/></d:privilege>`)
+  .join('');
+
+const REPORTS = ['calendar-query', 'calendar-multiget']
+  .map(report => `<d:supported-report><d:report><c:${report}/></d:report></d:supported-report>`)
+  .join('');
+
+// Properties of the resource by prefixed name, as the XML inside them.
+// calendar-data is only sent when asked for by name.
+const propertiesOf = (resource: Resource, user: User): Record<string, string> => {
+  const common = {
+    'd:current-user-principal': hrefElement(PRINCIPAL),
+    'd:principal-URL': hrefElement(PRINCIPAL)
+  };
+  switch (resource.kind) {
+    case 'root':
+      return { ...common, 'd:resourcetype': '<d:collection/>', 'd:displayname': 'Todos' };
+    case 'principal':
+      return {
+        ...common,
+        'd:resourcetype': '<d:collection/><d:principal/>',
+        'd:displayname': escapeXml(user.name ?? user.email),
+        'c:calendar-home-set': hrefElement(HOME),
+        'c:calendar-user-address-set': hrefElement(`mailto:${user.email}`)
+      };
+    case 'home':
+      return { ...common, 'd:resourcetype': '<d:collection/>', 'd:displayname': 'Lists' };
+    case 'calendar': {
+      const { list, ctag } = resource.calendar;
+      return {
+        ...common,
+        'd:resourcetype': '<d:collection/><c:calendar/>',
+        'd:displayname': escapeXml(list.name),
+        'd:getetag': escapeXml(`"${ctag}"`),
+        'd:current-user-privilege-set': PRIVILEGES,
+        'd:supported-report-set': REPORTS,
+        'c:supported-calendar-component-set': '<c:comp name="VTODO"/>',
+        'cs:getctag': escapeXml(ctag),
+        'ical:calendar-color': escapeXml(list.color)
+      };
+    }
+    case 'object':
+      return {
+        'd:resourcetype': '',
+        'd:getetag': escapeXml(etagOf(resource.object)),
+        'd:getcontenttype': 'text/calendar; charset=utf-8; component=VTODO',
+        'd:getlastmodified': resource.object.todo.updated_at.toUTCString()
+      };
+  }
+};
+
+const propertyElement = (key: string, value: string): string => value === '' ? `<${key}/>` : `<${key}>${value}</${key}>`;
+
+const propstat = (properties: string[], status: string): string => properties.length === 0
+  ? ''
+  : `<d:propstat><d:prop>${properties.join('')}</d:prop><d:status>HTTP/1.1 ${status}</d:status></d:propstat>`;
+
+const propertiesResponse = (resource: Resource, user: User, request: PropertyRequest): string => {
+  const properties = propertiesOf(resource, user);
+  if (request.type !== 'prop') {
+    const keys = Object.keys(properties);
+    const found = keys.map(key => propertyElement(key, request.type === 'propname' ? '' : properties[key]));
+    return `<d:response>${hrefElement(resource.href)}${propstat(found, '200 OK')}</d:response>`;
+  }
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  for (const { namespace, name } of request.names) {
+    const prefix = PREFIXES[namespace];
+    const key = `${prefix}:${name}`;
+    if (resource.kind === 'object' && key === 'c:calendar-data') {
+      found.push(propertyElement(key, escapeXml(calendarData(resource.calendar.list, [resource.object]))));
+    } else if (prefix !== undefined && key in properties) {
+      found.push(propertyElement(key, properties[key]));
+    } else {
+      missing.push(`<x:${name} xmlns:x="${escapeXml(namespace)}"/>`);
+    }
+  }
+  return `<d:response>${hrefElement(resource.href)}${propstat(found, '200 OK')}${propstat(missing, '404 Not Found')}</d:response>`;
+};
+
+const multistatus = (responses: string[]): string => {
+  const namespaces = Object.entries(PREFIXES).map(([namespace, prefix]) => `xmlns:${prefix}="${namespace}"`).join(' ');
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus ${namespaces}>${responses.join('')}</d:multistatus>\n`;
+};
+
+const send = (res: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, body === '' ? headers : { 'Content-Type': 'text/plain; charset=utf-8', ...headers });
+  res.end(body);
+};
+
+const sendMultistatus = (res: ServerResponse, responses: string[]) =>
+  send(res, 207, multistatus(responses), { 'Content-Type': 'application/xml; charset=utf-8' });
+
+// The properties named in a propfind, or in a REPORT body
+const propertyRequestOf = (element: XmlElement | null | undefined): PropertyRequest => {
+  if (!element || childElement(element, DAV, 'allprop')) {
+    return { type: 'allprop' };
+  }
+  if (childElement(element, DAV, 'propname')) {
+    return { type: 'propname' };
+  }
+  const prop = childElement(element, DAV, 'prop');
+  return { type: 'prop', names: prop?.children.map(({ namespace, name }) => ({ namespace, name })) ?? [] };
+};
+
+const propfind = async (req: IncomingMessage, res: ServerResponse, user: User, resource: Resource) => {
+  const body = parseBody(await requestBody(req));
+  if (body && (body.namespace !== DAV || body.name !== 'propfind')) {
+    throw new CalDAVError(400, 'Expected a DAV:propfind body');
+  }
+  const request = propertyRequestOf(body);
+
+  // Depth infinity is answered as depth 1, the deepest any collection goes
+  const resources: Resource[] = [resource];
+  if (req.headers['depth'] !== '0') {
+    if (resource.kind === 'home') {
+      const calendars = await loadCalendars(user.id);
+      resources.push(...calendars.map((calendar): Resource => ({ kind: 'calendar', href: calendarHref(calendar.list.id), calendar })));
+    } else if (resource.kind === 'calendar') {
+      const objects = await loadObjects(user.id, resource.calendar.list.id);
+      resources.push(...objects.map((object): Resource => ({
+        kind: 'object',
+        href: objectHref(resource.calendar.list.id, object.name),
+        calendar: resource.calendar,
+        object
+      })));
+    }
+  }
+
+  sendMultistatus(res, resources.map(member => propertiesResponse(member, user, request)));
+};
+
+// Properties cannot be changed here; lists are renamed and recolored in the app
+const proppatch = async (req: IncomingMessage, res: ServerResponse, resource: Resource) => {
+  const body = parseBody(await requestBody(req));
+  if (!body || body.namespace !== DAV || body.name !== 'propertyupdate') {
+    throw new CalDAVError(400, 'Expected a DAV:propertyupdate body');
+  }
+  const names = body.children
+    .flatMap(update => childElements(update, DAV, 'prop'))
+    .flatMap(prop => prop.children)
+    .map(({ namespace, name }) => `<x:${name} xmlns:x="${escapeXml(namespace)}"/>`);
+  sendMultistatus(res, [`<d:response>${hrefElement(resource.href)}${propstat(names, '403 Forbidden')}</d:response>`]);
+};
+
+const textMatches = (value: string, match: XmlElement): boolean => {
+  const needle = match.text;
+  const isCaseless = (match.attributes.get('collation') ?? 'i;ascii-casemap') !== 'i;octet';
+  const found = isCaseless ? value.toLowerCase().includes(needle.toLowerCase()) : value.includes(needle);
+  return match.attributes.get('negate-condition') === 'yes' ? !found : found;
+};
+
+// Whether any of the components passes a comp-filter. Time ranges are not
+// checked, so clients may get more objects than they asked for, never fewer.
+const matchesCompFilter = (components: Component[], filter: XmlElement): boolean => {
+  const candidates = components.filter(component => component.name === (filter.attributes.get('name') ?? '').toUpperCase());
+  if (childElement(filter, CALDAV, 'is-not-defined')) {
+    return candidates.length === 0;
+  }
+
+  return candidates.some(component =>
+    childElements(filter, CALDAV, 'prop-filter').every((propFilter) => {
+      const properties = component.properties.filter(property => property.name === (propFilter.attributes.get('name') ?? '').toUpperCase());
+      if (childElement(propFilter, CALDAV, 'is-not-defined')) {
+        return properties.length === 0;
+      }
+      const textMatch = childElement(propFilter, CALDAV, 'text-match');
+      return properties.length > 0 && (!textMatch || properties.some(property => textMatches(unescapeText(property.value), textMatch)));
+    }) &&
+    childElements(filter, CALDAV, 'comp-filter').every(inner => matchesCompFilter(component.components, inner))
+  );
+};
+
+const report = async (req: IncomingMessage, res: ServerResponse, user: User, resource: Resource) => {
+  const body = parseBody(await requestBody(req));
+  if (!body) {
+    throw new CalDAVError(400, 'Expected a report body');
+  }
+  if (resource.kind !== 'calendar' || body.namespace !== CALDAV || !['calendar-query', 'calendar-multiget'].includes(body.name)) {
+    throw new CalDAVError(403, 'Unsupported report', '<d:supported-report/>');
+  }
+  const { calendar } = resource;
+  const request = propertyRequestOf(body);
+  const objectResource = (object: CalendarObject): Resource =>
+    ({ kind: 'object', href: objectHref(calendar.list.id, object.name), calendar, object });
+
+  if (body.name === 'calendar-multiget') {
+    const responses: string[] = [];
+    for (const href of childElements(body, DAV, 'href').map(element => element.text.trim())) {
+      const path = parsePath(href);
+      const object = path?.kind === 'object' && path.listId === calendar.list.id
+        ? await findObject(user.id, path.listId, path.name)
+        : null;
+      responses.push(object
+        ? propertiesResponse(objectResource(object), user, request)
+        : `<d:response>${hrefElement(href)}<d:status>HTTP/1.1 404 Not Found</d:status></d:response>`);
+    }
+    sendMultistatus(res, responses);
+    return;
+  }
+
+  const compFilter = childElement(childElement(body, CALDAV, 'filter') ?? body, CALDAV, 'comp-filter');
+  const objects = (await loadObjects(user.id, calendar.list.id)).filter(object =>
+    !compFilter || matchesCompFilter(parseComponents(calendarData(calendar.list, [object])), compFilter));
+  sendMultistatus(res, objects.map(object => propertiesResponse(objectResource(object), user, request)));
+};
+
+// A todo, or a whole list when the resource is a calendar
+const get = async (req: IncomingMessage, res: ServerResponse, user: User, resource: Resource) => {
+  let content: string;
+  const headers: Record<string, string> = { 'Content-Type': 'text/calendar; charset=utf-8' };
+  if (resource.kind === 'object') {
+    content = calendarData(resource.calendar.list, [resource.object]);
+    headers['ETag'] = etagOf(resource.object);
+    headers['Last-Modified'] = resource.object.todo.updated_at.toUTCString();
+  } else if (resource.kind === 'calendar') {
+    content = calendarData(resource.calendar.list, await loadObjects(user.id, resource.calendar.list.id));
+    headers['ETag'] = `"${resource.calendar.ctag}"`;
+  } else {
+    throw new CalDAVError(405, 'Only calendars and their todos can be read');
+  }
+  res.writeHead(200, headers);
+  res.end(req.method === 'HEAD' ? undefined : content);
+};
+
+// Checks If-Match and If-None-Match against the resource at the request's URL
+const checkPreconditions = (req: IncomingMessage, object: CalendarObject | null) => {
+  const ifMatch = req.headers['if-match'];
+  const ifNoneMatch = req.headers['if-none-match'];
+  const etag = object ? etagOf(object) : null;
+  if (ifMatch !== undefined && (etag === null || (ifMatch.trim() !== '*' && !ifMatch.split(',').map(tag => tag.trim()).includes(etag)))) {
+    throw new CalDAVError(412, 'The resource has changed');
+  }
+  if (ifNoneMatch !== undefined && etag !== null && (ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').map(tag => tag.trim()).includes(etag))) {
+    throw new CalDAVError(412, 'The resource already exists');
+  }
+};
+
+// Gives the todo exactly the named tags, creating the ones the user lacks
+const setTags = async (tx: DbExecutor, ownerId: number, todoId: number, names: string[]) => {
+  const tags = await tx.select({ id: tagsTable.id, name: tagsTable.name })
+    .from(tagsTable)
+    .where(eq(tagsTable.owner_id, ownerId))
+    .execute();
+  const byName = new Map(tags.map(tag => [tag.name.toLowerCase(), tag.id]));
+
+  const wanted = new Set<number>();
+  for (const name of names) {
+    let id = byName.get(name.toLowerCase());
+    if (id === undefined) {
+      id = (await createTag({ name }, ownerId, tx)).id;
+      byName.set(name.toLowerCase(), id);
+    }
+    wanted.add(id);
+  }
+
+  const attached = await tx.select({ tag_id: todoTagsTable.tag_id })
+    .from(todoTagsTable)
+    .where(eq(todoTagsTable.todo_id, todoId))
+    .execute();
+  const current = new Set(attached.map(row => row.tag_id));
+
+  for (const tagId of current) {
+    if (!wanted.has(tagId)) {
+      await detachTag({ todo_id: todoId, tag_id: tagId }, ownerId, tx);
+    }
+  }
+  for (const tagId of wanted) {
+    if (!current.has(tagId)) {
+      await attachTag({ todo_id: todoId, tag_id: tagId }, ownerId, tx);
+    }
+  }
+};
+
+// Remembers the name and UID a client gave a todo, unless they are the defaults
+const saveObjectName = async (tx: DbExecutor, ownerId: number, todoId: number, name: string, uid: string) => {
+  if (name === `todo-${todoId}.ics` && uid === todoUid(todoId)) {
+    await tx.delete(caldavObjectsTable).where(eq(caldavObjectsTable.todo_id, todoId)).execute();
+    return;
+  }
+  await tx.insert(caldavObjectsTable)
+    .values({ todo_id: todoId, owner_id: ownerId, name, uid })
+    .onConflictDoUpdate({ target: caldavObjectsTable.todo_id, set: { name, uid } })
+    .execute();
+};
+
+// The master VTODO of a resource; overrides of single occurrences
+// (RECURRENCE-ID) are left out, as todos have no such thing
+const masterTodoOf = (body: string): Component => {
+  let components: Component[];
+  try {
+    components = parseComponents(body);
+  } catch (error) {
+    throw new CalDAVError(400, error instanceof Error ? error.message : 'Not an iCalendar object', '<c:valid-calendar-data/>');
+  }
+  const todos = components
+    .filter(component => component.name === 'VCALENDAR')
+    .flatMap(calendar => calendar.components.filter(component => component.name === 'VTODO'));
+  if (todos.length === 0) {
+    throw new CalDAVError(403, 'Only VTODOs can be stored', '<c:supported-calendar-component/>');
+  }
+  const uids = new Set(todos.map(todo => todo.properties.find(property => property.name === 'UID')?.value));
+  const master = todos.find(todo => !todo.properties.some(property => property.name === 'RECURRENCE-ID'));
+  if (uids.size !== 1 || !master) {
+    throw new CalDAVError(403, 'A resource holds one todo', '<c:valid-calendar-object-resource/>');
+  }
+  return master;
+};
+
+const put = async (req: IncomingMessage, res: ServerResponse, user: User, path: Path & { kind: 'object' }) => {
+  const [calendar] = await loadCalendars(user.id, path.listId);
+  if (!calendar) {
+    throw new CalDAVError(409, 'The calendar does not exist');
+  }
+  const atPath = await findObject(user.id, path.listId, path.name);
+  checkPreconditions(req, atPath);
+
+  const todo = readTodo(masterTodoOf(await requestBody(req)));
+  if (todo.uid === null) {
+    throw new CalDAVError(403, 'The todo has no UID', '<c:valid-calendar-object-resource/>');
+  }
+  const uid = todo.uid;
+  const parsed = importedTodoSchema.safeParse({
+    title: todo.title,
+    description: todo.description,
+    completed: todo.completed || todo.cancelled,
+    priority: todo.priority,
+    due_at: todo.due_at,
+    due_all_day: todo.due_all_day,
+    due_time_zone: todo.due_time_zone,
+    recurrence_rule: todo.recurrence_rule,
+    tags: todo.tags
+  });
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new CalDAVError(403, `${issue.path.join('.')}: ${issue.message}`, '<c:valid-calendar-data/>');
+  }
+  const fields = parsed.data;
+
+  // A todo with the UID in another list is moving here; one in this list
+  // must be written at its own URL
+  const byUid = atPath ? null : await findObjectByUid(user.id, todo.uid);
+  if (atPath && atPath.uid !== todo.uid) {
+    throw new CalDAVError(403, 'The UID of a resource cannot change', '<c:valid-calendar-object-resource/>');
+  }
+  if (byUid && byUid.listId === path.listId) {
+    throw new CalDAVError(403, 'Another resource has this UID',
+      `<c:no-uid-conflict>${hrefElement(objectHref(byUid.listId, byUid.object.name))}</c:no-uid-conflict>`);
+  }
+  const existing = atPath ?? byUid?.object ?? null;
+
+  // Parents are only kept within the list, where subtasks live
+  const parent = todo.parent_uid !== null ? await findObjectByUid(user.id, todo.parent_uid) : null;
+  const parentId = parent && parent.listId === path.listId && parent.object.todo.id !== existing?.todo.id
+    ? parent.object.todo.id
+    : null;
+  // All-day dates carry no time zone, so theirs is kept
+  const timeZone = todo.due_all_day ? {} : { due_time_zone: fields.due_time_zone ?? null };
+
+  // The fields, tags and name are written together, so a failure leaves the
+  // todo as it was
+  const saved = await db.transaction(async (tx) => {
+    let saved: Todo;
+    if (existing) {
+      saved = await updateTodo({
+        id: existing.todo.id,
+        expectedVersion: existing.todo.version,
+        title: fields.title,
+        description: fields.description ?? null,
+        completed: fields.completed,
+        priority: fields.priority,
+        due_at: fields.due_at ?? null,
+        due_all_day: fields.due_at ? fields.due_all_day : false,
+        ...timeZone,
+        recurrence_rule: fields.recurrence_rule ?? null,
+        ...(parentId !== existing.todo.parent_id ? { parent_id: parentId } : {}),
+        ...(existing.todo.list_id !== path.listId ? { list_id: path.listId } : {})
+      }, user.id, tx);
+      await setTags(tx, user.id, saved.id, fields.tags ?? []);
+    } else {
+      saved = await createTodo({
+        title: fields.title,
+        description: fields.description ?? null,
+        list_id: path.listId,
+        parent_id: parentId,
+        priority: fields.priority,
+        due_at: fields.due_at ?? null,
+        due_all_day: fields.due_all_day,
+        ...timeZone,
+        recurrence_rule: fields.recurrence_rule ?? null
+      }, user.id, tx);
+      await setTags(tx, user.id, saved.id, fields.tags ?? []);
+      if (fields.completed) {
+        saved = await updateTodo({ id: saved.id, expectedVersion: saved.version, completed: true }, user.id, tx);
+      }
+    }
+    await saveObjectName(tx, user.id, saved.id, path.name, uid);
+    return saved;
+  });
+
+  const [object] = await loadObjects(user.id, path.listId, eq(todosTable.id, saved.id));
+  send(res, existing ? 204 : 201, '', { ETag: etagOf(object) });
+};
+
+const remove = async (req: IncomingMessage, res: ServerResponse, user: User, resource: Resource) => {
+  if (resource.kind !== 'object') {
+    throw new CalDAVError(403, 'Lists are deleted in the app');
+  }
+  checkPreconditions(req, resource.object);
+  await deleteTodo({ id: resource.object.todo.id, expectedVersion: resource.object.todo.version }, user.id);
+  send(res, 204, '');
+};
+
+// A DAV:error body naming the condition that failed
+const errorBody = (condition: string): string => {
+  const namespaces = Object.entries(PREFIXES).map(([namespace, prefix]) => `xmlns:${prefix}="${namespace}"`).join(' ');
+  return `<?xml version="1.0" encoding="utf-8"?>\n<d:error ${namespaces}>${condition}</d:error>\n`;
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  if (error instanceof CalDAVError && error.condition !== null) {
+    send(res, error.status, errorBody(error.condition), { 'Content-Type': 'application/xml; charset=utf-8' });
+  } else if (error instanceof CalDAVError) {
+    send(res, error.status, error.message);
+  } else if (error instanceof VersionConflictError) {
+    send(res, 412, error.message);
+  } else if (error instanceof DomainError) {
+    const status = { NOT_FOUND: 404, CONFLICT: 409, BAD_REQUEST: 403, FORBIDDEN: 403, UNAUTHORIZED: 401 }[error.code];
+    send(res, status, error.message);
+  } else {
+    console.error('CalDAV request failed:', error);
+    send(res, 500, 'Internal server error');
+  }
+};
+
+// Answers a request for a path isCalDAVRequest accepts
+export const handleCalDAV = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  try {
+    const url = req.url ?? '/';
+    if (url.split('?')[0] === WELL_KNOWN) {
+      send(res, 301, '', { Location: ROOT });
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      send(res, 200, '', { DAV: '1, 3, calendar-access', Allow: ALLOWED_METHODS });
+      return;
+    }
+
+    const access = await authenticate(req);
+    if (!access) {
+      send(res, 401, 'Sign in with your email and password', { 'WWW-Authenticate': 'Basic realm="Todos", charset="UTF-8"' });
+      return;
+    }
+    if (access.scope === 'read_only' && (req.method === 'PUT' || req.method === 'DELETE')) {
+      throw new CalDAVError(403, 'This API token is read-only');
+    }
+    const user = access.user;
+
+    const path = parsePath(url);
+    if (path === null) {
+      throw new CalDAVError(404, 'Not found');
+    }
+    if (req.method === 'PUT') {
+      if (path.kind !== 'object') {
+        throw new CalDAVError(405, 'Only calendar objects can be written');
+      }
+      await put(req, res, user, path);
+      return;
+    }
+
+    const resource = await resolve(user.id, path);
+    if (!resource) {
+      throw new CalDAVError(404, 'Not found');
+    }
+    switch (req.method) {
+      case 'PROPFIND':
+        return await propfind(req, res, user, resource);
+      case 'PROPPATCH':
+        return await proppatch(req, res, resource);
+      case 'REPORT':
+        return await report(req, res, user, resource);
+      case 'GET':
+      case 'HEAD':
+        return await get(req, res, user, resource);
+      case 'DELETE':
+        return await remove(req, res, user, resource);
+      default:
+        send(res, 405, 'Method not allowed', { Allow: ALLOWED_METHODS });
+    }
+  } catch (error) {
+    sendError(res, error);
+  }
+};
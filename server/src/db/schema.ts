@@ -1,17 +1,250 @@
-import { serial, text, pgTable, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, boolean, pgEnum, integer, jsonb, primaryKey, index, uniqueIndex, customType, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql, type SQL } from 'drizzle-orm';
+import { type TodoFieldChange } from '../schema';
+import { DEFAULT_RANK } from '../helpers/ranks';
+
+// Ordered from least to most important
+export const todoPriorityEnum = pgEnum('todo_priority', ['none', 'low', 'medium', 'high', 'urgent']);
+
+// 'deleted' moves a todo to the trash, 'purged' removes it for good
+export const todoOperationEnum = pgEnum('todo_operation', ['created', 'updated', 'deleted', 'restored', 'purged']);
+
+export const webhookEventEnum = pgEnum('webhook_event', [
+  'todo.created', 'todo.updated', 'todo.completed', 'todo.deleted', 'todo.restored', 'todo.purged'
+]);
+
+// Read-only API tokens cannot call mutations
+export const apiTokenScopeEnum = pgEnum('api_token_scope', ['read_only', 'read_write']);
+
+// 'dead' deliveries failed every attempt and are kept for inspection only
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'delivered', 'dead']);
+
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(), // Stored lowercased
+  name: text('name'),
+  password_hash: text('password_hash').notNull(), // argon2id via Bun.password
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('users_email_unique').on(table.email)
+]);
+
+// Login sessions; only a SHA-256 hash of the bearer token is stored
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('sessions_token_hash_unique').on(table.token_hash)
+]);
+
+// Personal access tokens for scripts. Like sessions, only a SHA-256 hash of
+// the token is stored.
+export const apiTokensTable = pgTable('api_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // What the token is for, e.g. 'Nightly backup'
+  token_hash: text('token_hash').notNull(),
+  scope: apiTokenScopeEnum('scope').notNull(),
+  expires_at: timestamp('expires_at'), // Null for tokens that never expire
+  last_used_at: timestamp('last_used_at'), // To the minute, see helpers/auth.ts
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('api_tokens_token_hash_unique').on(table.token_hash),
+  index('api_tokens_user_id').on(table.user_id)
+]);
+
+// Each user's calendar feed; like sessions, only a hash of its token is stored
+export const calendarFeedsTable = pgTable('calendar_feeds', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull(),
+  include_events: boolean('include_events').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('calendar_feeds_user_id_unique').on(table.user_id),
+  uniqueIndex('calendar_feeds_token_hash_unique').on(table.token_hash)
+]);
+
+export const listsTable = pgTable('lists', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color').notNull().default('#6366f1'), // Hex color, e.g. '#22c55e'
+  icon: text('icon').notNull().default('📋'), // Emoji shown next to the name
+  sort_order: integer('sort_order').notNull().default(0),
+  is_inbox: boolean('is_inbox').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  // At most one Inbox list per user
+  uniqueIndex('lists_single_inbox').on(table.owner_id).where(sql`${table.is_inbox}`)
+]);
+
+// Full-text search vector. It only means something to Postgres, so rows read
+// it back as undefined and it never reaches clients or the history.
+const tsvector = customType<{ data: undefined; driverData: string }>({
+  dataType: () => 'tsvector',
+  fromDriver: () => undefined
+});
 
 export const todosTable = pgTable('todos', {
   id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'), // Nullable by default, matches Zod schema
   completed: boolean('completed').notNull().default(false),
+  list_id: integer('list_id').references(() => listsTable.id), // Todos created through the API always get a list
+  parent_id: integer('parent_id').references((): AnyPgColumn => todosTable.id, { onDelete: 'cascade' }), // Null for top-level todos
+  priority: todoPriorityEnum('priority').notNull().default('none'),
+  due_at: timestamp('due_at'), // Nullable; all-day due dates are stored as UTC midnight of the date
+  due_all_day: boolean('due_all_day').notNull().default(false),
+  due_time_zone: text('due_time_zone'), // IANA zone the due date was set in, e.g. 'Europe/Lisbon'
+  recurrence_rule: text('recurrence_rule'), // RRULE such as 'FREQ=WEEKLY;BYDAY=MO,TH', null when not recurring
+  position: text('position').notNull().default(DEFAULT_RANK), // Manual order among siblings, see helpers/ranks.ts
+  version: integer('version').notNull().default(1), // Incremented on every write, for optimistic concurrency
+  deleted_at: timestamp('deleted_at'), // Set while in the trash; subtasks trashed along share their parent's value
+  // Words of the title and description, the title weighing more in the ranking.
+  // The 'simple' configuration skips stemming, so prefixes of words match.
+  search: tsvector('search').generatedAlwaysAs((): SQL => sql`setweight(to_tsvector('simple', ${todosTable.title}), 'A')
+    || setweight(to_tsvector('simple', coalesce(${todosTable.description}, '')), 'B')`),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => [
+  index('todos_search').using('gin', table.search)
+]);
+
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color').notNull().default('#64748b'), // Hex color, e.g. '#22c55e'
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  // Each user's tag names are unique regardless of case
+  uniqueIndex('tags_name_unique').on(table.owner_id, sql`lower(${table.name})`)
+]);
+
+// Join table for the many-to-many relation between todos and tags
+export const todoTagsTable = pgTable('todo_tags', {
+  todo_id: integer('todo_id').notNull().references(() => todosTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' })
+}, (table) => [
+  primaryKey({ columns: [table.todo_id, table.tag_id] })
+]);
+
+// Resource names and UIDs CalDAV clients gave the todos they created. Other
+// todos go by todo-<id>.ics and the UID the iCalendar export gives them.
+export const caldavObjectsTable = pgTable('caldav_objects', {
+  todo_id: integer('todo_id').primaryKey().references(() => todosTable.id, { onDelete: 'cascade' }),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // Last segment of the resource's path, e.g. '3f2a9c.ics'
+  uid: text('uid').notNull()
+}, (table) => [
+  uniqueIndex('caldav_objects_name_unique').on(table.owner_id, table.name),
+  uniqueIndex('caldav_objects_uid_unique').on(table.owner_id, table.uid)
+]);
+
+// Audit log of every write to a todo. Entries outlive the todo itself, so
+// todo_id is not a foreign key.
+export const todoEventsTable = pgTable('todo_events', {
+  id: serial('id').primaryKey(),
+  todo_id: integer('todo_id').notNull(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null for background jobs
+  operation: todoOperationEnum('operation').notNull(),
+  todo_title: text('todo_title').notNull(), // Title at the time, for feeds that outlive the todo
+  changes: jsonb('changes').$type<Record<string, TodoFieldChange>>().notNull(), // Changed fields only
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('todo_events_todo_id').on(table.todo_id),
+  index('todo_events_owner_id').on(table.owner_id)
+]);
+
+// URLs that todo events are POSTed to. The secret signs each delivery, so
+// unlike tokens it has to be stored as it is.
+export const webhooksTable = pgTable('webhooks', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(),
+  events: webhookEventEnum('events').array().notNull(), // Events the webhook subscribes to
+  enabled: boolean('enabled').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('webhooks_owner_id').on(table.owner_id)
+]);
+
+// Delivery queue and log in one: pending rows are sent once next_attempt_at
+// has passed, see helpers/webhooks.ts
+export const webhookDeliveriesTable = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  webhook_id: integer('webhook_id').notNull().references(() => webhooksTable.id, { onDelete: 'cascade' }),
+  event: webhookEventEnum('event').notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  status: webhookDeliveryStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(),
+  last_attempt_at: timestamp('last_attempt_at'),
+  response_status: integer('response_status'), // Null until a response comes back
+  last_error: text('last_error'),
+  delivered_at: timestamp('delivered_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('webhook_deliveries_webhook_id').on(table.webhook_id),
+  index('webhook_deliveries_due').on(table.next_attempt_at).where(sql`${table.status} = 'pending'`)
+]);
 
 // TypeScript type for the table schema
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type ApiToken = typeof apiTokensTable.$inferSelect;
+export type NewApiToken = typeof apiTokensTable.$inferInsert;
+
+export type CalendarFeed = typeof calendarFeedsTable.$inferSelect;
+export type NewCalendarFeed = typeof calendarFeedsTable.$inferInsert;
+
+export type List = typeof listsTable.$inferSelect;
+export type NewList = typeof listsTable.$inferInsert;
+
 export type Todo = typeof todosTable.$inferSelect; // For SELECT operations
 export type NewTodo = typeof todosTable.$inferInsert; // For INSERT operations
 
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type TodoTag = typeof todoTagsTable.$inferSelect;
+export type NewTodoTag = typeof todoTagsTable.$inferInsert;
+
+export type CaldavObject = typeof caldavObjectsTable.$inferSelect;
+export type NewCaldavObject = typeof caldavObjectsTable.$inferInsert;
+
+export type TodoEvent = typeof todoEventsTable.$inferSelect;
+export type NewTodoEvent = typeof todoEventsTable.$inferInsert;
+
+export type Webhook = typeof webhooksTable.$inferSelect;
+export type NewWebhook = typeof webhooksTable.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveriesTable.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveriesTable.$inferInsert;
+
 // Important: Export all tables for proper query building
-export const tables = { todos: todosTable };
\ No newline at end of file
+export const tables = {
+  users: usersTable,
+  sessions: sessionsTable,
+  apiTokens: apiTokensTable,
+  calendarFeeds: calendarFeedsTable,
+  lists: listsTable,
+  todos: todosTable,
+  tags: tagsTable,
+  todoTags: todoTagsTable,
+  caldavObjects: caldavObjectsTable,
+  todoEvents: todoEventsTable,
+  webhooks: webhooksTable,
+  webhookDeliveries: webhookDeliveriesTable
+};
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { TRPCError } from '@trpc/server';
+import { type Todo } from './schema';
+
+type DomainErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'BAD_REQUEST' | 'FORBIDDEN' | 'UNAUTHORIZED';
+
+// Errors handlers throw for expected failures. The API turns them into
+// TRPCErrors with the matching code; anything else stays an internal error.
+export class DomainError extends Error {
+  readonly code: DomainErrorCode;
+
+  constructor(code: DomainErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+// The record does not exist, or belongs to someone else
+export class NotFoundError extends DomainError {
+  constructor(message: string) {
+    super('NOT_FOUND', message);
+  }
+}
+
+// The change clashes with existing data, e.g. a duplicate name
+export class ConflictError extends DomainError {
+  constructor(message: string) {
+    super('CONFLICT', message);
+  }
+}
+
+// The todo changed since the client read it; carries the current row so the
+// client can show both sides and resolve the conflict
+export class VersionConflictError extends ConflictError {
+  readonly current: Todo;
+
+  constructor(current: Todo) {
+    super(`Todo with id ${current.id} was changed by someone else (now at version ${current.version})`);
+    this.current = current;
+  }
+}
+
+// The input is well-formed but not acceptable, e.g. a subtask cycle
+export class ValidationError extends DomainError {
+  constructor(message: string) {
+    super('BAD_REQUEST', message);
+  }
+}
+
+// The operation is never allowed on this record
+export class ForbiddenError extends DomainError {
+  constructor(message: string) {
+    super('FORBIDDEN', message);
+  }
+}
+
+// The credentials are missing or wrong
+export class AuthenticationError extends DomainError {
+  constructor(message: string) {
+    super('UNAUTHORIZED', message);
+  }
+}
+
+// Maps a domain error to the TRPCError sent to clients; null for other errors
+export const toTRPCError = (error: unknown): TRPCError | null =>
+  error instanceof DomainError
+    ? new TRPCError({ code: error.code, message: error.message, cause: error })
+    : null;
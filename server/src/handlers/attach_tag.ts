@@ -0,0 +1,58 @@
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type TodoTagInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { type DbExecutor } from '../helpers/lists';
+import { NotFoundError } from '../errors';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents, tagNamesOf } from '../helpers/history';
+
+export const attachTag = async (input: TodoTagInput, ownerId: number, executor: DbExecutor = db): Promise<{ success: boolean }> => {
+  try {
+    await executor.transaction(async (tx) => {
+      // Validate both sides of the relation before inserting
+      const todos = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.todo_id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      if (todos.length === 0) {
+        throw new NotFoundError(`Todo with id ${input.todo_id} not found`);
+      }
+
+      const tags = await tx.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, input.tag_id), eq(tagsTable.owner_id, ownerId)))
+        .execute();
+
+      if (tags.length === 0) {
+        throw new NotFoundError(`Tag with id ${input.tag_id} not found`);
+      }
+
+      const tagsBefore = await tagNamesOf(tx, input.todo_id);
+
+      // Attaching an already attached tag is a no-op
+      const attached = await tx.insert(todoTagsTable)
+        .values({ todo_id: input.todo_id, tag_id: input.tag_id })
+        .onConflictDoNothing()
+        .returning()
+        .execute();
+
+      if (attached.length > 0) {
+        const tagsAfter = await tagNamesOf(tx, input.todo_id);
+        await recordTodoEvents(tx, ownerId, 'updated', [{
+          before: todos[0],
+          after: todos[0],
+          changes: { tags: { before: tagsBefore, after: tagsAfter } }
+        }]);
+      }
+
+      await notifyTodoChange(tx, 'updated', ownerId, [input.todo_id]);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Tag attachment failed:', error);
+    throw error;
+  }
+};
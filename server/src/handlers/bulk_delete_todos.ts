@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type BulkDeleteTodosInput, type BulkResult } from '../schema';
+import { and, inArray, isNull, sql } from 'drizzle-orm';
+import { bulkResults, lockTargets } from '../helpers/bulk';
+import { notifyTodoChange } from '../helpers/events';
+import { pairWithPrevious, recordTodoEvents } from '../helpers/history';
+import { getDescendantIds } from '../helpers/subtasks';
+
+// Moves many todos and their subtasks to the trash in one transaction. They
+// share one deletion time, so each can be restored with its subtasks.
+export const bulkDeleteTodos = async (input: BulkDeleteTodosInput, ownerId: number): Promise<BulkResult> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const targets = await lockTargets(tx, input.target, ownerId);
+      const ids = targets.todos.map(todo => todo.id);
+
+      if (ids.length > 0) {
+        const descendantIds = await getDescendantIds(tx, ids);
+        const live = and(inArray(todosTable.id, [...ids, ...descendantIds]), isNull(todosTable.deleted_at));
+        const before = await tx.select().from(todosTable).where(live).execute();
+        const trashed = await tx.update(todosTable)
+          .set({ deleted_at: new Date(), version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+          .where(live)
+          .returning()
+          .execute();
+
+        await recordTodoEvents(tx, ownerId, 'deleted', pairWithPrevious(before, trashed));
+        await notifyTodoChange(tx, 'deleted', ownerId, ids);
+      }
+
+      return bulkResults(input.target, targets);
+    });
+  } catch (error) {
+    console.error('Bulk todo deletion failed:', error);
+    throw error;
+  }
+};
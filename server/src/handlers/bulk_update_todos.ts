@@ -0,0 +1,132 @@
+import { db } from '../db';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type BulkResult, type BulkUpdateTodosInput, type TodoFieldChange } from '../schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { type PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { NotFoundError } from '../errors';
+import { bulkResults, lockTargets } from '../helpers/bulk';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents, tagNamesOf } from '../helpers/history';
+import { scheduleNextOccurrence } from '../helpers/occurrences';
+import { getAncestorIds, moveSubtasksToList } from '../helpers/subtasks';
+
+// Applies the same changes to many todos in one transaction. Completing a
+// recurring todo schedules its next occurrence and moving a todo to another
+// list takes its subtasks along, as with single updates. Subtasks stay in
+// their parent's list: one only moves with a targeted todo above it, and is
+// otherwise skipped with an error.
+export const bulkUpdateTodos = async (input: BulkUpdateTodosInput, ownerId: number): Promise<BulkResult> => {
+  try {
+    const { changes } = input;
+    const addTagIds = [...new Set(changes.add_tag_ids ?? [])];
+    const removeTagIds = [...new Set(changes.remove_tag_ids ?? [])];
+
+    // Validate the list and tags before changing anything
+    if (changes.list_id !== undefined) {
+      const lists = await db.select({ id: listsTable.id })
+        .from(listsTable)
+        .where(and(eq(listsTable.id, changes.list_id), eq(listsTable.owner_id, ownerId)))
+        .execute();
+
+      if (lists.length === 0) {
+        throw new NotFoundError(`List with id ${changes.list_id} not found`);
+      }
+    }
+
+    const tagIds = [...new Set([...addTagIds, ...removeTagIds])];
+    if (tagIds.length > 0) {
+      const tags = await db.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(and(inArray(tagsTable.id, tagIds), eq(tagsTable.owner_id, ownerId)))
+        .execute();
+
+      if (tags.length !== tagIds.length) {
+        const found = new Set(tags.map(tag => tag.id));
+        const missing = tagIds.filter(id => !found.has(id));
+        throw new NotFoundError(`Tags with ids ${missing.join(', ')} not found`);
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      const targets = await lockTargets(tx, input.target, ownerId);
+      const targetIds = new Set(targets.todos.map(todo => todo.id));
+      const errors = new Map<number, string>();
+      const changedIds: number[] = [];
+
+      for (const todo of targets.todos) {
+        // Subtasks move with a targeted todo above them, or not at all
+        if (changes.list_id !== undefined && todo.parent_id !== null && todo.list_id !== changes.list_id) {
+          const ancestorIds = await getAncestorIds(tx, todo.id);
+          if (!ancestorIds.some(id => targetIds.has(id))) {
+            errors.set(todo.id, `Subtasks stay in their parent's list; move todo ${todo.parent_id} instead`);
+            continue;
+          }
+        }
+
+        const updateData: PgUpdateSetSource<typeof todosTable> = {
+          version: sql`${todosTable.version} + 1`,
+          updated_at: new Date()
+        };
+        if (changes.completed !== undefined) {
+          updateData.completed = changes.completed;
+        }
+        if (changes.priority !== undefined) {
+          updateData.priority = changes.priority;
+        }
+        if (changes.list_id !== undefined && todo.parent_id === null) {
+          updateData.list_id = changes.list_id;
+        }
+
+        const completesOccurrence = changes.completed === true && !todo.completed && todo.recurrence_rule !== null;
+        if (completesOccurrence) {
+          // The series continues on the new occurrence
+          updateData.recurrence_rule = null;
+        }
+
+        const [row] = await tx.update(todosTable)
+          .set(updateData)
+          .where(eq(todosTable.id, todo.id))
+          .returning()
+          .execute();
+
+        const tagChanges: Record<string, TodoFieldChange> = {};
+        if (tagIds.length > 0) {
+          const tagsBefore = await tagNamesOf(tx, todo.id);
+          if (addTagIds.length > 0) {
+            await tx.insert(todoTagsTable)
+              .values(addTagIds.map(tagId => ({ todo_id: todo.id, tag_id: tagId })))
+              .onConflictDoNothing()
+              .execute();
+          }
+          if (removeTagIds.length > 0) {
+            await tx.delete(todoTagsTable)
+              .where(and(eq(todoTagsTable.todo_id, todo.id), inArray(todoTagsTable.tag_id, removeTagIds)))
+              .execute();
+          }
+          const tagsAfter = await tagNamesOf(tx, todo.id);
+          if (tagsBefore.join('\n') !== tagsAfter.join('\n')) {
+            tagChanges['tags'] = { before: tagsBefore, after: tagsAfter };
+          }
+        }
+
+        await recordTodoEvents(tx, ownerId, 'updated', [{ before: todo, after: row, changes: tagChanges }]);
+        changedIds.push(todo.id);
+
+        if (completesOccurrence) {
+          await scheduleNextOccurrence(tx, { ...row, recurrence_rule: todo.recurrence_rule }, ownerId);
+        }
+
+        if (changes.list_id !== undefined && todo.parent_id === null) {
+          changedIds.push(...await moveSubtasksToList(tx, todo.id, changes.list_id, ownerId));
+        }
+      }
+
+      await notifyTodoChange(tx, 'updated', ownerId, [...new Set(changedIds)]);
+
+      return bulkResults(input.target, targets, errors);
+    });
+  } catch (error) {
+    console.error('Bulk todo update failed:', error);
+    throw error;
+  }
+};
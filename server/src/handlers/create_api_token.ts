@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { type CreateApiTokenInput, type CreatedApiToken } from '../schema';
+import { apiTokenColumns, createApiTokenValue, hashToken } from '../helpers/auth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates a personal access token, returned this once
+export const createApiToken = async (input: CreateApiTokenInput, ownerId: number): Promise<CreatedApiToken> => {
+  try {
+    const token = createApiTokenValue();
+    const [apiToken] = await db.insert(apiTokensTable)
+      .values({
+        user_id: ownerId,
+        name: input.name,
+        token_hash: hashToken(token),
+        scope: input.scope,
+        expires_at: input.expires_in_days === null ? null : new Date(Date.now() + input.expires_in_days * DAY_MS)
+      })
+      .returning(apiTokenColumns)
+      .execute();
+
+    return { ...apiToken, token };
+  } catch (error) {
+    console.error('API token creation failed:', error);
+    throw error;
+  }
+};
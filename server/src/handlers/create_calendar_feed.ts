@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type CreateCalendarFeedInput, type CreatedCalendarFeed } from '../schema';
+import { hashToken } from '../helpers/auth';
+import { calendarFeedPath } from '../helpers/calendarFeeds';
+
+// Creates the user's calendar feed. A feed the user already has gets a new
+// token, so its old URL stops working.
+export const createCalendarFeed = async (input: CreateCalendarFeedInput, ownerId: number): Promise<CreatedCalendarFeed> => {
+  try {
+    const token = randomBytes(32).toString('base64url');
+    const values = { token_hash: hashToken(token), include_events: input.include_events, created_at: new Date() };
+
+    const [feed] = await db.insert(calendarFeedsTable)
+      .values({ user_id: ownerId, ...values })
+      .onConflictDoUpdate({ target: calendarFeedsTable.user_id, set: values })
+      .returning()
+      .execute();
+
+    return { include_events: feed.include_events, created_at: feed.created_at, path: calendarFeedPath(token) };
+  } catch (error) {
+    console.error('Calendar feed creation failed:', error);
+    throw error;
+  }
+};
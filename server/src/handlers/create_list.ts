@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput, type List } from '../schema';
+import { eq, max } from 'drizzle-orm';
+
+export const createList = async (input: CreateListInput, ownerId: number): Promise<List> => {
+  try {
+    // New lists go after the existing ones unless a position is given
+    let sortOrder = input.sort_order;
+    if (sortOrder === undefined) {
+      const [{ maxSortOrder }] = await db.select({ maxSortOrder: max(listsTable.sort_order) })
+        .from(listsTable)
+        .where(eq(listsTable.owner_id, ownerId))
+        .execute();
+      sortOrder = (maxSortOrder ?? 0) + 1;
+    }
+
+    const result = await db.insert(listsTable)
+      .values({
+        owner_id: ownerId,
+        name: input.name,
+        color: input.color, // Column defaults apply when omitted
+        icon: input.icon,
+        sort_order: sortOrder
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('List creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type CreateTagInput, type Tag } from '../schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { type DbExecutor } from '../helpers/lists';
+import { ConflictError } from '../errors';
+
+export const createTag = async (input: CreateTagInput, ownerId: number, executor: DbExecutor = db): Promise<Tag> => {
+  try {
+    // Each user's tag names are unique regardless of case
+    const existing = await executor.select()
+      .from(tagsTable)
+      .where(and(
+        eq(tagsTable.owner_id, ownerId),
+        sql`lower(${tagsTable.name}) = lower(${input.name})`
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new ConflictError(`Tag named "${input.name}" already exists`);
+    }
+
+    const result = await executor.insert(tagsTable)
+      .values({
+        owner_id: ownerId,
+        name: input.name,
+        color: input.color // Column default applies when omitted
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Tag creation failed:', error);
+    throw error;
+  }
+};
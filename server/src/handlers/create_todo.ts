@@ -1,24 +1,110 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
 import { type CreateTodoInput, type Todo } from '../schema';
+import { toUtcMidnight } from '../helpers/dates';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { getOrCreateInbox, type DbExecutor } from '../helpers/lists';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents } from '../helpers/history';
+import { firstPosition } from '../helpers/positions';
+import { NotFoundError, ValidationError } from '../errors';
 
-export const createTodo = async (input: CreateTodoInput): Promise<Todo> => {
+export const createTodo = async (input: CreateTodoInput, ownerId: number, executor: DbExecutor = db): Promise<Todo> => {
   try {
-    // Insert todo record
-    const result = await db.insert(todosTable)
-      .values({
-        title: input.title,
-        description: input.description,
-        completed: false // Default value for new todos
-      })
-      .returning()
-      .execute();
+    const dueAllDay = input.due_all_day ?? false;
+    const dueAt = input.due_at ?? null;
+    const tagIds = [...new Set(input.tag_ids ?? [])];
+
+    if (input.recurrence_rule && !dueAt) {
+      throw new ValidationError('Recurring todos need a due date');
+    }
+
+    // Validate the parent, list and tags before inserting anything
+    let parentListId: number | null = null;
+    if (input.parent_id !== undefined && input.parent_id !== null) {
+      const parents = await executor.select({ list_id: todosTable.list_id })
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.parent_id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      if (parents.length === 0) {
+        throw new NotFoundError(`Parent todo with id ${input.parent_id} not found`);
+      }
+      parentListId = parents[0].list_id;
+    }
+
+    if (input.list_id !== undefined) {
+      const lists = await executor.select({ id: listsTable.id })
+        .from(listsTable)
+        .where(and(eq(listsTable.id, input.list_id), eq(listsTable.owner_id, ownerId)))
+        .execute();
+
+      if (lists.length === 0) {
+        throw new NotFoundError(`List with id ${input.list_id} not found`);
+      }
+    }
+
+    let tagNames: string[] = [];
+    if (tagIds.length > 0) {
+      const tags = await executor.select({ id: tagsTable.id, name: tagsTable.name })
+        .from(tagsTable)
+        .where(and(inArray(tagsTable.id, tagIds), eq(tagsTable.owner_id, ownerId)))
+        .execute();
+
+      if (tags.length !== tagIds.length) {
+        const found = new Set(tags.map(tag => tag.id));
+        const missing = tagIds.filter(id => !found.has(id));
+        throw new NotFoundError(`Tags with ids ${missing.join(', ')} not found`);
+      }
+      tagNames = tags.map(tag => tag.name).sort();
+    }
+
+    // Insert todo record together with its tag attachments
+    const result = await executor.transaction(async (tx) => {
+      // Subtasks default to their parent's list, other todos land in the Inbox
+      const listId = input.list_id ?? parentListId ?? (await getOrCreateInbox(ownerId, tx)).id;
+      // New todos go ahead of their siblings in the manual order
+      const position = await firstPosition(tx, ownerId, input.parent_id ?? null);
+
+      const inserted = await tx.insert(todosTable)
+        .values({
+          owner_id: ownerId,
+          title: input.title,
+          description: input.description,
+          completed: false, // Default value for new todos
+          list_id: listId,
+          parent_id: input.parent_id ?? null,
+          priority: input.priority ?? 'none',
+          due_at: dueAt && dueAllDay ? toUtcMidnight(dueAt) : dueAt,
+          due_all_day: dueAllDay,
+          due_time_zone: input.due_time_zone ?? null,
+          recurrence_rule: input.recurrence_rule ?? null,
+          position
+        })
+        .returning()
+        .execute();
+
+      if (tagIds.length > 0) {
+        await tx.insert(todoTagsTable)
+          .values(tagIds.map(tagId => ({ todo_id: inserted[0].id, tag_id: tagId })))
+          .execute();
+      }
+
+      await recordTodoEvents(tx, ownerId, 'created', [{
+        before: null,
+        after: inserted[0],
+        changes: tagNames.length > 0 ? { tags: { before: null, after: tagNames } } : undefined
+      }]);
+      await notifyTodoChange(tx, 'created', ownerId, [inserted[0].id]);
+      return inserted;
+    });
 
     // Return the created todo
     const todo = result[0];
     return {
       ...todo,
       // Ensure dates are properly typed as Date objects
+      due_at: todo.due_at ? new Date(todo.due_at) : null,
       created_at: new Date(todo.created_at),
       updated_at: new Date(todo.updated_at)
     };
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { type CreateWebhookInput, type CreatedWebhook } from '../schema';
+import { createWebhookSecret, webhookColumns } from '../helpers/webhooks';
+
+// Creates a webhook with a new signing secret, returned this once
+export const createWebhook = async (input: CreateWebhookInput, ownerId: number): Promise<CreatedWebhook> => {
+  try {
+    const secret = createWebhookSecret();
+    const [webhook] = await db.insert(webhooksTable)
+      .values({ owner_id: ownerId, url: input.url, events: input.events, enabled: input.enabled, secret })
+      .returning(webhookColumns)
+      .execute();
+
+    return { ...webhook, secret };
+  } catch (error) {
+    console.error('Webhook creation failed:', error);
+    throw error;
+  }
+};
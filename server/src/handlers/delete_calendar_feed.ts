@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Turns the feed off; calendars subscribed to it stop getting updates
+export const deleteCalendarFeed = async (ownerId: number): Promise<{ success: boolean }> => {
+  try {
+    await db.delete(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.user_id, ownerId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Calendar feed deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { type DeleteListInput } from '../schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { getOrCreateInbox } from '../helpers/lists';
+import { getDescendantIds } from '../helpers/subtasks';
+import { notifyTodoChange } from '../helpers/events';
+import { pairWithPrevious, recordTodoEvents } from '../helpers/history';
+import { NotFoundError, ForbiddenError } from '../errors';
+
+export const deleteList = async (input: DeleteListInput, ownerId: number): Promise<{ success: boolean }> => {
+  try {
+    await db.transaction(async (tx) => {
+      const lists = await tx.select()
+        .from(listsTable)
+        .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, ownerId)))
+        .execute();
+
+      if (lists.length === 0) {
+        throw new NotFoundError(`List with id ${input.id} not found`);
+      }
+
+      if (lists[0].is_inbox) {
+        throw new ForbiddenError('The Inbox list cannot be deleted');
+      }
+
+      if (input.mode === 'cascade') {
+        // Subtasks go with their todos, and are collected here rather than
+        // left to the foreign key cascade so each is recorded and notified.
+        // Tag attachments go with the todos through their foreign key cascade.
+        const inList = await tx.select({ id: todosTable.id })
+          .from(todosTable)
+          .where(eq(todosTable.list_id, input.id))
+          .execute();
+        const ids = inList.map(todo => todo.id);
+        const deleted = await tx.delete(todosTable)
+          .where(inArray(todosTable.id, [...new Set([...ids, ...await getDescendantIds(tx, ids)])]))
+          .returning()
+          .execute();
+        await recordTodoEvents(tx, ownerId, 'purged', deleted.map(todo => ({ before: todo, after: null })));
+        await notifyTodoChange(tx, 'deleted', ownerId, deleted.map(todo => todo.id));
+      } else {
+        const inbox = await getOrCreateInbox(ownerId, tx);
+        const before = await tx.select()
+          .from(todosTable)
+          .where(eq(todosTable.list_id, input.id))
+          .execute();
+        const moved = await tx.update(todosTable)
+          .set({ list_id: inbox.id, version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+          .where(eq(todosTable.list_id, input.id))
+          .returning()
+          .execute();
+        await recordTodoEvents(tx, ownerId, 'updated', pairWithPrevious(before, moved));
+        await notifyTodoChange(tx, 'updated', ownerId, moved.map(todo => todo.id));
+      }
+
+      await tx.delete(listsTable)
+        .where(eq(listsTable.id, input.id))
+        .execute();
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('List deletion failed:', error);
+    throw error;
+  }
+};
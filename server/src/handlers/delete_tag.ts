@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type DeleteTagInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+export const deleteTag = async (input: DeleteTagInput, ownerId: number): Promise<{ success: boolean }> => {
+  try {
+    // Attachments to todos are removed by the foreign key cascade
+    const result = await db.delete(tagsTable)
+      .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, ownerId)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`Tag with id ${input.id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Tag deletion failed:', error);
+    throw error;
+  }
+};
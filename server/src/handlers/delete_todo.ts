@@ -1,24 +1,51 @@
 import { db } from '../db';
 import { todosTable } from '../db/schema';
 import { type DeleteTodoInput } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { NotFoundError, VersionConflictError } from '../errors';
+import { notifyTodoChange } from '../helpers/events';
+import { pairWithPrevious, recordTodoEvents } from '../helpers/history';
+import { getDescendantIds } from '../helpers/subtasks';
 
-export const deleteTodo = async (input: DeleteTodoInput): Promise<{ success: boolean }> => {
+// Moves the todo and its subtasks to the trash; emptying the trash or the
+// purge job removes them for good
+export const deleteTodo = async (input: DeleteTodoInput, ownerId: number): Promise<{ success: boolean }> => {
   try {
-    // Delete the todo by ID
-    const result = await db.delete(todosTable)
-      .where(eq(todosTable.id, input.id))
-      .returning()
-      .execute();
+    await db.transaction(async (tx) => {
+      // Lock the row so the version check and the delete see the same state
+      const current = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .for('update')
+        .execute();
 
-    // Check if any rows were actually deleted
-    if (result.length === 0) {
-      throw new Error(`Todo with id ${input.id} not found`);
-    }
+      if (current.length === 0) {
+        throw new NotFoundError(`Todo with id ${input.id} not found`);
+      }
+
+      if (current[0].version !== input.expectedVersion) {
+        throw new VersionConflictError(current[0]);
+      }
+
+      // Subtasks already in the trash keep their own deletion time, so
+      // restoring this todo leaves them there
+      const descendantIds = await getDescendantIds(tx, [input.id]);
+      const live = and(inArray(todosTable.id, [input.id, ...descendantIds]), isNull(todosTable.deleted_at));
+      const before = await tx.select().from(todosTable).where(live).execute();
+      const trashed = await tx.update(todosTable)
+        .set({ deleted_at: new Date(), version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+        .where(live)
+        .returning()
+        .execute();
+
+      await recordTodoEvents(tx, ownerId, 'deleted', pairWithPrevious(before, trashed));
+
+      await notifyTodoChange(tx, 'deleted', ownerId, [input.id]);
+    });
 
     return { success: true };
   } catch (error) {
     console.error('Todo deletion failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
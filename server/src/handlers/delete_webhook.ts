@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { type DeleteWebhookInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+export const deleteWebhook = async (input: DeleteWebhookInput, ownerId: number): Promise<{ success: boolean }> => {
+  try {
+    // Its deliveries, sent or not, are removed by the foreign key cascade
+    const result = await db.delete(webhooksTable)
+      .where(and(eq(webhooksTable.id, input.id), eq(webhooksTable.owner_id, ownerId)))
+      .returning({ id: webhooksTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`Webhook with id ${input.id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Webhook deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { todosTable, todoTagsTable } from '../db/schema';
+import { type TodoTagInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { type DbExecutor } from '../helpers/lists';
+import { NotFoundError } from '../errors';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents, tagNamesOf } from '../helpers/history';
+
+export const detachTag = async (input: TodoTagInput, ownerId: number, executor: DbExecutor = db): Promise<{ success: boolean }> => {
+  try {
+    await executor.transaction(async (tx) => {
+      const todos = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.todo_id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      const notAttached = new NotFoundError(`Tag ${input.tag_id} is not attached to todo ${input.todo_id}`);
+      if (todos.length === 0) {
+        throw notAttached;
+      }
+
+      const tagsBefore = await tagNamesOf(tx, input.todo_id);
+      const detached = await tx.delete(todoTagsTable)
+        .where(and(eq(todoTagsTable.todo_id, input.todo_id), eq(todoTagsTable.tag_id, input.tag_id)))
+        .returning()
+        .execute();
+
+      if (detached.length === 0) {
+        throw notAttached;
+      }
+
+      await recordTodoEvents(tx, ownerId, 'updated', [{
+        before: todos[0],
+        after: todos[0],
+        changes: { tags: { before: tagsBefore, after: await tagNamesOf(tx, input.todo_id) } }
+      }]);
+      await notifyTodoChange(tx, 'updated', ownerId, [input.todo_id]);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Tag detachment failed:', error);
+    throw error;
+  }
+};
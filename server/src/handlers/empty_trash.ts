@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { recordTodoEvents } from '../helpers/history';
+
+// Permanently deletes every todo in the owner's trash
+export const emptyTrash = async (ownerId: number): Promise<{ deleted: number }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Tag attachments go with the todos through their foreign key cascade
+      const deleted = await tx.delete(todosTable)
+        .where(and(eq(todosTable.owner_id, ownerId), isNotNull(todosTable.deleted_at)))
+        .returning()
+        .execute();
+
+      await recordTodoEvents(tx, ownerId, 'purged', deleted.map(todo => ({ before: todo, after: null })));
+
+      return { deleted: deleted.length };
+    });
+  } catch (error) {
+    console.error('Emptying the trash failed:', error);
+    throw error;
+  }
+};
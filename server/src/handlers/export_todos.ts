@@ -0,0 +1,85 @@
+import { db } from '../db';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type ExportedFile, type ExportedTodo, type ExportTodosInput, type Todo } from '../schema';
+import { and, asc, desc, eq, isNull } from 'drizzle-orm';
+import { positionOrder } from '../helpers/positions';
+import { exportedTodoOf, serializeTodos } from '../helpers/todoFormats';
+import { NotFoundError } from '../errors';
+
+// The user's live todos as a file, list by list in the user's order, each
+// todo followed by its subtasks in the manual order
+export const exportTodos = async (input: ExportTodosInput, ownerId: number): Promise<ExportedFile> => {
+  try {
+    const lists = await db.select({ id: listsTable.id, name: listsTable.name })
+      .from(listsTable)
+      .where(eq(listsTable.owner_id, ownerId))
+      .orderBy(desc(listsTable.is_inbox), asc(listsTable.sort_order), asc(listsTable.id))
+      .execute();
+
+    if (input.list_id !== undefined && !lists.some(list => list.id === input.list_id)) {
+      throw new NotFoundError(`List with id ${input.list_id} not found`);
+    }
+
+    // Subtasks share their top-level todo's list, so a list filter keeps them
+    const todos = await db.select()
+      .from(todosTable)
+      .where(and(
+        eq(todosTable.owner_id, ownerId),
+        isNull(todosTable.deleted_at),
+        input.list_id !== undefined ? eq(todosTable.list_id, input.list_id) : undefined
+      ))
+      .orderBy(asc(positionOrder), asc(todosTable.id))
+      .execute();
+
+    const tagRows = await db.select({ todo_id: todoTagsTable.todo_id, name: tagsTable.name })
+      .from(todoTagsTable)
+      .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+      .where(eq(tagsTable.owner_id, ownerId))
+      .orderBy(asc(tagsTable.name))
+      .execute();
+
+    const tagNames = new Map<number, string[]>();
+    for (const row of tagRows) {
+      tagNames.set(row.todo_id, [...tagNames.get(row.todo_id) ?? [], row.name]);
+    }
+
+    const listNames = new Map(lists.map(list => [list.id, list.name]));
+    const listOrder = new Map(lists.map((list, index) => [list.id, index]));
+    const ids = new Set(todos.map(todo => todo.id));
+
+    // Todos whose parent is not exported, e.g. because it is in the trash,
+    // go at the top level
+    const isTopLevel = (todo: Todo): boolean => todo.parent_id === null || !ids.has(todo.parent_id);
+    const children = new Map<number, Todo[]>();
+    for (const todo of todos) {
+      if (!isTopLevel(todo)) {
+        children.set(todo.parent_id!, [...children.get(todo.parent_id!) ?? [], todo]);
+      }
+    }
+
+    const exported: ExportedTodo[] = [];
+    const visit = (todo: Todo) => {
+      exported.push({
+        ...exportedTodoOf(todo, todo.list_id === null ? null : listNames.get(todo.list_id) ?? null, tagNames.get(todo.id) ?? []),
+        parent_id: isTopLevel(todo) ? null : todo.parent_id
+      });
+      for (const child of children.get(todo.id) ?? []) {
+        visit(child);
+      }
+    };
+
+    // Sorting is stable, so todos of one list keep their manual order
+    const listIndex = (todo: Todo): number => todo.list_id === null ? lists.length : listOrder.get(todo.list_id) ?? lists.length;
+    todos.filter(isTopLevel)
+      .sort((a, b) => listIndex(a) - listIndex(b))
+      .forEach(visit);
+
+    return serializeTodos(input.format, exported, new Date(), {
+      name: input.list_id !== undefined ? listNames.get(input.list_id)! : 'Todos',
+      events: input.calendar_events ?? false
+    });
+  } catch (error) {
+    console.error('Todo export failed:', error);
+    throw error;
+  }
+};
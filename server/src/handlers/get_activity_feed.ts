@@ -0,0 +1,14 @@
+import { todoEventsTable } from '../db/schema';
+import { type GetActivityFeedInput, type TodoEventPage } from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadEventPage } from '../helpers/history';
+
+// Recorded writes across all of the owner's todos, newest first
+export const getActivityFeed = async (input: GetActivityFeedInput, ownerId: number): Promise<TodoEventPage> => {
+  try {
+    return await loadEventPage(eq(todoEventsTable.owner_id, ownerId), input.limit, input.cursor);
+  } catch (error) {
+    console.error('Failed to fetch activity feed:', error);
+    throw error;
+  }
+};
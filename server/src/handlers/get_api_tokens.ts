@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { type ApiToken } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { apiTokenColumns } from '../helpers/auth';
+
+// The user's API tokens, newest first, expired ones included
+export const getApiTokens = async (ownerId: number): Promise<ApiToken[]> => {
+  try {
+    return await db.select(apiTokenColumns)
+      .from(apiTokensTable)
+      .where(eq(apiTokensTable.user_id, ownerId))
+      .orderBy(desc(apiTokensTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch API tokens:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type CalendarFeed } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// The user's calendar feed, or null when they have none. Its URL cannot be
+// told from what is stored.
+export const getCalendarFeed = async (ownerId: number): Promise<CalendarFeed | null> => {
+  try {
+    const feeds = await db.select({ include_events: calendarFeedsTable.include_events, created_at: calendarFeedsTable.created_at })
+      .from(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.user_id, ownerId))
+      .execute();
+
+    return feeds[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch calendar feed:', error);
+    throw error;
+  }
+};
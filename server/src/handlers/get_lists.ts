@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { type ListSummary } from '../schema';
+import { and, asc, count, desc, eq, getTableColumns, isNull, sql } from 'drizzle-orm';
+import { getOrCreateInbox } from '../helpers/lists';
+
+export const getLists = async (ownerId: number): Promise<ListSummary[]> => {
+  try {
+    // The Inbox always exists, even before the first todo is created
+    await getOrCreateInbox(ownerId);
+
+    return await db.select({
+      ...getTableColumns(listsTable),
+      todo_count: count(todosTable.id),
+      pending_count: sql<number>`count(${todosTable.id}) filter (where not ${todosTable.completed})`.mapWith(Number)
+    })
+      .from(listsTable)
+      // Trashed todos are not counted
+      .leftJoin(todosTable, and(eq(todosTable.list_id, listsTable.id), isNull(todosTable.deleted_at)))
+      .where(eq(listsTable.owner_id, ownerId))
+      .groupBy(listsTable.id)
+      // Inbox first, then by the user's ordering
+      .orderBy(desc(listsTable.is_inbox), asc(listsTable.sort_order), asc(listsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch lists:', error);
+    throw error;
+  }
+};
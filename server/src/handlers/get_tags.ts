@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type Tag } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const getTags = async (ownerId: number): Promise<Tag[]> => {
+  try {
+    // Alphabetical for pickers and autocomplete
+    return await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.owner_id, ownerId))
+      .orderBy(asc(tagsTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch tags:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type GetTodoInput, type TodoWithTags } from '../schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+// A live todo, top-level or subtask, with its tags by name
+export const getTodo = async (input: GetTodoInput, ownerId: number): Promise<TodoWithTags> => {
+  try {
+    const todos = await db.select()
+      .from(todosTable)
+      .where(and(eq(todosTable.id, input.id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+      .execute();
+
+    if (todos.length === 0) {
+      throw new NotFoundError(`Todo with id ${input.id} not found`);
+    }
+
+    const tags = await db.select({ tag: tagsTable })
+      .from(todoTagsTable)
+      .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+      .where(eq(todoTagsTable.todo_id, input.id))
+      .orderBy(asc(tagsTable.name))
+      .execute();
+
+    return { ...todos[0], tags: tags.map(row => row.tag) };
+  } catch (error) {
+    console.error('Failed to fetch todo:', error);
+    throw error;
+  }
+};
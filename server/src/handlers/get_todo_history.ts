@@ -0,0 +1,19 @@
+import { todoEventsTable } from '../db/schema';
+import { type GetTodoHistoryInput, type TodoEventPage } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { loadEventPage } from '../helpers/history';
+
+// Every recorded write to one todo, newest first. History stays available
+// after the todo is purged.
+export const getTodoHistory = async (input: GetTodoHistoryInput, ownerId: number): Promise<TodoEventPage> => {
+  try {
+    return await loadEventPage(
+      and(eq(todoEventsTable.todo_id, input.todo_id), eq(todoEventsTable.owner_id, ownerId)),
+      input.limit,
+      input.cursor
+    );
+  } catch (error) {
+    console.error('Failed to fetch todo history:', error);
+    throw error;
+  }
+};
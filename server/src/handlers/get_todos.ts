@@ -1,18 +1,257 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
-import { type Todo } from '../schema';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import {
+  sortDirectionSchema,
+  todoPrioritySchema,
+  todoSortFieldSchema,
+  type GetTodosInput,
+  type SortDirection,
+  type Tag,
+  type Todo,
+  type TodoListItem,
+  type TodoPage,
+  type TodoSortField
+} from '../schema';
+import { and, asc, count, desc, eq, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import { buildFilters } from '../helpers/todoFilters';
+import { positionOrder } from '../helpers/positions';
+import { ValidationError } from '../errors';
 
-export const getTodos = async (): Promise<Todo[]> => {
+// One component of the ordering. Cursors carry each key's value as a string.
+type SortKey = {
+  expression: SQL;
+  cursorValue: (todo: Todo) => string;
+  fromCursor: (value: string) => SQL;
+};
+
+type SortPlan = {
+  keys: SortKey[];
+  direction: SortDirection; // Applied to every key and to the id tie-breaker
+};
+
+// Timestamps are truncated to milliseconds so they compare equal to the
+// JS Date values carried in cursors
+const timestampFromCursor = (value: string): SQL => sql`${value}::timestamp`;
+
+const createdAtKey: SortKey = {
+  expression: sql`date_trunc('milliseconds', ${todosTable.created_at})`,
+  cursorValue: (todo) => todo.created_at.toISOString(),
+  fromCursor: timestampFromCursor
+};
+
+const updatedAtKey: SortKey = {
+  expression: sql`date_trunc('milliseconds', ${todosTable.updated_at})`,
+  cursorValue: (todo) => todo.updated_at.toISOString(),
+  fromCursor: timestampFromCursor
+};
+
+const titleKey: SortKey = {
+  expression: sql`${todosTable.title}`,
+  cursorValue: (todo) => todo.title,
+  fromCursor: (value) => sql`${value}`
+};
+
+const positionKey: SortKey = {
+  expression: positionOrder,
+  cursorValue: (todo) => todo.position,
+  fromCursor: (value) => sql`${value} collate "C"`
+};
+
+// Todos without a due date sort after dated ones in either direction
+const dueDateKey = (direction: SortDirection): SortKey => {
+  const noDueDate = direction === 'asc' ? 'infinity' : '-infinity';
+  return {
+    expression: sql`coalesce(date_trunc('milliseconds', ${todosTable.due_at}), ${noDueDate}::timestamp)`,
+    cursorValue: (todo) => todo.due_at ? todo.due_at.toISOString() : noDueDate,
+    fromCursor: timestampFromCursor
+  };
+};
+
+// Numeric rank of the priority, negated when the most important should come first
+const priorityKey = (direction: SortDirection): SortKey => {
+  const sign = direction === 'desc' ? -1 : 1;
+  const rank = (priority: string) => todoPrioritySchema.options.indexOf(priority as Todo['priority']) * sign;
+  const cases = todoPrioritySchema.options.map((priority) => `when '${priority}' then ${rank(priority)}`);
+  return {
+    expression: sql`(case ${todosTable.priority} ${sql.raw(cases.join(' '))} end)`,
+    cursorValue: (todo) => String(rank(todo.priority)),
+    fromCursor: (value) => sql`${value}::int`
+  };
+};
+
+const sortPlan = (sortBy: TodoSortField, direction: SortDirection): SortPlan => {
+  switch (sortBy) {
+    case 'priority':
+      // The direction applies to priority; due dates always come soonest first
+      return { keys: [priorityKey(direction), dueDateKey('asc')], direction: 'asc' };
+    case 'created_at':
+      return { keys: [createdAtKey], direction };
+    case 'updated_at':
+      return { keys: [updatedAtKey], direction };
+    case 'due_at':
+      return { keys: [dueDateKey(direction)], direction };
+    case 'title':
+      return { keys: [titleKey], direction };
+    case 'position':
+      return { keys: [positionKey], direction };
+  }
+};
+
+type DecodedCursor = {
+  sortBy: TodoSortField;
+  direction: SortDirection;
+  values: string[];
+  id: number;
+};
+
+const encodeCursor = (todo: Todo, input: GetTodosInput, plan: SortPlan): string => {
+  const values = plan.keys.map((key) => key.cursorValue(todo));
+  return Buffer.from(JSON.stringify([input.sort_by, input.sort_direction, values, todo.id])).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): DecodedCursor => {
   try {
-    // Fetch all todos from the database
-    const todos = await db.select()
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && decoded.length === 4) {
+      const sortBy = todoSortFieldSchema.safeParse(decoded[0]);
+      const direction = sortDirectionSchema.safeParse(decoded[1]);
+      const values: unknown = decoded[2];
+      if (
+        sortBy.success &&
+        direction.success &&
+        Array.isArray(values) &&
+        values.every((value) => typeof value === 'string') &&
+        Number.isInteger(decoded[3])
+      ) {
+        return { sortBy: sortBy.data, direction: direction.data, values, id: decoded[3] };
+      }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ValidationError('Invalid cursor');
+};
+
+// Loads the tags of the given todos, keyed by todo id
+const loadTodoTags = async (todoIds: number[]): Promise<Map<number, Tag[]>> => {
+  const tagsByTodo = new Map<number, Tag[]>(todoIds.map(id => [id, []]));
+  if (todoIds.length === 0) {
+    return tagsByTodo;
+  }
+
+  const rows = await db.select()
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(inArray(todoTagsTable.todo_id, todoIds))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  for (const row of rows) {
+    tagsByTodo.get(row.todo_tags.todo_id)?.push(row.tags);
+  }
+
+  return tagsByTodo;
+};
+
+// Loads every subtask below the given todos, oldest first within each level
+const loadSubtasks = async (todoIds: number[]): Promise<Todo[]> => {
+  const subtasks: Todo[] = [];
+  let level = todoIds;
+
+  while (level.length > 0) {
+    const children = await db.select()
+      .from(todosTable)
+      .where(and(inArray(todosTable.parent_id, level), isNull(todosTable.deleted_at)))
+      .orderBy(asc(todosTable.created_at), asc(todosTable.id))
+      .execute();
+
+    subtasks.push(...children);
+    level = children.map(child => child.id);
+  }
+
+  return subtasks;
+};
+
+// Nests subtasks under the page's todos and rolls up completion of direct subtasks
+const buildTree = (todos: Todo[], subtasks: Todo[], tagsByTodo: Map<number, Tag[]>): TodoListItem[] => {
+  const childrenByParent = new Map<number, Todo[]>();
+  for (const subtask of subtasks) {
+    if (subtask.parent_id !== null) {
+      const siblings = childrenByParent.get(subtask.parent_id) ?? [];
+      siblings.push(subtask);
+      childrenByParent.set(subtask.parent_id, siblings);
+    }
+  }
+
+  const toItem = (todo: Todo): TodoListItem => {
+    const children = (childrenByParent.get(todo.id) ?? []).map(toItem);
+    return {
+      ...todo,
+      tags: tagsByTodo.get(todo.id) ?? [],
+      progress: {
+        completed: children.filter(child => child.completed).length,
+        total: children.length
+      },
+      children
+    };
+  };
+
+  return todos.map(toItem);
+};
+
+export const getTodos = async (input: GetTodosInput, ownerId: number, now: Date = new Date()): Promise<TodoPage> => {
+  try {
+    const filters = buildFilters(input, ownerId, now);
+    const plan = sortPlan(input.sort_by, input.sort_direction);
+    const direction = plan.direction === 'asc' ? asc : desc;
+    const sortExpressions = plan.keys.map((key) => key.expression);
+
+    // Keyset condition: continue strictly after the sort values and id in the cursor
+    const conditions = [...filters];
+    if (input.cursor) {
+      const cursor = decodeCursor(input.cursor);
+      if (cursor.sortBy !== input.sort_by || cursor.direction !== input.sort_direction) {
+        throw new ValidationError('Cursor does not match the requested sort field and direction');
+      }
+      if (cursor.values.length !== plan.keys.length) {
+        throw new ValidationError('Invalid cursor');
+      }
+
+      const rowKey = sql.join([...sortExpressions, sql`${todosTable.id}`], sql`, `);
+      const cursorKey = sql.join([
+        ...plan.keys.map((key, i) => key.fromCursor(cursor.values[i])),
+        sql`${cursor.id}`
+      ], sql`, `);
+      conditions.push(plan.direction === 'asc'
+        ? sql`(${rowKey}) > (${cursorKey})`
+        : sql`(${rowKey}) < (${cursorKey})`);
+    }
+
+    // Fetch one extra row to find out whether another page follows
+    const rows = await db.select()
       .from(todosTable)
+      .where(and(...conditions))
+      .orderBy(...sortExpressions.map((expression) => direction(expression)), direction(todosTable.id))
+      .limit(input.limit + 1)
       .execute();
 
-    // Return todos (no numeric conversions needed for this schema)
-    return todos;
+    const [{ totalCount }] = await db.select({ totalCount: count() })
+      .from(todosTable)
+      .where(and(...filters))
+      .execute();
+
+    const todos = rows.slice(0, input.limit);
+    const nextCursor = rows.length > input.limit
+      ? encodeCursor(todos[todos.length - 1], input, plan)
+      : null;
+
+    const subtasks = await loadSubtasks(todos.map(todo => todo.id));
+    const tagsByTodo = await loadTodoTags([...todos, ...subtasks].map(todo => todo.id));
+    const items = buildTree(todos, subtasks, tagsByTodo);
+
+    return { items, nextCursor, totalCount };
   } catch (error) {
     console.error('Failed to fetch todos:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
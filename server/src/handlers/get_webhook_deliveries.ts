@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { type GetWebhookDeliveriesInput, type WebhookDeliveryPage } from '../schema';
+import { and, desc, eq, lt } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+// A page of a webhook's deliveries, newest first. The cursor is the id of the
+// last delivery on the previous page.
+export const getWebhookDeliveries = async (input: GetWebhookDeliveriesInput, ownerId: number): Promise<WebhookDeliveryPage> => {
+  try {
+    const webhooks = await db.select({ id: webhooksTable.id })
+      .from(webhooksTable)
+      .where(and(eq(webhooksTable.id, input.webhook_id), eq(webhooksTable.owner_id, ownerId)))
+      .execute();
+
+    if (webhooks.length === 0) {
+      throw new NotFoundError(`Webhook with id ${input.webhook_id} not found`);
+    }
+
+    // Fetch one extra row to find out whether another page follows
+    const rows = await db.select()
+      .from(webhookDeliveriesTable)
+      .where(and(
+        eq(webhookDeliveriesTable.webhook_id, input.webhook_id),
+        input.status ? eq(webhookDeliveriesTable.status, input.status) : undefined,
+        input.cursor ? lt(webhookDeliveriesTable.id, input.cursor) : undefined
+      ))
+      .orderBy(desc(webhookDeliveriesTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const items = rows.slice(0, input.limit);
+    const nextCursor = rows.length > input.limit ? items[items.length - 1].id : null;
+    return { items, nextCursor };
+  } catch (error) {
+    console.error('Failed to fetch webhook deliveries:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { type Webhook } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { webhookColumns } from '../helpers/webhooks';
+
+// The owner's webhooks, oldest first
+export const getWebhooks = async (ownerId: number): Promise<Webhook[]> => {
+  try {
+    return await db.select(webhookColumns)
+      .from(webhooksTable)
+      .where(eq(webhooksTable.owner_id, ownerId))
+      .orderBy(asc(webhooksTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch webhooks:', error);
+    throw error;
+  }
+};
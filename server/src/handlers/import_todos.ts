@@ -0,0 +1,416 @@
+import { db } from '../db';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import {
+  type ImportAction,
+  type ImportedTodo,
+  type ImportItemResult,
+  type ImportResult,
+  type ImportTodosInput,
+  type Todo,
+  type TodoFieldChange
+} from '../schema';
+import { and, asc, eq, isNull, max, sql, TransactionRollbackError } from 'drizzle-orm';
+import { type PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { toUtcMidnight } from '../helpers/dates';
+import { getOrCreateInbox, type DbExecutor } from '../helpers/lists';
+import { moveSubtasksToList } from '../helpers/subtasks';
+import { notifyTodoChange } from '../helpers/events';
+import { diffTodos, recordTodoEvents, tagNamesOf } from '../helpers/history';
+import { lastPosition, lockPositions, rebalancePositions, siblingsOf } from '../helpers/positions';
+import { MAX_RANK_LENGTH } from '../helpers/ranks';
+import { parseTodoFile, type ParsedRecord } from '../helpers/todoFormats';
+import { NotFoundError } from '../errors';
+
+// Looks lists and tags up by name regardless of case, creating the missing
+// ones on first use
+class NamedRecords {
+  private readonly lists = new Map<string, number>();
+  private readonly tags = new Map<string, number>();
+
+  private constructor(private readonly tx: DbExecutor, private readonly ownerId: number) {}
+
+  static async load(tx: DbExecutor, ownerId: number): Promise<NamedRecords> {
+    const records = new NamedRecords(tx, ownerId);
+    const lists = await tx.select({ id: listsTable.id, name: listsTable.name })
+      .from(listsTable)
+      .where(eq(listsTable.owner_id, ownerId))
+      .orderBy(asc(listsTable.id))
+      .execute();
+    for (const list of lists.reverse()) {
+      records.lists.set(list.name.toLowerCase(), list.id); // The oldest of equally named lists wins
+    }
+
+    const tags = await tx.select({ id: tagsTable.id, name: tagsTable.name })
+      .from(tagsTable)
+      .where(eq(tagsTable.owner_id, ownerId))
+      .execute();
+    for (const tag of tags) {
+      records.tags.set(tag.name.toLowerCase(), tag.id);
+    }
+    return records;
+  }
+
+  findList(name: string): number | undefined {
+    return this.lists.get(name.toLowerCase());
+  }
+
+  async listId(name: string): Promise<number> {
+    const existing = this.findList(name);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    // New lists go after the existing ones, as in createList
+    const [{ maxSortOrder }] = await this.tx.select({ maxSortOrder: max(listsTable.sort_order) })
+      .from(listsTable)
+      .where(eq(listsTable.owner_id, this.ownerId))
+      .execute();
+    const [list] = await this.tx.insert(listsTable)
+      .values({ owner_id: this.ownerId, name, sort_order: (maxSortOrder ?? 0) + 1 })
+      .returning()
+      .execute();
+    this.lists.set(name.toLowerCase(), list.id);
+    return list.id;
+  }
+
+  async tagIds(names: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const name of names) {
+      let id = this.tags.get(name.toLowerCase());
+      if (id === undefined) {
+        const [tag] = await this.tx.insert(tagsTable)
+          .values({ owner_id: this.ownerId, name })
+          .returning()
+          .execute();
+        id = tag.id;
+        this.tags.set(name.toLowerCase(), id);
+      }
+      if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+}
+
+// What became of a record: the todo it created, updated or left as it was,
+// and why it was skipped
+type Outcome = { action: ImportAction; todo: Todo | null; reason: string | null };
+
+const skip = (reason: string, todo: Todo | null = null): Outcome => ({ action: 'skip', todo, reason });
+
+const recurrenceNeedsDueDate = 'Recurring todos need a due date';
+
+// The due date as stored: all-day dates at UTC midnight
+const storedDueAt = (record: ImportedTodo, dueAllDay: boolean): Date | null | undefined =>
+  record.due_at && dueAllDay ? toUtcMidnight(record.due_at) : record.due_at;
+
+// Applies the records in the transaction, parents ahead of their subtasks
+const applyRecords = async (
+  tx: DbExecutor,
+  records: ParsedRecord[],
+  input: ImportTodosInput,
+  ownerId: number
+): Promise<ImportItemResult[]> => {
+  await lockPositions(tx, ownerId);
+
+  let defaultListId: number;
+  if (input.list_id !== undefined) {
+    const lists = await tx.select({ id: listsTable.id })
+      .from(listsTable)
+      .where(and(eq(listsTable.id, input.list_id), eq(listsTable.owner_id, ownerId)))
+      .execute();
+
+    if (lists.length === 0) {
+      throw new NotFoundError(`List with id ${input.list_id} not found`);
+    }
+    defaultListId = input.list_id;
+  } else {
+    defaultListId = (await getOrCreateInbox(ownerId, tx)).id;
+  }
+
+  const named = await NamedRecords.load(tx, ownerId);
+  const createdIds: number[] = [];
+  const updatedIds: number[] = [];
+  const claimedIds = new Set<number>(); // Todos a record already matched
+  let hasLongRanks = false;
+
+  // The user's live todo with the given id, if any
+  const ownTodo = async (id: number): Promise<Todo | undefined> => {
+    const rows = await tx.select()
+      .from(todosTable)
+      .where(and(eq(todosTable.id, id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+      .execute();
+    return rows[0];
+  };
+
+  // The todo a record updates: the one with its id, else an unclaimed
+  // sibling with the same title
+  const findMatch = async (record: ImportedTodo, parent: Todo | null): Promise<Todo | undefined> => {
+    if (record.id !== undefined && record.id !== null && !claimedIds.has(record.id)) {
+      const todo = await ownTodo(record.id);
+      if (todo) {
+        return todo;
+      }
+    }
+
+    // Top-level todos also need to be in the record's list
+    let listId: number | undefined;
+    if (parent === null) {
+      listId = record.list ? named.findList(record.list) : defaultListId;
+      if (listId === undefined) {
+        return undefined;
+      }
+    }
+
+    const candidates = await tx.select()
+      .from(todosTable)
+      .where(and(
+        siblingsOf(ownerId, parent?.id ?? null),
+        isNull(todosTable.deleted_at),
+        eq(todosTable.title, record.title),
+        listId !== undefined ? eq(todosTable.list_id, listId) : undefined
+      ))
+      .orderBy(asc(todosTable.id))
+      .execute();
+    return candidates.find(todo => !claimedIds.has(todo.id));
+  };
+
+  const update = async (record: ImportedTodo, current: Todo, isTopLevel: boolean): Promise<Outcome> => {
+    // Only the fields the record has change
+    const changes: PgUpdateSetSource<typeof todosTable> = {};
+    if (record.title !== current.title) {
+      changes.title = record.title;
+    }
+    if (record.description !== undefined) {
+      changes.description = record.description;
+    }
+    if (record.completed !== undefined) {
+      changes.completed = record.completed;
+    }
+    if (record.priority !== undefined) {
+      changes.priority = record.priority;
+    }
+    if (record.due_at !== undefined) {
+      changes.due_at = storedDueAt(record, record.due_all_day ?? current.due_all_day);
+    }
+    if (record.due_all_day !== undefined) {
+      changes.due_all_day = record.due_all_day;
+    }
+    if (record.due_time_zone !== undefined) {
+      changes.due_time_zone = record.due_time_zone;
+    }
+    if (record.recurrence_rule !== undefined) {
+      changes.recurrence_rule = record.recurrence_rule;
+    }
+    // Subtasks always share their top-level todo's list
+    if (isTopLevel && record.list) {
+      changes.list_id = await named.listId(record.list);
+    }
+
+    const next = { ...current, ...changes } as Todo;
+    if (next.recurrence_rule && !next.due_at) {
+      return skip(recurrenceNeedsDueDate);
+    }
+
+    let tagChange: TodoFieldChange | null = null;
+    if (record.tags !== undefined) {
+      const before = await tagNamesOf(tx, current.id);
+      const tagIds = await named.tagIds(record.tags);
+      await tx.delete(todoTagsTable).where(eq(todoTagsTable.todo_id, current.id)).execute();
+      if (tagIds.length > 0) {
+        await tx.insert(todoTagsTable)
+          .values(tagIds.map(tagId => ({ todo_id: current.id, tag_id: tagId })))
+          .execute();
+      }
+      const after = await tagNamesOf(tx, current.id);
+      if (before.join('\n') !== after.join('\n')) {
+        tagChange = { before, after };
+      }
+    }
+
+    if (Object.keys(diffTodos(current, next)).length === 0 && tagChange === null) {
+      return skip('Unchanged', current);
+    }
+
+    const [row] = await tx.update(todosTable)
+      .set({ ...changes, version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+      .where(eq(todosTable.id, current.id))
+      .returning()
+      .execute();
+    await recordTodoEvents(tx, ownerId, 'updated', [{
+      before: current,
+      after: row,
+      changes: tagChange ? { tags: tagChange } : undefined
+    }]);
+
+    updatedIds.push(row.id);
+    if (row.list_id !== current.list_id && row.list_id !== null) {
+      updatedIds.push(...await moveSubtasksToList(tx, row.id, row.list_id, ownerId));
+    }
+    return { action: 'update', todo: row, reason: null };
+  };
+
+  const create = async (record: ImportedTodo, parent: Todo | null): Promise<Outcome> => {
+    const dueAllDay = record.due_all_day ?? false;
+    const dueAt = storedDueAt(record, dueAllDay) ?? null;
+    if (record.recurrence_rule && !dueAt) {
+      return skip(recurrenceNeedsDueDate);
+    }
+
+    // Subtasks go in their parent's list; new todos go after their siblings,
+    // so the file's order is kept
+    const listId = parent !== null ? parent.list_id : record.list ? await named.listId(record.list) : defaultListId;
+    const position = await lastPosition(tx, ownerId, parent?.id ?? null);
+    hasLongRanks ||= position.length > MAX_RANK_LENGTH;
+
+    const [row] = await tx.insert(todosTable)
+      .values({
+        owner_id: ownerId,
+        title: record.title,
+        description: record.description ?? null,
+        completed: record.completed ?? false,
+        list_id: listId,
+        parent_id: parent?.id ?? null,
+        priority: record.priority ?? 'none',
+        due_at: dueAt,
+        due_all_day: dueAllDay,
+        due_time_zone: record.due_time_zone ?? null,
+        recurrence_rule: record.recurrence_rule ?? null,
+        position
+      })
+      .returning()
+      .execute();
+
+    let tagNames: string[] = [];
+    const tagIds = await named.tagIds(record.tags ?? []);
+    if (tagIds.length > 0) {
+      await tx.insert(todoTagsTable)
+        .values(tagIds.map(tagId => ({ todo_id: row.id, tag_id: tagId })))
+        .execute();
+      tagNames = await tagNamesOf(tx, row.id);
+    }
+
+    await recordTodoEvents(tx, ownerId, 'created', [{
+      before: null,
+      after: row,
+      changes: tagNames.length > 0 ? { tags: { before: null, after: tagNames } } : undefined
+    }]);
+
+    createdIds.push(row.id);
+    return { action: 'create', todo: row, reason: null };
+  };
+
+  // Records other records refer to as their parent
+  const byRef = new Map<string, ParsedRecord>();
+  for (const record of records) {
+    if (record.ref !== null && !byRef.has(record.ref)) {
+      byRef.set(record.ref, record);
+    }
+  }
+  const outcomes = new Map<ParsedRecord, Outcome>();
+
+  const apply = async (record: ParsedRecord): Promise<Outcome> => {
+    if (record.todo === null) {
+      return skip(record.error ?? 'Unreadable record');
+    }
+
+    let parent: Todo | null = null;
+    if (record.parentRef !== null) {
+      const parentRecord = byRef.get(record.parentRef);
+      if (parentRecord) {
+        parent = outcomes.get(parentRecord)?.todo ?? null;
+        if (parent === null) {
+          return skip('Its parent was skipped');
+        }
+      } else if (!record.parentRef.startsWith('id:')) {
+        return skip('Its parent is not in the file');
+      } else {
+        // Not in the file, so it may be one of the user's todos
+        const parentId = Number(record.parentRef.replace(/^id:/, ''));
+        parent = await ownTodo(parentId) ?? null;
+        if (parent === null) {
+          return skip(`Parent todo ${parentId} not found`);
+        }
+      }
+    }
+
+    const match = await findMatch(record.todo, parent);
+    if (match) {
+      claimedIds.add(match.id);
+      return update(record.todo, match, match.parent_id === null);
+    }
+    return create(record.todo, parent);
+  };
+
+  // A record waits until the record of its parent has been applied
+  let pending = [...records];
+  while (pending.length > 0) {
+    const ready = pending.filter((record) => {
+      const parentRecord = record.parentRef !== null ? byRef.get(record.parentRef) : undefined;
+      return parentRecord === undefined || outcomes.has(parentRecord);
+    });
+    if (ready.length === 0) {
+      // The rest are each other's parents
+      for (const record of pending) {
+        outcomes.set(record, skip('Its parent is one of its own subtasks'));
+      }
+      break;
+    }
+
+    for (const record of ready) {
+      outcomes.set(record, await apply(record));
+    }
+    pending = pending.filter(record => !outcomes.has(record));
+  }
+
+  if (hasLongRanks) {
+    await rebalancePositions(tx, ownerId);
+  }
+  await notifyTodoChange(tx, 'created', ownerId, createdIds);
+  await notifyTodoChange(tx, 'updated', ownerId, [...new Set(updatedIds)]);
+
+  return records.map((record) => {
+    const outcome = outcomes.get(record)!;
+    return {
+      row: record.row,
+      title: record.todo?.title ?? record.title,
+      action: outcome.action,
+      reason: outcome.reason
+    };
+  });
+};
+
+// Creates and updates todos from a file. A dry run makes the same changes
+// and rolls them back, so it reports exactly what an import would do.
+export const importTodos = async (input: ImportTodosInput, ownerId: number): Promise<ImportResult> => {
+  try {
+    const records = parseTodoFile(input.format, input.content, input.csv_columns);
+
+    let items: ImportItemResult[] = [];
+    try {
+      await db.transaction(async (tx) => {
+        items = await applyRecords(tx, records, input, ownerId);
+        if (input.dry_run) {
+          tx.rollback();
+        }
+      });
+    } catch (error) {
+      if (!(input.dry_run && error instanceof TransactionRollbackError)) {
+        throw error;
+      }
+    }
+
+    const countOf = (action: ImportItemResult['action']): number => items.filter(item => item.action === action).length;
+    return {
+      dry_run: input.dry_run,
+      created: countOf('create'),
+      updated: countOf('update'),
+      skipped: countOf('skip'),
+      items
+    };
+  } catch (error) {
+    console.error('Todo import failed:', error);
+    throw error;
+  }
+};
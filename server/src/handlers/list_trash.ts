@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type Todo } from '../schema';
+import { and, desc, eq, getTableColumns, isNotNull, isNull, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+// Trashed todos, most recently deleted first. Subtasks trashed along with
+// their parent are left out; they come back when the parent is restored.
+export const listTrash = async (ownerId: number): Promise<Todo[]> => {
+  try {
+    const parents = alias(todosTable, 'parents');
+
+    return await db.select(getTableColumns(todosTable))
+      .from(todosTable)
+      .leftJoin(parents, eq(parents.id, todosTable.parent_id))
+      .where(and(
+        eq(todosTable.owner_id, ownerId),
+        isNotNull(todosTable.deleted_at),
+        or(isNull(parents.deleted_at), isNull(todosTable.parent_id))
+      ))
+      .orderBy(desc(todosTable.deleted_at), desc(todosTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch trash:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,19 @@
+import { type AuthSession, type LogInInput } from '../schema';
+import { createSession, verifyCredentials } from '../helpers/auth';
+import { AuthenticationError } from '../errors';
+
+export const logIn = async (input: LogInInput): Promise<AuthSession> => {
+  try {
+    const user = await verifyCredentials(input.email, input.password);
+
+    // The same message for unknown emails and wrong passwords
+    if (!user) {
+      throw new AuthenticationError('Invalid email or password');
+    }
+
+    return await createSession(user);
+  } catch (error) {
+    console.error('Log in failed:', error);
+    throw error;
+  }
+};
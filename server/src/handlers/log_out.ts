@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { hashToken } from '../helpers/auth';
+
+export const logOut = async (token: string): Promise<{ success: boolean }> => {
+  try {
+    await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Log out failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,115 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type MoveTodoInput, type Todo } from '../schema';
+import { and, asc, desc, eq, isNull, ne, sql } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '../errors';
+import { notifyTodoChange } from '../helpers/events';
+import { lockPositions, positionOrder, rebalancePositions, siblingsOf } from '../helpers/positions';
+import { rankBetween } from '../helpers/ranks';
+import { type DbExecutor } from '../helpers/lists';
+
+type Neighbours = {
+  before: Todo | null;
+  after: Todo | null;
+};
+
+// Whether a sorts ahead of b in the manual order
+const isAhead = (a: Todo, b: Todo): boolean =>
+  a.position < b.position || (a.position === b.position && a.id < b.id);
+
+const loadSibling = async (tx: DbExecutor, todo: Todo, id: number): Promise<Todo> => {
+  if (id === todo.id) {
+    throw new ValidationError('A todo cannot be placed next to itself');
+  }
+
+  const siblings = await tx.select()
+    .from(todosTable)
+    .where(and(eq(todosTable.id, id), siblingsOf(todo.owner_id, todo.parent_id), isNull(todosTable.deleted_at)))
+    .execute();
+
+  if (siblings.length === 0) {
+    throw new NotFoundError(`Todo with id ${id} not found among the todo's siblings`);
+  }
+  return siblings[0];
+};
+
+// The sibling right after (or before) the given one, other than the todo being moved
+const adjacentSibling = async (tx: DbExecutor, todo: Todo, sibling: Todo, direction: 'next' | 'previous'): Promise<Todo | null> => {
+  const rowKey = sql`(${positionOrder}, ${todosTable.id})`;
+  const siblingKey = sql`(${sibling.position} collate "C", ${sibling.id})`;
+  const order = direction === 'next' ? asc : desc;
+
+  const rows = await tx.select()
+    .from(todosTable)
+    .where(and(
+      siblingsOf(todo.owner_id, todo.parent_id),
+      isNull(todosTable.deleted_at),
+      ne(todosTable.id, todo.id),
+      direction === 'next' ? sql`${rowKey} > ${siblingKey}` : sql`${rowKey} < ${siblingKey}`
+    ))
+    .orderBy(order(positionOrder), order(todosTable.id))
+    .limit(1)
+    .execute();
+  return rows[0] ?? null;
+};
+
+const findNeighbours = async (tx: DbExecutor, todo: Todo, input: MoveTodoInput): Promise<Neighbours> => {
+  const before = input.before_id != null ? await loadSibling(tx, todo, input.before_id) : null;
+  const after = input.after_id != null ? await loadSibling(tx, todo, input.after_id) : null;
+
+  if (before && after) {
+    if (!isAhead(before, after)) {
+      throw new ValidationError('The todo to place it after must come ahead of the todo to place it before');
+    }
+    return { before, after };
+  }
+  if (before) {
+    return { before, after: await adjacentSibling(tx, todo, before, 'next') };
+  }
+  return { before: await adjacentSibling(tx, todo, after!, 'previous'), after };
+};
+
+// Places a todo between two of its siblings in the manual order. Only the
+// todo's own rank changes, unless its neighbours share a rank and the
+// owner's ranks have to be spread out first.
+export const moveTodo = async (input: MoveTodoInput, ownerId: number): Promise<Todo> => {
+  try {
+    return await db.transaction(async (tx) => {
+      await lockPositions(tx, ownerId);
+
+      const current = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      if (current.length === 0) {
+        throw new NotFoundError(`Todo with id ${input.id} not found`);
+      }
+
+      const todo = current[0];
+      let { before, after } = await findNeighbours(tx, todo, input);
+      if (before && after && before.position === after.position) {
+        // Todos from before manual ordering all share the default rank
+        await rebalancePositions(tx, ownerId);
+        ({ before, after } = await findNeighbours(tx, todo, input));
+      }
+
+      // Ranks mean nothing on their own, so moves stay out of the history
+      const [moved] = await tx.update(todosTable)
+        .set({
+          position: rankBetween(before?.position ?? null, after?.position ?? null),
+          version: sql`${todosTable.version} + 1`,
+          updated_at: new Date()
+        })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      await notifyTodoChange(tx, 'updated', ownerId, [moved.id]);
+      return moved;
+    });
+  } catch (error) {
+    console.error('Todo move failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type ExportedFile } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashToken } from '../helpers/auth';
+import { exportTodos } from './export_todos';
+
+// The iCalendar file of the feed with the given token; null when no feed has it
+export const readCalendarFeed = async (token: string): Promise<ExportedFile | null> => {
+  try {
+    const feeds = await db.select()
+      .from(calendarFeedsTable)
+      .where(eq(calendarFeedsTable.token_hash, hashToken(token)))
+      .execute();
+
+    if (feeds.length === 0) {
+      return null;
+    }
+
+    return await exportTodos({ format: 'ical', calendar_events: feeds[0].include_events }, feeds[0].user_id);
+  } catch (error) {
+    console.error('Calendar feed read failed:', error);
+    throw error;
+  }
+};
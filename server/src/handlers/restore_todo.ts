@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type RestoreTodoInput, type Todo } from '../schema';
+import { and, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '../errors';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents } from '../helpers/history';
+import { getDescendantIds } from '../helpers/subtasks';
+
+// Brings a todo back from the trash along with the subtasks trashed with it.
+// Subtasks trashed on their own before it stay in the trash.
+export const restoreTodo = async (input: RestoreTodoInput, ownerId: number): Promise<Todo> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const trashed = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.id), eq(todosTable.owner_id, ownerId), isNotNull(todosTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (trashed.length === 0) {
+        throw new NotFoundError(`Todo with id ${input.id} is not in the trash`);
+      }
+
+      const todo = trashed[0];
+      if (todo.parent_id !== null) {
+        const parents = await tx.select({ deleted_at: todosTable.deleted_at })
+          .from(todosTable)
+          .where(eq(todosTable.id, todo.parent_id))
+          .execute();
+        if (parents[0]?.deleted_at) {
+          throw new ValidationError('Restore the parent todo first');
+        }
+      }
+
+      const descendantIds = await getDescendantIds(tx, [input.id]);
+      const [restored] = await tx.update(todosTable)
+        .set({ deleted_at: null, version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+      const subtasks = descendantIds.length > 0
+        ? await tx.update(todosTable)
+          .set({ deleted_at: null, version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+          .where(and(inArray(todosTable.id, descendantIds), eq(todosTable.deleted_at, todo.deleted_at!)))
+          .returning()
+          .execute()
+        : [];
+
+      // Only deleted_at changed, so the earlier state follows from the new one
+      await recordTodoEvents(tx, ownerId, 'restored', [restored, ...subtasks].map(row => ({
+        before: { ...row, deleted_at: todo.deleted_at },
+        after: row
+      })));
+      // The todo comes first so clients have it before its subtasks
+      await notifyTodoChange(tx, 'created', ownerId, [restored.id, ...subtasks.map(subtask => subtask.id)]);
+
+      return restored;
+    });
+  } catch (error) {
+    console.error('Todo restore failed:', error);
+    throw error;
+  }
+};
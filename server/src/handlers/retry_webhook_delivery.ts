@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { type RetryWebhookDeliveryInput, type WebhookDelivery } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { ConflictError, NotFoundError } from '../errors';
+
+// Queues a delivered or dead delivery to be sent again with the same id and
+// payload, starting over with its attempts
+export const retryWebhookDelivery = async (input: RetryWebhookDeliveryInput, ownerId: number): Promise<WebhookDelivery> => {
+  try {
+    const owned = db.select({ id: webhooksTable.id })
+      .from(webhooksTable)
+      .where(eq(webhooksTable.owner_id, ownerId));
+    const condition = and(eq(webhookDeliveriesTable.id, input.id), inArray(webhookDeliveriesTable.webhook_id, owned));
+
+    const result = await db.update(webhookDeliveriesTable)
+      .set({ status: 'pending', attempts: 0, next_attempt_at: new Date() })
+      .where(and(condition, inArray(webhookDeliveriesTable.status, ['delivered', 'dead'])))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      const existing = await db.select({ id: webhookDeliveriesTable.id })
+        .from(webhookDeliveriesTable)
+        .where(condition)
+        .execute();
+      throw existing.length > 0
+        ? new ConflictError(`Webhook delivery with id ${input.id} is already waiting to be sent`)
+        : new NotFoundError(`Webhook delivery with id ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Webhook delivery retry failed:', error);
+    throw error;
+  }
+};
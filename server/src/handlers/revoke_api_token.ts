@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { type RevokeApiTokenInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+export const revokeApiToken = async (input: RevokeApiTokenInput, ownerId: number): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.delete(apiTokensTable)
+      .where(and(eq(apiTokensTable.id, input.id), eq(apiTokensTable.user_id, ownerId)))
+      .returning({ id: apiTokensTable.id })
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`API token with id ${input.id} not found`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('API token revocation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type SearchResult, type SearchTodosInput } from '../schema';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { getAncestorIds } from '../helpers/subtasks';
+import {
+  SNIPPET_HEADLINE_OPTIONS,
+  TITLE_HEADLINE_OPTIONS,
+  toPrefixQuery,
+  toSegments,
+  tsQuery
+} from '../helpers/search';
+
+// Live todos, subtasks included, whose title or description contains every
+// word of the query, best matches first with matches highlighted
+export const searchTodos = async (input: SearchTodosInput, ownerId: number): Promise<SearchResult[]> => {
+  try {
+    const prefixQuery = toPrefixQuery(input.query);
+    if (!prefixQuery) {
+      return []; // Nothing but punctuation
+    }
+
+    const query = tsQuery(prefixQuery);
+    const rows = await db.select({
+      todo: todosTable,
+      rank: sql<number>`ts_rank(${todosTable.search}, ${query})`.mapWith(Number),
+      title: sql<string>`ts_headline('simple', ${todosTable.title}, ${query}, ${TITLE_HEADLINE_OPTIONS})`,
+      // Descriptions that do not match would only yield their first words
+      snippet: sql<string | null>`case when to_tsvector('simple', coalesce(${todosTable.description}, '')) @@ ${query}
+        then ts_headline('simple', ${todosTable.description}, ${query}, ${SNIPPET_HEADLINE_OPTIONS}) end`
+    })
+      .from(todosTable)
+      .where(and(
+        eq(todosTable.owner_id, ownerId),
+        isNull(todosTable.deleted_at),
+        sql`${todosTable.search} @@ ${query}`
+      ))
+      .orderBy(desc(sql`ts_rank(${todosTable.search}, ${query})`), desc(todosTable.updated_at), desc(todosTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return await Promise.all(rows.map(async (row) => {
+      const ancestorIds = row.todo.parent_id === null ? [] : await getAncestorIds(db, row.todo.id);
+      return {
+        todo: row.todo,
+        root_id: ancestorIds[ancestorIds.length - 1] ?? row.todo.id,
+        rank: row.rank,
+        title: toSegments(row.title),
+        snippet: toSegments(row.snippet)
+      };
+    }));
+  } catch (error) {
+    console.error('Todo search failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AuthSession, type SignUpInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { createSession, hashPassword } from '../helpers/auth';
+import { ConflictError } from '../errors';
+
+export const signUp = async (input: SignUpInput): Promise<AuthSession> => {
+  try {
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new ConflictError(`An account for ${input.email} already exists`);
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        email: input.email,
+        name: input.name ?? null,
+        password_hash: await hashPassword(input.password)
+      })
+      .returning()
+      .execute();
+
+    // Signing up also logs the new user in
+    return await createSession(result[0]);
+  } catch (error) {
+    console.error('Sign up failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type CalendarFeed, type UpdateCalendarFeedInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+// Changes what the feed holds; its URL stays the same
+export const updateCalendarFeed = async (input: UpdateCalendarFeedInput, ownerId: number): Promise<CalendarFeed> => {
+  try {
+    const feeds = await db.update(calendarFeedsTable)
+      .set({ include_events: input.include_events })
+      .where(eq(calendarFeedsTable.user_id, ownerId))
+      .returning({ include_events: calendarFeedsTable.include_events, created_at: calendarFeedsTable.created_at })
+      .execute();
+
+    if (feeds.length === 0) {
+      throw new NotFoundError('Calendar feed not found');
+    }
+
+    return feeds[0];
+  } catch (error) {
+    console.error('Calendar feed update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type UpdateListInput, type List } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+export const updateList = async (input: UpdateListInput, ownerId: number): Promise<List> => {
+  try {
+    const updateData: Partial<typeof listsTable.$inferInsert> = {};
+
+    if (input.name !== undefined) {
+      updateData.name = input.name;
+    }
+
+    if (input.color !== undefined) {
+      updateData.color = input.color;
+    }
+
+    if (input.icon !== undefined) {
+      updateData.icon = input.icon;
+    }
+
+    if (input.sort_order !== undefined) {
+      updateData.sort_order = input.sort_order;
+    }
+
+    // Nothing to change: return the current row
+    const result = Object.keys(updateData).length > 0
+      ? await db.update(listsTable)
+        .set(updateData)
+        .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, ownerId)))
+        .returning()
+        .execute()
+      : await db.select()
+        .from(listsTable)
+        .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, ownerId)))
+        .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`List with id ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('List update failed:', error);
+    throw error;
+  }
+};
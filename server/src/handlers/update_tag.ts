@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type UpdateTagInput, type Tag } from '../schema';
+import { and, eq, ne, sql } from 'drizzle-orm';
+import { NotFoundError, ConflictError } from '../errors';
+
+export const updateTag = async (input: UpdateTagInput, ownerId: number): Promise<Tag> => {
+  try {
+    const updateData: Partial<typeof tagsTable.$inferInsert> = {};
+
+    if (input.name !== undefined) {
+      // Renaming must not collide with another tag, regardless of case
+      const existing = await db.select()
+        .from(tagsTable)
+        .where(and(
+          eq(tagsTable.owner_id, ownerId),
+          sql`lower(${tagsTable.name}) = lower(${input.name})`,
+          ne(tagsTable.id, input.id)
+        ))
+        .execute();
+
+      if (existing.length > 0) {
+        throw new ConflictError(`Tag named "${input.name}" already exists`);
+      }
+
+      updateData.name = input.name;
+    }
+
+    if (input.color !== undefined) {
+      updateData.color = input.color;
+    }
+
+    // Nothing to change: return the current row
+    const result = Object.keys(updateData).length > 0
+      ? await db.update(tagsTable)
+        .set(updateData)
+        .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, ownerId)))
+        .returning()
+        .execute()
+      : await db.select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, ownerId)))
+        .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`Tag with id ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Tag update failed:', error);
+    throw error;
+  }
+};
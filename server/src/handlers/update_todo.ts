@@ -1,12 +1,22 @@
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { listsTable, todosTable } from '../db/schema';
 import { type UpdateTodoInput, type Todo } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { type PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { toUtcMidnight } from '../helpers/dates';
+import { getAncestorIds, moveSubtasksToList } from '../helpers/subtasks';
+import { scheduleNextOccurrence } from '../helpers/occurrences';
+import { notifyTodoChange } from '../helpers/events';
+import { recordTodoEvents } from '../helpers/history';
+import { firstPosition } from '../helpers/positions';
+import { type DbExecutor } from '../helpers/lists';
+import { NotFoundError, ValidationError, VersionConflictError } from '../errors';
 
-export const updateTodo = async (input: UpdateTodoInput): Promise<Todo> => {
+export const updateTodo = async (input: UpdateTodoInput, ownerId: number, executor: DbExecutor = db): Promise<Todo> => {
   try {
     // Build update object with only the fields that were provided
-    const updateData: Partial<typeof todosTable.$inferInsert> = {
+    const updateData: PgUpdateSetSource<typeof todosTable> = {
+      version: sql`${todosTable.version} + 1`,
       updated_at: new Date() // Always update the timestamp
     };
 
@@ -23,19 +33,140 @@ export const updateTodo = async (input: UpdateTodoInput): Promise<Todo> => {
       updateData.completed = input.completed;
     }
 
-    // Update the todo item
-    const result = await db.update(todosTable)
-      .set(updateData)
-      .where(eq(todosTable.id, input.id))
-      .returning()
-      .execute();
+    if (input.list_id !== undefined) {
+      const lists = await executor.select({ id: listsTable.id })
+        .from(listsTable)
+        .where(and(eq(listsTable.id, input.list_id), eq(listsTable.owner_id, ownerId)))
+        .execute();
 
-    // Check if the todo was found and updated
-    if (result.length === 0) {
-      throw new Error(`Todo with id ${input.id} not found`);
+      if (lists.length === 0) {
+        throw new NotFoundError(`List with id ${input.list_id} not found`);
+      }
+
+      updateData.list_id = input.list_id;
+    }
+
+    if (input.parent_id !== undefined && input.parent_id !== null) {
+      if (input.parent_id === input.id) {
+        throw new ValidationError('A todo cannot be its own parent');
+      }
+
+      const parents = await executor.select({ id: todosTable.id })
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.parent_id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .execute();
+
+      if (parents.length === 0) {
+        throw new NotFoundError(`Parent todo with id ${input.parent_id} not found`);
+      }
+
+      // Moving a todo under one of its own subtasks would create a cycle
+      const ancestors = await getAncestorIds(executor, input.parent_id);
+      if (ancestors.includes(input.id)) {
+        throw new ValidationError(`Todo with id ${input.parent_id} is a subtask of todo ${input.id}`);
+      }
+    }
+
+    if (input.parent_id !== undefined) {
+      updateData.parent_id = input.parent_id;
+    }
+
+    if (input.priority !== undefined) {
+      updateData.priority = input.priority;
+    }
+
+    if (input.due_at !== undefined) {
+      updateData.due_at = input.due_at && input.due_all_day ? toUtcMidnight(input.due_at) : input.due_at;
+    } else if (input.due_all_day) {
+      // Switching an existing due date to all-day keeps only its calendar date
+      updateData.due_at = sql`date_trunc('day', ${todosTable.due_at})`;
+    }
+
+    if (input.due_all_day !== undefined) {
+      updateData.due_all_day = input.due_all_day;
+    }
+
+    if (input.due_time_zone !== undefined) {
+      updateData.due_time_zone = input.due_time_zone;
     }
 
-    return result[0];
+    if (input.recurrence_rule !== undefined) {
+      updateData.recurrence_rule = input.recurrence_rule;
+    }
+
+    // Update the todo item, moving its subtasks along when the list changes
+    const updated = await executor.transaction(async (tx) => {
+      // Lock the row so the version check holds until the write, and a
+      // recurring todo completed twice at once only spawns one occurrence
+      const current = await tx.select()
+        .from(todosTable)
+        .where(and(eq(todosTable.id, input.id), eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (current.length === 0) {
+        throw new NotFoundError(`Todo with id ${input.id} not found`);
+      }
+
+      if (current[0].version !== input.expectedVersion) {
+        throw new VersionConflictError(current[0]);
+      }
+
+      const recurrenceRule = input.recurrence_rule !== undefined ? input.recurrence_rule : current[0].recurrence_rule;
+      const completesOccurrence = input.completed === true && !current[0].completed && recurrenceRule !== null;
+      if (completesOccurrence) {
+        // The series continues on the new occurrence
+        updateData.recurrence_rule = null;
+      }
+
+      // A todo under a new parent goes ahead of its new siblings
+      if (input.parent_id !== undefined && input.parent_id !== current[0].parent_id) {
+        updateData.position = await firstPosition(tx, ownerId, input.parent_id);
+      }
+
+      // Subtasks always share their top-level todo's list, which their
+      // parent is in: a reparented todo joins it, and a subtask only moves
+      // to another list by leaving its parent
+      const parentId = input.parent_id !== undefined ? input.parent_id : current[0].parent_id;
+      if (parentId !== null) {
+        const [parent] = await tx.select({ list_id: todosTable.list_id })
+          .from(todosTable)
+          .where(eq(todosTable.id, parentId))
+          .execute();
+
+        if (input.list_id !== undefined && input.list_id !== parent.list_id) {
+          throw new ValidationError(`Subtasks stay in their parent's list; move todo ${parentId} instead`);
+        }
+        updateData.list_id = parent.list_id;
+      }
+
+      const [row] = await tx.update(todosTable)
+        .set(updateData)
+        .where(eq(todosTable.id, input.id))
+        .returning()
+        .execute();
+
+      if (recurrenceRule && !row.due_at) {
+        throw new ValidationError('Recurring todos need a due date');
+      }
+
+      await recordTodoEvents(tx, ownerId, 'updated', [{ before: current[0], after: row }]);
+
+      if (completesOccurrence) {
+        await scheduleNextOccurrence(tx, { ...row, recurrence_rule: recurrenceRule }, ownerId);
+      }
+
+      const changedIds = [input.id];
+      if (row.list_id !== current[0].list_id && row.list_id !== null) {
+        changedIds.push(...await moveSubtasksToList(tx, input.id, row.list_id, ownerId));
+      }
+
+      await notifyTodoChange(tx, 'updated', ownerId, changedIds);
+
+      return row;
+    });
+
+    return updated;
   } catch (error) {
     console.error('Todo update failed:', error);
     throw error;
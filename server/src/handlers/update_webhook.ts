@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { type UpdateWebhookInput, type Webhook } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+import { webhookColumns } from '../helpers/webhooks';
+
+// Changes where a webhook sends to and what. Queued deliveries go to the new
+// URL; the secret stays the same.
+export const updateWebhook = async (input: UpdateWebhookInput, ownerId: number): Promise<Webhook> => {
+  try {
+    const updateData: Partial<typeof webhooksTable.$inferInsert> = {};
+
+    if (input.url !== undefined) {
+      updateData.url = input.url;
+    }
+    if (input.events !== undefined) {
+      updateData.events = input.events;
+    }
+    if (input.enabled !== undefined) {
+      updateData.enabled = input.enabled;
+    }
+
+    const condition = and(eq(webhooksTable.id, input.id), eq(webhooksTable.owner_id, ownerId));
+    // Nothing to change: return the current row
+    const result = Object.keys(updateData).length > 0
+      ? await db.update(webhooksTable)
+        .set(updateData)
+        .where(condition)
+        .returning(webhookColumns)
+        .execute()
+      : await db.select(webhookColumns)
+        .from(webhooksTable)
+        .where(condition)
+        .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError(`Webhook with id ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Webhook update failed:', error);
+    throw error;
+  }
+};
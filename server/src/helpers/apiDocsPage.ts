@@ -0,0 +1,196 @@
+// A self-contained page that reads an OpenAPI document and lists its
+// operations, with forms to try them. It loads nothing from elsewhere, so it
+// works under the app's Content-Security-Policy.
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f8fafc; color: #0f172a; }
+  main { max-width: 960px; margin: 0 auto; padding: 24px; }
+  h1 { margin-bottom: 4px; }
+  h2 { margin-top: 32px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  details { background: white; border: 1px solid #e2e8f0; border-radius: 8px; margin: 8px 0; }
+  summary { cursor: pointer; padding: 10px 12px; display: flex; gap: 12px; align-items: center; }
+  .method { font: bold 12px monospace; color: white; border-radius: 4px; padding: 3px 6px; min-width: 56px; text-align: center; }
+  .GET { background: #2563eb; } .POST { background: #16a34a; } .PUT { background: #9333ea; }
+  .PATCH { background: #d97706; } .DELETE { background: #dc2626; }
+  .path { font-family: monospace; font-weight: 600; }
+  .operation { padding: 0 12px 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  input, textarea { font: 13px monospace; width: 100%; box-sizing: border-box; padding: 4px; }
+  textarea { min-height: 120px; }
+  pre { background: #0f172a; color: #e2e8f0; padding: 12px; border-radius: 6px; overflow: auto; max-height: 400px; }
+  button { margin-top: 8px; padding: 6px 16px; cursor: pointer; }
+  .token { display: flex; gap: 8px; align-items: center; margin: 16px 0; }
+  .muted { color: #64748b; }
+`;
+
+const SCRIPT = `
+  var TOKEN_KEY = 'api-docs-token';
+  var spec;
+
+  function h(tag, attributes) {
+    var element = document.createElement(tag);
+    Object.keys(attributes || {}).forEach(function (name) { element.setAttribute(name, attributes[name]); });
+    Array.prototype.slice.call(arguments, 2).forEach(function (child) {
+      if (child !== null && child !== undefined) {
+        element.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+      }
+    });
+    return element;
+  }
+
+  function resolve(schema) {
+    while (schema && schema.$ref) {
+      schema = spec.components.schemas[schema.$ref.split('/').pop()];
+    }
+    return schema || {};
+  }
+
+  // A value that fits the schema, to start a request body from
+  function exampleOf(schema, depth) {
+    schema = resolve(schema);
+    if (depth > 4) return null;
+    if ('default' in schema) return schema.default;
+    if ('const' in schema) return schema.const;
+    if (schema.enum) return schema.enum[0];
+    if (schema.anyOf || schema.oneOf) return exampleOf((schema.anyOf || schema.oneOf)[0], depth + 1);
+    var type = [].concat(schema.type)[0];
+    if (type === 'object') {
+      var properties = schema.properties || {};
+      var names = schema.required && schema.required.length > 0 ? schema.required : Object.keys(properties);
+      var result = {};
+      names.forEach(function (name) { result[name] = exampleOf(properties[name], depth + 1); });
+      return result;
+    }
+    if (type === 'array') return [exampleOf(schema.items, depth + 1)];
+    if (type === 'string') return schema.format === 'date-time' ? new Date().toISOString() : 'string';
+    if (type === 'integer' || type === 'number') return schema.minimum !== undefined ? schema.minimum : 1;
+    if (type === 'boolean') return false;
+    return null;
+  }
+
+  function typeName(schema) {
+    schema = schema || {};
+    if (schema.$ref) return schema.$ref.split('/').pop();
+    if (schema.enum) return schema.enum.filter(function (value) { return value !== null; }).join(' | ');
+    if (schema.type === 'array') return typeName(schema.items) + '[]';
+    if (schema.anyOf) return schema.anyOf.map(typeName).join(' | ');
+    return [].concat(schema.type || 'any').join(' | ');
+  }
+
+  function send(method, path, operation, inputs, body, output) {
+    var url = path;
+    var query = [];
+    (operation.parameters || []).forEach(function (parameter) {
+      var value = inputs[parameter.name].value;
+      if (parameter.in === 'path') {
+        url = url.replace('{' + parameter.name + '}', encodeURIComponent(value));
+      } else if (value !== '') {
+        query.push(encodeURIComponent(parameter.name) + '=' + encodeURIComponent(value));
+      }
+    });
+    var base = spec.servers && spec.servers[0] ? spec.servers[0].url.replace(/\\/$/, '') : '';
+    var headers = {};
+    var token = localStorage.getItem(TOKEN_KEY);
+    if (token) headers.Authorization = 'Bearer ' + token;
+    if (body) headers['Content-Type'] = 'application/json';
+    output.textContent = 'Sending...';
+    fetch(base + url + (query.length > 0 ? '?' + query.join('&') : ''), { method: method, headers: headers, body: body ? body.value : undefined })
+      .then(function (response) {
+        return response.text().then(function (text) {
+          var shown = text;
+          try { shown = JSON.stringify(JSON.parse(text), null, 2); } catch (error) { /* Not JSON */ }
+          output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + shown;
+        });
+      })
+      .catch(function (error) { output.textContent = String(error); });
+  }
+
+  function renderOperation(method, path, operation) {
+    var inputs = {};
+    var rows = (operation.parameters || []).map(function (parameter) {
+      inputs[parameter.name] = h('input', { placeholder: typeName(parameter.schema) });
+      return h('tr', {},
+        h('td', {}, h('code', {}, parameter.name), parameter.required ? ' *' : ''),
+        h('td', { class: 'muted' }, parameter.in),
+        h('td', {}, inputs[parameter.name]));
+    });
+    var bodySchema = operation.requestBody && operation.requestBody.content['application/json'].schema;
+    var body = bodySchema ? h('textarea', {}) : null;
+    if (body) body.value = JSON.stringify(exampleOf(bodySchema, 0), null, 2);
+    var output = h('pre', {}, 'No request sent yet');
+    var button = h('button', {}, 'Send');
+    button.addEventListener('click', function () { send(method, path, operation, inputs, body, output); });
+    var responses = Object.keys(operation.responses).map(function (status) {
+      var content = operation.responses[status].content;
+      var schema = content && content['application/json'].schema;
+      return h('li', {}, status + ': ' + operation.responses[status].description + (schema ? ' (' + typeName(schema) + ')' : ''));
+    });
+
+    return h('details', {},
+      h('summary', {}, h('span', { class: 'method ' + method }, method), h('span', { class: 'path' }, path), h('span', { class: 'muted' }, operation.summary || '')),
+      h('div', { class: 'operation' },
+        operation.security && operation.security.length === 0 ? h('p', { class: 'muted' }, 'No sign-in needed.') : null,
+        rows.length > 0 ? h('table', {}, h('tbody', {}, rows)) : null,
+        body ? h('div', {}, h('p', {}, 'Request body'), body, h('details', {}, h('summary', {}, 'Body schema'), h('pre', {}, JSON.stringify(bodySchema, null, 2)))) : null,
+        h('p', {}, 'Responses'), h('ul', {}, responses),
+        button, output));
+  }
+
+  function render() {
+    var root = document.getElementById('root');
+    root.textContent = '';
+    root.appendChild(h('h1', {}, spec.info.title + ' ' + spec.info.version));
+    root.appendChild(h('p', { class: 'muted' }, spec.info.description || ''));
+
+    var token = h('input', { type: 'password', placeholder: 'Session or API token' });
+    token.value = localStorage.getItem(TOKEN_KEY) || '';
+    token.addEventListener('change', function () { localStorage.setItem(TOKEN_KEY, token.value); });
+    root.appendChild(h('label', { class: 'token' }, 'Bearer token', token));
+
+    var byTag = {};
+    Object.keys(spec.paths).forEach(function (path) {
+      Object.keys(spec.paths[path]).forEach(function (method) {
+        var operation = spec.paths[path][method];
+        var tag = (operation.tags || ['Other'])[0];
+        (byTag[tag] = byTag[tag] || []).push(renderOperation(method.toUpperCase(), path, operation));
+      });
+    });
+    (spec.tags || []).map(function (tag) { return tag.name; }).concat(Object.keys(byTag)).forEach(function (tag) {
+      if (!byTag[tag]) return;
+      root.appendChild(h('h2', {}, tag));
+      byTag[tag].forEach(function (element) { root.appendChild(element); });
+      delete byTag[tag];
+    });
+
+    root.appendChild(h('h2', {}, 'Schemas'));
+    Object.keys(spec.components.schemas).forEach(function (name) {
+      root.appendChild(h('details', {}, h('summary', {}, h('span', { class: 'path' }, name)),
+        h('div', { class: 'operation' }, h('pre', {}, JSON.stringify(spec.components.schemas[name], null, 2)))));
+    });
+  }
+
+  fetch(SPEC_URL)
+    .then(function (response) { return response.json(); })
+    .then(function (document) { spec = document; render(); })
+    .catch(function (error) { document.getElementById('root').textContent = 'Could not load the API description: ' + error; });
+`;
+
+// specUrl is where the page fetches the OpenAPI document from
+export const apiDocsPage = (specUrl: string): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Todos API</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main id="root">Loading...</main>
+<script>
+  var SPEC_URL = ${JSON.stringify(specUrl).replace(/</g, '\\u003c')};
+${SCRIPT}
+</script>
+</body>
+</html>
+`;
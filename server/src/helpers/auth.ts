@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { apiTokensTable, sessionsTable, usersTable } from '../db/schema';
+import { type ApiTokenScope, type AuthSession, type User } from '../schema';
+import { and, eq, gt, isNull, or } from 'drizzle-orm';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const LAST_USED_PRECISION_MS = 60 * 1000; // Saves a write on every request of a busy script
+
+// API tokens start with this, so they can be told apart from session tokens
+// and spotted by secret scanners
+export const API_TOKEN_PREFIX = 'todo_pat_';
+
+export const hashPassword = (password: string): Promise<string> =>
+  Bun.password.hash(password, { algorithm: 'argon2id' });
+
+export const verifyPassword = (password: string, hash: string): Promise<boolean> =>
+  Bun.password.verify(password, hash);
+
+// Sessions are looked up by token hash, so a leaked table does not leak tokens
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Strips the password hash from a user row
+export const toPublicUser = (user: typeof usersTable.$inferSelect): User => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  created_at: user.created_at
+});
+
+export const createSession = async (user: typeof usersTable.$inferSelect): Promise<AuthSession> => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.insert(sessionsTable)
+    .values({ user_id: user.id, token_hash: hashToken(token), expires_at: expiresAt })
+    .execute();
+
+  return { user: toPublicUser(user), token, expires_at: expiresAt };
+};
+
+// Resolves a bearer token to its user; null when unknown or expired
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const rows = await db.select()
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(
+      eq(sessionsTable.token_hash, hashToken(token)),
+      gt(sessionsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  return rows.length > 0 ? toPublicUser(rows[0].users) : null;
+};
+
+// Columns of an API token that clients may see
+export const apiTokenColumns = {
+  id: apiTokensTable.id,
+  name: apiTokensTable.name,
+  scope: apiTokensTable.scope,
+  expires_at: apiTokensTable.expires_at,
+  last_used_at: apiTokensTable.last_used_at,
+  created_at: apiTokensTable.created_at
+};
+
+export const createApiTokenValue = (): string => `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+// A bearer token's user and what it allows. Sessions allow everything.
+export type TokenAccess = {
+  user: User;
+  scope: ApiTokenScope;
+  isApiToken: boolean;
+};
+
+// Resolves a session or API token to its access; null when unknown, expired
+// or revoked. Notes when API tokens are used.
+export const authenticateToken = async (token: string): Promise<TokenAccess | null> => {
+  if (!token.startsWith(API_TOKEN_PREFIX)) {
+    const user = await getSessionUser(token);
+    return user ? { user, scope: 'read_write', isApiToken: false } : null;
+  }
+
+  const now = new Date();
+  const rows = await db.select()
+    .from(apiTokensTable)
+    .innerJoin(usersTable, eq(apiTokensTable.user_id, usersTable.id))
+    .where(and(
+      eq(apiTokensTable.token_hash, hashToken(token)),
+      or(isNull(apiTokensTable.expires_at), gt(apiTokensTable.expires_at, now))
+    ))
+    .execute();
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const { api_tokens: apiToken, users: user } = rows[0];
+  if (!apiToken.last_used_at || now.getTime() - apiToken.last_used_at.getTime() >= LAST_USED_PRECISION_MS) {
+    await db.update(apiTokensTable)
+      .set({ last_used_at: now })
+      .where(eq(apiTokensTable.id, apiToken.id))
+      .execute();
+  }
+
+  return { user: toPublicUser(user), scope: apiToken.scope, isApiToken: true };
+};
+
+// The user with the email and password; null when either is wrong
+export const verifyCredentials = async (email: string, password: string): Promise<typeof usersTable.$inferSelect | null> => {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, email.trim().toLowerCase()))
+    .execute();
+
+  return users.length > 0 && await verifyPassword(password, users[0].password_hash) ? users[0] : null;
+};
+
+// Email and password from an "Authorization: Basic <base64>" header
+export const basicCredentials = (header: string | undefined): { email: string; password: string } | null => {
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)$/i.exec(header ?? '');
+  if (!match) {
+    return null;
+  }
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const colon = decoded.indexOf(':');
+  return colon === -1 ? null : { email: decoded.slice(0, colon), password: decoded.slice(colon + 1) };
+};
+
+// Token from an "Authorization: Bearer <token>" header
+export const bearerToken = (header: string | undefined): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(header ?? '');
+  return match ? match[1] : null;
+};
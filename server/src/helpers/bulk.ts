@@ -0,0 +1,56 @@
+import { todosTable } from '../db/schema';
+import { type BulkResult, type BulkTarget, type Todo } from '../schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { type DbExecutor } from './lists';
+import { buildFilters } from './todoFilters';
+
+type LockedTargets = {
+  todos: Todo[];
+  missingIds: number[]; // Listed ids that are unknown, trashed or someone else's
+};
+
+// Locks the live todos a bulk operation applies to, in id order so
+// concurrent bulk operations cannot deadlock
+export const lockTargets = async (
+  executor: DbExecutor,
+  target: BulkTarget,
+  ownerId: number,
+  now: Date = new Date()
+): Promise<LockedTargets> => {
+  const conditions = 'ids' in target
+    ? [eq(todosTable.owner_id, ownerId), isNull(todosTable.deleted_at), inArray(todosTable.id, target.ids)]
+    : buildFilters(target.filter, ownerId, now);
+
+  const todos = await executor.select()
+    .from(todosTable)
+    .where(and(...conditions))
+    .orderBy(asc(todosTable.id))
+    .for('update')
+    .execute();
+
+  const found = new Set(todos.map(todo => todo.id));
+  const missingIds = 'ids' in target
+    ? [...new Set(target.ids)].filter(id => !found.has(id))
+    : [];
+
+  return { todos, missingIds };
+};
+
+// One result per targeted todo, listed ids in the order they were given.
+// Errors are the reasons todos the operation left alone were skipped.
+export const bulkResults = (
+  target: BulkTarget,
+  { todos, missingIds }: LockedTargets,
+  errors: Map<number, string> = new Map()
+): BulkResult => {
+  const ids = 'ids' in target ? [...new Set(target.ids)] : todos.map(todo => todo.id);
+  const missing = new Set(missingIds);
+
+  return {
+    results: ids.map(id => missing.has(id)
+      ? { id, success: false, error: `Todo with id ${id} not found` }
+      : errors.has(id)
+        ? { id, success: false, error: errors.get(id)! }
+        : { id, success: true, error: null })
+  };
+};
@@ -0,0 +1,10 @@
+// Calendar feeds are served at /calendar/<token>.ics, next to the tRPC
+// procedures. Calendar apps cannot log in, so the token is the credential.
+
+const FEED_PATH = /^\/calendar\/([A-Za-z0-9_-]+)\.ics(?:\?.*)?$/;
+
+export const calendarFeedPath = (token: string): string => `/calendar/${token}.ics`;
+
+// The token of a request URL for a feed; null for other URLs
+export const calendarFeedToken = (url: string | undefined): string | null =>
+  FEED_PATH.exec(url ?? '')?.[1] ?? null;
@@ -0,0 +1,83 @@
+// Reading and writing CSV as described in RFC 4180: fields are separated by
+// commas, and quoted when they contain a comma, quote or line break, with
+// quotes inside doubled.
+
+export type CsvRow = {
+  line: number; // Line the row starts on, counting from 1
+  fields: string[];
+};
+
+const needsQuotes = (field: string): boolean => /[",\r\n]/.test(field) || field.trim() !== field;
+
+export const toCsv = (rows: string[][]): string =>
+  rows
+    .map(row => row.map(field => needsQuotes(field) ? `"${field.replace(/"/g, '""')}"` : field).join(','))
+    .join('\r\n') + '\r\n';
+
+// Rows of a CSV document, leaving out blank lines. Throws on a quote that is
+// never closed.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let line = 1;
+  let rowLine = 1;
+  let isQuoted = false;
+  let index = text.startsWith('\uFEFF') ? 1 : 0; // Byte order mark written by spreadsheets
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (isQuoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+        if (char === '\n') {
+          line++;
+        }
+      }
+      index++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      isQuoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+    index++;
+  }
+
+  if (isQuoted) {
+    throw new Error(`Quoted field starting on line ${rowLine} is never closed`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+  return rows;
+};
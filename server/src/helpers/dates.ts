@@ -0,0 +1,85 @@
+// Calendar helpers for working with IANA time zones using only Intl
+
+export type CalendarDate = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const wallClockParts = (instant: Date, timeZone: string): Record<string, number> => {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+};
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+export const timeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = wallClockParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts['year'], parts['month'] - 1, parts['day'],
+    parts['hour'], parts['minute'], parts['second']
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// Calendar date of the instant as seen on a wall clock in the time zone
+export const calendarDateIn = (instant: Date, timeZone: string): CalendarDate => {
+  const parts = wallClockParts(instant, timeZone);
+  return { year: parts['year'], month: parts['month'], day: parts['day'] };
+};
+
+// Instant at which the given wall-clock time occurs in the time zone.
+// Times skipped by a DST jump resolve to an adjacent valid instant.
+export const zonedTimeToUtc = (
+  date: CalendarDate,
+  timeZone: string,
+  hour = 0,
+  minute = 0,
+  second = 0
+): Date => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute, second);
+  const firstGuess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  const offset = timeZoneOffset(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+};
+
+// Adds days to a calendar date, normalizing month and year overflow
+export const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+};
+
+// All-day due dates are stored as UTC midnight of their calendar date
+export const calendarDateToUtcMidnight = (date: CalendarDate): Date =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day));
+
+export const toUtcMidnight = (instant: Date): Date =>
+  new Date(Date.UTC(instant.getUTCFullYear(), instant.getUTCMonth(), instant.getUTCDate()));
@@ -0,0 +1,145 @@
+import { EventEmitter, on } from 'node:events';
+import { Client } from 'pg';
+import { and, asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type Tag, type TodoChange } from '../schema';
+import { type DbExecutor } from './lists';
+
+// Todo changes are announced with NOTIFY so that every server process hears
+// them, including the one that made the change. Notifications only carry ids
+// (payloads are limited to 8000 bytes); each process loads the rows once and
+// hands them to its own subscribers. NOTIFY inside a transaction is only
+// delivered on commit, so rolled back changes are never announced.
+
+const CHANNEL = 'todo_changes';
+const NOTIFY_BATCH_SIZE = 500; // Ids per notification, well within the payload limit
+const RECONNECT_DELAY_MS = 1000;
+
+type TodoNotification = {
+  type: TodoChange['type'];
+  owner_id: number;
+  ids: number[];
+};
+
+type OwnedTodoChange = {
+  owner_id: number;
+  change: TodoChange;
+};
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open subscription
+
+// Announces changes to the given todos, as part of the executor's transaction
+export const notifyTodoChange = async (
+  executor: DbExecutor,
+  type: TodoChange['type'],
+  ownerId: number,
+  ids: number[]
+): Promise<void> => {
+  for (let start = 0; start < ids.length; start += NOTIFY_BATCH_SIZE) {
+    const notification: TodoNotification = { type, owner_id: ownerId, ids: ids.slice(start, start + NOTIFY_BATCH_SIZE) };
+    await executor.execute(sql`select pg_notify(${CHANNEL}, ${JSON.stringify(notification)})`);
+  }
+};
+
+const dispatch = async ({ type, owner_id, ids }: TodoNotification): Promise<void> => {
+  if (type === 'deleted') {
+    for (const id of ids) {
+      emitter.emit('change', { owner_id, change: { type, id } } satisfies OwnedTodoChange);
+    }
+    return;
+  }
+
+  // Rows deleted or trashed since the notification was sent are skipped;
+  // their own notification follows
+  const rows = await db.select()
+    .from(todosTable)
+    .where(and(inArray(todosTable.id, ids), isNull(todosTable.deleted_at)))
+    .execute();
+  // Sent in the notified order so parents reach clients before their subtasks
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const todos = ids.flatMap(id => rowsById.get(id) ?? []);
+
+  const tagRows = await db.select()
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(inArray(todoTagsTable.todo_id, ids))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+
+  const tagsByTodo = new Map<number, Tag[]>(ids.map(id => [id, []]));
+  for (const row of tagRows) {
+    tagsByTodo.get(row.todo_tags.todo_id)?.push(row.tags);
+  }
+
+  for (const todo of todos) {
+    const change: TodoChange = { type, todo: { ...todo, tags: tagsByTodo.get(todo.id) ?? [] } };
+    emitter.emit('change', { owner_id, change } satisfies OwnedTodoChange);
+  }
+};
+
+// Listens for todo changes from every server process until the returned
+// function is called. The connection is re-established when it drops.
+export const listenForTodoChanges = async (
+  connectionString = process.env['APP_DATABASE_URL']!
+): Promise<() => Promise<void>> => {
+  let client: Client | null = null;
+  let stopped = false;
+  // Notifications are handled one at a time so changes reach clients in order
+  let queue = Promise.resolve();
+
+  const connect = async (): Promise<void> => {
+    const connection = new Client({ connectionString });
+    connection.on('notification', (message) => {
+      if (message.channel !== CHANNEL || !message.payload) {
+        return;
+      }
+      const notification = JSON.parse(message.payload) as TodoNotification;
+      queue = queue
+        .then(() => dispatch(notification))
+        .catch((error) => console.error('Todo change dispatch failed:', error));
+    });
+    connection.on('error', (error) => console.error('Todo change listener failed:', error));
+
+    try {
+      await connection.connect();
+      await connection.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      await connection.end().catch(() => undefined);
+      throw error;
+    }
+    client = connection;
+
+    // Failed attempts are retried by reconnect itself
+    connection.on('end', () => {
+      if (!stopped) {
+        setTimeout(reconnect, RECONNECT_DELAY_MS);
+      }
+    });
+  };
+
+  const reconnect = (): void => {
+    connect().catch((error) => {
+      console.error('Todo change listener reconnect failed:', error);
+      setTimeout(reconnect, RECONNECT_DELAY_MS);
+    });
+  };
+
+  await connect();
+
+  return async () => {
+    stopped = true;
+    await client?.end();
+  };
+};
+
+// Yields changes to the owner's todos until the signal aborts
+export async function* todoChanges(ownerId: number, signal?: AbortSignal): AsyncGenerator<TodoChange> {
+  for await (const [event] of on(emitter, 'change', { signal })) {
+    const { owner_id, change } = event as OwnedTodoChange;
+    if (owner_id === ownerId) {
+      yield change;
+    }
+  }
+}
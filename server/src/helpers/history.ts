@@ -0,0 +1,120 @@
+import { db } from '../db';
+import { tagsTable, todoEventsTable, todoTagsTable } from '../db/schema';
+import { and, asc, desc, eq, lt, type SQL } from 'drizzle-orm';
+import { type Todo, type TodoEventPage, type TodoFieldChange, type TodoOperation } from '../schema';
+import { type DbExecutor } from './lists';
+import { enqueueWebhookDeliveries, type WebhookTodoEntry } from './webhooks';
+
+const INSERT_BATCH_SIZE = 1000; // Keeps large purges under Postgres' bind parameter limit
+
+// Bookkeeping columns that change on every write and say nothing to the
+// reader, and the manual order rank, which means nothing on its own
+const UNTRACKED_FIELDS = new Set<string>(['id', 'owner_id', 'position', 'version', 'created_at', 'updated_at']);
+
+// A todo before and after a write. Created todos have no before, purged ones
+// no after. Changes to things other than columns, such as the tags, are
+// passed in changes.
+export type TodoEventEntry = {
+  before: Todo | null;
+  after: Todo | null;
+  changes?: Record<string, TodoFieldChange>;
+};
+
+// Values as they are stored in JSON, so dates compare by instant
+const toJson = (value: unknown): unknown => value instanceof Date ? value.toISOString() : value ?? null;
+
+// The tracked fields whose value differs between the two versions of a todo
+export const diffTodos = (before: Todo | null, after: Todo | null): Record<string, TodoFieldChange> => {
+  const changes: Record<string, TodoFieldChange> = {};
+  const fields = Object.keys(after ?? before ?? {}) as (keyof Todo)[];
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) {
+      continue;
+    }
+    const previous = toJson(before?.[field]);
+    const next = toJson(after?.[field]);
+    if (previous !== next) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+};
+
+// Names of the todo's tags, alphabetically, as history records them
+export const tagNamesOf = async (executor: DbExecutor, todoId: number): Promise<string[]> => {
+  const rows = await executor.select({ name: tagsTable.name })
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(eq(todoTagsTable.todo_id, todoId))
+    .orderBy(asc(tagsTable.name))
+    .execute();
+  return rows.map(row => row.name);
+};
+
+// Pairs the rows read before a write with the rows the write returned
+export const pairWithPrevious = (before: Todo[], after: Todo[]): TodoEventEntry[] => {
+  const previous = new Map(before.map(todo => [todo.id, todo]));
+  return after.map(todo => ({ before: previous.get(todo.id) ?? null, after: todo }));
+};
+
+// Adds writes to the audit log. Call it with the transaction that makes the
+// writes, so the log never disagrees with the data. Updates that changed no
+// tracked field are left out. The recorded writes are also queued for the
+// owners' webhooks.
+export const recordTodoEvents = async (
+  executor: DbExecutor,
+  actorId: number | null,
+  operation: TodoOperation,
+  entries: TodoEventEntry[]
+): Promise<void> => {
+  const recorded = entries.flatMap(({ before, after, changes }): WebhookTodoEntry[] => {
+    const todo = after ?? before;
+    if (!todo) {
+      return [];
+    }
+
+    const allChanges = { ...diffTodos(before, after), ...changes };
+    if (operation === 'updated' && Object.keys(allChanges).length === 0) {
+      return [];
+    }
+
+    return [{ todo, changes: allChanges }];
+  });
+  const rows = recorded.map(({ todo, changes }) => ({
+    todo_id: todo.id,
+    owner_id: todo.owner_id,
+    actor_id: actorId,
+    operation,
+    todo_title: todo.title,
+    changes
+  }));
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    await executor.insert(todoEventsTable)
+      .values(rows.slice(start, start + INSERT_BATCH_SIZE))
+      .execute();
+  }
+  await enqueueWebhookDeliveries(executor, operation, recorded);
+};
+
+// A page of audit log entries matching the condition, newest first. The
+// cursor is the id of the last entry on the previous page.
+export const loadEventPage = async (
+  condition: SQL | undefined,
+  limit: number,
+  cursor: number | null | undefined
+): Promise<TodoEventPage> => {
+  // Fetch one extra row to find out whether another page follows
+  const rows = await db.select()
+    .from(todoEventsTable)
+    .where(and(condition, cursor ? lt(todoEventsTable.id, cursor) : undefined))
+    .orderBy(desc(todoEventsTable.id))
+    .limit(limit + 1)
+    .execute();
+
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? items[items.length - 1].id : null;
+  return { items, nextCursor };
+};
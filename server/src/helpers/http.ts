@@ -0,0 +1,17 @@
+import { type IncomingMessage } from 'http';
+
+// Reads a request body as UTF-8 text. Returns null when it is larger than
+// maxBytes; the rest is still drained, so a response can be sent.
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(size > maxBytes ? null : Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
@@ -0,0 +1,469 @@
+import { type ExportedTodo, type TodoPriority } from '../schema';
+import { isValidTimeZone, timeZoneOffset, zonedTimeToUtc } from './dates';
+
+// Reading and writing iCalendar files (RFC 5545). Each todo is written as a
+// VTODO and, when asked, dated todos also as a VEVENT on their due date, for
+// calendar apps that do not show tasks:
+//
+//   BEGIN:VTODO
+//   UID:todo-12@todo-app
+//   SUMMARY:Send invoice
+//   STATUS:NEEDS-ACTION
+//   PRIORITY:3
+//   DUE;TZID=Europe/Lisbon:20261021T093000
+//   CATEGORIES:work,billing
+//   RELATED-TO:todo-4@todo-app
+//   END:VTODO
+//
+// Timed due dates with a time zone are written in that zone, which gets a
+// VTIMEZONE spanning the years of its due dates; other timed ones in UTC.
+// Reading takes the VTODOs of a file and leaves everything else out.
+
+const PRODID = '-//todo-app//Todos//EN';
+const UID_DOMAIN = 'todo-app';
+const TODO_UID = new RegExp(`^todo-(\\d+)@${UID_DOMAIN}$`);
+
+const MAX_LINE_OCTETS = 75;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+
+// PRIORITY runs from 1 (highest) to 9 (lowest); 0 means none
+const priorityLevels: Record<TodoPriority, number | null> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+  none: null
+};
+
+const priorityOfLevel = (level: number): TodoPriority =>
+  level === 1 ? 'urgent' : level >= 2 && level <= 4 ? 'high' : level === 5 ? 'medium' : level >= 6 && level <= 9 ? 'low' : 'none';
+
+export type CalendarOptions = {
+  name: string; // Shown by calendar apps that subscribe to the file
+  events: boolean; // Also writes dated todos as events
+  uidOf?: (id: number) => string; // UIDs of todos that have their own; todoUid by default
+};
+
+// What a VTODO holds of a todo. Dates that cannot be read are passed on as
+// they are, for the import to reject.
+export type CalendarTodo = Pick<ExportedTodo,
+  'title' | 'description' | 'completed' | 'priority' | 'due_at' | 'due_all_day' | 'due_time_zone' | 'recurrence_rule' | 'tags'
+> & {
+  line: number; // Of its BEGIN:VTODO
+  uid: string | null;
+  parent_uid: string | null;
+  cancelled: boolean;
+};
+
+export const todoUid = (id: number): string => `todo-${id}@${UID_DOMAIN}`;
+
+// The id of a todo this app wrote the UID for
+export const todoIdOfUid = (uid: string): number | null => {
+  const match = TODO_UID.exec(uid);
+  return match ? Number(match[1]) : null;
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/[\\;,]/g, char => `\\${char}`).replace(/\r\n|\r|\n/g, '\\n');
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+
+// Splits a list value at the commas that are not escaped
+const splitList = (value: string): string[] => {
+  const items: string[] = [];
+  let item = '';
+  for (let index = 0; index < value.length; index++) {
+    if (value[index] === '\\' && index + 1 < value.length) {
+      item += value.slice(index, index + 2);
+      index++;
+    } else if (value[index] === ',') {
+      items.push(item);
+      item = '';
+    } else {
+      item += value[index];
+    }
+  }
+  return [...items, item];
+};
+
+// Lines longer than 75 octets go on in lines starting with a space, never
+// splitting a character
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...lines, current].join('\r\n ');
+};
+
+const contentLine = (name: string, value: string, params: Record<string, string> = {}): string => {
+  const paramText = Object.entries(params)
+    .map(([key, paramValue]) => `;${key}=${/[:;,]/.test(paramValue) ? `"${paramValue}"` : paramValue}`)
+    .join('');
+  return foldLine(`${name}${paramText}:${value}`);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// 20261021T093000Z
+const formatUtc = (instant: Date): string =>
+  instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (instant: Date): string => instant.toISOString().slice(0, 10).replace(/-/g, '');
+
+// The wall-clock time in the time zone, without the Z
+const formatLocal = (instant: Date, timeZone: string): string =>
+  formatUtc(new Date(instant.getTime() + timeZoneOffset(instant, timeZone))).slice(0, -1);
+
+// +0100, or +051236 for the odd offset in seconds
+const formatOffset = (offset: number): string => {
+  const seconds = Math.abs(offset) / 1000;
+  const remainder = seconds % 60;
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(seconds / 3600))}${pad(Math.floor(seconds % 3600 / 60))}${remainder ? pad(remainder) : ''}`;
+};
+
+type OffsetChange = { at: number; offsetFrom: number; offsetTo: number };
+
+// Changes of the time zone's offset from UTC between the two instants, found
+// week by week and narrowed down to the second
+const offsetChanges = (timeZone: string, from: number, to: number): OffsetChange[] => {
+  const changes: OffsetChange[] = [];
+  let previous = timeZoneOffset(new Date(from), timeZone);
+  for (let start = from; start < to; start += WEEK_MS) {
+    const end = Math.min(start + WEEK_MS, to);
+    const offset = timeZoneOffset(new Date(end), timeZone);
+    if (offset === previous) {
+      continue;
+    }
+    let [low, high] = [start, end];
+    while (high - low > 1000) {
+      const middle = low + Math.floor((high - low) / 2000) * 1000;
+      if (timeZoneOffset(new Date(middle), timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    changes.push({ at: high, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+  return changes;
+};
+
+// The time zone's rules from the start of the first year to the end of the
+// year after the last. Changes to the same offset share one observance.
+const timeZoneLines = (timeZone: string, years: number[]): string[] => {
+  const from = Date.UTC(Math.min(...years), 0, 1);
+  const to = Date.UTC(Math.max(...years) + 2, 0, 1);
+  const initialOffset = timeZoneOffset(new Date(from), timeZone);
+
+  const observances = new Map<string, { kind: string; offsetFrom: number; offsetTo: number; starts: string[] }>();
+  const observe = (kind: string, offsetFrom: number, offsetTo: number, start: string) => {
+    const key = `${kind}/${offsetFrom}/${offsetTo}`;
+    const observance = observances.get(key) ?? { kind, offsetFrom, offsetTo, starts: [] };
+    observance.starts.push(start);
+    observances.set(key, observance);
+  };
+
+  observe('STANDARD', initialOffset, initialOffset, formatUtc(new Date(from + initialOffset)).slice(0, -1));
+  for (const change of offsetChanges(timeZone, from, to)) {
+    // Each change starts at the wall-clock time it happens at, before it
+    observe(change.offsetTo > change.offsetFrom ? 'DAYLIGHT' : 'STANDARD', change.offsetFrom, change.offsetTo,
+      formatUtc(new Date(change.at + change.offsetFrom)).slice(0, -1));
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    contentLine('TZID', timeZone),
+    ...[...observances.values()].flatMap(({ kind, offsetFrom, offsetTo, starts: [first, ...rest] }) => [
+      `BEGIN:${kind}`,
+      contentLine('DTSTART', first),
+      ...(rest.length > 0 ? [contentLine('RDATE', rest.join(','))] : []),
+      contentLine('TZOFFSETFROM', formatOffset(offsetFrom)),
+      contentLine('TZOFFSETTO', formatOffset(offsetTo)),
+      `END:${kind}`
+    ]),
+    'END:VTIMEZONE'
+  ];
+};
+
+// A due date as DUE, DTSTART or DTEND: a date for all-day ones, the time in
+// its zone for ones with a time zone, and the time in UTC for the rest
+const dueLine = (name: string, todo: ExportedTodo, daysLater = 0): string => {
+  const due = new Date(new Date(todo.due_at!).getTime() + daysLater * 24 * 60 * 60 * 1000);
+  if (todo.due_all_day) {
+    return contentLine(name, formatDate(due), { VALUE: 'DATE' });
+  }
+  if (todo.due_time_zone !== null) {
+    return contentLine(name, formatLocal(due, todo.due_time_zone), { TZID: todo.due_time_zone });
+  }
+  return contentLine(name, formatUtc(due));
+};
+
+// Without a METHOD, DTSTAMP is when the todo last changed
+const todoLines = (todo: ExportedTodo, uidOf: (id: number) => string): string[] => {
+  const level = priorityLevels[todo.priority];
+  const isRecurring = todo.due_at !== null && todo.recurrence_rule !== null;
+  const modified = formatUtc(new Date(todo.updated_at));
+  return [
+    'BEGIN:VTODO',
+    contentLine('UID', uidOf(todo.id)),
+    contentLine('DTSTAMP', modified),
+    contentLine('CREATED', formatUtc(new Date(todo.created_at))),
+    contentLine('LAST-MODIFIED', modified),
+    contentLine('SUMMARY', escapeText(todo.title)),
+    ...(todo.description !== null ? [contentLine('DESCRIPTION', escapeText(todo.description))] : []),
+    contentLine('STATUS', todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'),
+    // Todos keep no completion time; the last change is the closest
+    ...(todo.completed ? [contentLine('COMPLETED', modified)] : []),
+    ...(level !== null ? [contentLine('PRIORITY', String(level))] : []),
+    // Recurrences count from DTSTART
+    ...(isRecurring ? [dueLine('DTSTART', todo)] : []),
+    ...(todo.due_at !== null ? [dueLine('DUE', todo)] : []),
+    ...(isRecurring ? [contentLine('RRULE', todo.recurrence_rule!)] : []),
+    ...(todo.tags.length > 0 ? [contentLine('CATEGORIES', todo.tags.map(escapeText).join(','))] : []),
+    ...(todo.parent_id !== null ? [contentLine('RELATED-TO', uidOf(todo.parent_id))] : []),
+    'END:VTODO'
+  ];
+};
+
+// Events take no room in the calendar: they mark when a todo is due. Timed
+// ones end as they start.
+const eventLines = (todo: ExportedTodo): string[] => [
+  'BEGIN:VEVENT',
+  contentLine('UID', `event-${todo.id}@${UID_DOMAIN}`),
+  contentLine('DTSTAMP', formatUtc(new Date(todo.updated_at))),
+  contentLine('SUMMARY', escapeText(todo.title)),
+  ...(todo.description !== null ? [contentLine('DESCRIPTION', escapeText(todo.description))] : []),
+  dueLine('DTSTART', todo),
+  ...(todo.due_all_day ? [dueLine('DTEND', todo, 1)] : []),
+  ...(todo.recurrence_rule !== null ? [contentLine('RRULE', todo.recurrence_rule)] : []),
+  ...(todo.tags.length > 0 ? [contentLine('CATEGORIES', todo.tags.map(escapeText).join(','))] : []),
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT'
+];
+
+export const toICalendar = (todos: ExportedTodo[], options: CalendarOptions): string => {
+  const uidOf = options.uidOf ?? todoUid;
+
+  // Years each time zone is needed for
+  const zoneYears = new Map<string, number[]>();
+  for (const todo of todos) {
+    if (todo.due_at !== null && !todo.due_all_day && todo.due_time_zone !== null) {
+      const year = new Date(todo.due_at).getUTCFullYear();
+      zoneYears.set(todo.due_time_zone, [...zoneYears.get(todo.due_time_zone) ?? [], year]);
+    }
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    contentLine('PRODID', PRODID),
+    'CALSCALE:GREGORIAN',
+    contentLine('X-WR-CALNAME', escapeText(options.name)),
+    ...[...zoneYears].flatMap(([timeZone, years]) => timeZoneLines(timeZone, years)),
+    ...todos.flatMap(todo => [
+      ...todoLines(todo, uidOf),
+      ...(options.events && todo.due_at !== null ? eventLines(todo) : [])
+    ]),
+    'END:VCALENDAR'
+  ];
+  return lines.join('\r\n') + '\r\n';
+};
+
+export type ContentLine = {
+  line: number;
+  name: string;
+  params: Map<string, string>;
+  value: string;
+};
+
+export type Component = {
+  name: string;
+  line: number;
+  properties: ContentLine[];
+  components: Component[];
+};
+
+// Joins folded lines back up, keeping the number of the line each starts on
+const unfoldLines = (text: string): { line: number; text: string }[] => {
+  const lines: { line: number; text: string }[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((lineText, index) => {
+    if (/^[ \t]/.test(lineText) && lines.length > 0) {
+      lines[lines.length - 1].text += lineText.slice(1);
+    } else if (lineText !== '') {
+      lines.push({ line: index + 1, text: lineText });
+    }
+  });
+  return lines;
+};
+
+// NAME;PARAM=value;PARAM="quoted value":value
+const parseContentLine = (line: number, text: string): ContentLine => {
+  const name = /^[A-Za-z0-9-]+/.exec(text)?.[0];
+  if (!name) {
+    throw new Error(`Line ${line} is not an iCalendar property`);
+  }
+
+  const params = new Map<string, string>();
+  let index = name.length;
+  while (text[index] === ';') {
+    const paramName = /^[A-Za-z0-9-]+=/.exec(text.slice(index + 1))?.[0];
+    if (!paramName) {
+      throw new Error(`Line ${line} has a malformed parameter`);
+    }
+    index += 1 + paramName.length;
+
+    const values: string[] = [];
+    do {
+      if (values.length > 0) {
+        index++; // The comma between values
+      }
+      if (text[index] === '"') {
+        const end = text.indexOf('"', index + 1);
+        if (end === -1) {
+          throw new Error(`Line ${line} has an unterminated quoted parameter`);
+        }
+        values.push(text.slice(index + 1, end));
+        index = end + 1;
+      } else {
+        const value = /^[^";:,]*/.exec(text.slice(index))![0];
+        values.push(value);
+        index += value.length;
+      }
+    } while (text[index] === ',');
+    params.set(paramName.slice(0, -1).toUpperCase(), values.join(','));
+  }
+
+  if (text[index] !== ':') {
+    throw new Error(`Line ${line} is not an iCalendar property`);
+  }
+  return { line, name: name.toUpperCase(), params, value: text.slice(index + 1) };
+};
+
+// The components at the top of the file, with the ones nested in them.
+// Throws when the file is not well-formed.
+export const parseComponents = (text: string): Component[] => {
+  const root: Component = { name: '', line: 0, properties: [], components: [] };
+  const open: Component[] = [root];
+
+  for (const { line, text: lineText } of unfoldLines(text)) {
+    const property = parseContentLine(line, lineText);
+    const current = open[open.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: Component = { name: property.value.trim().toUpperCase(), line, properties: [], components: [] };
+      current.components.push(component);
+      open.push(component);
+    } else if (property.name === 'END') {
+      if (current === root || current.name !== property.value.trim().toUpperCase()) {
+        throw new Error(`Line ${line} ends ${property.value} but ${current === root ? 'nothing' : current.name} is open`);
+      }
+      open.pop();
+    } else if (current === root) {
+      throw new Error(`Line ${line} is outside of any component`);
+    } else {
+      current.properties.push(property);
+    }
+  }
+
+  if (open.length > 1) {
+    throw new Error(`${open[open.length - 1].name} on line ${open[open.length - 1].line} is never ended`);
+  }
+  return root.components;
+};
+
+const isDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// DUE as a date, a time in UTC, a time in a named zone, or a floating time,
+// which is read as UTC as the file says nothing about where it is. So are
+// times in zones that are not IANA names.
+const readDue = (property: ContentLine): Pick<CalendarTodo, 'due_at' | 'due_all_day' | 'due_time_zone'> => {
+  const date = DATE_VALUE.exec(property.value);
+  if (date) {
+    const [year, month, day] = date.slice(1).map(Number);
+    return isDate(year, month, day)
+      ? { due_at: new Date(Date.UTC(year, month - 1, day)).toISOString(), due_all_day: true, due_time_zone: null }
+      : { due_at: property.value, due_all_day: true, due_time_zone: null };
+  }
+
+  const dateTime = DATE_TIME_VALUE.exec(property.value);
+  if (!dateTime) {
+    return { due_at: property.value, due_all_day: false, due_time_zone: null };
+  }
+  const [year, month, day, hour, minute, second] = dateTime.slice(1, 7).map(Number);
+  if (!isDate(year, month, day) || hour > 23 || minute > 59 || second > 60) {
+    return { due_at: property.value, due_all_day: false, due_time_zone: null };
+  }
+
+  const timeZone = property.params.get('TZID')?.replace(/^\//, '') ?? null;
+  if (dateTime[7] === '' && timeZone !== null && isValidTimeZone(timeZone)) {
+    return {
+      due_at: zonedTimeToUtc({ year, month, day }, timeZone, hour, minute, second).toISOString(),
+      due_all_day: false,
+      due_time_zone: timeZone
+    };
+  }
+  return {
+    due_at: new Date(Date.UTC(year, month - 1, day, hour, minute, second)).toISOString(),
+    due_all_day: false,
+    due_time_zone: null
+  };
+};
+
+export const readTodo = (component: Component): CalendarTodo => {
+  const first = (name: string): ContentLine | undefined => component.properties.find(property => property.name === name);
+  const textOf = (name: string): string | null => {
+    const property = first(name);
+    return property ? unescapeText(property.value) : null;
+  };
+
+  const status = first('STATUS')?.value.trim().toUpperCase();
+  const level = first('PRIORITY')?.value.trim();
+  const due = first('DUE');
+  const parent = component.properties.find(property =>
+    property.name === 'RELATED-TO' && (property.params.get('RELTYPE') ?? 'PARENT').toUpperCase() === 'PARENT');
+  const tags = component.properties
+    .filter(property => property.name === 'CATEGORIES')
+    .flatMap(property => splitList(property.value).map(tag => unescapeText(tag).trim()))
+    .filter(tag => tag !== '');
+
+  return {
+    line: component.line,
+    uid: textOf('UID'),
+    parent_uid: parent ? unescapeText(parent.value) : null,
+    cancelled: status === 'CANCELLED',
+    title: textOf('SUMMARY') ?? '',
+    description: textOf('DESCRIPTION'),
+    completed: status === 'COMPLETED' || first('COMPLETED') !== undefined || first('PERCENT-COMPLETE')?.value.trim() === '100',
+    priority: level !== undefined && /^\d+$/.test(level) ? priorityOfLevel(Number(level)) : 'none',
+    ...(due ? readDue(due) : { due_at: null, due_all_day: false, due_time_zone: null }),
+    recurrence_rule: first('RRULE')?.value.trim() ?? null,
+    tags: [...new Set(tags)]
+  };
+};
+
+// The VTODOs of an iCalendar file. Throws when the file is not one.
+export const readICalendarTodos = (text: string): CalendarTodo[] => {
+  const calendars = parseComponents(text).filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Error('The file is not an iCalendar file');
+  }
+  return calendars.flatMap(calendar => calendar.components.filter(component => component.name === 'VTODO').map(readTodo));
+};
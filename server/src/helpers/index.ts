@@ -16,3 +16,12 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Inserts a user to own the records created by a test and returns its id
+export const createTestUser = async (email = 'owner@example.com'): Promise<number> => {
+  const [user] = await db.insert(schema.usersTable)
+    .values({ email, password_hash: 'not-a-real-hash' })
+    .returning()
+    .execute();
+  return user.id;
+};
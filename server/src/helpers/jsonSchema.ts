@@ -0,0 +1,194 @@
+import { z, type ZodTypeAny } from 'zod';
+
+// Converts zod schemas to JSON Schema (draft 2020-12, as OpenAPI 3.1 uses),
+// so documents describe exactly what the API validates. Refinements and
+// transforms cannot be expressed and are left out; dates are ISO 8601 strings.
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+export type JsonSchemaOptions = {
+  // Inputs may leave out fields that have defaults; outputs always have them
+  io: 'input' | 'output';
+  // Schemas written as references to components, by component name
+  refs?: Map<ZodTypeAny, string>;
+};
+
+// Allows null as well, keeping simple types as a type list
+const withNull = (schema: JsonSchema): JsonSchema => {
+  if (typeof schema['type'] === 'string' && schema['$ref'] === undefined) {
+    const enumValues = schema['enum'] as unknown[] | undefined;
+    return { ...schema, type: [schema['type'], 'null'], ...(enumValues ? { enum: [...enumValues, null] } : {}) };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+};
+
+const stringSchema = (schema: z.ZodString): JsonSchema => {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result['minLength'] = check.value;
+        break;
+      case 'max':
+        result['maxLength'] = check.value;
+        break;
+      case 'length':
+        result['minLength'] = check.value;
+        result['maxLength'] = check.value;
+        break;
+      case 'email':
+        result['format'] = 'email';
+        break;
+      case 'url':
+        result['format'] = 'uri';
+        break;
+      case 'uuid':
+        result['format'] = 'uuid';
+        break;
+      case 'datetime':
+        result['format'] = 'date-time';
+        break;
+      case 'regex':
+        result['pattern'] = check.regex.source;
+        break;
+    }
+  }
+  return result;
+};
+
+const numberSchema = (schema: z.ZodNumber): JsonSchema => {
+  const result: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result['type'] = 'integer';
+        break;
+      case 'min':
+        result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        result['multipleOf'] = check.value;
+        break;
+    }
+  }
+  return result;
+};
+
+export const toJsonSchema = (root: ZodTypeAny, options: JsonSchemaOptions): JsonSchema => {
+  // Lazy schemas being expanded; one met again inside itself cannot be written out
+  const expanding = new Set<ZodTypeAny>();
+
+  // The root itself is written out, even when it has a component of its own
+  const convert = (schema: ZodTypeAny, isRoot = false): JsonSchema => {
+    const ref = isRoot ? undefined : options.refs?.get(schema);
+    if (ref !== undefined) {
+      return { $ref: `#/components/schemas/${ref}` };
+    }
+    const result = convertType(schema);
+    return schema.description !== undefined ? { ...result, description: schema.description } : result;
+  };
+
+  const convertType = (schema: ZodTypeAny): JsonSchema => {
+    if (schema instanceof z.ZodString) {
+      return stringSchema(schema);
+    }
+    if (schema instanceof z.ZodNumber) {
+      return numberSchema(schema);
+    }
+    if (schema instanceof z.ZodBoolean) {
+      return { type: 'boolean' };
+    }
+    if (schema instanceof z.ZodDate) {
+      return { type: 'string', format: 'date-time' };
+    }
+    if (schema instanceof z.ZodNull) {
+      return { type: 'null' };
+    }
+    if (schema instanceof z.ZodLiteral) {
+      const value: unknown = schema._def.value;
+      return value === null ? { type: 'null' } : { type: typeof value, const: value };
+    }
+    if (schema instanceof z.ZodEnum) {
+      return { type: 'string', enum: [...schema._def.values] };
+    }
+    if (schema instanceof z.ZodNativeEnum) {
+      return { enum: Object.values(schema._def.values as Record<string, string | number>) };
+    }
+    if (schema instanceof z.ZodArray) {
+      const def = schema._def;
+      return {
+        type: 'array',
+        items: convert(def.type),
+        ...(def.minLength ?? def.exactLength ? { minItems: (def.minLength ?? def.exactLength)!.value } : {}),
+        ...(def.maxLength ?? def.exactLength ? { maxItems: (def.maxLength ?? def.exactLength)!.value } : {})
+      };
+    }
+    if (schema instanceof z.ZodTuple) {
+      return { type: 'array', prefixItems: (schema._def.items as ZodTypeAny[]).map(item => convert(item)), minItems: schema._def.items.length };
+    }
+    if (schema instanceof z.ZodObject) {
+      const shape = schema.shape as Record<string, ZodTypeAny>;
+      const required = Object.keys(shape).filter(key =>
+        options.io === 'output' ? !(shape[key] instanceof z.ZodOptional) : !shape[key].isOptional());
+      const catchall = schema._def.catchall as ZodTypeAny;
+      const unknownKeys = schema._def.unknownKeys as string;
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, convert(field)])),
+        ...(required.length > 0 ? { required } : {}),
+        ...(!(catchall instanceof z.ZodNever)
+          ? { additionalProperties: convert(catchall) }
+          : unknownKeys === 'strict' ? { additionalProperties: false } : {})
+      };
+    }
+    if (schema instanceof z.ZodRecord) {
+      return { type: 'object', additionalProperties: convert(schema._def.valueType) };
+    }
+    if (schema instanceof z.ZodUnion) {
+      return { anyOf: (schema._def.options as ZodTypeAny[]).map(option => convert(option)) };
+    }
+    if (schema instanceof z.ZodDiscriminatedUnion) {
+      return { oneOf: (schema._def.options as ZodTypeAny[]).map(option => convert(option)) };
+    }
+    if (schema instanceof z.ZodIntersection) {
+      return { allOf: [convert(schema._def.left), convert(schema._def.right)] };
+    }
+    if (schema instanceof z.ZodOptional) {
+      return convert(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodNullable) {
+      return withNull(convert(schema._def.innerType));
+    }
+    if (schema instanceof z.ZodDefault) {
+      return { ...convert(schema._def.innerType), default: schema._def.defaultValue() };
+    }
+    if (schema instanceof z.ZodEffects) {
+      return convert(schema._def.schema);
+    }
+    if (schema instanceof z.ZodPipeline) {
+      return convert(options.io === 'input' ? schema._def.in : schema._def.out);
+    }
+    if (schema instanceof z.ZodBranded) {
+      return convert(schema._def.type);
+    }
+    if (schema instanceof z.ZodReadonly || schema instanceof z.ZodCatch) {
+      return convert(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodLazy) {
+      if (expanding.has(schema)) {
+        return {};
+      }
+      expanding.add(schema);
+      const result = convert(schema._def.getter());
+      expanding.delete(schema);
+      return result;
+    }
+    // Anything else, such as z.unknown(), takes any value
+    return {};
+  };
+
+  return convert(root, true);
+};
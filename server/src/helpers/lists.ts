@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type List } from '../schema';
+import { and, eq } from 'drizzle-orm';
+
+// Either the database itself or an open transaction
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Returns the user's Inbox list, creating it the first time it is needed
+export const getOrCreateInbox = async (ownerId: number, executor: DbExecutor = db): Promise<List> => {
+  const isOwnInbox = and(eq(listsTable.owner_id, ownerId), eq(listsTable.is_inbox, true));
+  const existing = await executor.select()
+    .from(listsTable)
+    .where(isOwnInbox)
+    .execute();
+
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  // A concurrent caller may win the race; the unique index keeps a single Inbox
+  await executor.insert(listsTable)
+    .values({ owner_id: ownerId, name: 'Inbox', icon: '📥', is_inbox: true, sort_order: 0 })
+    .onConflictDoNothing()
+    .execute();
+
+  const created = await executor.select()
+    .from(listsTable)
+    .where(isOwnInbox)
+    .execute();
+
+  return created[0];
+};
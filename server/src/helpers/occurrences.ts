@@ -0,0 +1,59 @@
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { type Todo } from '../schema';
+import { eq } from 'drizzle-orm';
+import { nextOccurrence } from './recurrence';
+import { type DbExecutor } from './lists';
+import { notifyTodoChange } from './events';
+import { recordTodoEvents } from './history';
+import { positionAfter } from './positions';
+
+// Creates the occurrence that follows a completed recurring todo, carrying over its tags
+export const scheduleNextOccurrence = async (tx: DbExecutor, todo: Todo, actorId: number): Promise<void> => {
+  if (!todo.recurrence_rule || !todo.due_at) {
+    return;
+  }
+
+  const next = nextOccurrence(todo.recurrence_rule, todo.due_at, todo.due_all_day, todo.due_time_zone ?? 'UTC');
+  if (!next) {
+    return; // The series has ended
+  }
+
+  const [created] = await tx.insert(todosTable)
+    .values({
+      owner_id: todo.owner_id,
+      title: todo.title,
+      description: todo.description,
+      completed: false,
+      list_id: todo.list_id,
+      parent_id: todo.parent_id,
+      priority: todo.priority,
+      due_at: next.due_at,
+      due_all_day: todo.due_all_day,
+      due_time_zone: todo.due_time_zone,
+      recurrence_rule: next.recurrence_rule,
+      position: await positionAfter(tx, todo) // Takes the completed todo's place in the manual order
+    })
+    .returning()
+    .execute();
+
+  const tags = await tx.select({ tag_id: todoTagsTable.tag_id, name: tagsTable.name })
+    .from(todoTagsTable)
+    .innerJoin(tagsTable, eq(todoTagsTable.tag_id, tagsTable.id))
+    .where(eq(todoTagsTable.todo_id, todo.id))
+    .execute();
+
+  if (tags.length > 0) {
+    await tx.insert(todoTagsTable)
+      .values(tags.map(tag => ({ todo_id: created.id, tag_id: tag.tag_id })))
+      .execute();
+  }
+
+  const tagNames = tags.map(tag => tag.name).sort();
+  await recordTodoEvents(tx, actorId, 'created', [{
+    before: null,
+    after: created,
+    changes: tagNames.length > 0 ? { tags: { before: null, after: tagNames } } : undefined
+  }]);
+
+  await notifyTodoChange(tx, 'created', todo.owner_id, [created.id]);
+};
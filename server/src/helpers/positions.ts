@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { todosTable, usersTable } from '../db/schema';
+import { and, asc, eq, gt, isNull, max, min, sql, type SQL } from 'drizzle-orm';
+import { type Todo } from '../schema';
+import { evenRanks, MAX_RANK_LENGTH, rankBetween } from './ranks';
+import { type DbExecutor } from './lists';
+
+const REBALANCE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
+// Ranks compare byte by byte, whatever the database's collation
+export const positionOrder: SQL = sql`${todosTable.position} collate "C"`;
+
+// Todos that share a parent, or the top level, are ordered among themselves
+export const siblingsOf = (ownerId: number, parentId: number | null): SQL | undefined =>
+  and(
+    eq(todosTable.owner_id, ownerId),
+    parentId === null ? isNull(todosTable.parent_id) : eq(todosTable.parent_id, parentId)
+  );
+
+// Serializes position changes of one user, so two moves never compute
+// their ranks from the same neighbours
+export const lockPositions = async (tx: DbExecutor, ownerId: number): Promise<void> => {
+  await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, ownerId))
+    .for('update')
+    .execute();
+};
+
+// Rank for a new todo that goes ahead of its siblings
+export const firstPosition = async (executor: DbExecutor, ownerId: number, parentId: number | null): Promise<string> => {
+  const [{ first }] = await executor.select({ first: min(positionOrder) })
+    .from(todosTable)
+    .where(siblingsOf(ownerId, parentId))
+    .execute();
+  return rankBetween(null, first as string | null);
+};
+
+// Rank for a new todo that goes after its siblings
+export const lastPosition = async (executor: DbExecutor, ownerId: number, parentId: number | null): Promise<string> => {
+  const [{ last }] = await executor.select({ last: max(positionOrder) })
+    .from(todosTable)
+    .where(siblingsOf(ownerId, parentId))
+    .execute();
+  return rankBetween(last as string | null, null);
+};
+
+// Rank for a new todo that goes right after the given one
+export const positionAfter = async (executor: DbExecutor, todo: Todo): Promise<string> => {
+  const [{ next }] = await executor.select({ next: min(positionOrder) })
+    .from(todosTable)
+    .where(and(siblingsOf(todo.owner_id, todo.parent_id), gt(positionOrder, sql`${todo.position} collate "C"`)))
+    .execute();
+  return rankBetween(todo.position, next as string | null);
+};
+
+// Spreads the user's ranks out evenly, keeping their order. Versions stay
+// as they are since no todo moves relative to another.
+export const rebalancePositions = async (tx: DbExecutor, ownerId: number): Promise<void> => {
+  await lockPositions(tx, ownerId);
+  const rows = await tx.select({ id: todosTable.id })
+    .from(todosTable)
+    .where(eq(todosTable.owner_id, ownerId))
+    .orderBy(asc(positionOrder), asc(todosTable.id))
+    .execute();
+
+  const ranks = evenRanks(rows.length);
+  for (const [index, row] of rows.entries()) {
+    await tx.update(todosTable)
+      .set({ position: ranks[index] })
+      .where(eq(todosTable.id, row.id))
+      .execute();
+  }
+};
+
+// Rebalances the users whose ranks grew too long or who have siblings
+// sharing a rank. Returns how many users were rebalanced.
+export const rebalanceLongRanks = async (): Promise<number> => {
+  const groups = await db.select({ owner_id: todosTable.owner_id })
+    .from(todosTable)
+    .groupBy(todosTable.owner_id, todosTable.parent_id)
+    .having(sql`max(length(${todosTable.position})) > ${MAX_RANK_LENGTH}
+      or count(*) > count(distinct ${todosTable.position})`)
+    .execute();
+
+  const ownerIds = [...new Set(groups.map(group => group.owner_id))];
+  for (const ownerId of ownerIds) {
+    await db.transaction(tx => rebalancePositions(tx, ownerId));
+  }
+  return ownerIds.length;
+};
+
+// Rebalances now and then periodically until the returned function is called
+export const scheduleRankRebalance = (intervalMs = REBALANCE_INTERVAL_MS): () => void => {
+  const run = () => {
+    rebalanceLongRanks()
+      .then((rebalanced) => {
+        if (rebalanced > 0) {
+          console.log(`Rebalanced todo ranks of ${rebalanced} users`);
+        }
+      })
+      .catch((error) => console.error('Rank rebalance failed:', error));
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,77 @@
+// Ranks order todos by hand. A rank is a base-36 fraction written without
+// its leading "0.", so 'i' is one half and 'i8' a little more. Ranks compare
+// byte by byte (COLLATE "C" in Postgres), and another rank always fits
+// between two of them, so moving a todo only rewrites its own row. Ranks
+// never end in '0': nothing sorts between 'a' and 'a0'.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+// Rank given to rows that predate manual ordering
+export const DEFAULT_RANK = 'i';
+
+// Moves between the same neighbours make ranks one digit longer each time;
+// past this length the owner's ranks are spread out again
+export const MAX_RANK_LENGTH = 16;
+
+export const isValidRank = (rank: string): boolean =>
+  rank.length > 0 && !rank.endsWith(DIGITS[0]) && [...rank].every(char => DIGITS.includes(char));
+
+// The shortest digits between two fractions, where '' stands for 0 as the
+// lower bound and null for 1 as the upper bound
+const midpoint = (lower: string, upper: string | null): string => {
+  if (upper !== null) {
+    // Keep the common prefix, treating missing digits of the lower bound as zeros
+    let prefix = 0;
+    while ((lower[prefix] ?? DIGITS[0]) === upper[prefix]) {
+      prefix++;
+    }
+    if (prefix > 0) {
+      return upper.slice(0, prefix) + midpoint(lower.slice(prefix), upper.slice(prefix));
+    }
+  }
+
+  const lowerDigit = lower ? DIGITS.indexOf(lower[0]) : 0;
+  const upperDigit = upper !== null ? DIGITS.indexOf(upper[0]) : BASE;
+  if (upperDigit - lowerDigit > 1) {
+    return DIGITS[Math.round((lowerDigit + upperDigit) / 2)];
+  }
+
+  // Adjacent first digits: the upper bound's first digit alone sorts
+  // before it if more digits follow, otherwise look further down
+  if (upper !== null && upper.length > 1) {
+    return upper.slice(0, 1);
+  }
+  return DIGITS[lowerDigit] + midpoint(lower.slice(1), null);
+};
+
+// A rank that sorts after before and ahead of after. Leave out before to
+// rank ahead of everything up to after, and after to rank last.
+export const rankBetween = (before: string | null, after: string | null): string => {
+  for (const rank of [before, after]) {
+    if (rank !== null && !isValidRank(rank)) {
+      throw new Error(`Invalid rank '${rank}'`);
+    }
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank '${before}' does not sort before '${after}'`);
+  }
+  return midpoint(before ?? '', after);
+};
+
+// Ranks for the given number of todos, in order and evenly spaced, with a
+// spare digit so later moves fit between them without growing at first
+export const evenRanks = (count: number): string[] => {
+  let width = 1;
+  while (BASE ** width < (count + 1) * BASE) {
+    width++;
+  }
+
+  const step = BASE ** width / (count + 1);
+  return Array.from({ length: count }, (_, index) =>
+    Math.floor((index + 1) * step)
+      .toString(BASE)
+      .padStart(width, DIGITS[0])
+      .replace(/0+$/, '')
+  );
+};
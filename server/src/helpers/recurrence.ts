@@ -0,0 +1,263 @@
+// RFC 5545 RRULE subset: FREQ, INTERVAL, BYDAY, COUNT and UNTIL.
+// Weeks start on Monday (WKST=MO), and dates that do not exist in a
+// period (e.g. the 31st in April, Feb 29 in common years) are skipped.
+
+import { addDays, calendarDateIn, timeZoneOffset, zonedTimeToUtc, type CalendarDate } from './dates';
+
+export const recurrenceFrequencies = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+export const weekdays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = typeof weekdays[number];
+
+export type RecurrenceDay = {
+  weekday: Weekday;
+  ordinal: number | null; // e.g. -1 in "-1FR" (last Friday), monthly rules only
+};
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceDay[];
+  count: number | null; // Occurrences left, including the current one
+  until: Date | null;
+};
+
+// Upper bound on the periods scanned for a matching date, e.g. Feb 29 yearly
+const MAX_PERIODS = 1000;
+
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  // Date-only values include the whole day
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+const formatUntil = (until: Date): string =>
+  until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const parseDay = (value: string, freq: RecurrenceFrequency): RecurrenceDay => {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${value}"`);
+  }
+  const ordinal = match[1] ? parseInt(match[1], 10) : null;
+  if (ordinal !== null && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+    throw new Error(`Invalid BYDAY value "${value}" for FREQ=${freq}`);
+  }
+  return { weekday: match[2] as Weekday, ordinal };
+};
+
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined || parts.has(key.toUpperCase())) {
+      throw new Error(`Invalid recurrence rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq || !recurrenceFrequencies.includes(freq as RecurrenceFrequency)) {
+    throw new Error('Recurrence rule needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Unsupported recurrence rule part ${key}`);
+    }
+  }
+
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    byDay: [],
+    count: null,
+    until: null
+  };
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    rule.interval = /^\d+$/.test(interval) ? parseInt(interval, 10) : 0;
+    if (rule.interval < 1) {
+      throw new Error(`Invalid INTERVAL value "${interval}"`);
+    }
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    if (rule.freq === 'YEARLY') {
+      throw new Error('BYDAY is not supported with FREQ=YEARLY');
+    }
+    rule.byDay = byDay.split(',').map((day) => parseDay(day, rule.freq));
+  }
+
+  const count = parts.get('COUNT');
+  if (count !== undefined) {
+    rule.count = /^\d+$/.test(count) ? parseInt(count, 10) : 0;
+    if (rule.count < 1) {
+      throw new Error(`Invalid COUNT value "${count}"`);
+    }
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined) {
+    if (rule.count !== null) {
+      throw new Error('COUNT and UNTIL cannot be combined');
+    }
+    rule.until = parseUntil(until);
+  }
+
+  return rule;
+};
+
+export const isValidRecurrenceRule = (value: string): boolean => {
+  try {
+    parseRecurrenceRule(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  }
+  return parts.join(';');
+};
+
+const compareDates = (a: CalendarDate, b: CalendarDate): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Monday-based weekday index, 0 = MO
+const weekdayIndex = (date: CalendarDate): number =>
+  (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7;
+
+const addMonths = (date: CalendarDate, months: number): CalendarDate => {
+  const index = date.year * 12 + (date.month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1, day: 1 };
+};
+
+const matchesWeekday = (date: CalendarDate, byDay: RecurrenceDay[]): boolean =>
+  byDay.some((day) => weekdays.indexOf(day.weekday) === weekdayIndex(date));
+
+// Candidate dates of the n-th period after the one containing `start`, in order
+const periodDates = (rule: RecurrenceRule, start: CalendarDate, n: number): CalendarDate[] => {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = addDays(start, n);
+      return rule.byDay.length === 0 || matchesWeekday(date, rule.byDay) ? [date] : [];
+    }
+    case 'WEEKLY': {
+      const weekStart = addDays(start, n * 7 - weekdayIndex(start));
+      const days = rule.byDay.length > 0
+        ? rule.byDay.map((day) => weekdays.indexOf(day.weekday))
+        : [weekdayIndex(start)];
+      return [...new Set(days)].sort((a, b) => a - b).map((day) => addDays(weekStart, day));
+    }
+    case 'MONTHLY': {
+      const { year, month } = addMonths(start, n);
+      const length = daysInMonth(year, month);
+      if (rule.byDay.length === 0) {
+        return start.day <= length ? [{ year, month, day: start.day }] : [];
+      }
+      const days = new Set<number>();
+      for (const { weekday, ordinal } of rule.byDay) {
+        const matching: number[] = [];
+        for (let day = 1; day <= length; day++) {
+          if (weekdayIndex({ year, month, day }) === weekdays.indexOf(weekday)) {
+            matching.push(day);
+          }
+        }
+        if (ordinal === null) {
+          matching.forEach((day) => days.add(day));
+        } else {
+          const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+          if (day !== undefined) {
+            days.add(day);
+          }
+        }
+      }
+      return [...days].sort((a, b) => a - b).map((day) => ({ year, month, day }));
+    }
+    case 'YEARLY': {
+      const year = start.year + n;
+      return start.day <= daysInMonth(year, start.month) ? [{ year, month: start.month, day: start.day }] : [];
+    }
+  }
+};
+
+// First date of the series strictly after `current`
+const nextDate = (rule: RecurrenceRule, current: CalendarDate): CalendarDate | null => {
+  for (let period = 0; period <= MAX_PERIODS; period += rule.interval) {
+    const candidate = periodDates(rule, current, period)
+      .find((date) => compareDates(date, current) > 0);
+    if (candidate) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+export type Occurrence = {
+  due_at: Date;
+  recurrence_rule: string | null; // Rule for the occurrence after this one
+};
+
+// Next occurrence after the given due date. Timed due dates keep their wall
+// clock time in the time zone across DST changes; all-day due dates are UTC
+// midnight of their calendar date. Returns null once the series has ended.
+export const nextOccurrence = (
+  value: string,
+  dueAt: Date,
+  allDay: boolean,
+  timeZone: string
+): Occurrence | null => {
+  const rule = parseRecurrenceRule(value);
+  if (rule.count !== null && rule.count <= 1) {
+    return null;
+  }
+
+  const zone = allDay ? 'UTC' : timeZone;
+  const wallClock = new Date(dueAt.getTime() + timeZoneOffset(dueAt, zone));
+  const date = nextDate(rule, calendarDateIn(dueAt, zone));
+  if (!date) {
+    return null;
+  }
+
+  const hour = wallClock.getUTCHours();
+  let next = zonedTimeToUtc(date, zone, hour, wallClock.getUTCMinutes(), wallClock.getUTCSeconds());
+  if (new Date(next.getTime() + timeZoneOffset(next, zone)).getUTCHours() !== hour) {
+    // The time falls in a DST gap; RFC 5545 uses the offset from before the gap
+    const offsetBefore = timeZoneOffset(new Date(next.getTime() - 24 * 60 * 60 * 1000), zone);
+    next = new Date(
+      Date.UTC(date.year, date.month - 1, date.day, hour, wallClock.getUTCMinutes(), wallClock.getUTCSeconds()) - offsetBefore
+    );
+  }
+  if (rule.until !== null && next > rule.until) {
+    return null;
+  }
+
+  return {
+    due_at: next,
+    recurrence_rule: formatRecurrenceRule({ ...rule, count: rule.count === null ? null : rule.count - 1 })
+  };
+};
@@ -0,0 +1,59 @@
+import { todosTable } from '../db/schema';
+import { type HighlightSegment } from '../schema';
+import { sql, type SQL } from 'drizzle-orm';
+
+// ts_headline wraps matches in these, since neither occurs in typed text.
+// Clients get segments instead of markup, so titles are never parsed as HTML.
+const START_MATCH = '\u0002';
+const STOP_MATCH = '\u0003';
+
+const HEADLINE_OPTIONS = `StartSel="${START_MATCH}", StopSel="${STOP_MATCH}"`;
+
+// Whole titles, with every match marked
+export const TITLE_HEADLINE_OPTIONS = `${HEADLINE_OPTIONS}, HighlightAll=true`;
+
+// Up to two short passages around the matches of a description
+export const SNIPPET_HEADLINE_OPTIONS = `${HEADLINE_OPTIONS}, MaxFragments=2, MaxWords=16, MinWords=6, FragmentDelimiter=" … "`;
+
+// The words of the search text as a tsquery in which each is a prefix, so
+// 'gro list' finds "Grocery list". Null when the text has no words.
+export const toPrefixQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+};
+
+export const tsQuery = (prefixQuery: string): SQL => sql`to_tsquery('simple', ${prefixQuery})`;
+
+// Live top-level todos of the owner that match the query themselves or
+// through one of their subtasks, at any depth
+export const matchingTopLevelTodos = (ownerId: number, prefixQuery: string): SQL => sql`${todosTable.id} in (
+  with recursive matched as (
+    select "id", "parent_id" from "todos"
+    where "owner_id" = ${ownerId} and "deleted_at" is null and "search" @@ ${tsQuery(prefixQuery)}
+    union
+    select "parents"."id", "parents"."parent_id" from "todos" "parents"
+    inner join matched on "parents"."id" = matched."parent_id"
+    where "parents"."deleted_at" is null
+  )
+  select "id" from matched where "parent_id" is null
+)`;
+
+// Splits a ts_headline result into matched and unmatched parts
+export const toSegments = (headline: string | null): HighlightSegment[] => {
+  if (!headline) {
+    return [];
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (const [index, part] of headline.split(START_MATCH).entries()) {
+    // Every part but the first starts with a match
+    const [matched, rest] = index === 0 ? [null, part] : part.split(STOP_MATCH, 2);
+    if (matched) {
+      segments.push({ text: matched, match: true });
+    }
+    if (rest) {
+      segments.push({ text: rest, match: false });
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,73 @@
+import { todosTable } from '../db/schema';
+import { type DbExecutor } from './lists';
+import { pairWithPrevious, recordTodoEvents } from './history';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+// Ids of every subtask below the given todos, at any depth
+export const getDescendantIds = async (executor: DbExecutor, todoIds: number[]): Promise<number[]> => {
+  const descendants: number[] = [];
+  let level = todoIds;
+
+  while (level.length > 0) {
+    const children = await executor.select({ id: todosTable.id })
+      .from(todosTable)
+      .where(inArray(todosTable.parent_id, level))
+      .execute();
+
+    level = children.map(child => child.id);
+    descendants.push(...level);
+  }
+
+  return descendants;
+};
+
+// Ids of the todo's parent, grandparent and so on up to its top-level todo
+export const getAncestorIds = async (executor: DbExecutor, todoId: number): Promise<number[]> => {
+  const ancestors: number[] = [];
+  let currentId: number | null = todoId;
+
+  while (currentId !== null) {
+    const rows: { parent_id: number | null }[] = await executor.select({ parent_id: todosTable.parent_id })
+      .from(todosTable)
+      .where(eq(todosTable.id, currentId))
+      .execute();
+
+    currentId = rows[0]?.parent_id ?? null;
+    if (currentId !== null) {
+      // Guard against cycles that may already exist in the data
+      if (ancestors.includes(currentId)) {
+        break;
+      }
+      ancestors.push(currentId);
+    }
+  }
+
+  return ancestors;
+};
+
+// Moves every subtask below the todo into its new list, as subtasks always
+// share their top-level todo's list. Returns the ids of the moved subtasks.
+export const moveSubtasksToList = async (
+  executor: DbExecutor,
+  todoId: number,
+  listId: number,
+  actorId: number
+): Promise<number[]> => {
+  const descendantIds = await getDescendantIds(executor, [todoId]);
+  if (descendantIds.length === 0) {
+    return [];
+  }
+
+  const before = await executor.select()
+    .from(todosTable)
+    .where(inArray(todosTable.id, descendantIds))
+    .execute();
+  const moved = await executor.update(todosTable)
+    .set({ list_id: listId, version: sql`${todosTable.version} + 1`, updated_at: new Date() })
+    .where(inArray(todosTable.id, descendantIds))
+    .returning()
+    .execute();
+  await recordTodoEvents(executor, actorId, 'updated', pairWithPrevious(before, moved));
+
+  return descendantIds;
+};
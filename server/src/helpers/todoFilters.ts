@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { todosTable, todoTagsTable } from '../db/schema';
+import { type DueBucket, type TodoFilter } from '../schema';
+import { and, eq, gt, gte, inArray, isNull, lt, lte, or, SQL } from 'drizzle-orm';
+import { addDays, calendarDateIn, calendarDateToUtcMidnight, zonedTimeToUtc } from './dates';
+import { matchingTopLevelTodos, toPrefixQuery } from './search';
+
+// Due bucket membership for timed and all-day due dates. All-day dates are
+// compared by calendar date, timed ones against the caller's current time.
+const dueBucketCondition = (bucket: DueBucket, timeZone: string, now: Date): SQL | undefined => {
+  const today = calendarDateIn(now, timeZone);
+  const todayStart = zonedTimeToUtc(today, timeZone);
+  const tomorrowStart = zonedTimeToUtc(addDays(today, 1), timeZone);
+  const todayDate = calendarDateToUtcMidnight(today);
+  const timed = eq(todosTable.due_all_day, false);
+  const allDay = eq(todosTable.due_all_day, true);
+
+  switch (bucket) {
+    case 'overdue':
+      return and(
+        eq(todosTable.completed, false),
+        or(
+          and(timed, lt(todosTable.due_at, now)),
+          and(allDay, lt(todosTable.due_at, todayDate))
+        )
+      );
+    case 'today':
+      return or(
+        and(
+          timed,
+          gte(todosTable.due_at, todayStart),
+          lt(todosTable.due_at, tomorrowStart),
+          // Pending todos already past due belong to the overdue bucket
+          or(eq(todosTable.completed, true), gte(todosTable.due_at, now))
+        ),
+        and(allDay, eq(todosTable.due_at, todayDate))
+      );
+    case 'upcoming':
+      return or(
+        and(timed, gte(todosTable.due_at, tomorrowStart)),
+        and(allDay, gt(todosTable.due_at, todayDate))
+      );
+  }
+};
+
+// Conditions selecting the owner's live top-level todos that match the
+// filter, shared by listing and bulk operations
+export const buildFilters = (input: TodoFilter, ownerId: number, now: Date): SQL<unknown>[] => {
+  // Subtasks are returned nested under their top-level todo; trashed todos are left out
+  const conditions: SQL<unknown>[] = [
+    eq(todosTable.owner_id, ownerId),
+    isNull(todosTable.parent_id),
+    isNull(todosTable.deleted_at)
+  ];
+
+  if (input.status === 'completed') {
+    conditions.push(eq(todosTable.completed, true));
+  } else if (input.status === 'pending') {
+    conditions.push(eq(todosTable.completed, false));
+  }
+
+  if (input.list_id !== undefined) {
+    conditions.push(eq(todosTable.list_id, input.list_id));
+  }
+
+  if (input.created_from) {
+    conditions.push(gte(todosTable.created_at, input.created_from));
+  }
+
+  if (input.created_to) {
+    conditions.push(lte(todosTable.created_at, input.created_to));
+  }
+
+  if (input.updated_from) {
+    conditions.push(gte(todosTable.updated_at, input.updated_from));
+  }
+
+  if (input.updated_to) {
+    conditions.push(lte(todosTable.updated_at, input.updated_to));
+  }
+
+  if (input.due_bucket) {
+    const condition = dueBucketCondition(input.due_bucket, input.time_zone, now);
+    if (condition) {
+      conditions.push(condition);
+    }
+  }
+
+  const searchQuery = input.search ? toPrefixQuery(input.search) : null;
+  if (searchQuery) {
+    conditions.push(matchingTopLevelTodos(ownerId, searchQuery));
+  }
+
+  // One membership check per tag, so todos must carry all of them
+  for (const tagId of input.tag_ids ?? []) {
+    conditions.push(inArray(
+      todosTable.id,
+      db.select({ id: todoTagsTable.todo_id })
+        .from(todoTagsTable)
+        .where(eq(todoTagsTable.tag_id, tagId))
+    ));
+  }
+
+  return conditions;
+};
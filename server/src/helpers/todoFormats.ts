@@ -0,0 +1,368 @@
+import {
+  importedTodoSchema,
+  importFieldSchema,
+  TODO_EXPORT_VERSION,
+  type ExportedFile,
+  type ExportedTodo,
+  type ImportedTodo,
+  type ImportField,
+  type Todo,
+  type TodoExport,
+  type TodoFileFormat
+} from '../schema';
+import { ValidationError } from '../errors';
+import { parseCsv, toCsv } from './csv';
+import { parseTodoTxt, toTodoTxt } from './todoTxt';
+import { readICalendarTodos, todoIdOfUid, toICalendar, type CalendarOptions } from './icalendar';
+
+// One record read from a file. Records name each other through ref and
+// parentRef: 'id:12' for ids of JSON and CSV files, which may also be ids of
+// the user's todos, 'row:3' for the nesting of Markdown checklists and
+// 'uid:...' for iCalendar UIDs this app did not write.
+// Records that could not be read carry an error instead of a todo.
+export type ParsedRecord = {
+  row: number;
+  ref: string | null;
+  parentRef: string | null;
+  title: string | null;
+  todo: ImportedTodo | null;
+  error: string | null;
+};
+
+const CSV_COLUMNS = [
+  'id', 'title', 'description', 'completed', 'priority', 'list', 'parent_id', 'due_at',
+  'due_all_day', 'due_time_zone', 'recurrence_rule', 'tags', 'created_at', 'updated_at'
+] as const satisfies (keyof ExportedTodo)[];
+
+const TAG_SEPARATOR = ';'; // Between tag names in a CSV field
+
+const CHECKLIST_ITEM = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*?)\s*$/;
+const HEADING = /^#{1,6}\s+(.*?)[\s#]*$/;
+
+const fileTypes: Record<TodoFileFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  todotxt: { extension: 'txt', mimeType: 'text/plain' },
+  ical: { extension: 'ics', mimeType: 'text/calendar' }
+};
+
+// A todo row as it is written to files, its list and tags going by name
+export const exportedTodoOf = (todo: Todo, list: string | null, tags: string[]): ExportedTodo => ({
+  id: todo.id,
+  title: todo.title,
+  description: todo.description,
+  completed: todo.completed,
+  priority: todo.priority,
+  list,
+  parent_id: todo.parent_id,
+  due_at: todo.due_at?.toISOString() ?? null,
+  due_all_day: todo.due_all_day,
+  due_time_zone: todo.due_time_zone,
+  recurrence_rule: todo.recurrence_rule,
+  tags,
+  created_at: todo.created_at.toISOString(),
+  updated_at: todo.updated_at.toISOString()
+});
+
+// How many levels below the top each todo is, by id
+const depthsOf = (todos: ExportedTodo[]): Map<number, number> => {
+  const depths = new Map<number, number>();
+  for (const todo of todos) {
+    const parentDepth = todo.parent_id === null ? undefined : depths.get(todo.parent_id);
+    depths.set(todo.id, parentDepth === undefined ? 0 : parentDepth + 1);
+  }
+  return depths;
+};
+
+const toMarkdown = (todos: ExportedTodo[]): string => {
+  const depths = depthsOf(todos);
+  const lines: string[] = [];
+  let list: string | null | undefined;
+
+  for (const todo of todos) {
+    const depth = depths.get(todo.id) ?? 0;
+    // A heading starts each list; subtasks stay in their parent's list
+    if (depth === 0 && todo.list !== list) {
+      list = todo.list;
+      lines.push(...(lines.length > 0 ? [''] : []), `## ${list ?? 'No list'}`, '');
+    }
+    const title = todo.title.replace(/\s*[\r\n]+\s*/g, ' ');
+    lines.push(`${'  '.repeat(depth)}- [${todo.completed ? 'x' : ' '}] ${title}`);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// Writes the todos, parents ahead of their subtasks, in the given format
+export const serializeTodos = (
+  format: TodoFileFormat,
+  todos: ExportedTodo[],
+  now: Date,
+  calendar: CalendarOptions = { name: 'Todos', events: false }
+): ExportedFile => {
+  let content: string;
+  switch (format) {
+    case 'json': {
+      const file: TodoExport = {
+        format: 'todo-export',
+        version: TODO_EXPORT_VERSION,
+        exported_at: now.toISOString(),
+        todos
+      };
+      content = JSON.stringify(file, null, 2) + '\n';
+      break;
+    }
+    case 'csv':
+      content = toCsv([
+        [...CSV_COLUMNS],
+        ...todos.map(todo => CSV_COLUMNS.map((column) => {
+          const value = todo[column];
+          return Array.isArray(value) ? value.join(`${TAG_SEPARATOR} `) : String(value ?? '');
+        }))
+      ]);
+      break;
+    case 'markdown':
+      content = toMarkdown(todos);
+      break;
+    case 'todotxt':
+      content = toTodoTxt(todos.map(todo => ({
+        ...todo,
+        created_on: todo.created_at.slice(0, 10),
+        // Todos keep no completion time; the last change is the closest
+        completed_on: todo.completed ? todo.updated_at.slice(0, 10) : null
+      })));
+      break;
+    case 'ical':
+      content = toICalendar(todos, calendar);
+      break;
+  }
+
+  const { extension, mimeType } = fileTypes[format];
+  return {
+    filename: `todos-${now.toISOString().slice(0, 10)}.${extension}`,
+    mime_type: mimeType,
+    content
+  };
+};
+
+// Checks a record against the import schema
+const toRecord = (row: number, value: Record<string, unknown>, ref: string | null, parentRef: string | null): ParsedRecord => {
+  const parsed = importedTodoSchema.safeParse(value);
+  const title = typeof value['title'] === 'string' ? value['title'].trim() || null : null;
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const error = issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+    return { row, ref, parentRef, title, todo: null, error };
+  }
+  return { row, ref, parentRef, title, todo: parsed.data, error: null };
+};
+
+const idRef = (value: unknown): string | null =>
+  typeof value === 'number' && Number.isInteger(value) ? `id:${value}` : null;
+
+const parseJsonFile = (content: string): ParsedRecord[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new ValidationError('The file is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null || (file as { format?: unknown }).format !== 'todo-export') {
+    throw new ValidationError('The file is not a todo export');
+  }
+  const { version, todos } = file as { version?: unknown; todos?: unknown };
+  if (version !== TODO_EXPORT_VERSION) {
+    throw new ValidationError(`Todo export version ${String(version)} is not supported`);
+  }
+  if (!Array.isArray(todos)) {
+    throw new ValidationError('The todo export has no list of todos');
+  }
+
+  return todos.map((item: unknown, index: number) => {
+    if (typeof item !== 'object' || item === null) {
+      return { row: index + 1, ref: null, parentRef: null, title: null, todo: null, error: 'Not a todo' };
+    }
+    const value = item as Record<string, unknown>;
+    return toRecord(index + 1, value, idRef(value['id']), idRef(value['parent_id']));
+  });
+};
+
+const BOOLEANS: Record<string, boolean> = { true: true, yes: true, '1': true, x: true, false: false, no: false, '0': false };
+
+// A CSV field as the value of the given field; values that cannot be
+// converted are passed on as they are, for the schema to reject
+const fromCsvField = (field: ImportField, text: string): unknown => {
+  const value = text.trim();
+  switch (field) {
+    case 'id':
+    case 'parent_id':
+      return value === '' ? null : /^-?\d+$/.test(value) ? Number(value) : value;
+    case 'completed':
+    case 'due_all_day':
+      return value === '' ? undefined : BOOLEANS[value.toLowerCase()] ?? value;
+    case 'priority':
+      return value === '' ? undefined : value.toLowerCase();
+    case 'tags':
+      return value.split(TAG_SEPARATOR).map(tag => tag.trim()).filter(tag => tag !== '');
+    case 'title':
+      return value;
+    default:
+      return value === '' ? null : value;
+  }
+};
+
+const parseCsvFile = (content: string, columns: Record<string, ImportField | null> = {}): ParsedRecord[] => {
+  let rows;
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'The file is not valid CSV');
+  }
+  if (rows.length === 0) {
+    return [];
+  }
+
+  // Mapped headers first, then headers named like a field
+  const [header, ...records] = rows;
+  const fields = header.fields.map((name): ImportField | null => {
+    if (name in columns) {
+      return columns[name];
+    }
+    const normalized = importFieldSchema.safeParse(name.trim().toLowerCase().replace(/\s+/g, '_'));
+    return normalized.success ? normalized.data : null;
+  });
+  if (!fields.includes('title')) {
+    throw new ValidationError('No column holds the title; map one of the columns to it');
+  }
+
+  return records.map(({ line, fields: values }) => {
+    const value: Record<string, unknown> = {};
+    fields.forEach((field, index) => {
+      if (field !== null && index < values.length) {
+        value[field] = fromCsvField(field, values[index]);
+      }
+    });
+    return toRecord(line, value, idRef(value['id']), idRef(value['parent_id']));
+  });
+};
+
+// Checklist items become todos, nested by indentation; headings name the
+// list of the items below them. Other lines are ignored.
+const parseMarkdownFile = (content: string): ParsedRecord[] => {
+  const records: ParsedRecord[] = [];
+  const open: { indent: number; ref: string }[] = []; // Items the next one may be nested in
+  let list: string | null = null;
+
+  content.split(/\r?\n/).forEach((line: string, index: number) => {
+    const row = index + 1;
+    const heading = HEADING.exec(line);
+    if (heading) {
+      list = heading[1] || null;
+      open.length = 0;
+      return;
+    }
+
+    const item = CHECKLIST_ITEM.exec(line);
+    if (!item) {
+      return;
+    }
+
+    const indent = item[1].replace(/\t/g, '    ').length;
+    while (open.length > 0 && open[open.length - 1].indent >= indent) {
+      open.pop();
+    }
+    const parentRef = open[open.length - 1]?.ref ?? null;
+    const ref = `row:${row}`;
+    open.push({ indent, ref });
+
+    records.push(toRecord(row, {
+      title: item[3],
+      completed: item[2] !== ' ',
+      // Subtasks follow their parent's list
+      ...(parentRef === null && list !== null ? { list } : {})
+    }, ref, parentRef));
+  });
+
+  return records;
+};
+
+// A todo.txt line holds every field but the list, so fields it leaves out
+// are cleared when it updates a todo
+const parseTodoTxtFile = (content: string): ParsedRecord[] =>
+  parseTodoTxt(content).map(({ line, task }) => toRecord(line, {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    completed: task.completed,
+    priority: task.priority,
+    ...(task.list !== null ? { list: task.list } : {}),
+    parent_id: task.parent_id,
+    due_at: task.due_at,
+    ...(task.due_at !== null ? { due_all_day: task.due_all_day } : {}),
+    due_time_zone: task.due_time_zone,
+    recurrence_rule: task.recurrence_rule,
+    tags: task.tags
+  }, idRef(task.id), idRef(task.parent_id)));
+
+const uidRef = (uid: string | null): string | null => {
+  if (uid === null) {
+    return null;
+  }
+  const id = todoIdOfUid(uid);
+  return id !== null ? `id:${id}` : `uid:${uid}`;
+};
+
+// A VTODO holds every field but the list, so as with todo.txt, fields it
+// leaves out are cleared when it updates a todo. All-day dates carry no time
+// zone in iCalendar, so theirs is kept.
+const parseICalendarFile = (content: string): ParsedRecord[] => {
+  let todos;
+  try {
+    todos = readICalendarTodos(content);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'The file is not valid iCalendar');
+  }
+
+  return todos.map((todo) => {
+    const ref = uidRef(todo.uid);
+    const parentRef = uidRef(todo.parent_uid);
+    if (todo.cancelled) {
+      return { row: todo.line, ref, parentRef, title: todo.title.trim() || null, todo: null, error: 'Cancelled' };
+    }
+    return toRecord(todo.line, {
+      id: todo.uid !== null ? todoIdOfUid(todo.uid) : null,
+      title: todo.title,
+      description: todo.description,
+      completed: todo.completed,
+      priority: todo.priority,
+      due_at: todo.due_at,
+      ...(todo.due_at !== null ? { due_all_day: todo.due_all_day } : {}),
+      ...(!todo.due_all_day ? { due_time_zone: todo.due_time_zone } : {}),
+      recurrence_rule: todo.recurrence_rule,
+      tags: todo.tags
+    }, ref, parentRef);
+  });
+};
+
+// Reads the records of a file. Throws a ValidationError when the file as a
+// whole cannot be read; problems with single records are reported on them.
+export const parseTodoFile = (
+  format: TodoFileFormat,
+  content: string,
+  csvColumns?: Record<string, ImportField | null>
+): ParsedRecord[] => {
+  switch (format) {
+    case 'json':
+      return parseJsonFile(content);
+    case 'csv':
+      return parseCsvFile(content, csvColumns);
+    case 'markdown':
+      return parseMarkdownFile(content);
+    case 'todotxt':
+      return parseTodoTxtFile(content);
+    case 'ical':
+      return parseICalendarFile(content);
+  }
+};
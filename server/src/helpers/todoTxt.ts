@@ -0,0 +1,231 @@
+import { type ExportedTodo, type TodoPriority } from '../schema';
+
+// Reading and writing the todo.txt format (https://github.com/todotxt/todo.txt),
+// one task per line:
+//
+//   x 2026-10-18 2026-10-01 Call the bank +Errands @phone due:2026-10-20 pri:B
+//   (A) 2026-10-02 Send invoice +Work due:2026-10-21T09:30Z
+//
+// Completed tasks start with "x" and their completion date; open tasks with
+// their priority. Then come the creation date, the title, the list as a
+// +project and the tags as @contexts. Everything else goes in key:value
+// extensions: due, tz, rrule, pri, id, parent, note (the description) and
+// title, the exact title when it spans several lines.
+//
+// Words are separated by single spaces. Title words that would read as
+// something else get a leading backslash, and list names, tags and extension
+// values have whitespace and '%' percent-encoded, so every task reads back
+// exactly as it was written.
+
+// A task as a line holds it. created_on is only written for completed tasks
+// along with completed_on, and completed_on only for completed tasks, as the
+// format has no place for them otherwise.
+export type TodoTxtTask = Omit<ExportedTodo, 'id' | 'created_at' | 'updated_at'> & {
+  id: number | null;
+  created_on: string | null; // YYYY-MM-DD
+  completed_on: string | null;
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DUE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+const PRIORITY = /^\(([A-Z])\)$/;
+const EXTENSION = /^(due|tz|rrule|pri|id|parent|note|title):(.*)$/;
+const LINE_BREAK = /\r\n|\r|\n/;
+
+const priorityLetters: Record<TodoPriority, string | null> = {
+  urgent: 'A',
+  high: 'B',
+  medium: 'C',
+  low: 'D',
+  none: null
+};
+
+// Letters past D mean little to this app, so they all count as low
+const priorityOfLetter = (letter: string): TodoPriority =>
+  (Object.keys(priorityLetters) as TodoPriority[]).find(priority => priorityLetters[priority] === letter) ?? 'low';
+
+const encodeValue = (value: string): string => value.replace(/[%\s]/g, char => encodeURIComponent(char));
+
+// Hand-written values may hold a '%' that starts no escape; those stay as they are
+const decodeValue = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Title words the parser would otherwise take for something else. The first
+// word could also pass for the completion mark, a priority or a date.
+const needsEscape = (word: string, isFirst: boolean): boolean =>
+  word.startsWith('\\') ||
+  /^[+@]./.test(word) ||
+  EXTENSION.test(word) ||
+  (isFirst && (word === 'x' || PRIORITY.test(word) || DATE.test(word)));
+
+// Due dates: a date for all-day ones, otherwise the instant in UTC with
+// zero seconds and milliseconds left out
+const formatDue = (dueAt: string, allDay: boolean): string =>
+  allDay ? dueAt.slice(0, 10) : dueAt.replace(/:00\.000Z$/, 'Z').replace(/\.000Z$/, 'Z');
+
+export const formatTodoTxtLine = (task: TodoTxtTask): string => {
+  const words: string[] = [];
+  const letter = priorityLetters[task.priority];
+
+  if (task.completed) {
+    words.push('x');
+    if (task.completed_on !== null) {
+      words.push(task.completed_on, ...(task.created_on !== null ? [task.created_on] : []));
+    }
+  } else {
+    words.push(...(letter !== null ? [`(${letter})`] : []), ...(task.created_on !== null ? [task.created_on] : []));
+  }
+
+  // Line breaks cannot be written in place, so such titles also go in full
+  // into an extension that wins over the words
+  const isMultiline = LINE_BREAK.test(task.title);
+  const titleWords = (isMultiline ? task.title.replace(new RegExp(LINE_BREAK, 'g'), ' ') : task.title).split(' ');
+  words.push(...titleWords.map((word, index) => needsEscape(word, index === 0) ? `\\${word}` : word));
+
+  if (task.list !== null) {
+    words.push(`+${encodeValue(task.list)}`);
+  }
+  words.push(...task.tags.map(tag => `@${encodeValue(tag)}`));
+
+  const extensions: [string, string | null][] = [
+    ['due', task.due_at !== null ? formatDue(task.due_at, task.due_all_day) : null],
+    ['tz', task.due_time_zone],
+    ['rrule', task.recurrence_rule],
+    ['pri', task.completed ? letter : null], // Completed lines start with x instead
+    ['id', task.id !== null ? String(task.id) : null],
+    ['parent', task.parent_id !== null ? String(task.parent_id) : null],
+    ['note', task.description],
+    ['title', isMultiline ? task.title : null]
+  ];
+  for (const [key, value] of extensions) {
+    if (value !== null) {
+      words.push(`${key}:${encodeValue(value)}`);
+    }
+  }
+
+  return words.join(' ');
+};
+
+// Reads a line as a task. Extensions with values that do not fit, such as
+// due:tomorrow, stay in the title.
+export const parseTodoTxtLine = (line: string): TodoTxtTask => {
+  const words = line.split(' ');
+  const task: TodoTxtTask = {
+    title: '',
+    description: null,
+    completed: false,
+    priority: 'none',
+    list: null,
+    parent_id: null,
+    due_at: null,
+    due_all_day: false,
+    due_time_zone: null,
+    recurrence_rule: null,
+    tags: [],
+    id: null,
+    created_on: null,
+    completed_on: null
+  };
+
+  let index = 0;
+  if (words[0] === 'x') {
+    task.completed = true;
+    index = 1;
+    if (DATE.test(words[index] ?? '')) {
+      task.completed_on = words[index++];
+      if (DATE.test(words[index] ?? '')) {
+        task.created_on = words[index++];
+      }
+    }
+  } else {
+    const priority = PRIORITY.exec(words[0]);
+    if (priority) {
+      task.priority = priorityOfLetter(priority[1]);
+      index = 1;
+    }
+    if (DATE.test(words[index] ?? '')) {
+      task.created_on = words[index++];
+    }
+  }
+
+  const titleWords: string[] = [];
+  let exactTitle: string | null = null;
+
+  // Applies an extension, returning false when its value does not fit
+  const applyExtension = (key: string, value: string): boolean => {
+    switch (key) {
+      case 'due':
+        if (DATE.test(value) && !isNaN(Date.parse(value))) {
+          task.due_at = new Date(`${value}T00:00:00Z`).toISOString();
+          task.due_all_day = true;
+        } else if (DUE_TIME.test(value) && !isNaN(Date.parse(value))) {
+          task.due_at = new Date(value).toISOString();
+          task.due_all_day = false;
+        } else {
+          return false;
+        }
+        return true;
+      case 'pri':
+        if (!/^[A-Z]$/.test(value)) return false;
+        task.priority = priorityOfLetter(value);
+        return true;
+      case 'id':
+      case 'parent': {
+        if (!/^\d+$/.test(value)) return false;
+        task[key === 'id' ? 'id' : 'parent_id'] = Number(value);
+        return true;
+      }
+      case 'tz':
+        task.due_time_zone = decodeValue(value);
+        return true;
+      case 'rrule':
+        task.recurrence_rule = decodeValue(value);
+        return true;
+      case 'note':
+        task.description = decodeValue(value);
+        return true;
+      case 'title':
+        exactTitle = decodeValue(value);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  for (const word of words.slice(index)) {
+    if (word.startsWith('\\')) {
+      titleWords.push(word.slice(1));
+      continue;
+    }
+    if (/^\+./.test(word) && task.list === null) {
+      task.list = decodeValue(word.slice(1));
+      continue;
+    }
+    if (/^@./.test(word)) {
+      task.tags.push(decodeValue(word.slice(1)));
+      continue;
+    }
+    const extension = EXTENSION.exec(word);
+    if (extension && applyExtension(extension[1], extension[2])) {
+      continue;
+    }
+    titleWords.push(word);
+  }
+
+  task.title = exactTitle ?? titleWords.join(' ');
+  return task;
+};
+
+export const toTodoTxt = (tasks: TodoTxtTask[]): string =>
+  tasks.map(formatTodoTxtLine).join('\n') + (tasks.length > 0 ? '\n' : '');
+
+// Tasks of a todo.txt file with the line each is on, blank lines left out
+export const parseTodoTxt = (text: string): { line: number; task: TodoTxtTask }[] =>
+  text.replace(/^\uFEFF/, '') // Byte order mark
+    .split(LINE_BREAK)
+    .flatMap((line, index) => line.trim() === '' ? [] : [{ line: index + 1, task: parseTodoTxtLine(line) }]);
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { lt } from 'drizzle-orm';
+import { recordTodoEvents } from './history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
+// Permanently deletes todos that have been in the trash longer than the
+// retention period, for every user. Returns how many were deleted.
+export const purgeTrash = async (retentionDays: number, now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  return await db.transaction(async (tx) => {
+    // Subtasks trashed with their parent share its deletion time, so they go
+    // in the same statement
+    const deleted = await tx.delete(todosTable)
+      .where(lt(todosTable.deleted_at, cutoff))
+      .returning()
+      .execute();
+    await recordTodoEvents(tx, null, 'purged', deleted.map(todo => ({ before: todo, after: null })));
+    return deleted.length;
+  });
+};
+
+// Purges the trash now and then periodically until the returned function is called
+export const scheduleTrashPurge = (retentionDays: number, intervalMs = PURGE_INTERVAL_MS): () => void => {
+  const run = () => {
+    purgeTrash(retentionDays)
+      .then((deleted) => {
+        if (deleted > 0) {
+          console.log(`Purged ${deleted} todos from the trash`);
+        }
+      })
+      .catch((error) => console.error('Trash purge failed:', error));
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,355 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable, type NewWebhookDelivery, type WebhookDelivery } from '../db/schema';
+import { type Todo, type TodoFieldChange, type TodoOperation, type WebhookEvent } from '../schema';
+import { type DbExecutor } from './lists';
+
+// Writes to todos queue a delivery for every webhook subscribed to the event,
+// in the transaction that makes the write, so rolled back writes send
+// nothing. A background job POSTs due deliveries as JSON with these headers:
+//
+//   X-Webhook-Id         The delivery's id; retries of a delivery reuse it
+//   X-Webhook-Event      e.g. 'todo.completed'
+//   X-Webhook-Timestamp  Unix seconds when the attempt was made
+//   X-Webhook-Signature  'v1=' and the hex HMAC-SHA256 of '<timestamp>.<body>'
+//                        keyed with the webhook's secret
+//
+// Receivers check the signature and reject stale timestamps to stop replays.
+// Any 2xx response counts as delivered. Failures are retried with exponential
+// backoff; after the last attempt the delivery is dead and kept for inspection.
+//
+// Webhook URLs are chosen by users, so each attempt resolves the host itself,
+// refuses the delivery if any address is loopback, private, link-local or
+// otherwise not publicly routable, and connects to the address it checked;
+// otherwise the server could be pointed at internal services. WEBHOOKS_ALLOW_PRIVATE_ADDRESSES=true lifts
+// this for tests and local development. Failed attempts keep only the status
+// code, never the response body, so nothing fetched is shown back to users.
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000; // Doubled after each failure, so the last retry comes about an hour later
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// How long a claimed delivery is hidden from other workers. Longer than an
+// attempt can take; if the worker dies, the delivery is retried after it.
+const CLAIM_MS = 60 * 1000;
+const BATCH_SIZE = 50; // Deliveries sent at once
+const DELIVERY_INTERVAL_MS = 5 * 1000;
+const INSERT_BATCH_SIZE = 1000; // Keeps large bulk writes under Postgres' bind parameter limit
+
+// Columns of a webhook that clients may see; the secret is only shown once
+export const webhookColumns = {
+  id: webhooksTable.id,
+  url: webhooksTable.url,
+  events: webhooksTable.events,
+  enabled: webhooksTable.enabled,
+  created_at: webhooksTable.created_at
+};
+
+export const createWebhookSecret = (): string => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// The X-Webhook-Signature value for a body sent at the given Unix time
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// How long to wait before retrying after the given number of failed attempts
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// A recorded write to a todo: the todo as it is afterwards (before, when it
+// was purged) and its changed fields as history records them
+export type WebhookTodoEntry = {
+  todo: Todo;
+  changes: Record<string, TodoFieldChange>;
+};
+
+const eventsOf = (operation: TodoOperation, changes: Record<string, TodoFieldChange>): WebhookEvent[] => {
+  const events: WebhookEvent[] = [`todo.${operation}`];
+  if (operation === 'updated' && changes['completed']?.after === true) {
+    events.push('todo.completed');
+  }
+  return events;
+};
+
+// Queues deliveries of the writes to the owners' enabled webhooks. Call it
+// with the transaction that makes the writes.
+export const enqueueWebhookDeliveries = async (
+  executor: DbExecutor,
+  operation: TodoOperation,
+  entries: WebhookTodoEntry[]
+): Promise<void> => {
+  const ownerIds = [...new Set(entries.map(entry => entry.todo.owner_id))];
+  if (ownerIds.length === 0) {
+    return;
+  }
+
+  const webhooks = await executor.select({ id: webhooksTable.id, owner_id: webhooksTable.owner_id, events: webhooksTable.events })
+    .from(webhooksTable)
+    .where(and(inArray(webhooksTable.owner_id, ownerIds), eq(webhooksTable.enabled, true)))
+    .execute();
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const occurredAt = new Date().toISOString();
+  const rows: NewWebhookDelivery[] = entries.flatMap(({ todo, changes }) =>
+    eventsOf(operation, changes).flatMap(event => webhooks
+      .filter(webhook => webhook.owner_id === todo.owner_id && webhook.events.includes(event))
+      .map(webhook => ({
+        webhook_id: webhook.id,
+        event,
+        // Round tripped through JSON so dates are stored as the ISO strings receivers get
+        payload: JSON.parse(JSON.stringify({ event, occurred_at: occurredAt, todo, changes })) as Record<string, unknown>
+      }))));
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    await executor.insert(webhookDeliveriesTable)
+      .values(rows.slice(start, start + INSERT_BATCH_SIZE))
+      .execute();
+  }
+};
+
+// Takes due deliveries of enabled webhooks for this worker. Rows other
+// workers are claiming are skipped rather than waited for.
+const claimDueDeliveries = async (now: Date): Promise<WebhookDelivery[]> => {
+  return await db.transaction(async (tx) => {
+    const due = await tx.select({ id: webhookDeliveriesTable.id })
+      .from(webhookDeliveriesTable)
+      .innerJoin(webhooksTable, eq(webhookDeliveriesTable.webhook_id, webhooksTable.id))
+      .where(and(
+        eq(webhookDeliveriesTable.status, 'pending'),
+        lte(webhookDeliveriesTable.next_attempt_at, now),
+        eq(webhooksTable.enabled, true)
+      ))
+      .orderBy(asc(webhookDeliveriesTable.id))
+      .limit(BATCH_SIZE)
+      .for('update', { of: webhookDeliveriesTable, skipLocked: true })
+      .execute();
+    if (due.length === 0) {
+      return [];
+    }
+
+    return await tx.update(webhookDeliveriesTable)
+      .set({ next_attempt_at: new Date(now.getTime() + CLAIM_MS) })
+      .where(inArray(webhookDeliveriesTable.id, due.map(row => row.id)))
+      .returning()
+      .execute();
+  });
+};
+
+const ipv4ToNumber = (address: string): number =>
+  address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+// IPv4 ranges that are not publicly routable, as [network, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4] // Reserved and broadcast
+];
+
+const isPrivateIpv4 = (address: string): boolean => {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size);
+  });
+};
+
+// The 16 bytes of a valid IPv6 address, which may end in dotted IPv4 form
+const ipv6Bytes = (address: string): number[] => {
+  let text = address.toLowerCase().replace(/%.*$/, ''); // Without a zone id
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const groupsOf = (part: string | undefined): number[] => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const [head, tail] = text.split('::');
+  const before = groupsOf(head);
+  const after = groupsOf(tail);
+  const groups = [...before, ...new Array<number>(8 - before.length - after.length).fill(0), ...after];
+  return groups.flatMap(group => [Math.floor(group / 256), group % 256]);
+};
+
+const hasPrefix = (bytes: number[], prefix: number[]): boolean => prefix.every((byte, index) => bytes[index] === byte);
+
+const ipv4Of = (bytes: number[]): string => bytes.join('.');
+
+// Whether an IP address is loopback, private, link-local or otherwise not
+// publicly routable. IPv6 forms that carry an IPv4 address (mapped,
+// compatible, NAT64 and 6to4) are judged by that address; anything that is
+// not an IP address counts as private.
+export const isPrivateAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 4) {
+    return isPrivateIpv4(address);
+  }
+  if (version !== 6) {
+    return true;
+  }
+
+  const bytes = ipv6Bytes(address);
+  const zeros = (length: number): number[] => new Array<number>(length).fill(0);
+  if (hasPrefix(bytes, [...zeros(10), 0xff, 0xff]) || hasPrefix(bytes, zeros(12))) {
+    return isPrivateIpv4(ipv4Of(bytes.slice(12))); // Mapped and compatible, including :: and ::1
+  }
+  if (hasPrefix(bytes, [0x00, 0x64, 0xff, 0x9b, ...zeros(8)])) {
+    return isPrivateIpv4(ipv4Of(bytes.slice(12))); // NAT64, 64:ff9b::/96
+  }
+  if (hasPrefix(bytes, [0x20, 0x02])) {
+    return isPrivateIpv4(ipv4Of(bytes.slice(2, 6))); // 6to4, 2002::/16
+  }
+  return hasPrefix(bytes, [0x00, 0x64, 0xff, 0x9b, 0x00, 0x01]) || // Local-use NAT64, 64:ff9b:1::/48
+    hasPrefix(bytes, [0x01, 0x00, ...zeros(6)]) || // Discard, 100::/64
+    hasPrefix(bytes, [0x20, 0x01, 0x00, 0x00]) || // Teredo, 2001::/32
+    hasPrefix(bytes, [0x20, 0x01, 0x0d, 0xb8]) || // Documentation, 2001:db8::/32
+    (bytes[0] & 0xfe) === 0xfc || // Unique local, fc00::/7
+    (bytes[0] === 0xfe && (bytes[1] & 0x80) === 0x80) || // Link-local and site-local, fe80::/9
+    bytes[0] === 0xff; // Multicast
+};
+
+const allowsPrivateAddresses = (): boolean => process.env['WEBHOOKS_ALLOW_PRIVATE_ADDRESSES'] === 'true';
+
+const PRIVATE_ADDRESS_ERROR = 'URL resolves to a private or reserved address';
+
+// Resolves a host for a connection and fails unless every address it has is
+// public, so a name cannot hide a private address behind a public one. The
+// connection is made to the address checked here; resolving the name again
+// could give another answer.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, family: options.family, hints: options.hints })
+    .then((addresses) => {
+      if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+        callback(new Error(PRIVATE_ADDRESS_ERROR), '');
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    }, (error: NodeJS.ErrnoException) => callback(error, ''));
+};
+
+// POSTs the body and resolves with the response status, leaving the response
+// body unread. Redirects are not followed: a redirect is a failure, and the
+// webhook's URL should be fixed instead.
+const post = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    const checked = !allowsPrivateAddresses();
+    // Literal addresses are connected to without a lookup
+    if (checked && isIP(host) !== 0 && isPrivateAddress(host)) {
+      reject(new Error(PRIVATE_ADDRESS_ERROR));
+      return;
+    }
+
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = send(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      ...(checked ? { lookup: publicLookup } : {})
+    }, (res) => {
+      clearTimeout(timer);
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    const timer = setTimeout(() => req.destroy(new Error('The request timed out')), REQUEST_TIMEOUT_MS);
+    req.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    req.end(body);
+  });
+
+type AttemptResult = { response_status: number | null; error: string | null };
+
+const attemptDelivery = async (delivery: WebhookDelivery, url: string, secret: string, now: Date): Promise<AttemptResult> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  try {
+    const status = await post(url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Todos-Webhooks/1.0',
+      'X-Webhook-Id': String(delivery.id),
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body)
+    }, body);
+    return status >= 200 && status < 300
+      ? { response_status: status, error: null }
+      : { response_status: status, error: `HTTP ${status}` };
+  } catch (error) {
+    return { response_status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Attempts a batch of due deliveries once each and records the outcomes.
+// Returns how many were attempted.
+export const deliverWebhooks = async (now: Date = new Date()): Promise<number> => {
+  const deliveries = await claimDueDeliveries(now);
+  if (deliveries.length === 0) {
+    return 0;
+  }
+
+  const webhooks = await db.select({ id: webhooksTable.id, url: webhooksTable.url, secret: webhooksTable.secret })
+    .from(webhooksTable)
+    .where(inArray(webhooksTable.id, [...new Set(deliveries.map(delivery => delivery.webhook_id))]))
+    .execute();
+  const webhooksById = new Map(webhooks.map(webhook => [webhook.id, webhook]));
+
+  await Promise.all(deliveries.map(async (delivery) => {
+    const webhook = webhooksById.get(delivery.webhook_id);
+    if (!webhook) {
+      return; // Deleted since it was claimed, along with the delivery
+    }
+
+    const result = await attemptDelivery(delivery, webhook.url, webhook.secret, now);
+    const attempts = delivery.attempts + 1;
+    const outcome = result.error === null
+      ? { status: 'delivered' as const, delivered_at: new Date() }
+      : attempts >= MAX_ATTEMPTS
+        ? { status: 'dead' as const }
+        : { next_attempt_at: new Date(now.getTime() + retryDelayMs(attempts)) };
+
+    await db.update(webhookDeliveriesTable)
+      .set({ attempts, last_attempt_at: now, response_status: result.response_status, last_error: result.error, ...outcome })
+      .where(eq(webhookDeliveriesTable.id, delivery.id))
+      .execute();
+  }));
+
+  return deliveries.length;
+};
+
+// Sends due deliveries now and then periodically until the returned function
+// is called. A run still sending when the next is due makes it skip.
+export const scheduleWebhookDeliveries = (intervalMs = DELIVERY_INTERVAL_MS): () => void => {
+  let running = false;
+  const run = () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    deliverWebhooks()
+      .catch((error) => console.error('Webhook delivery failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+};
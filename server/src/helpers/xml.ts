@@ -0,0 +1,143 @@
+// A small namespace-aware XML reader, enough for WebDAV request bodies.
+// DOCTYPEs, comments and processing instructions are skipped; entities other
+// than the predefined ones and character references are not supported.
+
+export type XmlElement = {
+  namespace: string; // '' when the element is in no namespace
+  name: string; // Without the prefix
+  attributes: Map<string, string>; // By name without the prefix; namespace declarations left out
+  children: XmlElement[];
+  text: string; // Text directly inside the element, entities decoded
+};
+
+const TAG = /<(\/?)([A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] !== '#') {
+      return ENTITIES[entity];
+    }
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+
+export const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, char => `&${Object.keys(ENTITIES).find(entity => ENTITIES[entity] === char)};`);
+
+const localName = (qualifiedName: string): [string, string] => {
+  const colon = qualifiedName.indexOf(':');
+  return colon === -1 ? ['', qualifiedName] : [qualifiedName.slice(0, colon), qualifiedName.slice(colon + 1)];
+};
+
+// Reads the root element of a document. Throws when it is not well-formed.
+export const parseXml = (text: string): XmlElement => {
+  const open: { element: XmlElement; qualifiedName: string; namespaces: Map<string, string> }[] = [];
+  let root: XmlElement | null = null;
+  let index = 0;
+
+  const skipPast = (start: number, end: string): number => {
+    const found = text.indexOf(end, start);
+    if (found === -1) {
+      throw new Error(`Unterminated markup at offset ${start}`);
+    }
+    return found + end.length;
+  };
+
+  while (index < text.length) {
+    const tagStart = text.indexOf('<', index);
+    const chunk = text.slice(index, tagStart === -1 ? text.length : tagStart);
+    if (open.length > 0) {
+      open[open.length - 1].element.text += decodeEntities(chunk);
+    } else if (chunk.replace(/^\uFEFF/, '').trim() !== '') {
+      throw new Error('Text outside of the root element');
+    }
+    if (tagStart === -1) {
+      break;
+    }
+
+    if (text.startsWith('<?', tagStart)) {
+      index = skipPast(tagStart, '?>');
+      continue;
+    }
+    if (text.startsWith('<!--', tagStart)) {
+      index = skipPast(tagStart, '-->');
+      continue;
+    }
+    if (text.startsWith('<![CDATA[', tagStart)) {
+      index = skipPast(tagStart, ']]>');
+      if (open.length === 0) {
+        throw new Error('Text outside of the root element');
+      }
+      open[open.length - 1].element.text += text.slice(tagStart + 9, index - 3);
+      continue;
+    }
+    if (text.startsWith('<!', tagStart)) {
+      index = skipPast(tagStart, '>');
+      continue;
+    }
+
+    TAG.lastIndex = tagStart;
+    const tag = TAG.exec(text);
+    if (!tag) {
+      throw new Error(`Malformed tag at offset ${tagStart}`);
+    }
+    index = TAG.lastIndex;
+    const [, closing, qualifiedName, attributeText, selfClosing] = tag;
+
+    if (closing) {
+      const closed = open.pop();
+      if (!closed || closed.qualifiedName !== qualifiedName) {
+        throw new Error(`Unexpected </${qualifiedName}> at offset ${tagStart}`);
+      }
+      continue;
+    }
+
+    const parent = open[open.length - 1];
+    const namespaces = new Map(parent?.namespaces ?? []);
+    const rawAttributes: [string, string][] = [];
+    for (const attribute of attributeText.matchAll(ATTRIBUTE)) {
+      const value = decodeEntities(attribute[2] ?? attribute[3]);
+      if (attribute[1] === 'xmlns') {
+        namespaces.set('', value);
+      } else if (attribute[1].startsWith('xmlns:')) {
+        namespaces.set(attribute[1].slice(6), value);
+      } else {
+        rawAttributes.push([localName(attribute[1])[1], value]);
+      }
+    }
+
+    const [prefix, name] = localName(qualifiedName);
+    const namespace = namespaces.get(prefix);
+    if (namespace === undefined && prefix !== '') {
+      throw new Error(`Unknown namespace prefix "${prefix}" at offset ${tagStart}`);
+    }
+
+    const element: XmlElement = { namespace: namespace ?? '', name, attributes: new Map(rawAttributes), children: [], text: '' };
+    if (parent) {
+      parent.element.children.push(element);
+    } else if (root) {
+      throw new Error('The document has more than one root element');
+    } else {
+      root = element;
+    }
+    if (!selfClosing) {
+      open.push({ element, qualifiedName, namespaces });
+    }
+  }
+
+  if (open.length > 0) {
+    throw new Error(`<${open[open.length - 1].qualifiedName}> is never closed`);
+  }
+  if (!root) {
+    throw new Error('The document has no root element');
+  }
+  return root;
+};
+
+export const childElements = (element: XmlElement, namespace: string, name: string): XmlElement[] =>
+  element.children.filter(child => child.namespace === namespace && child.name === name);
+
+export const childElement = (element: XmlElement, namespace: string, name: string): XmlElement | undefined =>
+  childElements(element, namespace, name)[0];
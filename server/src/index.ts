@@ -1,63 +1,67 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { type ServerResponse } from 'http';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import { appRouter, createContext } from './router';
+import { readCalendarFeed } from './handlers/read_calendar_feed';
+import { calendarFeedToken } from './helpers/calendarFeeds';
+import { handleCalDAV, isCalDAVRequest } from './caldav';
+import { handleRest, isRestRequest } from './rest';
+import { listenForTodoChanges } from './helpers/events';
+import { scheduleTrashPurge } from './helpers/trash';
+import { scheduleRankRebalance } from './helpers/positions';
+import { scheduleWebhookDeliveries } from './helpers/webhooks';
 
-// Import schemas
-import { 
-  createTodoInputSchema, 
-  updateTodoInputSchema, 
-  deleteTodoInputSchema 
-} from './schema';
+export type { AppRouter } from './router';
 
-// Import handlers
-import { createTodo } from './handlers/create_todo';
-import { getTodos } from './handlers/get_todos';
-import { updateTodo } from './handlers/update_todo';
-import { deleteTodo } from './handlers/delete_todo';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
-  healthcheck: publicProcedure.query(() => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
-  }),
-  
-  // Todo CRUD operations
-  createTodo: publicProcedure
-    .input(createTodoInputSchema)
-    .mutation(({ input }) => createTodo(input)),
-    
-  getTodos: publicProcedure
-    .query(() => getTodos()),
-    
-  updateTodo: publicProcedure
-    .input(updateTodoInputSchema)
-    .mutation(({ input }) => updateTodo(input)),
-    
-  deleteTodo: publicProcedure
-    .input(deleteTodoInputSchema)
-    .mutation(({ input }) => deleteTodo(input)),
-});
-
-export type AppRouter = typeof appRouter;
+// Answers a request for a calendar feed with its iCalendar file
+const serveCalendarFeed = async (token: string, method: string, res: ServerResponse): Promise<void> => {
+  try {
+    const file = await readCalendarFeed(token);
+    if (!file) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Calendar feed not found');
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': `${file.mime_type}; charset=utf-8`,
+      'Content-Disposition': `inline; filename="${file.filename}"`,
+      'Cache-Control': 'private, no-cache'
+    });
+    res.end(method === 'HEAD' ? undefined : file.content);
+  } catch {
+    res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Calendar feed unavailable');
+  }
+};
 
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
+  await listenForTodoChanges();
+  // Trashed todos are deleted for good after this many days
+  scheduleTrashPurge(Number(process.env['TRASH_RETENTION_DAYS'] || 30));
+  scheduleRankRebalance();
+  scheduleWebhookDeliveries();
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      // CalDAV answers its own OPTIONS requests, which cors would end early
+      if (isCalDAVRequest(req.url)) {
+        handleCalDAV(req, res);
+        return;
+      }
+      cors()(req, res, () => {
+        const feedToken = req.method === 'GET' || req.method === 'HEAD' ? calendarFeedToken(req.url) : null;
+        if (feedToken !== null) {
+          serveCalendarFeed(feedToken, req.method!, res);
+        } else if (isRestRequest(req.url)) {
+          handleRest(req, res);
+        } else {
+          next();
+        }
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
@@ -0,0 +1,568 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { getTRPCErrorFromUnknown } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { z, ZodError, type ZodTypeAny } from 'zod';
+import {
+  apiTokenSchema,
+  authSessionSchema,
+  bulkDeleteTodosInputSchema,
+  bulkResultSchema,
+  bulkUpdateTodosInputSchema,
+  calendarFeedSchema,
+  createApiTokenInputSchema,
+  createCalendarFeedInputSchema,
+  createdApiTokenSchema,
+  createdCalendarFeedSchema,
+  createListInputSchema,
+  createTagInputSchema,
+  createTodoInputSchema,
+  createdWebhookSchema,
+  createWebhookInputSchema,
+  deleteListInputSchema,
+  deleteTagInputSchema,
+  deleteTodoInputSchema,
+  deleteWebhookInputSchema,
+  exportedFileSchema,
+  exportTodosInputSchema,
+  getActivityFeedInputSchema,
+  getTodoHistoryInputSchema,
+  getTodoInputSchema,
+  getTodosInputSchema,
+  getWebhookDeliveriesInputSchema,
+  importResultSchema,
+  importTodosInputSchema,
+  listSchema,
+  listSummarySchema,
+  logInInputSchema,
+  moveTodoInputSchema,
+  restoreTodoInputSchema,
+  revokeApiTokenInputSchema,
+  retryWebhookDeliveryInputSchema,
+  searchResultSchema,
+  searchTodosInputSchema,
+  signUpInputSchema,
+  tagSchema,
+  todoEventPageSchema,
+  todoEventSchema,
+  todoListItemSchema,
+  todoPageSchema,
+  todoSchema,
+  todoTagInputSchema,
+  todoWithTagsSchema,
+  updateCalendarFeedInputSchema,
+  updateListInputSchema,
+  updateTagInputSchema,
+  updateTodoInputSchema,
+  updateWebhookInputSchema,
+  userSchema,
+  webhookDeliveryPageSchema,
+  webhookDeliverySchema,
+  webhookSchema
+} from './schema';
+import { contextOf, createCaller } from './router';
+import { bearerToken } from './helpers/auth';
+import { readBody } from './helpers/http';
+import { toJsonSchema, type JsonSchema } from './helpers/jsonSchema';
+import { apiDocsPage } from './helpers/apiDocsPage';
+import { VersionConflictError } from './errors';
+
+// Conventional REST routes over the tRPC procedures, for scripts and
+// services that cannot speak tRPC's protocol. Each route calls its procedure,
+// so input is validated by the same zod schema; the OpenAPI document served
+// at /openapi.json is generated from those schemas too, and /docs shows it.
+//
+// GET and DELETE routes take their input from the query string, the others
+// from a JSON body; path parameters fill the input field of the same name.
+// Clients sign in with a session token from POST /auth/log-in, or an API
+// token made in the app, sent as a bearer token.
+
+type Caller = ReturnType<typeof createCaller>;
+
+type Route = {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string; // Path parameters in braces, named like the input fields they fill
+  procedure: Exclude<keyof Caller, 'onTodoChanged'>;
+  tag: string;
+  summary: string;
+  input?: ZodTypeAny; // The procedure's input schema
+  output?: ZodTypeAny;
+  status?: number; // Of successful responses; 200 unless given
+  isPublic?: boolean; // Callable without signing in
+};
+
+const successSchema = z.object({ success: z.boolean() });
+
+const routes: Route[] = [
+  {
+    method: 'GET', path: '/health', procedure: 'healthcheck', tag: 'Accounts', summary: 'Check that the server is up',
+    output: z.object({ status: z.string(), timestamp: z.string() }), isPublic: true
+  },
+  {
+    method: 'POST', path: '/auth/sign-up', procedure: 'signUp', tag: 'Accounts', summary: 'Create an account and sign in',
+    input: signUpInputSchema, output: authSessionSchema, status: 201, isPublic: true
+  },
+  {
+    method: 'POST', path: '/auth/log-in', procedure: 'logIn', tag: 'Accounts', summary: 'Start a session',
+    input: logInInputSchema, output: authSessionSchema, isPublic: true
+  },
+  {
+    method: 'POST', path: '/auth/log-out', procedure: 'logOut', tag: 'Accounts', summary: 'End the current session',
+    output: successSchema
+  },
+  { method: 'GET', path: '/account', procedure: 'me', tag: 'Accounts', summary: 'Get the signed-in user', output: userSchema },
+  {
+    method: 'GET', path: '/api-tokens', procedure: 'getApiTokens', tag: 'Accounts', summary: 'List API tokens',
+    output: z.array(apiTokenSchema)
+  },
+  {
+    method: 'POST', path: '/api-tokens', procedure: 'createApiToken', tag: 'Accounts', summary: 'Create an API token',
+    input: createApiTokenInputSchema, output: createdApiTokenSchema, status: 201
+  },
+  {
+    method: 'DELETE', path: '/api-tokens/{id}', procedure: 'revokeApiToken', tag: 'Accounts', summary: 'Revoke an API token',
+    input: revokeApiTokenInputSchema, output: successSchema
+  },
+
+  {
+    method: 'GET', path: '/todos', procedure: 'getTodos', tag: 'Todos', summary: 'List top-level todos with their subtasks',
+    input: getTodosInputSchema, output: todoPageSchema
+  },
+  {
+    method: 'POST', path: '/todos', procedure: 'createTodo', tag: 'Todos', summary: 'Create a todo',
+    input: createTodoInputSchema, output: todoSchema, status: 201
+  },
+  {
+    method: 'GET', path: '/todos/search', procedure: 'searchTodos', tag: 'Todos', summary: 'Search titles and descriptions',
+    input: searchTodosInputSchema, output: z.array(searchResultSchema)
+  },
+  {
+    method: 'GET', path: '/todos/export', procedure: 'exportTodos', tag: 'Todos', summary: 'Export todos to a file',
+    input: exportTodosInputSchema, output: exportedFileSchema
+  },
+  {
+    method: 'POST', path: '/todos/import', procedure: 'importTodos', tag: 'Todos', summary: 'Import todos from a file',
+    input: importTodosInputSchema, output: importResultSchema
+  },
+  {
+    method: 'POST', path: '/todos/bulk-update', procedure: 'bulkUpdateTodos', tag: 'Todos', summary: 'Change many todos at once',
+    input: bulkUpdateTodosInputSchema, output: bulkResultSchema
+  },
+  {
+    method: 'POST', path: '/todos/bulk-delete', procedure: 'bulkDeleteTodos', tag: 'Todos', summary: 'Move many todos to the trash',
+    input: bulkDeleteTodosInputSchema, output: bulkResultSchema
+  },
+  {
+    method: 'GET', path: '/todos/{id}', procedure: 'getTodo', tag: 'Todos', summary: 'Get a todo with its tags',
+    input: getTodoInputSchema, output: todoWithTagsSchema
+  },
+  {
+    method: 'PATCH', path: '/todos/{id}', procedure: 'updateTodo', tag: 'Todos', summary: 'Change a todo',
+    input: updateTodoInputSchema, output: todoSchema
+  },
+  {
+    method: 'DELETE', path: '/todos/{id}', procedure: 'deleteTodo', tag: 'Todos', summary: 'Move a todo and its subtasks to the trash',
+    input: deleteTodoInputSchema, output: successSchema
+  },
+  {
+    method: 'POST', path: '/todos/{id}/move', procedure: 'moveTodo', tag: 'Todos', summary: 'Place a todo next to another in the manual order',
+    input: moveTodoInputSchema, output: todoSchema
+  },
+  {
+    method: 'PUT', path: '/todos/{todo_id}/tags/{tag_id}', procedure: 'attachTag', tag: 'Todos', summary: 'Tag a todo',
+    input: todoTagInputSchema, output: successSchema
+  },
+  {
+    method: 'DELETE', path: '/todos/{todo_id}/tags/{tag_id}', procedure: 'detachTag', tag: 'Todos', summary: 'Untag a todo',
+    input: todoTagInputSchema, output: successSchema
+  },
+
+  { method: 'GET', path: '/trash', procedure: 'listTrash', tag: 'Trash', summary: 'List trashed todos', output: z.array(todoSchema) },
+  {
+    method: 'DELETE', path: '/trash', procedure: 'emptyTrash', tag: 'Trash', summary: 'Delete trashed todos for good',
+    output: z.object({ deleted: z.number().int() })
+  },
+  {
+    method: 'POST', path: '/todos/{id}/restore', procedure: 'restoreTodo', tag: 'Trash', summary: 'Restore a trashed todo',
+    input: restoreTodoInputSchema, output: todoSchema
+  },
+
+  {
+    method: 'GET', path: '/todos/{todo_id}/history', procedure: 'getTodoHistory', tag: 'History', summary: 'List the changes to a todo',
+    input: getTodoHistoryInputSchema, output: todoEventPageSchema
+  },
+  {
+    method: 'GET', path: '/activity', procedure: 'getActivityFeed', tag: 'History', summary: 'List changes to all todos',
+    input: getActivityFeedInputSchema, output: todoEventPageSchema
+  },
+
+  { method: 'GET', path: '/tags', procedure: 'getTags', tag: 'Tags', summary: 'List tags', output: z.array(tagSchema) },
+  {
+    method: 'POST', path: '/tags', procedure: 'createTag', tag: 'Tags', summary: 'Create a tag',
+    input: createTagInputSchema, output: tagSchema, status: 201
+  },
+  {
+    method: 'PATCH', path: '/tags/{id}', procedure: 'updateTag', tag: 'Tags', summary: 'Rename or recolor a tag',
+    input: updateTagInputSchema, output: tagSchema
+  },
+  {
+    method: 'DELETE', path: '/tags/{id}', procedure: 'deleteTag', tag: 'Tags', summary: 'Delete a tag',
+    input: deleteTagInputSchema, output: successSchema
+  },
+
+  {
+    method: 'GET', path: '/lists', procedure: 'getLists', tag: 'Lists', summary: 'List lists with their todo counts',
+    output: z.array(listSummarySchema)
+  },
+  {
+    method: 'POST', path: '/lists', procedure: 'createList', tag: 'Lists', summary: 'Create a list',
+    input: createListInputSchema, output: listSchema, status: 201
+  },
+  {
+    method: 'PATCH', path: '/lists/{id}', procedure: 'updateList', tag: 'Lists', summary: 'Change a list',
+    input: updateListInputSchema, output: listSchema
+  },
+  {
+    method: 'DELETE', path: '/lists/{id}', procedure: 'deleteList', tag: 'Lists', summary: 'Delete a list',
+    input: deleteListInputSchema, output: successSchema
+  },
+
+  {
+    method: 'GET', path: '/calendar-feed', procedure: 'getCalendarFeed', tag: 'Calendar feed', summary: 'Get the calendar feed settings',
+    output: calendarFeedSchema
+  },
+  {
+    method: 'POST', path: '/calendar-feed', procedure: 'createCalendarFeed', tag: 'Calendar feed',
+    summary: 'Create the calendar feed, or give it a new URL', input: createCalendarFeedInputSchema, output: createdCalendarFeedSchema, status: 201
+  },
+  {
+    method: 'PATCH', path: '/calendar-feed', procedure: 'updateCalendarFeed', tag: 'Calendar feed', summary: 'Change the calendar feed',
+    input: updateCalendarFeedInputSchema, output: calendarFeedSchema
+  },
+  {
+    method: 'DELETE', path: '/calendar-feed', procedure: 'deleteCalendarFeed', tag: 'Calendar feed', summary: 'Turn the calendar feed off',
+    output: successSchema
+  },
+
+  { method: 'GET', path: '/webhooks', procedure: 'getWebhooks', tag: 'Webhooks', summary: 'List webhooks', output: z.array(webhookSchema) },
+  {
+    method: 'POST', path: '/webhooks', procedure: 'createWebhook', tag: 'Webhooks', summary: 'Create a webhook and its signing secret',
+    input: createWebhookInputSchema, output: createdWebhookSchema, status: 201
+  },
+  {
+    method: 'PATCH', path: '/webhooks/{id}', procedure: 'updateWebhook', tag: 'Webhooks', summary: 'Change a webhook',
+    input: updateWebhookInputSchema, output: webhookSchema
+  },
+  {
+    method: 'DELETE', path: '/webhooks/{id}', procedure: 'deleteWebhook', tag: 'Webhooks', summary: 'Delete a webhook and its deliveries',
+    input: deleteWebhookInputSchema, output: successSchema
+  },
+  {
+    method: 'GET', path: '/webhooks/{webhook_id}/deliveries', procedure: 'getWebhookDeliveries', tag: 'Webhooks',
+    summary: 'List the deliveries of a webhook', input: getWebhookDeliveriesInputSchema, output: webhookDeliveryPageSchema
+  },
+  {
+    method: 'POST', path: '/webhook-deliveries/{id}/retry', procedure: 'retryWebhookDelivery', tag: 'Webhooks',
+    summary: 'Send a delivery again', input: retryWebhookDeliveryInputSchema, output: webhookDeliverySchema
+  }
+];
+
+// Sent with every failed request
+const apiErrorSchema = z.object({
+  error: z.object({
+    code: z.string(), // The tRPC error code, e.g. 'NOT_FOUND'
+    message: z.string(),
+    issues: z.object({ // Present when the input failed validation
+      formErrors: z.array(z.string()),
+      fieldErrors: z.record(z.array(z.string()))
+    }).optional(),
+    current_todo: todoSchema.optional() // The server's copy when a todo changed since it was read
+  })
+});
+
+// Schemas described once under components and referred to elsewhere
+const components = new Map<ZodTypeAny, string>([
+  [todoSchema, 'Todo'],
+  [todoWithTagsSchema, 'TodoWithTags'],
+  [todoListItemSchema, 'TodoListItem'],
+  [todoPageSchema, 'TodoPage'],
+  [searchResultSchema, 'SearchResult'],
+  [todoEventSchema, 'TodoEvent'],
+  [todoEventPageSchema, 'TodoEventPage'],
+  [exportedFileSchema, 'ExportedFile'],
+  [importResultSchema, 'ImportResult'],
+  [bulkResultSchema, 'BulkResult'],
+  [tagSchema, 'Tag'],
+  [listSchema, 'List'],
+  [listSummarySchema, 'ListSummary'],
+  [userSchema, 'User'],
+  [authSessionSchema, 'AuthSession'],
+  [apiTokenSchema, 'ApiToken'],
+  [createdApiTokenSchema, 'CreatedApiToken'],
+  [calendarFeedSchema, 'CalendarFeed'],
+  [createdCalendarFeedSchema, 'CreatedCalendarFeed'],
+  [webhookSchema, 'Webhook'],
+  [createdWebhookSchema, 'CreatedWebhook'],
+  [webhookDeliverySchema, 'WebhookDelivery'],
+  [webhookDeliveryPageSchema, 'WebhookDeliveryPage'],
+  [apiErrorSchema, 'Error']
+]);
+
+const TAGS = ['Accounts', 'Todos', 'Trash', 'History', 'Tags', 'Lists', 'Calendar feed', 'Webhooks'];
+const MAX_BODY_BYTES = 10_000_000;
+
+// Failures found before a procedure is called
+class RestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'RestError';
+  }
+}
+
+type CompiledRoute = Route & {
+  pattern: RegExp;
+  pathParams: string[];
+  inputSchema: JsonSchema | null;
+};
+
+const compiledRoutes: CompiledRoute[] = routes.map(route => ({
+  ...route,
+  pattern: new RegExp(`^${route.path.replace(/\{(\w+)\}/g, '([^/]+)')}/?$`),
+  pathParams: [...route.path.matchAll(/\{(\w+)\}/g)].map(match => match[1]),
+  inputSchema: route.input ? toJsonSchema(route.input, { io: 'input' }) : null
+}));
+
+const firstSegments = new Set([...routes.map(route => route.path.split('/')[1]), 'openapi.json', 'docs']);
+
+export const isRestRequest = (url: string | undefined): boolean =>
+  firstSegments.has((url ?? '').split('?')[0].split('/')[1]);
+
+const hasQueryInput = (route: Route): boolean => route.method === 'GET' || route.method === 'DELETE';
+
+const typesOf = (schema: JsonSchema): unknown[] => [schema['type']].flat();
+
+// Query and path values are strings; turns one into what its schema expects.
+// Values that do not fit are left as they are for validation to reject.
+const fromString = (value: string, schema: JsonSchema): unknown => {
+  const types = typesOf(schema);
+  if (value === 'null' && types.includes('null')) {
+    return null;
+  }
+  if ((types.includes('integer') || types.includes('number')) && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+};
+
+const propertiesOf = (schema: JsonSchema | null): Record<string, JsonSchema> =>
+  (schema?.['properties'] ?? {}) as Record<string, JsonSchema>;
+
+// Array parameters may be repeated or comma-separated
+const fromQuery = (params: URLSearchParams, schema: JsonSchema | null): Record<string, unknown> => {
+  const properties = propertiesOf(schema);
+  const input: Record<string, unknown> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    const property = properties[key] ?? {};
+    input[key] = typesOf(property).includes('array')
+      ? values.flatMap(value => value.split(',')).filter(value => value !== '')
+        .map(value => fromString(value, (property['items'] ?? {}) as JsonSchema))
+      : fromString(values[values.length - 1], property);
+  }
+  return input;
+};
+
+const fromBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const body = await readBody(req, MAX_BODY_BYTES);
+  if (body === null) {
+    throw new RestError(413, 'PAYLOAD_TOO_LARGE', 'The request body is too large');
+  }
+  if (body.trim() === '') {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new RestError(400, 'BAD_REQUEST', 'The request body is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new RestError(400, 'BAD_REQUEST', 'The request body must be a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+};
+
+// A path parameter as sent; malformed percent-escapes are the client's mistake
+const decodePathValue = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new RestError(400, 'BAD_REQUEST', 'The path is not validly percent-encoded');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof RestError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } }, error.headers);
+    return;
+  }
+
+  const trpcError = getTRPCErrorFromUnknown(error);
+  const status = getHTTPStatusCodeFromError(trpcError);
+  if (status >= 500) {
+    console.error('REST request failed:', error);
+  }
+  const { cause } = trpcError;
+  sendJson(res, status, {
+    error: {
+      code: trpcError.code,
+      message: cause instanceof ZodError ? 'Invalid input' : status >= 500 ? 'Internal server error' : trpcError.message,
+      ...(cause instanceof ZodError ? { issues: cause.flatten() } : {}),
+      ...(cause instanceof VersionConflictError ? { current_todo: cause.current } : {})
+    }
+  }, status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {});
+};
+
+const withoutProperties = (schema: JsonSchema, names: string[]): JsonSchema => {
+  if (names.length === 0) {
+    return schema;
+  }
+  const required = ((schema['required'] ?? []) as string[]).filter(name => !names.includes(name));
+  const rest = { ...schema };
+  delete rest['required'];
+  return {
+    ...rest,
+    properties: Object.fromEntries(Object.entries(propertiesOf(schema)).filter(([name]) => !names.includes(name))),
+    ...(required.length > 0 ? { required } : {})
+  };
+};
+
+const operationOf = (route: CompiledRoute): JsonSchema => {
+  const properties = propertiesOf(route.inputSchema);
+  const required = (route.inputSchema?.['required'] ?? []) as string[];
+  const pathParameters = route.pathParams.map(name => ({ name, in: 'path', required: true, schema: properties[name] }));
+  const queryParameters = hasQueryInput(route)
+    ? Object.entries(properties)
+      .filter(([name]) => !route.pathParams.includes(name))
+      .map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: required.includes(name),
+        schema,
+        ...(typesOf(schema).includes('array') ? { style: 'form', explode: false } : {})
+      }))
+    : [];
+  const bodySchema = route.inputSchema && !hasQueryInput(route) ? withoutProperties(route.inputSchema, route.pathParams) : null;
+
+  return {
+    operationId: route.procedure,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(route.isPublic ? { security: [] } : {}),
+    ...(pathParameters.length + queryParameters.length > 0 ? { parameters: [...pathParameters, ...queryParameters] } : {}),
+    ...(bodySchema ? {
+      requestBody: {
+        required: ((bodySchema['required'] ?? []) as string[]).length > 0,
+        content: { 'application/json': { schema: bodySchema } }
+      }
+    } : {}),
+    responses: {
+      [String(route.status ?? 200)]: {
+        description: 'Success',
+        ...(route.output ? { content: { 'application/json': { schema: toJsonSchema(route.output, { io: 'output', refs: components }) } } } : {})
+      },
+      default: {
+        description: 'The request failed',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+      }
+    }
+  };
+};
+
+// The OpenAPI 3.1 document for the routes. serverUrl is where they are
+// reached from, e.g. '/api' behind the web app's proxy.
+export const openApiDocument = (serverUrl: string): JsonSchema => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of compiledRoutes) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: operationOf(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Todos API',
+      version: '1.0.0',
+      description: 'Sign in with POST /auth/log-in and send the token it returns as a bearer token.'
+    },
+    servers: [{ url: serverUrl === '' ? '/' : serverUrl }],
+    tags: TAGS.map(name => ({ name })),
+    security: [{ session: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        session: { type: 'http', scheme: 'bearer', description: 'A session token from signing up or logging in, or an API token' }
+      },
+      schemas: Object.fromEntries([...components].map(([schema, name]) =>
+        [name, toJsonSchema(schema, { io: 'output', refs: components })]))
+    }
+  };
+};
+
+// Answers a request for a path isRestRequest accepts
+export const handleRest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  try {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    // Proxies that serve the API under a prefix say so, so documents point there
+    const prefix = String(req.headers['x-forwarded-prefix'] ?? '').replace(/\/$/, '');
+
+    if (req.method === 'GET' && url.pathname === '/openapi.json') {
+      sendJson(res, 200, openApiDocument(prefix));
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/docs') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(apiDocsPage(`${prefix}/openapi.json`));
+      return;
+    }
+
+    const matching = compiledRoutes.filter(route => route.pattern.test(url.pathname));
+    const route = matching.find(candidate => candidate.method === req.method);
+    if (!route) {
+      throw matching.length > 0
+        ? new RestError(405, 'METHOD_NOT_SUPPORTED', `${req.method} is not supported here`, {
+          Allow: matching.map(candidate => candidate.method).join(', ')
+        })
+        : new RestError(404, 'NOT_FOUND', 'No such route');
+    }
+
+    const properties = propertiesOf(route.inputSchema);
+    const pathValues = route.pattern.exec(url.pathname)!.slice(1);
+    const pathInput = Object.fromEntries(route.pathParams.map((name, index) =>
+      [name, fromString(decodePathValue(pathValues[index]), properties[name] ?? {})]));
+    const input = hasQueryInput(route) ? fromQuery(url.searchParams, route.inputSchema) : await fromBody(req);
+
+    const caller = createCaller(await contextOf(bearerToken(req.headers.authorization)));
+    // Routes name procedures of different types; each gets the input it declares
+    const call = caller[route.procedure] as (input?: unknown) => Promise<unknown>;
+    const output = await call(route.input ? { ...input, ...pathInput } : undefined);
+
+    if (output === null) {
+      throw new RestError(404, 'NOT_FOUND', 'Not found');
+    }
+    sendJson(res, route.status ?? 200, output);
+  } catch (error) {
+    sendError(res, error);
+  }
+};
@@ -0,0 +1,351 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { ZodError } from 'zod';
+
+// Import schemas
+import { 
+  createTodoInputSchema, 
+  updateTodoInputSchema, 
+  deleteTodoInputSchema,
+  restoreTodoInputSchema,
+  moveTodoInputSchema,
+  bulkUpdateTodosInputSchema,
+  bulkDeleteTodosInputSchema,
+  exportTodosInputSchema,
+  importTodosInputSchema,
+  getTodosInputSchema,
+  getTodoInputSchema,
+  searchTodosInputSchema,
+  getTodoHistoryInputSchema,
+  getActivityFeedInputSchema,
+  createTagInputSchema,
+  updateTagInputSchema,
+  deleteTagInputSchema,
+  todoTagInputSchema,
+  createListInputSchema,
+  updateListInputSchema,
+  deleteListInputSchema,
+  signUpInputSchema,
+  logInInputSchema,
+  createCalendarFeedInputSchema,
+  updateCalendarFeedInputSchema,
+  createWebhookInputSchema,
+  updateWebhookInputSchema,
+  deleteWebhookInputSchema,
+  getWebhookDeliveriesInputSchema,
+  retryWebhookDeliveryInputSchema,
+  createApiTokenInputSchema,
+  revokeApiTokenInputSchema,
+  type ApiTokenScope,
+  type User
+} from './schema';
+
+// Import handlers
+import { createTodo } from './handlers/create_todo';
+import { getTodos } from './handlers/get_todos';
+import { getTodo } from './handlers/get_todo';
+import { searchTodos } from './handlers/search_todos';
+import { updateTodo } from './handlers/update_todo';
+import { deleteTodo } from './handlers/delete_todo';
+import { moveTodo } from './handlers/move_todo';
+import { bulkUpdateTodos } from './handlers/bulk_update_todos';
+import { bulkDeleteTodos } from './handlers/bulk_delete_todos';
+import { exportTodos } from './handlers/export_todos';
+import { importTodos } from './handlers/import_todos';
+import { restoreTodo } from './handlers/restore_todo';
+import { listTrash } from './handlers/list_trash';
+import { emptyTrash } from './handlers/empty_trash';
+import { getTodoHistory } from './handlers/get_todo_history';
+import { getActivityFeed } from './handlers/get_activity_feed';
+import { createTag } from './handlers/create_tag';
+import { getTags } from './handlers/get_tags';
+import { updateTag } from './handlers/update_tag';
+import { deleteTag } from './handlers/delete_tag';
+import { attachTag } from './handlers/attach_tag';
+import { detachTag } from './handlers/detach_tag';
+import { createList } from './handlers/create_list';
+import { getLists } from './handlers/get_lists';
+import { updateList } from './handlers/update_list';
+import { deleteList } from './handlers/delete_list';
+import { signUp } from './handlers/sign_up';
+import { logIn } from './handlers/log_in';
+import { logOut } from './handlers/log_out';
+import { createCalendarFeed } from './handlers/create_calendar_feed';
+import { getCalendarFeed } from './handlers/get_calendar_feed';
+import { updateCalendarFeed } from './handlers/update_calendar_feed';
+import { deleteCalendarFeed } from './handlers/delete_calendar_feed';
+import { createWebhook } from './handlers/create_webhook';
+import { getWebhooks } from './handlers/get_webhooks';
+import { updateWebhook } from './handlers/update_webhook';
+import { deleteWebhook } from './handlers/delete_webhook';
+import { getWebhookDeliveries } from './handlers/get_webhook_deliveries';
+import { retryWebhookDelivery } from './handlers/retry_webhook_delivery';
+import { createApiToken } from './handlers/create_api_token';
+import { getApiTokens } from './handlers/get_api_tokens';
+import { revokeApiToken } from './handlers/revoke_api_token';
+import { authenticateToken, bearerToken } from './helpers/auth';
+import { todoChanges } from './helpers/events';
+import { toTRPCError, VersionConflictError } from './errors';
+
+type Context = {
+  user: User | null;
+  token: string | null;
+  scope: ApiTokenScope | null; // What the token allows; sessions allow everything
+  isApiToken: boolean;
+};
+
+// The user of a session or API token, if it is still valid
+export const contextOf = async (token: string | null): Promise<Context> => {
+  const access = token ? await authenticateToken(token) : null;
+  return access
+    ? { user: access.user, token, scope: access.scope, isApiToken: access.isApiToken }
+    : { user: null, token: null, scope: null, isApiToken: false };
+};
+
+// Resolves the bearer token of each request to its user. EventSource cannot
+// send headers, so subscriptions pass the token as a connection param.
+export const createContext = ({ req, info }: CreateHTTPContextOptions): Promise<Context> =>
+  contextOf(bearerToken(req.headers.authorization) ?? info.connectionParams?.['token'] ?? null);
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+  // Invalid input reports the offending fields so forms can show them inline
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        zodError: error.code === 'BAD_REQUEST' && error.cause instanceof ZodError
+          ? error.cause.flatten()
+          : null,
+        // The server's copy of a todo that changed since the client read it
+        currentTodo: error.cause instanceof VersionConflictError ? error.cause.current : null
+      }
+    };
+  },
+});
+
+// Turns domain errors thrown by handlers into TRPCErrors with matching codes
+const mapDomainErrors = t.middleware(async ({ next }) => {
+  const result = await next();
+  if (!result.ok) {
+    const mapped = toTRPCError(result.error.cause);
+    if (mapped) {
+      throw mapped;
+    }
+  }
+  return result;
+});
+
+const publicProcedure = t.procedure.use(mapDomainErrors);
+
+// Rejects requests without a valid session or API token, and mutations with a
+// read-only token, and narrows the context to a signed-in user
+const protectedProcedure = publicProcedure.use(({ ctx, type, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be logged in' });
+  }
+  if (type === 'mutation' && ctx.scope === 'read_only') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'This API token is read-only' });
+  }
+  return next({ ctx: { user: ctx.user, token: ctx.token, isApiToken: ctx.isApiToken } });
+});
+
+// Only takes sessions, so a leaked API token cannot be used to make more
+const sessionProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.isApiToken) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'API tokens can only be managed when signed in' });
+  }
+  return next();
+});
+const router = t.router;
+
+export const appRouter = router({
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+  
+  // Accounts
+  signUp: publicProcedure
+    .input(signUpInputSchema)
+    .mutation(({ input }) => signUp(input)),
+
+  logIn: publicProcedure
+    .input(logInInputSchema)
+    .mutation(({ input }) => logIn(input)),
+
+  logOut: protectedProcedure
+    .mutation(({ ctx }) => logOut(ctx.token)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // Personal access tokens for scripts
+  getApiTokens: sessionProcedure
+    .query(({ ctx }) => getApiTokens(ctx.user.id)),
+
+  createApiToken: sessionProcedure
+    .input(createApiTokenInputSchema)
+    .mutation(({ input, ctx }) => createApiToken(input, ctx.user.id)),
+
+  revokeApiToken: sessionProcedure
+    .input(revokeApiTokenInputSchema)
+    .mutation(({ input, ctx }) => revokeApiToken(input, ctx.user.id)),
+
+  // Todo CRUD operations
+  createTodo: protectedProcedure
+    .input(createTodoInputSchema)
+    .mutation(({ input, ctx }) => createTodo(input, ctx.user.id)),
+    
+  getTodos: protectedProcedure
+    .input(getTodosInputSchema)
+    .query(({ input, ctx }) => getTodos(input, ctx.user.id)),
+
+  getTodo: protectedProcedure
+    .input(getTodoInputSchema)
+    .query(({ input, ctx }) => getTodo(input, ctx.user.id)),
+
+  searchTodos: protectedProcedure
+    .input(searchTodosInputSchema)
+    .query(({ input, ctx }) => searchTodos(input, ctx.user.id)),
+    
+  updateTodo: protectedProcedure
+    .input(updateTodoInputSchema)
+    .mutation(({ input, ctx }) => updateTodo(input, ctx.user.id)),
+    
+  deleteTodo: protectedProcedure
+    .input(deleteTodoInputSchema)
+    .mutation(({ input, ctx }) => deleteTodo(input, ctx.user.id)),
+
+  // Manual ordering
+  moveTodo: protectedProcedure
+    .input(moveTodoInputSchema)
+    .mutation(({ input, ctx }) => moveTodo(input, ctx.user.id)),
+
+  // Files in JSON, CSV or Markdown; imports report what happened to each record
+  exportTodos: protectedProcedure
+    .input(exportTodosInputSchema)
+    .query(({ input, ctx }) => exportTodos(input, ctx.user.id)),
+
+  importTodos: protectedProcedure
+    .input(importTodosInputSchema)
+    .mutation(({ input, ctx }) => importTodos(input, ctx.user.id)),
+
+  // Bulk operations, applied in one transaction with a result per todo
+  bulkUpdateTodos: protectedProcedure
+    .input(bulkUpdateTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdateTodos(input, ctx.user.id)),
+
+  bulkDeleteTodos: protectedProcedure
+    .input(bulkDeleteTodosInputSchema)
+    .mutation(({ input, ctx }) => bulkDeleteTodos(input, ctx.user.id)),
+
+  // Trash
+  restoreTodo: protectedProcedure
+    .input(restoreTodoInputSchema)
+    .mutation(({ input, ctx }) => restoreTodo(input, ctx.user.id)),
+
+  listTrash: protectedProcedure
+    .query(({ ctx }) => listTrash(ctx.user.id)),
+
+  emptyTrash: protectedProcedure
+    .mutation(({ ctx }) => emptyTrash(ctx.user.id)),
+
+  // History
+  getTodoHistory: protectedProcedure
+    .input(getTodoHistoryInputSchema)
+    .query(({ input, ctx }) => getTodoHistory(input, ctx.user.id)),
+
+  getActivityFeed: protectedProcedure
+    .input(getActivityFeedInputSchema)
+    .query(({ input, ctx }) => getActivityFeed(input, ctx.user.id)),
+
+  // Calendar feed
+  getCalendarFeed: protectedProcedure
+    .query(({ ctx }) => getCalendarFeed(ctx.user.id)),
+
+  createCalendarFeed: protectedProcedure
+    .input(createCalendarFeedInputSchema)
+    .mutation(({ input, ctx }) => createCalendarFeed(input, ctx.user.id)),
+
+  updateCalendarFeed: protectedProcedure
+    .input(updateCalendarFeedInputSchema)
+    .mutation(({ input, ctx }) => updateCalendarFeed(input, ctx.user.id)),
+
+  deleteCalendarFeed: protectedProcedure
+    .mutation(({ ctx }) => deleteCalendarFeed(ctx.user.id)),
+
+  // Webhooks, with a log of their deliveries
+  getWebhooks: protectedProcedure
+    .query(({ ctx }) => getWebhooks(ctx.user.id)),
+
+  createWebhook: protectedProcedure
+    .input(createWebhookInputSchema)
+    .mutation(({ input, ctx }) => createWebhook(input, ctx.user.id)),
+
+  updateWebhook: protectedProcedure
+    .input(updateWebhookInputSchema)
+    .mutation(({ input, ctx }) => updateWebhook(input, ctx.user.id)),
+
+  deleteWebhook: protectedProcedure
+    .input(deleteWebhookInputSchema)
+    .mutation(({ input, ctx }) => deleteWebhook(input, ctx.user.id)),
+
+  getWebhookDeliveries: protectedProcedure
+    .input(getWebhookDeliveriesInputSchema)
+    .query(({ input, ctx }) => getWebhookDeliveries(input, ctx.user.id)),
+
+  retryWebhookDelivery: protectedProcedure
+    .input(retryWebhookDeliveryInputSchema)
+    .mutation(({ input, ctx }) => retryWebhookDelivery(input, ctx.user.id)),
+
+  // Streams changes to the user's todos made by any client
+  onTodoChanged: protectedProcedure
+    .subscription(({ ctx, signal }) => todoChanges(ctx.user.id, signal)),
+
+  // Tags
+  createTag: protectedProcedure
+    .input(createTagInputSchema)
+    .mutation(({ input, ctx }) => createTag(input, ctx.user.id)),
+
+  getTags: protectedProcedure
+    .query(({ ctx }) => getTags(ctx.user.id)),
+
+  updateTag: protectedProcedure
+    .input(updateTagInputSchema)
+    .mutation(({ input, ctx }) => updateTag(input, ctx.user.id)),
+
+  deleteTag: protectedProcedure
+    .input(deleteTagInputSchema)
+    .mutation(({ input, ctx }) => deleteTag(input, ctx.user.id)),
+
+  attachTag: protectedProcedure
+    .input(todoTagInputSchema)
+    .mutation(({ input, ctx }) => attachTag(input, ctx.user.id)),
+
+  detachTag: protectedProcedure
+    .input(todoTagInputSchema)
+    .mutation(({ input, ctx }) => detachTag(input, ctx.user.id)),
+
+  // Lists
+  createList: protectedProcedure
+    .input(createListInputSchema)
+    .mutation(({ input, ctx }) => createList(input, ctx.user.id)),
+
+  getLists: protectedProcedure
+    .query(({ ctx }) => getLists(ctx.user.id)),
+
+  updateList: protectedProcedure
+    .input(updateListInputSchema)
+    .mutation(({ input, ctx }) => updateList(input, ctx.user.id)),
+
+  deleteList: protectedProcedure
+    .input(deleteListInputSchema)
+    .mutation(({ input, ctx }) => deleteList(input, ctx.user.id)),
+});
+
+export type AppRouter = typeof appRouter;
+
+// Calls procedures directly, as the REST routes do
+export const createCaller = t.createCallerFactory(appRouter);
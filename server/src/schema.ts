@@ -1,21 +1,133 @@
 import { z } from 'zod';
+import { isValidTimeZone } from './helpers/dates';
+import { isValidRecurrenceRule } from './helpers/recurrence';
+
+// IANA time zone name, e.g. 'America/New_York'
+export const timeZoneSchema = z.string().refine(isValidTimeZone, 'Invalid time zone');
+
+// RFC 5545 RRULE subset, e.g. 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6'
+export const recurrenceRuleSchema = z.string().refine(isValidRecurrenceRule, 'Invalid recurrence rule');
+
+// Hex color such as '#22c55e'
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #22c55e');
+
+// Priority levels, ordered from least to most important
+export const todoPrioritySchema = z.enum(['none', 'low', 'medium', 'high', 'urgent']);
+
+export type TodoPriority = z.infer<typeof todoPrioritySchema>;
 
 // Todo schema
 export const todoSchema = z.object({
   id: z.number(),
+  owner_id: z.number(),
   title: z.string(),
   description: z.string().nullable(),
   completed: z.boolean(),
+  list_id: z.number().nullable(),
+  parent_id: z.number().nullable(),
+  priority: todoPrioritySchema,
+  due_at: z.coerce.date().nullable(),
+  due_all_day: z.boolean(),
+  due_time_zone: z.string().nullable(),
+  recurrence_rule: z.string().nullable(),
+  position: z.string(), // Rank in the manual order; compare as plain strings
+  version: z.number().int(),
+  deleted_at: z.coerce.date().nullable(), // Null unless the todo is in the trash
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Todo = z.infer<typeof todoSchema>;
 
+// Tag schema
+export const tagSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// Completion roll-up over a todo's direct subtasks
+export const subtaskProgressSchema = z.object({
+  completed: z.number().int(),
+  total: z.number().int()
+});
+
+export type SubtaskProgress = z.infer<typeof subtaskProgressSchema>;
+
+// Todo as returned by list queries, with its tags and nested subtasks attached
+export type TodoListItem = Todo & {
+  tags: Tag[];
+  progress: SubtaskProgress;
+  children: TodoListItem[];
+};
+
+export const todoListItemSchema: z.ZodType<TodoListItem, z.ZodTypeDef, unknown> = todoSchema.extend({
+  tags: z.array(tagSchema),
+  progress: subtaskProgressSchema,
+  children: z.lazy(() => z.array(todoListItemSchema))
+});
+
+// Todo with its tags, as pushed to the owner's open clients when it changes
+export const todoWithTagsSchema = todoSchema.extend({
+  tags: z.array(tagSchema)
+});
+
+export type TodoWithTags = z.infer<typeof todoWithTagsSchema>;
+
+export const todoChangeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('created'), todo: todoWithTagsSchema }),
+  z.object({ type: z.literal('updated'), todo: todoWithTagsSchema }),
+  z.object({ type: z.literal('deleted'), id: z.number() }) // Its subtasks are gone too
+]);
+
+export type TodoChange = z.infer<typeof todoChangeSchema>;
+
+// Kinds of writes recorded in a todo's history; 'deleted' moves a todo to the
+// trash and 'purged' removes it for good
+export const todoOperationSchema = z.enum(['created', 'updated', 'deleted', 'restored', 'purged']);
+
+export type TodoOperation = z.infer<typeof todoOperationSchema>;
+
+// A changed field's value before and after the write, as stored JSON (dates
+// become ISO strings). Created todos have null before values, purged ones
+// null after values.
+export const todoFieldChangeSchema = z.object({
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+export type TodoFieldChange = z.infer<typeof todoFieldChangeSchema>;
+
+// One entry in the audit log, keyed by field name in changes
+export const todoEventSchema = z.object({
+  id: z.number(),
+  todo_id: z.number(),
+  owner_id: z.number(),
+  actor_id: z.number().nullable(), // Null for background jobs such as the trash purge
+  operation: todoOperationSchema,
+  todo_title: z.string(),
+  changes: z.record(todoFieldChangeSchema),
+  created_at: z.coerce.date()
+});
+
+export type TodoEvent = z.infer<typeof todoEventSchema>;
+
 // Input schema for creating todos
 export const createTodoInputSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  description: z.string().nullable()
+  description: z.string().nullable(),
+  list_id: z.number().optional(), // Defaults to the parent's list, then the Inbox
+  parent_id: z.number().nullable().optional(), // Creates a subtask of this todo
+  priority: todoPrioritySchema.optional(), // Defaults to 'none'
+  due_at: z.coerce.date().nullable().optional(),
+  due_all_day: z.boolean().optional(), // When true only the UTC calendar date of due_at is kept
+  due_time_zone: timeZoneSchema.nullable().optional(),
+  recurrence_rule: recurrenceRuleSchema.nullable().optional(), // Requires a due date
+  tag_ids: z.array(z.number().int()).optional() // Tags to attach on creation
 });
 
 export type CreateTodoInput = z.infer<typeof createTodoInputSchema>;
@@ -23,16 +135,633 @@ export type CreateTodoInput = z.infer<typeof createTodoInputSchema>;
 // Input schema for updating todos
 export const updateTodoInputSchema = z.object({
   id: z.number(),
+  expectedVersion: z.number().int(), // The version the client last read; stale writes are rejected
   title: z.string().min(1, "Title is required").optional(),
   description: z.string().nullable().optional(),
-  completed: z.boolean().optional()
+  completed: z.boolean().optional(),
+  list_id: z.number().optional(), // Moves subtasks along with the todo
+  parent_id: z.number().nullable().optional(), // Must not create a cycle
+  priority: todoPrioritySchema.optional(),
+  due_at: z.coerce.date().nullable().optional(),
+  due_all_day: z.boolean().optional(),
+  due_time_zone: timeZoneSchema.nullable().optional(),
+  // Completing a recurring todo creates its next occurrence
+  recurrence_rule: recurrenceRuleSchema.nullable().optional()
 });
 
 export type UpdateTodoInput = z.infer<typeof updateTodoInputSchema>;
 
+// Input schema for reading one todo, e.g. for its current version
+export const getTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetTodoInput = z.infer<typeof getTodoInputSchema>;
+
 // Input schema for deleting todos
 export const deleteTodoInputSchema = z.object({
+  id: z.number(),
+  expectedVersion: z.number().int()
+});
+
+export type DeleteTodoInput = z.infer<typeof deleteTodoInputSchema>;
+
+// Input schema for restoring todos from the trash
+export const restoreTodoInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestoreTodoInput = z.infer<typeof restoreTodoInputSchema>;
+
+// Input schema for moving a todo in the manual order. The neighbours are
+// the siblings it should end up between; give one to place it right after
+// or right before that todo.
+export const moveTodoInputSchema = z.object({
+  id: z.number(),
+  before_id: z.number().nullable().optional(), // Todo that should come right before it
+  after_id: z.number().nullable().optional() // Todo that should come right after it
+}).refine(
+  (input) => input.before_id != null || input.after_id != null,
+  'Choose a todo to place it next to'
+);
+
+export type MoveTodoInput = z.infer<typeof moveTodoInputSchema>;
+
+// Filter, sort and pagination options for listing todos
+export const todoStatusFilterSchema = z.enum(['all', 'completed', 'pending']);
+
+export type TodoStatusFilter = z.infer<typeof todoStatusFilterSchema>;
+
+// 'priority' orders by priority, then by due date (soonest first); 'position'
+// is the order the user arranged the todos in
+export const todoSortFieldSchema = z.enum(['priority', 'created_at', 'updated_at', 'due_at', 'title', 'position']);
+
+export type TodoSortField = z.infer<typeof todoSortFieldSchema>;
+
+// Due date buckets, evaluated in the caller's time zone
+export const dueBucketSchema = z.enum(['overdue', 'today', 'upcoming']);
+
+export type DueBucket = z.infer<typeof dueBucketSchema>;
+
+export const sortDirectionSchema = z.enum(['asc', 'desc']);
+
+export type SortDirection = z.infer<typeof sortDirectionSchema>;
+
+// Conditions on top-level todos, shared by listing and bulk operations
+export const todoFilterSchema = z.object({
+  status: todoStatusFilterSchema.default('all'),
+  list_id: z.number().optional(),
+  created_from: z.coerce.date().optional(),
+  created_to: z.coerce.date().optional(),
+  updated_from: z.coerce.date().optional(),
+  updated_to: z.coerce.date().optional(),
+  due_bucket: dueBucketSchema.optional(),
+  tag_ids: z.array(z.number().int()).optional(), // Todos must carry every listed tag
+  search: z.string().max(200).optional(), // Words the todo or one of its subtasks contains, or starts of them
+  time_zone: timeZoneSchema.default('UTC') // Defines "today" for due buckets
+});
+
+export type TodoFilter = z.infer<typeof todoFilterSchema>;
+
+// Input schema for listing todos
+export const getTodosInputSchema = todoFilterSchema.extend({
+  sort_by: todoSortFieldSchema.default('priority'),
+  sort_direction: sortDirectionSchema.default('desc'),
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.string().nullable().optional() // Opaque value taken from a previous page's nextCursor
+});
+
+export type GetTodosInput = z.infer<typeof getTodosInputSchema>;
+
+// A single page of todos
+export const todoPageSchema = z.object({
+  items: z.array(todoListItemSchema),
+  nextCursor: z.string().nullable(),
+  totalCount: z.number().int()
+});
+
+export type TodoPage = z.infer<typeof todoPageSchema>;
+
+// Input schema for full-text search over titles and descriptions. Every
+// word must match, as a whole or as the start of a word.
+export const searchTodosInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  limit: z.number().int().min(1).max(50).default(20)
+});
+
+export type SearchTodosInput = z.infer<typeof searchTodosInputSchema>;
+
+// Part of a text, marked when it matched the search
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  match: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+// A todo found by search, best matches first
+export const searchResultSchema = z.object({
+  todo: todoSchema,
+  root_id: z.number(), // Top-level todo the match belongs to; its own id unless it is a subtask
+  rank: z.number(),
+  title: z.array(highlightSegmentSchema),
+  snippet: z.array(highlightSegmentSchema) // Matching passages of the description, empty when only the title matched
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+// File formats todos are exported to and imported from. Markdown files are
+// GitHub-style checklists, so they only carry titles, completion, nesting
+// and the list each todo is in. todo.txt and iCalendar files are described
+// in helpers/todoTxt.ts and helpers/icalendar.ts.
+export const todoFileFormatSchema = z.enum(['json', 'csv', 'markdown', 'todotxt', 'ical']);
+
+export type TodoFileFormat = z.infer<typeof todoFileFormatSchema>;
+
+// A todo in an export file. Lists and tags go by name, parents by the id of
+// another todo in the same file.
+export const exportedTodoSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string().nullable(),
+  completed: z.boolean(),
+  priority: todoPrioritySchema,
+  list: z.string().nullable(),
+  parent_id: z.number().int().nullable(),
+  due_at: z.string().nullable(), // ISO 8601
+  due_all_day: z.boolean(),
+  due_time_zone: z.string().nullable(),
+  recurrence_rule: z.string().nullable(),
+  tags: z.array(z.string()),
+  created_at: z.string(),
+  updated_at: z.string()
+});
+
+export type ExportedTodo = z.infer<typeof exportedTodoSchema>;
+
+// The JSON export. The version changes whenever the layout does, so older
+// files can still be read.
+export const TODO_EXPORT_VERSION = 1;
+
+export const todoExportSchema = z.object({
+  format: z.literal('todo-export'),
+  version: z.literal(TODO_EXPORT_VERSION),
+  exported_at: z.string(),
+  todos: z.array(exportedTodoSchema)
+});
+
+export type TodoExport = z.infer<typeof todoExportSchema>;
+
+// What an imported record may set. Fields left out keep their value when the
+// record updates an existing todo, and take their defaults otherwise.
+export const importedTodoSchema = z.object({
+  id: z.number().int().nullable().optional(), // Updates this todo when the user has it
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().nullable().optional(),
+  completed: z.boolean().optional(),
+  priority: todoPrioritySchema.optional(),
+  list: z.string().trim().min(1).max(100).nullable().optional(),
+  parent_id: z.number().int().nullable().optional(), // Id of another record, or of one of the user's todos
+  due_at: z.coerce.date().nullable().optional(),
+  due_all_day: z.boolean().optional(),
+  due_time_zone: timeZoneSchema.nullable().optional(),
+  recurrence_rule: recurrenceRuleSchema.nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).optional()
+});
+
+export type ImportedTodo = z.infer<typeof importedTodoSchema>;
+
+export const importFieldSchema = importedTodoSchema.keyof();
+
+export type ImportField = z.infer<typeof importFieldSchema>;
+
+// Input schema for exporting the user's todos
+export const exportTodosInputSchema = z.object({
+  format: todoFileFormatSchema,
+  list_id: z.number().optional(), // Only this list's todos; all of them when left out
+  calendar_events: z.boolean().optional() // iCalendar only: also writes dated todos as events
+});
+
+export type ExportTodosInput = z.infer<typeof exportTodosInputSchema>;
+
+export const exportedFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content: z.string()
+});
+
+export type ExportedFile = z.infer<typeof exportedFileSchema>;
+
+// Input schema for importing todos from a file. A dry run reports what would
+// happen without changing anything.
+export const importTodosInputSchema = z.object({
+  format: todoFileFormatSchema,
+  content: z.string().max(5_000_000),
+  dry_run: z.boolean().default(false),
+  list_id: z.number().optional(), // For records that name no list; defaults to the Inbox
+  // Field each CSV column holds, by header; null ignores the column. Headers
+  // named like a field are read as that field unless mapped otherwise.
+  csv_columns: z.record(z.string(), importFieldSchema.nullable()).optional()
+});
+
+export type ImportTodosInput = z.infer<typeof importTodosInputSchema>;
+
+export const importActionSchema = z.enum(['create', 'update', 'skip']);
+
+export type ImportAction = z.infer<typeof importActionSchema>;
+
+// What happened, or would happen, to one record of the file
+export const importItemResultSchema = z.object({
+  row: z.number().int(), // Line in the file, or place in a JSON export's list, counting from 1
+  title: z.string().nullable(),
+  action: importActionSchema,
+  reason: z.string().nullable() // Why a record was skipped
+});
+
+export type ImportItemResult = z.infer<typeof importItemResultSchema>;
+
+export const importResultSchema = z.object({
+  dry_run: z.boolean(),
+  created: z.number().int(),
+  updated: z.number().int(),
+  skipped: z.number().int(),
+  items: z.array(importItemResultSchema)
+});
+
+export type ImportResult = z.infer<typeof importResultSchema>;
+
+// Input schema for a todo's history, newest first
+export const getTodoHistoryInputSchema = z.object({
+  todo_id: z.number(),
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.number().int().nullable().optional() // nextCursor of the previous page
+});
+
+export type GetTodoHistoryInput = z.infer<typeof getTodoHistoryInputSchema>;
+
+// Input schema for the activity feed across all of a user's todos, newest first
+export const getActivityFeedInputSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.number().int().nullable().optional() // nextCursor of the previous page
+});
+
+export type GetActivityFeedInput = z.infer<typeof getActivityFeedInputSchema>;
+
+// A single page of audit log entries
+export const todoEventPageSchema = z.object({
+  items: z.array(todoEventSchema),
+  nextCursor: z.number().int().nullable()
+});
+
+export type TodoEventPage = z.infer<typeof todoEventPageSchema>;
+
+// Which todos a bulk operation applies to: the listed ids, or every live
+// top-level todo matching a filter
+export const bulkTargetSchema = z.union([
+  z.object({ ids: z.array(z.number()).min(1).max(500) }),
+  z.object({ filter: todoFilterSchema })
+]);
+
+export type BulkTarget = z.infer<typeof bulkTargetSchema>;
+
+// Input schema for changing many todos at once; tags are added and removed
+// rather than replaced
+export const bulkUpdateTodosInputSchema = z.object({
+  target: bulkTargetSchema,
+  changes: z.object({
+    completed: z.boolean().optional(),
+    priority: todoPrioritySchema.optional(),
+    list_id: z.number().optional(),
+    add_tag_ids: z.array(z.number().int()).optional(),
+    remove_tag_ids: z.array(z.number().int()).optional()
+  }).refine(
+    (changes) => Object.values(changes).some((value) => value !== undefined),
+    'Choose at least one change'
+  )
+});
+
+export type BulkUpdateTodosInput = z.infer<typeof bulkUpdateTodosInputSchema>;
+
+// Input schema for moving many todos to the trash at once
+export const bulkDeleteTodosInputSchema = z.object({
+  target: bulkTargetSchema
+});
+
+export type BulkDeleteTodosInput = z.infer<typeof bulkDeleteTodosInputSchema>;
+
+// Outcome of a bulk operation for one todo
+export const bulkItemResultSchema = z.object({
+  id: z.number(),
+  success: z.boolean(),
+  error: z.string().nullable()
+});
+
+export type BulkItemResult = z.infer<typeof bulkItemResultSchema>;
+
+export const bulkResultSchema = z.object({
+  results: z.array(bulkItemResultSchema)
+});
+
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+
+// Input schema for creating tags
+export const createTagInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  color: hexColorSchema.optional() // Defaults to slate
+});
+
+export type CreateTagInput = z.infer<typeof createTagInputSchema>;
+
+// Input schema for renaming and recoloring tags
+export const updateTagInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, 'Name is required').max(50).optional(),
+  color: hexColorSchema.optional()
+});
+
+export type UpdateTagInput = z.infer<typeof updateTagInputSchema>;
+
+// Input schema for deleting tags
+export const deleteTagInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteTagInput = z.infer<typeof deleteTagInputSchema>;
+
+// Input schema for attaching a tag to, or detaching it from, a todo
+export const todoTagInputSchema = z.object({
+  todo_id: z.number(),
+  tag_id: z.number()
+});
+
+export type TodoTagInput = z.infer<typeof todoTagInputSchema>;
+
+// List schema
+export const listSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  icon: z.string(),
+  sort_order: z.number().int(),
+  is_inbox: z.boolean(),
+  created_at: z.coerce.date()
+});
+
+export type List = z.infer<typeof listSchema>;
+
+// List with todo counts, as shown in the sidebar
+export const listSummarySchema = listSchema.extend({
+  todo_count: z.number().int(),
+  pending_count: z.number().int()
+});
+
+export type ListSummary = z.infer<typeof listSummarySchema>;
+
+// Input schema for creating lists
+export const createListInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  color: hexColorSchema.optional(),
+  icon: z.string().min(1).max(8).optional(),
+  sort_order: z.number().int().optional() // Defaults to after the last list
+});
+
+export type CreateListInput = z.infer<typeof createListInputSchema>;
+
+// Input schema for updating lists
+export const updateListInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  color: hexColorSchema.optional(),
+  icon: z.string().min(1).max(8).optional(),
+  sort_order: z.number().int().optional()
+});
+
+export type UpdateListInput = z.infer<typeof updateListInputSchema>;
+
+// What happens to a deleted list's todos
+export const listDeleteModeSchema = z.enum(['cascade', 'move_to_inbox']);
+
+export type ListDeleteMode = z.infer<typeof listDeleteModeSchema>;
+
+// Input schema for deleting lists
+export const deleteListInputSchema = z.object({
+  id: z.number(),
+  mode: listDeleteModeSchema
+});
+
+export type DeleteListInput = z.infer<typeof deleteListInputSchema>;
+
+// User as exposed by the API, without the password hash
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Input schema for signing up
+export const signUpInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+  name: z.string().trim().min(1).max(100).nullable().optional()
+});
+
+export type SignUpInput = z.infer<typeof signUpInputSchema>;
+
+// Input schema for logging in
+export const logInInputSchema = z.object({
+  email: z.string().trim().toLowerCase(),
+  password: z.string()
+});
+
+export type LogInInput = z.infer<typeof logInInputSchema>;
+
+// Signed-in user with the bearer token for later requests
+export const authSessionSchema = z.object({
+  user: userSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// What an API token may do. Read-only tokens can run queries and
+// subscriptions but no mutations.
+export const apiTokenScopeSchema = z.enum(['read_only', 'read_write']);
+
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+// A personal access token for scripts, sent like a session token as
+// "Authorization: Bearer <token>". The token itself is only shown when created.
+export const apiTokenSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  scope: apiTokenScopeSchema,
+  expires_at: z.coerce.date().nullable(), // Null when it never expires
+  last_used_at: z.coerce.date().nullable(), // Null until first used; updated at most once a minute
+  created_at: z.coerce.date()
+});
+
+export type ApiToken = z.infer<typeof apiTokenSchema>;
+
+export const createdApiTokenSchema = apiTokenSchema.extend({
+  token: z.string()
+});
+
+export type CreatedApiToken = z.infer<typeof createdApiTokenSchema>;
+
+// Input schema for creating API tokens
+export const createApiTokenInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scope: apiTokenScopeSchema,
+  expires_in_days: z.number().int().min(1).max(365).nullable() // Null for a token that never expires
+});
+
+export type CreateApiTokenInput = z.infer<typeof createApiTokenInputSchema>;
+
+// Input schema for revoking API tokens, which stop working at once
+export const revokeApiTokenInputSchema = z.object({
+  id: z.number()
+});
+
+export type RevokeApiTokenInput = z.infer<typeof revokeApiTokenInputSchema>;
+
+// The user's calendar feed, an iCalendar file of their todos that calendar
+// apps subscribe to. Its URL holds a secret token, only shown when created.
+export const calendarFeedSchema = z.object({
+  include_events: z.boolean(), // Dated todos also appear as events
+  created_at: z.coerce.date()
+});
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>;
+
+export const createdCalendarFeedSchema = calendarFeedSchema.extend({
+  path: z.string() // Of the feed on the server, e.g. /calendar/<token>.ics
+});
+
+export type CreatedCalendarFeed = z.infer<typeof createdCalendarFeedSchema>;
+
+// Input schema for creating the calendar feed, which replaces the URL of an
+// existing one
+export const createCalendarFeedInputSchema = z.object({
+  include_events: z.boolean().default(false)
+});
+
+export type CreateCalendarFeedInput = z.infer<typeof createCalendarFeedInputSchema>;
+
+export const updateCalendarFeedInputSchema = z.object({
+  include_events: z.boolean()
+});
+
+export type UpdateCalendarFeedInput = z.infer<typeof updateCalendarFeedInputSchema>;
+
+// Todo events webhooks can subscribe to. 'todo.completed' is sent alongside
+// 'todo.updated' when an update completes a todo.
+export const webhookEventSchema = z.enum([
+  'todo.created',
+  'todo.updated',
+  'todo.completed',
+  'todo.deleted',
+  'todo.restored',
+  'todo.purged'
+]);
+
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+
+// Where todo events are POSTed. Its signing secret is only shown when created.
+export const webhookSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  events: z.array(webhookEventSchema),
+  enabled: z.boolean(), // Disabled webhooks get no new deliveries and hold back pending ones
+  created_at: z.coerce.date()
+});
+
+export type Webhook = z.infer<typeof webhookSchema>;
+
+export const createdWebhookSchema = webhookSchema.extend({
+  secret: z.string() // Key of the HMAC-SHA256 signature sent with each delivery
+});
+
+export type CreatedWebhook = z.infer<typeof createdWebhookSchema>;
+
+const webhookUrlSchema = z.string().url().refine(url => /^https?:\/\//i.test(url), 'URL must use http or https');
+
+const webhookEventsSchema = z.array(webhookEventSchema)
+  .min(1, 'Choose at least one event')
+  .transform(events => [...new Set(events)]);
+
+// Input schema for creating webhooks
+export const createWebhookInputSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  enabled: z.boolean().default(true)
+});
+
+export type CreateWebhookInput = z.infer<typeof createWebhookInputSchema>;
+
+export const updateWebhookInputSchema = z.object({
+  id: z.number(),
+  url: webhookUrlSchema.optional(),
+  events: webhookEventsSchema.optional(),
+  enabled: z.boolean().optional()
+});
+
+export type UpdateWebhookInput = z.infer<typeof updateWebhookInputSchema>;
+
+export const deleteWebhookInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteWebhookInput = z.infer<typeof deleteWebhookInputSchema>;
+
+// 'dead' deliveries failed every attempt and are no longer retried
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'delivered', 'dead']);
+
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+// One event sent, or to be sent, to a webhook, with the outcome of its last attempt
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  webhook_id: z.number(),
+  event: webhookEventSchema,
+  payload: z.record(z.unknown()), // The JSON body, as signed
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date(), // Meaningless once delivered or dead
+  last_attempt_at: z.coerce.date().nullable(),
+  response_status: z.number().int().nullable(), // HTTP status of the last attempt, null when no response came
+  last_error: z.string().nullable(),
+  delivered_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+// Input schema for a webhook's delivery log, newest first
+export const getWebhookDeliveriesInputSchema = z.object({
+  webhook_id: z.number(),
+  status: webhookDeliveryStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  cursor: z.number().int().nullable().optional() // nextCursor of the previous page
+});
+
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesInputSchema>;
+
+export const webhookDeliveryPageSchema = z.object({
+  items: z.array(webhookDeliverySchema),
+  nextCursor: z.number().int().nullable()
+});
+
+export type WebhookDeliveryPage = z.infer<typeof webhookDeliveryPageSchema>;
+
+// Input schema for sending a delivered or dead delivery again, with a fresh
+// set of attempts
+export const retryWebhookDeliveryInputSchema = z.object({
   id: z.number()
 });
 
-export type DeleteTodoInput = z.infer<typeof deleteTodoInputSchema>;
\ No newline at end of file
+export type RetryWebhookDeliveryInput = z.infer<typeof retryWebhookDeliveryInputSchema>;
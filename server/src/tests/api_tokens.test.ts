@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { signUp } from '../handlers/sign_up';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokens } from '../handlers/get_api_tokens';
+import { authenticateToken } from '../helpers/auth';
+import { contextOf, createCaller } from '../router';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test, and their session token
+let ownerId: number;
+let sessionToken: string;
+
+// Calls procedures as a request with the given bearer token would
+const callerFor = async (token: string) => createCaller(await contextOf(token));
+
+describe('API token authentication', () => {
+  beforeEach(async () => {
+    await createDB();
+    const account = await signUp({ email: 'ada@example.com', password: 'correct horse' });
+    ownerId = account.user.id;
+    sessionToken = account.token;
+  });
+  afterEach(resetDB);
+
+  it('should resolve session and API tokens to their user', async () => {
+    const { token } = await createApiToken({ name: 'Cron', scope: 'read_only', expires_in_days: null }, ownerId);
+
+    expect(await authenticateToken(sessionToken)).toMatchObject({ user: { id: ownerId }, scope: 'read_write', isApiToken: false });
+    expect(await authenticateToken(token)).toMatchObject({ user: { id: ownerId }, scope: 'read_only', isApiToken: true });
+    expect(await authenticateToken('todo_pat_unknown')).toBeNull();
+  });
+
+  it('should let read-write tokens call any procedure', async () => {
+    const { token } = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: null }, ownerId);
+    const caller = await callerFor(token);
+
+    const todo = await caller.createTodo({ title: 'From a script', description: null });
+    const page = await caller.getTodos({});
+
+    expect(page.items.map(item => item.id)).toEqual([todo.id]);
+  });
+
+  it('should let read-only tokens query but not mutate', async () => {
+    const { token } = await createApiToken({ name: 'Report', scope: 'read_only', expires_in_days: null }, ownerId);
+    const caller = await callerFor(token);
+
+    expect((await caller.me()).id).toEqual(ownerId);
+    await expect(caller.createTodo({ title: 'Nope', description: null })).rejects.toThrow('This API token is read-only');
+  });
+
+  it('should refuse expired tokens', async () => {
+    const { id, token } = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: 1 }, ownerId);
+    await db.update(apiTokensTable).set({ expires_at: new Date(Date.now() - 1000) }).where(eq(apiTokensTable.id, id)).execute();
+
+    await expect((await callerFor(token)).getTodos({})).rejects.toThrow('You must be logged in');
+  });
+
+  it('should only manage tokens from a session', async () => {
+    const { token } = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: null }, ownerId);
+
+    await expect((await callerFor(token)).createApiToken({ name: 'Another', scope: 'read_write', expires_in_days: null }))
+      .rejects.toThrow('API tokens can only be managed when signed in');
+    expect(await (await callerFor(sessionToken)).getApiTokens()).toHaveLength(1);
+  });
+
+  it('should note when a token was last used', async () => {
+    const { id, token } = await createApiToken({ name: 'Cron', scope: 'read_only', expires_in_days: null }, ownerId);
+    const before = new Date();
+
+    await authenticateToken(token);
+    const [used] = await getApiTokens(ownerId);
+    // Uses within a minute of the last one are not written down
+    await db.update(apiTokensTable).set({ last_used_at: new Date(Date.now() - 30 * 1000) }).where(eq(apiTokensTable.id, id)).execute();
+    await authenticateToken(token);
+    const [recent] = await getApiTokens(ownerId);
+
+    expect(used.last_used_at!.getTime()).toBeGreaterThanOrEqual(before.getTime() - 1000);
+    expect(recent.last_used_at!.getTime()).toBeLessThan(Date.now() - 20 * 1000);
+  });
+});
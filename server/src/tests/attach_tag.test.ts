@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { attachTag } from '../handlers/attach_tag';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const createTodoAndTag = async () => {
+  const [todo] = await db.insert(todosTable)
+    .values({ owner_id: ownerId, title: 'Todo', description: null })
+    .returning()
+    .execute();
+  const [tag] = await db.insert(tagsTable)
+    .values({ owner_id: ownerId, name: 'work', color: '#22c55e' })
+    .returning()
+    .execute();
+
+  return { todo, tag };
+};
+
+describe('attachTag', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should attach a tag to a todo', async () => {
+    const { todo, tag } = await createTodoAndTag();
+
+    const result = await attachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+
+    expect(result.success).toBe(true);
+
+    const links = await db.select().from(todoTagsTable).execute();
+    expect(links).toEqual([{ todo_id: todo.id, tag_id: tag.id }]);
+  });
+
+  it('should ignore attaching the same tag twice', async () => {
+    const { todo, tag } = await createTodoAndTag();
+
+    await attachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+    await attachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+
+    const links = await db.select().from(todoTagsTable).execute();
+    expect(links).toHaveLength(1);
+  });
+
+  it('should throw error when todo does not exist', async () => {
+    const { tag } = await createTodoAndTag();
+
+    await expect(attachTag({ todo_id: 999, tag_id: tag.id }, ownerId)).rejects.toThrow(/todo.*not found/i);
+  });
+
+  it('should throw error when tag does not exist', async () => {
+    const { todo } = await createTodoAndTag();
+
+    await expect(attachTag({ todo_id: todo.id, tag_id: 999 }, ownerId)).rejects.toThrow(/tag.*not found/i);
+  });
+
+  it('should not attach tags to todos of another owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const { todo } = await createTodoAndTag();
+    const [otherTag] = await db.insert(tagsTable)
+      .values({ owner_id: otherOwnerId, name: 'theirs' })
+      .returning()
+      .execute();
+
+    await expect(attachTag({ todo_id: todo.id, tag_id: otherTag.id }, otherOwnerId)).rejects.toThrow(/todo.*not found/i);
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { todoFilterSchema } from '../schema';
+import { bulkDeleteTodos } from '../handlers/bulk_delete_todos';
+import { restoreTodo } from '../handlers/restore_todo';
+import { eq, isNull } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('bulkDeleteTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should move the listed todos and their subtasks to the trash', async () => {
+    const [first, second, kept] = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'First', description: null },
+        { owner_id: ownerId, title: 'Second', description: null },
+        { owner_id: ownerId, title: 'Kept', description: null }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Step', description: null, parent_id: first.id })
+      .execute();
+
+    const result = await bulkDeleteTodos({ target: { ids: [first.id, second.id, 999] } }, ownerId);
+
+    expect(result.results).toEqual([
+      { id: first.id, success: true, error: null },
+      { id: second.id, success: true, error: null },
+      { id: 999, success: false, error: 'Todo with id 999 not found' }
+    ]);
+    const live = await db.select().from(todosTable).where(isNull(todosTable.deleted_at)).execute();
+    expect(live.map(todo => todo.id)).toEqual([kept.id]);
+  });
+
+  it('should let each todo be restored with its subtasks', async () => {
+    const [parent, other] = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Parent', description: null },
+        { owner_id: ownerId, title: 'Other', description: null }
+      ])
+      .returning()
+      .execute();
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+    await bulkDeleteTodos({ target: { ids: [parent.id, other.id] } }, ownerId);
+
+    await restoreTodo({ id: parent.id }, ownerId);
+
+    const live = await db.select().from(todosTable).where(isNull(todosTable.deleted_at)).execute();
+    expect(live.map(todo => todo.id).sort()).toEqual([parent.id, child.id].sort());
+  });
+
+  it('should trash todos matching a filter', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Done', description: null, completed: true },
+        { owner_id: ownerId, title: 'Open', description: null }
+      ])
+      .execute();
+
+    const result = await bulkDeleteTodos({ target: { filter: todoFilterSchema.parse({ status: 'completed' }) } }, ownerId);
+
+    expect(result.results).toHaveLength(1);
+    const [done] = await db.select().from(todosTable).where(eq(todosTable.title, 'Done')).execute();
+    expect(done.deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should not touch todos of another owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const [theirs] = await db.insert(todosTable)
+      .values({ owner_id: otherOwnerId, title: 'Theirs', description: null })
+      .returning()
+      .execute();
+
+    const result = await bulkDeleteTodos({ target: { ids: [theirs.id] } }, ownerId);
+
+    expect(result.results[0].success).toBe(false);
+    const [row] = await db.select().from(todosTable).execute();
+    expect(row.deleted_at).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { bulkUpdateTodosInputSchema, todoFilterSchema } from '../schema';
+import { bulkUpdateTodos } from '../handlers/bulk_update_todos';
+import { asc, eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const createTodos = (titles: string[], values: Partial<typeof todosTable.$inferInsert> = {}) =>
+  db.insert(todosTable)
+    .values(titles.map(title => ({ owner_id: ownerId, title, description: null, ...values })))
+    .returning()
+    .execute();
+
+describe('bulkUpdateTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should update every listed todo and report each one', async () => {
+    const [first, second] = await createTodos(['First', 'Second']);
+
+    const result = await bulkUpdateTodos({
+      target: { ids: [second.id, first.id] },
+      changes: { completed: true, priority: 'high' }
+    }, ownerId);
+
+    expect(result.results).toEqual([
+      { id: second.id, success: true, error: null },
+      { id: first.id, success: true, error: null }
+    ]);
+    const rows = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    expect(rows.map(row => [row.completed, row.priority, row.version])).toEqual([
+      [true, 'high', 2],
+      [true, 'high', 2]
+    ]);
+  });
+
+  it('should report listed ids that cannot be updated', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const [mine] = await createTodos(['Mine']);
+    const [trashed] = await createTodos(['Trashed'], { deleted_at: new Date() });
+    const [theirs] = await db.insert(todosTable)
+      .values({ owner_id: otherOwnerId, title: 'Theirs', description: null })
+      .returning()
+      .execute();
+
+    const result = await bulkUpdateTodos({
+      target: { ids: [mine.id, trashed.id, theirs.id] },
+      changes: { completed: true }
+    }, ownerId);
+
+    expect(result.results.map(item => item.success)).toEqual([true, false, false]);
+    expect(result.results[1].error).toMatch(/not found/i);
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, theirs.id)).execute();
+    expect(row.completed).toBe(false);
+  });
+
+  it('should update todos matching a filter', async () => {
+    const [work] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    await createTodos(['Report', 'Slides'], { list_id: work.id });
+    await createTodos(['Groceries']);
+
+    const result = await bulkUpdateTodos({
+      target: { filter: todoFilterSchema.parse({ list_id: work.id }) },
+      changes: { priority: 'urgent' }
+    }, ownerId);
+
+    expect(result.results).toHaveLength(2);
+    const urgent = await db.select().from(todosTable).where(eq(todosTable.priority, 'urgent')).execute();
+    expect(urgent.map(todo => todo.title).sort()).toEqual(['Report', 'Slides']);
+  });
+
+  it('should add and remove tags', async () => {
+    const [home, work] = await db.insert(tagsTable)
+      .values([{ owner_id: ownerId, name: 'home' }, { owner_id: ownerId, name: 'work' }])
+      .returning()
+      .execute();
+    const [first, second] = await createTodos(['First', 'Second']);
+    await db.insert(todoTagsTable).values({ todo_id: first.id, tag_id: home.id }).execute();
+
+    await bulkUpdateTodos({
+      target: { ids: [first.id, second.id] },
+      changes: { add_tag_ids: [work.id], remove_tag_ids: [home.id] }
+    }, ownerId);
+
+    const attachments = await db.select().from(todoTagsTable).execute();
+    expect(attachments.map(row => [row.todo_id, row.tag_id]).sort()).toEqual([
+      [first.id, work.id],
+      [second.id, work.id]
+    ]);
+  });
+
+  it('should move subtasks along with their todo', async () => {
+    const [work] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const [parent] = await createTodos(['Parent']);
+    const [child] = await createTodos(['Child'], { parent_id: parent.id });
+
+    await bulkUpdateTodos({ target: { ids: [parent.id] }, changes: { list_id: work.id } }, ownerId);
+
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(row.list_id).toEqual(work.id);
+  });
+
+  it('should not move subtasks away from their parent\'s list', async () => {
+    const [work] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const [parent, other] = await createTodos(['Parent', 'Other']);
+    const [child] = await createTodos(['Child'], { parent_id: parent.id });
+
+    const result = await bulkUpdateTodos({
+      target: { ids: [child.id, other.id] },
+      changes: { list_id: work.id, priority: 'high' }
+    }, ownerId);
+
+    expect(result.results).toEqual([
+      { id: child.id, success: false, error: `Subtasks stay in their parent's list; move todo ${parent.id} instead` },
+      { id: other.id, success: true, error: null }
+    ]);
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(row.list_id).toBeNull();
+    expect(row.priority).toEqual('none');
+    expect(row.version).toEqual(child.version);
+
+    // Listed with their parent, they move along with it
+    await bulkUpdateTodos({ target: { ids: [parent.id, child.id] }, changes: { list_id: work.id } }, ownerId);
+    const [moved] = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(moved.list_id).toEqual(work.id);
+  });
+
+  it('should schedule the next occurrence of completed recurring todos', async () => {
+    const [todo] = await createTodos(['Water plants'], {
+      due_at: new Date('2024-05-01T09:00:00Z'),
+      due_time_zone: 'UTC',
+      recurrence_rule: 'FREQ=DAILY'
+    });
+
+    await bulkUpdateTodos({ target: { ids: [todo.id] }, changes: { completed: true } }, ownerId);
+
+    const rows = await db.select().from(todosTable).orderBy(asc(todosTable.id)).execute();
+    expect(rows).toHaveLength(2);
+    expect(rows[1].due_at).toEqual(new Date('2024-05-02T09:00:00Z'));
+    expect(rows[1].recurrence_rule).toEqual('FREQ=DAILY');
+  });
+
+  it('should change nothing when a tag or list does not exist', async () => {
+    const [todo] = await createTodos(['Mine']);
+
+    await expect(bulkUpdateTodos({
+      target: { ids: [todo.id] },
+      changes: { completed: true, add_tag_ids: [999] }
+    }, ownerId)).rejects.toBeInstanceOf(NotFoundError);
+
+    const [row] = await db.select().from(todosTable).execute();
+    expect(row.completed).toBe(false);
+  });
+
+  it('should require at least one change', () => {
+    const result = bulkUpdateTodosInputSchema.safeParse({ target: { ids: [1] }, changes: {} });
+    expect(result.success).toBe(false);
+  });
+});
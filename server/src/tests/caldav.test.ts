@@ -0,0 +1,325 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { signUp } from '../handlers/sign_up';
+import { createList } from '../handlers/create_list';
+import { createTodo } from '../handlers/create_todo';
+import { createTag } from '../handlers/create_tag';
+import { attachTag } from '../handlers/attach_tag';
+import { updateTag } from '../handlers/update_tag';
+import { getTodos } from '../handlers/get_todos';
+import { updateTodo } from '../handlers/update_todo';
+import { createApiToken } from '../handlers/create_api_token';
+import { getTodosInputSchema } from '../schema';
+import { handleCalDAV, isCalDAVRequest } from '../caldav';
+import { todoTagsTable } from '../db/schema';
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+
+const EMAIL = 'ada@example.com';
+const PASSWORD = 'correct horse';
+const AUTHORIZATION = `Basic ${Buffer.from(`${EMAIL}:${PASSWORD}`).toString('base64')}`;
+
+let server: Server;
+let baseUrl: string;
+let ownerId: number;
+let sessionToken: string;
+let listId: number;
+
+// Sends a raw CalDAV request, signed in as the test user unless told otherwise
+const request = (method: string, path: string, body?: string, headers: Record<string, string> = {}) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    body,
+    redirect: 'manual',
+    headers: { Authorization: AUTHORIZATION, ...headers }
+  });
+
+// The live top-level todos of a list
+const todosIn = async (id: number, owner = ownerId) =>
+  (await getTodos(getTodosInputSchema.parse({ list_id: id }), owner)).items;
+
+const vtodo = (uid: string, lines: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//Client//EN',
+  'BEGIN:VTODO',
+  `UID:${uid}`,
+  'DTSTAMP:20261018T090000Z',
+  ...lines,
+  'END:VTODO',
+  'END:VCALENDAR',
+  ''
+].join('\r\n');
+
+const propfind = (props: string) =>
+  `<?xml version="1.0"?><d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/"><d:prop>${props}</d:prop></d:propfind>`;
+
+const hrefsOf = (xml: string): string[] => [...xml.matchAll(/<d:href>([^<]*)<\/d:href>/g)].map(match => match[1]);
+
+describe('CalDAV', () => {
+  beforeEach(async () => {
+    await createDB();
+    const account = await signUp({ email: EMAIL, password: PASSWORD });
+    ownerId = account.user.id;
+    sessionToken = account.token;
+    listId = (await createList({ name: 'Errands', color: '#22c55e' }, ownerId)).id;
+
+    server = createServer((req, res) => {
+      if (isCalDAVRequest(req.url)) {
+        handleCalDAV(req, res);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  it('should ask for credentials and accept passwords or session tokens', async () => {
+    const anonymous = await request('PROPFIND', '/caldav/', undefined, { Authorization: '' });
+    const wrongPassword = await request('PROPFIND', '/caldav/', undefined, {
+      Authorization: `Basic ${Buffer.from(`${EMAIL}:wrong horse`).toString('base64')}`
+    });
+    const bearer = await request('PROPFIND', '/caldav/', undefined, { Authorization: `Bearer ${sessionToken}`, Depth: '0' });
+
+    expect(anonymous.status).toEqual(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('Basic');
+    expect(wrongPassword.status).toEqual(401);
+    expect(bearer.status).toEqual(207);
+  });
+
+  it('should let read-only API tokens read but not write', async () => {
+    const { token } = await createApiToken({ name: 'Calendar sync', scope: 'read_only', expires_in_days: null }, ownerId);
+    const headers = { Authorization: `Bearer ${token}` };
+
+    const read = await request('PROPFIND', '/caldav/', undefined, { ...headers, Depth: '0' });
+    const write = await request('PUT', `/caldav/calendars/${listId}/new.ics`, vtodo('new@client', ['SUMMARY:Nope']), headers);
+
+    expect(read.status).toEqual(207);
+    expect(write.status).toEqual(403);
+    expect(await todosIn(listId)).toEqual([]);
+  });
+
+  it('should advertise CalDAV and redirect the well-known URL', async () => {
+    const options = await request('OPTIONS', '/caldav/', undefined, { Authorization: '' });
+    const wellKnown = await request('GET', '/.well-known/caldav');
+
+    expect(options.status).toEqual(200);
+    expect(options.headers.get('dav')).toContain('calendar-access');
+    expect(wellKnown.status).toEqual(301);
+    expect(wellKnown.headers.get('location')).toEqual('/caldav/');
+  });
+
+  it('should lead clients from the root to the calendar home', async () => {
+    const root = await (await request('PROPFIND', '/caldav/', propfind('<d:current-user-principal/>'), { Depth: '0' })).text();
+    const principal = await (await request('PROPFIND', '/caldav/principal/', propfind('<c:calendar-home-set/><d:displayname/>'), { Depth: '0' })).text();
+
+    expect(root).toContain('<d:current-user-principal><d:href>/caldav/principal/</d:href></d:current-user-principal>');
+    expect(principal).toContain('<c:calendar-home-set><d:href>/caldav/calendars/</d:href></c:calendar-home-set>');
+    expect(principal).toContain(`<d:displayname>${EMAIL}</d:displayname>`);
+  });
+
+  it('should list each list as a calendar of todos', async () => {
+    const response = await request('PROPFIND', '/caldav/calendars/', propfind('<d:resourcetype/><d:displayname/><c:supported-calendar-component-set/><d:owner/>'), { Depth: '1' });
+    const body = await response.text();
+
+    expect(response.status).toEqual(207);
+    expect(hrefsOf(body)).toEqual(['/caldav/calendars/', `/caldav/calendars/${listId}/`]);
+    expect(body).toContain('<d:resourcetype><d:collection/><c:calendar/></d:resourcetype>');
+    expect(body).toContain('<d:displayname>Errands</d:displayname>');
+    expect(body).toContain('<c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>');
+    // Properties it does not have are reported missing, not left out
+    expect(body).toContain('<x:owner xmlns:x="DAV:"/></d:prop><d:status>HTTP/1.1 404 Not Found</d:status>');
+  });
+
+  it('should list the todos of a calendar with their versions as ETags', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    await createTodo({ title: 'Elsewhere', description: null }, ownerId);
+
+    const body = await (await request('PROPFIND', `/caldav/calendars/${listId}/`, propfind('<d:getetag/><cs:getctag/>'), { Depth: '1' })).text();
+
+    expect(hrefsOf(body)).toEqual([`/caldav/calendars/${listId}/`, `/caldav/calendars/${listId}/todo-${todo.id}.ics`]);
+    expect(body).toContain(`<d:getetag>&quot;${todo.version}&quot;</d:getetag>`);
+    expect(body).toMatch(/<cs:getctag>[^<]+<\/cs:getctag>/);
+  });
+
+  it('should change the calendar tag when a todo changes', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const ctag = async () => /<cs:getctag>([^<]+)</.exec(await (await request('PROPFIND', `/caldav/calendars/${listId}/`, propfind('<cs:getctag/>'), { Depth: '0' })).text())?.[1];
+
+    const before = await ctag();
+    await updateTodo({ id: todo.id, expectedVersion: todo.version, title: 'Buy oat milk' }, ownerId);
+
+    expect(await ctag()).not.toEqual(before);
+  });
+
+  it('should change ETags and the calendar tag when tags change', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const tag = await createTag({ name: 'work' }, ownerId);
+    const path = `/caldav/calendars/${listId}/todo-${todo.id}.ics`;
+    const etag = async () => (await request('GET', path)).headers.get('etag');
+    const ctag = async () => (await request('GET', `/caldav/calendars/${listId}/`)).headers.get('etag');
+
+    const before = { etag: await etag(), ctag: await ctag() };
+    await attachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+    const attached = { etag: await etag(), ctag: await ctag() };
+    await updateTag({ id: tag.id, name: 'office' }, ownerId);
+    const renamed = { etag: await etag(), ctag: await ctag() };
+
+    expect(before.etag).toEqual(`"${todo.version}"`);
+    expect(attached.etag).not.toEqual(before.etag);
+    expect(attached.ctag).not.toEqual(before.ctag);
+    expect(renamed.etag).not.toEqual(attached.etag);
+    expect(renamed.ctag).not.toEqual(attached.ctag);
+    // A client holding the tag-blind ETag cannot overwrite the tags
+    expect((await request('PUT', path, vtodo(`todo-${todo.id}@todo-app`, ['SUMMARY:Buy milk']), { 'If-Match': before.etag! })).status)
+      .toEqual(412);
+  });
+
+  it('should filter todos with calendar-query', async () => {
+    const open = await createTodo({ title: 'Open', description: null, list_id: listId }, ownerId);
+    const done = await createTodo({ title: 'Done', description: null, list_id: listId }, ownerId);
+    await updateTodo({ id: done.id, expectedVersion: done.version, completed: true }, ownerId);
+
+    const query = `<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+      <d:prop><d:getetag/><c:calendar-data/></d:prop>
+      <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VTODO">
+        <c:prop-filter name="COMPLETED"><c:is-not-defined/></c:prop-filter>
+      </c:comp-filter></c:comp-filter></c:filter>
+    </c:calendar-query>`;
+    const body = await (await request('REPORT', `/caldav/calendars/${listId}/`, query, { Depth: '1' })).text();
+
+    expect(hrefsOf(body)).toEqual([`/caldav/calendars/${listId}/todo-${open.id}.ics`]);
+    expect(body).toContain('SUMMARY:Open');
+    expect(body).toContain(`UID:todo-${open.id}@todo-app`);
+  });
+
+  it('should fetch todos by href with calendar-multiget', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const href = `/caldav/calendars/${listId}/todo-${todo.id}.ics`;
+    const missing = `/caldav/calendars/${listId}/todo-0.ics`;
+
+    const multiget = `<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+      <d:prop><d:getetag/><c:calendar-data/></d:prop>
+      <d:href>${baseUrl}${href}</d:href><d:href>${missing}</d:href>
+    </c:calendar-multiget>`;
+    const body = await (await request('REPORT', `/caldav/calendars/${listId}/`, multiget)).text();
+
+    expect(hrefsOf(body)).toEqual([href, missing]);
+    expect(body).toContain('SUMMARY:Buy milk');
+    expect(body).toContain('<d:status>HTTP/1.1 404 Not Found</d:status>');
+  });
+
+  it('should create a todo from a PUT and serve it back', async () => {
+    const path = `/caldav/calendars/${listId}/client-chosen.ics`;
+    const body = vtodo('abc-123@client', ['SUMMARY:Water plants', 'DUE;VALUE=DATE:20261020', 'PRIORITY:1', 'CATEGORIES:home,garden']);
+
+    const created = await request('PUT', path, body, { 'Content-Type': 'text/calendar', 'If-None-Match': '*' });
+    const [todo] = await todosIn(listId);
+    const fetched = await request('GET', path);
+    const text = await fetched.text();
+
+    expect(created.status).toEqual(201);
+    expect(created.headers.get('etag')).toStartWith(`"${todo.version}-`);
+    expect(todo.title).toEqual('Water plants');
+    expect(todo.priority).toEqual('urgent');
+    expect(todo.due_all_day).toBe(true);
+    expect(todo.tags.map(tag => tag.name).sort()).toEqual(['garden', 'home']);
+    expect(fetched.headers.get('etag')).toEqual(created.headers.get('etag'));
+    expect(text).toContain('UID:abc-123@client');
+    expect(text).toContain('SUMMARY:Water plants');
+    // The default name no longer reaches it
+    expect((await request('GET', `/caldav/calendars/${listId}/todo-${todo.id}.ics`)).status).toEqual(404);
+  });
+
+  it('should update a todo when the ETag matches and refuse stale writes', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const tag = await createTag({ name: 'shopping' }, ownerId);
+    await attachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+    const path = `/caldav/calendars/${listId}/todo-${todo.id}.ics`;
+    const body = vtodo(`todo-${todo.id}@todo-app`, ['SUMMARY:Buy oat milk', 'STATUS:COMPLETED']);
+    const etag = (await request('GET', path)).headers.get('etag')!;
+
+    const stale = await request('PUT', path, body, { 'If-Match': `"${todo.version}"` });
+    const updated = await request('PUT', path, body, { 'If-Match': etag });
+    const [saved] = await todosIn(listId);
+
+    expect(stale.status).toEqual(412);
+    expect(updated.status).toEqual(204);
+    expect(updated.headers.get('etag')).toEqual(`"${saved.version}"`);
+    expect(saved.title).toEqual('Buy oat milk');
+    expect(saved.completed).toBe(true);
+    expect(await db.select().from(todoTagsTable).where(eq(todoTagsTable.todo_id, todo.id))).toHaveLength(0);
+  });
+
+  it('should refuse to create over an existing todo or reuse its UID', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const body = vtodo(`todo-${todo.id}@todo-app`, ['SUMMARY:Copy']);
+
+    const over = await request('PUT', `/caldav/calendars/${listId}/todo-${todo.id}.ics`, body, { 'If-None-Match': '*' });
+    const reused = await request('PUT', `/caldav/calendars/${listId}/copy.ics`, body);
+
+    expect(over.status).toEqual(412);
+    expect(reused.status).toEqual(403);
+    expect(await reused.text()).toContain('<c:no-uid-conflict>');
+  });
+
+  it('should reject data that is not a todo', async () => {
+    const path = `/caldav/calendars/${listId}/event.ics`;
+    const event = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VEVENT\r\nUID:e1\r\nSUMMARY:Party\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n';
+
+    const unsupported = await request('PUT', path, event);
+    const broken = await request('PUT', path, 'BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\n');
+    const untitled = await request('PUT', path, vtodo('no-title@client', []));
+
+    expect(unsupported.status).toEqual(403);
+    expect(await unsupported.text()).toContain('<c:supported-calendar-component/>');
+    expect(broken.status).toEqual(400);
+    expect(untitled.status).toEqual(403);
+    expect(await untitled.text()).toContain('<c:valid-calendar-data/>');
+  });
+
+  it('should move a todo to the list its UID is PUT into', async () => {
+    const otherListId = (await createList({ name: 'Home' }, ownerId)).id;
+    const todo = await createTodo({ title: 'Fix shelf', description: null, list_id: listId }, ownerId);
+
+    const moved = await request('PUT', `/caldav/calendars/${otherListId}/shelf.ics`, vtodo(`todo-${todo.id}@todo-app`, ['SUMMARY:Fix shelf']));
+    const [saved] = await todosIn(otherListId);
+
+    expect(moved.status).toEqual(204);
+    expect(saved.id).toEqual(todo.id);
+    expect((await request('GET', `/caldav/calendars/${otherListId}/shelf.ics`)).status).toEqual(200);
+  });
+
+  it('should delete a todo when the ETag matches', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null, list_id: listId }, ownerId);
+    const path = `/caldav/calendars/${listId}/todo-${todo.id}.ics`;
+
+    const stale = await request('DELETE', path, undefined, { 'If-Match': '"999"' });
+    const deleted = await request('DELETE', path, undefined, { 'If-Match': `"${todo.version}"` });
+
+    expect(stale.status).toEqual(412);
+    expect(deleted.status).toEqual(204);
+    expect(await todosIn(listId)).toHaveLength(0);
+    expect((await request('GET', path)).status).toEqual(404);
+  });
+
+  it('should not reach other users\' lists', async () => {
+    const other = await signUp({ email: 'bob@example.com', password: 'another horse' });
+    const theirListId = (await createList({ name: 'Secret' }, other.user.id)).id;
+
+    const found = await request('PROPFIND', `/caldav/calendars/${theirListId}/`, propfind('<d:displayname/>'), { Depth: '0' });
+    const written = await request('PUT', `/caldav/calendars/${theirListId}/x.ics`, vtodo('x@client', ['SUMMARY:Sneaky']));
+
+    expect(found.status).toEqual(404);
+    expect(written.status).toEqual(409);
+    expect(await todosIn(theirListId, other.user.id)).toHaveLength(0);
+  });
+});
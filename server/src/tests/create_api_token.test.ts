@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { apiTokensTable } from '../db/schema';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokens } from '../handlers/get_api_tokens';
+import { hashToken } from '../helpers/auth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('createApiToken', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a token, storing only its hash', async () => {
+    const created = await createApiToken({ name: 'Nightly backup', scope: 'read_only', expires_in_days: null }, ownerId);
+    const [row] = await db.select().from(apiTokensTable).execute();
+
+    expect(created.token).toMatch(/^todo_pat_[A-Za-z0-9_-]{43}$/);
+    expect(created).toMatchObject({ name: 'Nightly backup', scope: 'read_only', expires_at: null, last_used_at: null });
+    expect(row.token_hash).toEqual(hashToken(created.token));
+    expect(JSON.stringify(row)).not.toContain(created.token);
+  });
+
+  it('should expire after the given number of days', async () => {
+    const before = Date.now();
+    const created = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: 30 }, ownerId);
+
+    expect(created.expires_at!.getTime()).toBeGreaterThanOrEqual(before + 30 * DAY_MS);
+    expect(created.expires_at!.getTime()).toBeLessThanOrEqual(Date.now() + 30 * DAY_MS);
+  });
+
+  it('should list the owner\'s tokens newest first without their values', async () => {
+    const otherId = await createTestUser('other@example.com');
+    await createApiToken({ name: 'Theirs', scope: 'read_write', expires_in_days: null }, otherId);
+    const first = await createApiToken({ name: 'First', scope: 'read_only', expires_in_days: null }, ownerId);
+    await createApiToken({ name: 'Second', scope: 'read_write', expires_in_days: 7 }, ownerId);
+
+    const tokens = await getApiTokens(ownerId);
+
+    expect(tokens.map(token => token.name)).toEqual(['Second', 'First']);
+    expect(tokens[1]).toEqual({
+      id: first.id,
+      name: 'First',
+      scope: 'read_only',
+      expires_at: null,
+      last_used_at: null,
+      created_at: first.created_at
+    });
+  });
+});
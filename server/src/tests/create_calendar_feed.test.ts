@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { readCalendarFeed } from '../handlers/read_calendar_feed';
+import { calendarFeedToken } from '../helpers/calendarFeeds';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('createCalendarFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a feed with a secret URL', async () => {
+    const feed = await createCalendarFeed({ include_events: true }, ownerId);
+    const token = calendarFeedToken(feed.path);
+
+    expect(feed.path).toMatch(/^\/calendar\/[A-Za-z0-9_-]{43}\.ics$/);
+    expect(feed.include_events).toBe(true);
+    expect(token).not.toBeNull();
+    expect(await readCalendarFeed(token!)).not.toBeNull();
+  });
+
+  it('should give an existing feed a new URL', async () => {
+    const first = await createCalendarFeed({ include_events: false }, ownerId);
+    const second = await createCalendarFeed({ include_events: false }, ownerId);
+
+    expect(second.path).not.toEqual(first.path);
+    expect(await readCalendarFeed(calendarFeedToken(first.path)!)).toBeNull();
+    expect(await readCalendarFeed(calendarFeedToken(second.path)!)).not.toBeNull();
+  });
+});
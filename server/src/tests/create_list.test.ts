@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput } from '../schema';
+import { createList } from '../handlers/create_list';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const testInput: CreateListInput = {
+  name: 'Groceries',
+  color: '#22c55e',
+  icon: '🛒',
+  sort_order: 5
+};
+
+describe('createList', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a list', async () => {
+    const result = await createList(testInput, ownerId);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Groceries');
+    expect(result.color).toEqual('#22c55e');
+    expect(result.icon).toEqual('🛒');
+    expect(result.sort_order).toEqual(5);
+    expect(result.is_inbox).toEqual(false);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save list to database', async () => {
+    const result = await createList(testInput, ownerId);
+
+    const lists = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, result.id))
+      .execute();
+
+    expect(lists).toHaveLength(1);
+    expect(lists[0].name).toEqual('Groceries');
+  });
+
+  it('should apply defaults and place new lists last', async () => {
+    const first = await createList({ name: 'First' }, ownerId);
+    const second = await createList({ name: 'Second' }, ownerId);
+
+    expect(first.color).toEqual('#6366f1');
+    expect(first.icon).toEqual('📋');
+    expect(second.sort_order).toBeGreaterThan(first.sort_order);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type CreateTagInput } from '../schema';
+import { createTag } from '../handlers/create_tag';
+import { eq } from 'drizzle-orm';
+import { ConflictError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const testInput: CreateTagInput = {
+  name: 'work',
+  color: '#22c55e'
+};
+
+describe('createTag', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a tag', async () => {
+    const result = await createTag(testInput, ownerId);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('work');
+    expect(result.color).toEqual('#22c55e');
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save tag to database', async () => {
+    const result = await createTag(testInput, ownerId);
+
+    const tags = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, result.id))
+      .execute();
+
+    expect(tags).toHaveLength(1);
+    expect(tags[0].name).toEqual('work');
+    expect(tags[0].color).toEqual('#22c55e');
+  });
+
+  it('should apply the default color when none is given', async () => {
+    const result = await createTag({ name: 'home' }, ownerId);
+
+    expect(result.color).toEqual('#64748b');
+  });
+
+  it('should reject duplicate names regardless of case', async () => {
+    await createTag(testInput, ownerId);
+
+    await expect(createTag({ name: 'WORK', color: '#000000' }, ownerId)).rejects.toThrow(/already exists/i);
+    await expect(createTag({ name: 'WORK', color: '#000000' }, ownerId)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should allow the same name for different owners', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    await createTag(testInput, ownerId);
+
+    const result = await createTag(testInput, otherOwnerId);
+
+    expect(result.owner_id).toEqual(otherOwnerId);
+  });
+});
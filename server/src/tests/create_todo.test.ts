@@ -1,11 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
 import { type CreateTodoInput } from '../schema';
 import { createTodo } from '../handlers/create_todo';
 import { eq } from 'drizzle-orm';
 
+// Owner of the records created in each test
+let ownerId: number;
+
 // Test inputs
 const basicTodoInput: CreateTodoInput = {
   title: 'Test Todo',
@@ -23,11 +26,14 @@ const minimalTodoInput: CreateTodoInput = {
 };
 
 describe('createTodo', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should create a todo with description', async () => {
-    const result = await createTodo(basicTodoInput);
+    const result = await createTodo(basicTodoInput, ownerId);
 
     // Basic field validation
     expect(result.title).toEqual('Test Todo');
@@ -41,7 +47,7 @@ describe('createTodo', () => {
   });
 
   it('should create a todo with null description', async () => {
-    const result = await createTodo(todoWithNullDescription);
+    const result = await createTodo(todoWithNullDescription, ownerId);
 
     expect(result.title).toEqual('Todo without description');
     expect(result.description).toBeNull();
@@ -52,7 +58,7 @@ describe('createTodo', () => {
   });
 
   it('should save todo to database', async () => {
-    const result = await createTodo(basicTodoInput);
+    const result = await createTodo(basicTodoInput, ownerId);
 
     // Query using proper drizzle syntax
     const todos = await db.select()
@@ -72,7 +78,7 @@ describe('createTodo', () => {
   });
 
   it('should set completed to false by default', async () => {
-    const result = await createTodo(minimalTodoInput);
+    const result = await createTodo(minimalTodoInput, ownerId);
 
     expect(result.completed).toEqual(false);
     
@@ -87,7 +93,7 @@ describe('createTodo', () => {
 
   it('should set timestamps automatically', async () => {
     const beforeCreation = new Date();
-    const result = await createTodo(basicTodoInput);
+    const result = await createTodo(basicTodoInput, ownerId);
     const afterCreation = new Date();
 
     // Check that timestamps are within reasonable range
@@ -100,8 +106,8 @@ describe('createTodo', () => {
   });
 
   it('should handle multiple todos creation', async () => {
-    const todo1 = await createTodo({ title: 'First Todo', description: 'First description' });
-    const todo2 = await createTodo({ title: 'Second Todo', description: null });
+    const todo1 = await createTodo({ title: 'First Todo', description: 'First description' }, ownerId);
+    const todo2 = await createTodo({ title: 'Second Todo', description: null }, ownerId);
 
     // Should have different IDs
     expect(todo1.id).not.toEqual(todo2.id);
@@ -121,7 +127,7 @@ describe('createTodo', () => {
       description: 'Testing special characters and emojis'
     };
 
-    const result = await createTodo(specialTitleInput);
+    const result = await createTodo(specialTitleInput, ownerId);
 
     expect(result.title).toEqual('Special chars: !@#$%^&*() and unicode: 🚀 📝 ✅');
     expect(result.description).toEqual('Testing special characters and emojis');
@@ -134,4 +140,186 @@ describe('createTodo', () => {
 
     expect(savedTodos[0].title).toEqual('Special chars: !@#$%^&*() and unicode: 🚀 📝 ✅');
   });
-});
\ No newline at end of file
+
+  it('should create a todo without a due date by default', async () => {
+    const result = await createTodo(minimalTodoInput, ownerId);
+
+    expect(result.due_at).toBeNull();
+    expect(result.due_all_day).toEqual(false);
+    expect(result.due_time_zone).toBeNull();
+  });
+
+  it('should create a todo with a timed due date', async () => {
+    const dueAt = new Date('2025-03-14T15:30:00Z');
+    const result = await createTodo({
+      title: 'Timed Todo',
+      description: null,
+      due_at: dueAt,
+      due_all_day: false,
+      due_time_zone: 'Europe/Lisbon'
+    }, ownerId);
+
+    expect(result.due_at).toEqual(dueAt);
+    expect(result.due_all_day).toEqual(false);
+    expect(result.due_time_zone).toEqual('Europe/Lisbon');
+
+    const savedTodos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, result.id))
+      .execute();
+
+    expect(savedTodos[0].due_at).toEqual(dueAt);
+  });
+
+  it('should store all-day due dates as UTC midnight', async () => {
+    const result = await createTodo({
+      title: 'All-day Todo',
+      description: null,
+      due_at: new Date('2025-03-14T15:30:00Z'),
+      due_all_day: true,
+      due_time_zone: null
+    }, ownerId);
+
+    expect(result.due_at).toEqual(new Date('2025-03-14T00:00:00Z'));
+    expect(result.due_all_day).toEqual(true);
+  });
+
+  it('should default priority to none', async () => {
+    const result = await createTodo(minimalTodoInput, ownerId);
+
+    expect(result.priority).toEqual('none');
+  });
+
+  it('should create a todo with the given priority', async () => {
+    const result = await createTodo({
+      title: 'Urgent Todo',
+      description: null,
+      priority: 'urgent'
+    }, ownerId);
+
+    expect(result.priority).toEqual('urgent');
+
+    const savedTodos = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.id, result.id))
+      .execute();
+
+    expect(savedTodos[0].priority).toEqual('urgent');
+  });
+
+  it('should attach tags given on creation', async () => {
+    const tags = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work', color: '#22c55e' },
+        { owner_id: ownerId, name: 'blocked', color: '#ef4444' }
+      ])
+      .returning()
+      .execute();
+
+    const result = await createTodo({
+      title: 'Tagged Todo',
+      description: null,
+      tag_ids: tags.map(tag => tag.id)
+    }, ownerId);
+
+    const links = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, result.id))
+      .execute();
+
+    expect(links.map(link => link.tag_id).sort()).toEqual(tags.map(tag => tag.id).sort());
+  });
+
+  it('should not create the todo when a tag does not exist', async () => {
+    await expect(createTodo({
+      title: 'Tagged Todo',
+      description: null,
+      tag_ids: [999]
+    }, ownerId)).rejects.toThrow(/not found/i);
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(0);
+  });
+
+  it('should place todos in the Inbox by default', async () => {
+    const result = await createTodo(minimalTodoInput, ownerId);
+
+    const [inbox] = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.is_inbox, true))
+      .execute();
+
+    expect(inbox.name).toEqual('Inbox');
+    expect(result.list_id).toEqual(inbox.id);
+
+    // The same Inbox is reused
+    const second = await createTodo(minimalTodoInput, ownerId);
+    expect(second.list_id).toEqual(inbox.id);
+  });
+
+  it('should create a todo in the given list', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+
+    const result = await createTodo({ ...minimalTodoInput, list_id: list.id }, ownerId);
+
+    expect(result.list_id).toEqual(list.id);
+  });
+
+  it('should throw error when the list does not exist', async () => {
+    await expect(createTodo({ ...minimalTodoInput, list_id: 999 }, ownerId)).rejects.toThrow(/list.*not found/i);
+  });
+
+  it('should create a subtask in its parent\'s list', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const parent = await createTodo({ ...minimalTodoInput, list_id: list.id }, ownerId);
+
+    const result = await createTodo({ ...minimalTodoInput, parent_id: parent.id }, ownerId);
+
+    expect(result.parent_id).toEqual(parent.id);
+    expect(result.list_id).toEqual(list.id);
+  });
+
+  it('should place new todos ahead of their siblings', async () => {
+    const older = await createTodo(minimalTodoInput, ownerId);
+    const newer = await createTodo(minimalTodoInput, ownerId);
+    const subtask = await createTodo({ ...minimalTodoInput, parent_id: newer.id }, ownerId);
+
+    expect(newer.position < older.position).toBe(true);
+    // Subtasks are ranked among their own siblings
+    expect(subtask.position).toEqual(older.position);
+  });
+
+  it('should throw error when the parent does not exist', async () => {
+    await expect(createTodo({ ...minimalTodoInput, parent_id: 999 }, ownerId)).rejects.toThrow(/parent.*not found/i);
+  });
+
+  it('should delete subtasks together with their parent', async () => {
+    const parent = await createTodo(minimalTodoInput, ownerId);
+    await createTodo({ ...minimalTodoInput, parent_id: parent.id }, ownerId);
+
+    await db.delete(todosTable).where(eq(todosTable.id, parent.id)).execute();
+
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should create a recurring todo', async () => {
+    const result = await createTodo({
+      ...minimalTodoInput,
+      due_at: new Date('2026-01-05T09:00:00.000Z'),
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO,TH'
+    }, ownerId);
+
+    expect(result.recurrence_rule).toEqual('FREQ=WEEKLY;BYDAY=MO,TH');
+  });
+
+  it('should reject recurring todos without a due date', async () => {
+    await expect(createTodo({ ...minimalTodoInput, recurrence_rule: 'FREQ=DAILY' }, ownerId)).rejects.toThrow(/due date/i);
+  });
+});
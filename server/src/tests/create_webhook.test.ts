@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createWebhook } from '../handlers/create_webhook';
+import { getWebhooks } from '../handlers/get_webhooks';
+import { createWebhookInputSchema } from '../schema';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('createWebhook', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create a webhook and show its secret once', async () => {
+    const created = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+
+    expect(created.secret).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/);
+    expect(created).toMatchObject({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true });
+    expect(await getWebhooks(ownerId)).toEqual([{
+      id: created.id,
+      url: created.url,
+      events: created.events,
+      enabled: true,
+      created_at: created.created_at
+    }]);
+  });
+
+  it('should give every webhook its own secret', async () => {
+    const first = await createWebhook({ url: 'https://example.com/a', events: ['todo.created'], enabled: true }, ownerId);
+    const second = await createWebhook({ url: 'https://example.com/b', events: ['todo.created'], enabled: true }, ownerId);
+
+    expect(first.secret).not.toEqual(second.secret);
+  });
+
+  it('should only list the owner\'s webhooks', async () => {
+    const otherId = await createTestUser('other@example.com');
+    await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, otherId);
+
+    expect(await getWebhooks(ownerId)).toEqual([]);
+  });
+
+  it('should validate the URL and events', () => {
+    expect(createWebhookInputSchema.safeParse({ url: 'ftp://example.com', events: ['todo.created'] }).success).toBe(false);
+    expect(createWebhookInputSchema.safeParse({ url: 'https://example.com', events: [] }).success).toBe(false);
+    expect(createWebhookInputSchema.parse({ url: 'https://example.com', events: ['todo.created', 'todo.created'] }))
+      .toEqual({ url: 'https://example.com', events: ['todo.created'], enabled: true });
+  });
+});
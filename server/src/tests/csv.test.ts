@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsv, toCsv } from '../helpers/csv';
+
+describe('csv', () => {
+  it('should quote fields only when needed', () => {
+    expect(toCsv([['title', 'tags'], ['Say "hi"', 'a, b'], ['Two\nlines', ' padded ']]))
+      .toEqual('title,tags\r\n"Say ""hi""","a, b"\r\n"Two\nlines"," padded "\r\n');
+  });
+
+  it('should read back what it writes', () => {
+    const rows = [['id', 'title', 'description'], ['1', 'Say "hi", then leave', 'First\r\nSecond'], ['2', '', ' x ']];
+
+    expect(parseCsv(toCsv(rows)).map(row => row.fields)).toEqual(rows);
+  });
+
+  it('should number rows by the line they start on and skip blank lines', () => {
+    const rows = parseCsv('\uFEFFtitle,notes\n"Multi\nline",a\n\nLast,b');
+
+    expect(rows).toEqual([
+      { line: 1, fields: ['title', 'notes'] },
+      { line: 2, fields: ['Multi\nline', 'a'] },
+      { line: 5, fields: ['Last', 'b'] }
+    ]);
+  });
+
+  it('should keep empty fields', () => {
+    expect(parseCsv('a,,c,\n').map(row => row.fields)).toEqual([['a', '', 'c', '']]);
+  });
+
+  it('should reject a quote that is never closed', () => {
+    expect(() => parseCsv('title\n"Open')).toThrow('Quoted field starting on line 2 is never closed');
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { deleteCalendarFeed } from '../handlers/delete_calendar_feed';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { readCalendarFeed } from '../handlers/read_calendar_feed';
+import { calendarFeedToken } from '../helpers/calendarFeeds';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('deleteCalendarFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should turn the feed off', async () => {
+    const feed = await createCalendarFeed({ include_events: false }, ownerId);
+
+    expect(await deleteCalendarFeed(ownerId)).toEqual({ success: true });
+    expect(await getCalendarFeed(ownerId)).toBeNull();
+    expect(await readCalendarFeed(calendarFeedToken(feed.path)!)).toBeNull();
+  });
+});
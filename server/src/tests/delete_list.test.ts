@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, todoEventsTable, todosTable } from '../db/schema';
+import { deleteList } from '../handlers/delete_list';
+import { eq } from 'drizzle-orm';
+import { ForbiddenError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Helper creating a list holding two todos
+const createListWithTodos = async () => {
+  const [list] = await db.insert(listsTable)
+    .values({ owner_id: ownerId, name: 'Work' })
+    .returning()
+    .execute();
+  await db.insert(todosTable)
+    .values([
+      { owner_id: ownerId, title: 'First', description: null, list_id: list.id },
+      { owner_id: ownerId, title: 'Second', description: null, list_id: list.id }
+    ])
+    .execute();
+
+  return list;
+};
+
+describe('deleteList', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete the list together with its todos', async () => {
+    const list = await createListWithTodos();
+
+    const result = await deleteList({ id: list.id, mode: 'cascade' }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+    const lists = await db.select().from(listsTable).where(eq(listsTable.id, list.id)).execute();
+    expect(lists).toHaveLength(0);
+  });
+
+  it('should delete and record subtasks that sit in another list', async () => {
+    const list = await createListWithTodos();
+    const [other] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Home' })
+      .returning()
+      .execute();
+    const [parent] = await db.select().from(todosTable).where(eq(todosTable.title, 'First')).execute();
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, list_id: other.id, parent_id: parent.id })
+      .returning()
+      .execute();
+
+    await deleteList({ id: list.id, mode: 'cascade' }, ownerId);
+
+    const events = await db.select().from(todoEventsTable).execute();
+    expect(await db.select().from(todosTable).execute()).toHaveLength(0);
+    expect(events.filter(event => event.operation === 'purged').map(event => event.todo_id)).toContain(child.id);
+    expect(events).toHaveLength(3);
+  });
+
+  it('should move the todos to the Inbox', async () => {
+    const list = await createListWithTodos();
+
+    await deleteList({ id: list.id, mode: 'move_to_inbox' }, ownerId);
+
+    const [inbox] = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.is_inbox, true))
+      .execute();
+    const todos = await db.select().from(todosTable).execute();
+
+    expect(inbox).toBeDefined();
+    expect(todos).toHaveLength(2);
+    expect(todos.every(todo => todo.list_id === inbox.id)).toBe(true);
+  });
+
+  it('should refuse to delete the Inbox', async () => {
+    const [inbox] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Inbox', is_inbox: true })
+      .returning()
+      .execute();
+
+    await expect(deleteList({ id: inbox.id, mode: 'cascade' }, ownerId)).rejects.toThrow(/inbox/i);
+    await expect(deleteList({ id: inbox.id, mode: 'cascade' }, ownerId)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should throw error when list does not exist', async () => {
+    await expect(deleteList({ id: 999, mode: 'cascade' }, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { deleteTag } from '../handlers/delete_tag';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('deleteTag', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete a tag and its attachments', async () => {
+    const [tag] = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name: 'work', color: '#22c55e' })
+      .returning()
+      .execute();
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Tagged', description: null })
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values({ todo_id: todo.id, tag_id: tag.id })
+      .execute();
+
+    const result = await deleteTag({ id: tag.id }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(todoTagsTable).execute()).toHaveLength(0);
+
+    // The todo itself is untouched
+    expect(await db.select().from(todosTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw error when tag does not exist', async () => {
+    await expect(deleteTag({ id: 999 }, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
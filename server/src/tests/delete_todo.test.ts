@@ -1,24 +1,33 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
 import { todosTable } from '../db/schema';
 import { type DeleteTodoInput } from '../schema';
 import { deleteTodo } from '../handlers/delete_todo';
-import { eq } from 'drizzle-orm';
+import { eq, isNull } from 'drizzle-orm';
+import { NotFoundError, VersionConflictError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
 
 // Test input for deleting a todo
 const testDeleteInput: DeleteTodoInput = {
-  id: 1
+  id: 1,
+  expectedVersion: 1
 };
 
 describe('deleteTodo', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
   afterEach(resetDB);
 
-  it('should delete an existing todo', async () => {
+  it('should move an existing todo to the trash', async () => {
     // Create a todo first
     await db.insert(todosTable)
       .values({
+        owner_id: ownerId,
         title: 'Test Todo',
         description: 'A todo for testing deletion',
         completed: false
@@ -35,27 +44,31 @@ describe('deleteTodo', () => {
     expect(todosBeforeDelete[0].title).toEqual('Test Todo');
 
     // Delete the todo
-    const result = await deleteTodo(testDeleteInput);
+    const result = await deleteTodo(testDeleteInput, ownerId);
 
     expect(result.success).toBe(true);
 
-    // Verify the todo is actually deleted from database
+    // Verify the todo is kept in the trash
     const todosAfterDelete = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, 1))
       .execute();
 
-    expect(todosAfterDelete).toHaveLength(0);
+    expect(todosAfterDelete).toHaveLength(1);
+    expect(todosAfterDelete[0].deleted_at).toBeInstanceOf(Date);
+    expect(todosAfterDelete[0].version).toEqual(2);
   });
 
   it('should throw error when todo does not exist', async () => {
     // Try to delete a non-existent todo
     const nonExistentInput: DeleteTodoInput = {
-      id: 999
+      id: 999,
+      expectedVersion: 1
     };
 
     // Expect the deletion to throw an error
-    await expect(deleteTodo(nonExistentInput)).rejects.toThrow(/not found/i);
+    await expect(deleteTodo(nonExistentInput, ownerId)).rejects.toThrow(/not found/i);
+    await expect(deleteTodo(nonExistentInput, ownerId)).rejects.toBeInstanceOf(NotFoundError);
 
     // Verify no todos were affected
     const allTodos = await db.select()
@@ -70,16 +83,19 @@ describe('deleteTodo', () => {
     await db.insert(todosTable)
       .values([
         {
+          owner_id: ownerId,
           title: 'Todo 1',
           description: 'First todo',
           completed: false
         },
         {
+          owner_id: ownerId,
           title: 'Todo 2', 
           description: 'Second todo',
           completed: true
         },
         {
+          owner_id: ownerId,
           title: 'Todo 3',
           description: 'Third todo',
           completed: false
@@ -96,15 +112,17 @@ describe('deleteTodo', () => {
 
     // Delete the middle todo (id: 2)
     const deleteInput: DeleteTodoInput = {
-      id: 2
+      id: 2,
+      expectedVersion: 1
     };
 
-    const result = await deleteTodo(deleteInput);
+    const result = await deleteTodo(deleteInput, ownerId);
     expect(result.success).toBe(true);
 
     // Verify only the specified todo was deleted
     const todosAfterDelete = await db.select()
       .from(todosTable)
+      .where(isNull(todosTable.deleted_at))
       .execute();
 
     expect(todosAfterDelete).toHaveLength(2);
@@ -120,6 +138,7 @@ describe('deleteTodo', () => {
     // Create a completed todo
     await db.insert(todosTable)
       .values({
+        owner_id: ownerId,
         title: 'Completed Todo',
         description: 'This todo is already completed',
         completed: true
@@ -127,23 +146,24 @@ describe('deleteTodo', () => {
       .execute();
 
     // Delete the completed todo
-    const result = await deleteTodo(testDeleteInput);
+    const result = await deleteTodo(testDeleteInput, ownerId);
 
     expect(result.success).toBe(true);
 
-    // Verify the completed todo is deleted
+    // Verify the completed todo is trashed
     const todos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, 1))
       .execute();
 
-    expect(todos).toHaveLength(0);
+    expect(todos[0].deleted_at).toBeInstanceOf(Date);
   });
 
   it('should handle deletion of todos with null description', async () => {
     // Create a todo with null description
     await db.insert(todosTable)
       .values({
+        owner_id: ownerId,
         title: 'Todo with null description',
         description: null,
         completed: false
@@ -151,16 +171,81 @@ describe('deleteTodo', () => {
       .execute();
 
     // Delete the todo
-    const result = await deleteTodo(testDeleteInput);
+    const result = await deleteTodo(testDeleteInput, ownerId);
 
     expect(result.success).toBe(true);
 
-    // Verify the todo is deleted
+    // Verify the todo is trashed
     const todos = await db.select()
       .from(todosTable)
       .where(eq(todosTable.id, 1))
       .execute();
 
-    expect(todos).toHaveLength(0);
+    expect(todos[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should not delete todos of another owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Mine', description: null })
+      .returning()
+      .execute();
+
+    await expect(deleteTodo({ id: todo.id, expectedVersion: todo.version }, otherOwnerId)).rejects.toThrow(/not found/i);
+
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should not delete a todo changed since it was read', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Mine', description: null })
+      .returning()
+      .execute();
+    await db.update(todosTable)
+      .set({ title: 'Renamed elsewhere', version: todo.version + 1 })
+      .where(eq(todosTable.id, todo.id))
+      .execute();
+
+    const error = await deleteTodo({ id: todo.id, expectedVersion: todo.version }, ownerId)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect((error as VersionConflictError).current.title).toEqual('Renamed elsewhere');
+
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining).toHaveLength(1);
+  });
+
+  it('should trash subtasks along with their parent', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Grandchild', description: null, parent_id: child.id })
+      .execute();
+
+    await deleteTodo({ id: parent.id, expectedVersion: parent.version }, ownerId);
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(3);
+    // One deletion time for all of them, so they are restored together
+    const deletedAt = new Set(todos.map(todo => todo.deleted_at?.getTime()));
+    expect(deletedAt.size).toEqual(1);
+    expect(deletedAt.has(undefined)).toBe(false);
+  });
+
+  it('should not delete a todo that is already in the trash', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Trashed', description: null, deleted_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(deleteTodo({ id: todo.id, expectedVersion: todo.version }, ownerId)).rejects.toBeInstanceOf(NotFoundError);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { createWebhook } from '../handlers/create_webhook';
+import { deleteWebhook } from '../handlers/delete_webhook';
+import { getWebhooks } from '../handlers/get_webhooks';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('deleteWebhook', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete the webhook with its deliveries', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    const result = await deleteWebhook({ id: webhook.id }, ownerId);
+
+    expect(result).toEqual({ success: true });
+    expect(await getWebhooks(ownerId)).toEqual([]);
+    expect(await db.select().from(webhookDeliveriesTable).execute()).toEqual([]);
+  });
+
+  it('should not delete other users\' webhooks', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, otherId);
+
+    await expect(deleteWebhook({ id: webhook.id }, ownerId)).rejects.toThrow(`Webhook with id ${webhook.id} not found`);
+    expect(await getWebhooks(otherId)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { detachTag } from '../handlers/detach_tag';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('detachTag', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should detach a tag from a todo', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Todo', description: null })
+      .returning()
+      .execute();
+    const [tag] = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name: 'work', color: '#22c55e' })
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values({ todo_id: todo.id, tag_id: tag.id })
+      .execute();
+
+    const result = await detachTag({ todo_id: todo.id, tag_id: tag.id }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(todoTagsTable).execute()).toHaveLength(0);
+
+    // The tag itself remains available
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(1);
+  });
+
+  it('should throw error when the tag is not attached', async () => {
+    await expect(detachTag({ todo_id: 1, tag_id: 1 }, ownerId)).rejects.toThrow(/not attached/i);
+  });
+});
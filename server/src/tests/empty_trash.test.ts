@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { emptyTrash } from '../handlers/empty_trash';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('emptyTrash', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should permanently delete the owner\'s trashed todos only', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Trashed', description: null, deleted_at: new Date() },
+        { owner_id: ownerId, title: 'Live', description: null },
+        { owner_id: otherOwnerId, title: 'Theirs', description: null, deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await emptyTrash(ownerId);
+
+    expect(result.deleted).toEqual(1);
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining.map(todo => todo.title).sort()).toEqual(['Live', 'Theirs']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import {
+  AuthenticationError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  VersionConflictError,
+  toTRPCError
+} from '../errors';
+
+describe('toTRPCError', () => {
+  it('should map each domain error to its tRPC code and HTTP status', () => {
+    const cases = [
+      { error: new NotFoundError('Todo with id 1 not found'), code: 'NOT_FOUND', status: 404 },
+      { error: new ConflictError('Tag named "Work" already exists'), code: 'CONFLICT', status: 409 },
+      { error: new ValidationError('Invalid cursor'), code: 'BAD_REQUEST', status: 400 },
+      { error: new ForbiddenError('The Inbox list cannot be deleted'), code: 'FORBIDDEN', status: 403 },
+      { error: new AuthenticationError('Invalid email or password'), code: 'UNAUTHORIZED', status: 401 }
+    ] as const;
+
+    for (const { error, code, status } of cases) {
+      const mapped = toTRPCError(error);
+      expect(mapped?.code).toEqual(code);
+      expect(mapped?.message).toEqual(error.message);
+      expect(mapped?.cause).toBe(error);
+      expect(getHTTPStatusCodeFromError(mapped!)).toEqual(status);
+    }
+  });
+
+  it('should keep the current row on version conflicts', () => {
+    const current = {
+      id: 7,
+      owner_id: 1,
+      title: 'Theirs',
+      description: null,
+      completed: false,
+      list_id: null,
+      parent_id: null,
+      priority: 'none' as const,
+      due_at: null,
+      due_all_day: false,
+      due_time_zone: null,
+      recurrence_rule: null,
+      position: 'i',
+      version: 3,
+      deleted_at: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const mapped = toTRPCError(new VersionConflictError(current));
+
+    expect(mapped?.code).toEqual('CONFLICT');
+    expect(mapped?.cause).toBeInstanceOf(ConflictError);
+    expect((mapped?.cause as VersionConflictError).current).toBe(current);
+  });
+
+  it('should name errors after their class', () => {
+    expect(new NotFoundError('missing').name).toEqual('NotFoundError');
+  });
+
+  it('should leave unexpected errors alone', () => {
+    expect(toTRPCError(new Error('connection refused'))).toBeNull();
+    expect(toTRPCError('boom')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { type Tag } from '../schema';
+import { listenForTodoChanges, notifyTodoChange, todoChanges } from '../helpers/events';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+
+// Owner of the records created in each test
+let ownerId: number;
+let stopListening: () => Promise<void>;
+let subscriptions: AbortController;
+
+describe('todo change events', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+    stopListening = await listenForTodoChanges();
+    subscriptions = new AbortController();
+  });
+  afterEach(async () => {
+    subscriptions.abort();
+    await stopListening();
+    await resetDB();
+  });
+
+  it('should announce created todos with their tags', async () => {
+    const [tag] = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const changes = todoChanges(ownerId, subscriptions.signal);
+    const next = changes.next();
+
+    const todo = await createTodo({ title: 'Write report', description: null, tag_ids: [tag.id] }, ownerId);
+
+    const { value } = await next;
+    expect(value?.type).toEqual('created');
+    if (value?.type !== 'created') return;
+    expect(value.todo.id).toEqual(todo.id);
+    expect(value.todo.title).toEqual('Write report');
+    expect(value.todo.tags.map((tag: Tag) => tag.name)).toEqual(['Work']);
+  });
+
+  it('should announce updates and deletes in order', async () => {
+    const changes = todoChanges(ownerId, subscriptions.signal);
+    const todo = await createTodo({ title: 'Write report', description: null }, ownerId);
+    await changes.next(); // The creation
+
+    const first = changes.next();
+    const updated = await updateTodo({ id: todo.id, expectedVersion: todo.version, completed: true }, ownerId);
+    await deleteTodo({ id: todo.id, expectedVersion: updated.version }, ownerId);
+
+    const { value: update } = await first;
+    expect(update?.type).toEqual('updated');
+    if (update?.type !== 'updated') return;
+    expect(update.todo.completed).toBe(true);
+    expect(update.todo.version).toEqual(updated.version);
+
+    const { value: removal } = await changes.next();
+    expect(removal).toEqual({ type: 'deleted', id: todo.id });
+  });
+
+  it('should only deliver changes to the owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const changes = todoChanges(otherOwnerId, subscriptions.signal);
+    const next = changes.next();
+
+    await createTodo({ title: 'Mine', description: null }, ownerId);
+    const theirs = await createTodo({ title: 'Theirs', description: null }, otherOwnerId);
+
+    const { value } = await next;
+    expect(value?.type === 'created' && value.todo.id).toEqual(theirs.id);
+  });
+
+  it('should not announce rolled back changes', async () => {
+    const changes = todoChanges(ownerId, subscriptions.signal);
+    const todo = await createTodo({ title: 'Write report', description: null }, ownerId);
+    await changes.next(); // The creation
+
+    const next = changes.next();
+    await db.transaction(async (tx) => {
+      await notifyTodoChange(tx, 'deleted', ownerId, [todo.id]);
+      tx.rollback();
+    }).catch(() => undefined);
+    await notifyTodoChange(db, 'updated', ownerId, [todo.id]);
+
+    const { value } = await next;
+    expect(value?.type).toEqual('updated');
+  });
+});
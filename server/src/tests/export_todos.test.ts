@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { todoExportSchema } from '../schema';
+import { createTodo } from '../handlers/create_todo';
+import { createList } from '../handlers/create_list';
+import { createTag } from '../handlers/create_tag';
+import { exportTodos } from '../handlers/export_todos';
+import { parseCsv } from '../helpers/csv';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('exportTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should export a versioned JSON file with lists and tags by name', async () => {
+    const work = await createList({ name: 'Work' }, ownerId);
+    const tag = await createTag({ name: 'urgent' }, ownerId);
+    const todo = await createTodo({
+      title: 'Send invoice',
+      description: 'For March',
+      list_id: work.id,
+      tag_ids: [tag.id],
+      due_at: new Date('2026-03-31T00:00:00Z'),
+      due_all_day: true
+    }, ownerId);
+
+    const file = await exportTodos({ format: 'json' }, ownerId);
+    const exported = todoExportSchema.parse(JSON.parse(file.content));
+
+    expect(file.filename).toMatch(/^todos-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(file.mime_type).toEqual('application/json');
+    expect(exported.version).toEqual(1);
+    expect(exported.todos).toEqual([{
+      id: todo.id,
+      title: 'Send invoice',
+      description: 'For March',
+      completed: false,
+      priority: 'none',
+      list: 'Work',
+      parent_id: null,
+      due_at: '2026-03-31T00:00:00.000Z',
+      due_all_day: true,
+      due_time_zone: null,
+      recurrence_rule: null,
+      tags: ['urgent'],
+      created_at: todo.created_at.toISOString(),
+      updated_at: todo.updated_at.toISOString()
+    }]);
+  });
+
+  it('should put each todo ahead of its subtasks, list by list', async () => {
+    const work = await createList({ name: 'Work' }, ownerId);
+    const inboxTodo = await createTodo({ title: 'Call mum', description: null }, ownerId);
+    const parent = await createTodo({ title: 'Plan launch', description: null, list_id: work.id }, ownerId);
+    await createTodo({ title: 'Write post', description: null, parent_id: parent.id }, ownerId);
+    await createTodo({ title: 'Book venue', description: null, parent_id: parent.id }, ownerId);
+    await db.update(todosTable).set({ completed: true }).where(eq(todosTable.id, inboxTodo.id)).execute();
+
+    const markdown = await exportTodos({ format: 'markdown' }, ownerId);
+
+    // New todos go first, so subtasks come out newest first
+    expect(markdown.content).toEqual([
+      '## Inbox',
+      '',
+      '- [x] Call mum',
+      '',
+      '## Work',
+      '',
+      '- [ ] Plan launch',
+      '  - [ ] Book venue',
+      '  - [ ] Write post',
+      ''
+    ].join('\n'));
+  });
+
+  it('should export CSV with a header row', async () => {
+    await createTodo({ title: 'Buy milk, eggs', description: null }, ownerId);
+
+    const file = await exportTodos({ format: 'csv' }, ownerId);
+    const [header, row] = parseCsv(file.content).map(csvRow => csvRow.fields);
+
+    expect(file.filename).toMatch(/\.csv$/);
+    expect(header).toContain('title');
+    expect(row[header.indexOf('title')]).toEqual('Buy milk, eggs');
+    expect(row[header.indexOf('list')]).toEqual('Inbox');
+  });
+
+  it('should export an iCalendar file with a VTODO per todo, and events when asked', async () => {
+    const work = await createList({ name: 'Work' }, ownerId);
+    const todo = await createTodo({
+      title: 'Send invoice',
+      description: null,
+      list_id: work.id,
+      priority: 'high',
+      due_at: new Date('2026-03-31T00:00:00Z'),
+      due_all_day: true
+    }, ownerId);
+    await createTodo({ title: 'Undated', description: null, list_id: work.id }, ownerId);
+
+    const file = await exportTodos({ format: 'ical', list_id: work.id }, ownerId);
+
+    expect(file.filename).toMatch(/\.ics$/);
+    expect(file.mime_type).toEqual('text/calendar');
+    expect(file.content).toContain('X-WR-CALNAME:Work\r\n');
+    expect(file.content).toContain(`UID:todo-${todo.id}@todo-app\r\n`);
+    expect(file.content).toContain('PRIORITY:3\r\nDUE;VALUE=DATE:20260331\r\n');
+    expect(file.content.match(/BEGIN:VTODO/g)).toHaveLength(2);
+    expect(file.content).not.toContain('BEGIN:VEVENT');
+
+    const withEvents = await exportTodos({ format: 'ical', calendar_events: true }, ownerId);
+
+    expect(withEvents.content).toContain('X-WR-CALNAME:Todos\r\n');
+    expect(withEvents.content.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(withEvents.content).toContain('DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401\r\n');
+  });
+
+  it('should export one of the user\'s lists without its trashed todos', async () => {
+    const work = await createList({ name: 'Work' }, ownerId);
+    await createTodo({ title: 'In the inbox', description: null }, ownerId);
+    await createTodo({ title: 'At work', description: null, list_id: work.id }, ownerId);
+    const trashed = await createTodo({ title: 'Trashed', description: null, list_id: work.id }, ownerId);
+    await db.update(todosTable).set({ deleted_at: new Date() }).where(eq(todosTable.id, trashed.id)).execute();
+
+    const file = await exportTodos({ format: 'json', list_id: work.id }, ownerId);
+
+    expect(todoExportSchema.parse(JSON.parse(file.content)).todos.map(todo => todo.title)).toEqual(['At work']);
+
+    const otherOwnerId = await createTestUser('other@example.com');
+    await expect(exportTodos({ format: 'json', list_id: work.id }, otherOwnerId)).rejects.toThrow(/not found/i);
+  });
+});
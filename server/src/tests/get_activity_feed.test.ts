@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { getActivityFeed } from '../handlers/get_activity_feed';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { purgeTrash } from '../helpers/trash';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('getActivityFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should list writes across the owner\'s todos, newest first', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const first = await createTodo({ title: 'First', description: null }, ownerId);
+    await createTodo({ title: 'Second', description: null }, ownerId);
+    await createTodo({ title: 'Theirs', description: null }, otherOwnerId);
+    await updateTodo({ id: first.id, expectedVersion: first.version, completed: true }, ownerId);
+
+    const result = await getActivityFeed({ limit: 20 }, ownerId);
+
+    expect(result.items.map(event => [event.operation, event.todo_title])).toEqual([
+      ['updated', 'First'],
+      ['created', 'Second'],
+      ['created', 'First']
+    ]);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should page through the feed', async () => {
+    for (const title of ['A', 'B', 'C']) {
+      await createTodo({ title, description: null }, ownerId);
+    }
+
+    const first = await getActivityFeed({ limit: 2 }, ownerId);
+    const second = await getActivityFeed({ limit: 2, cursor: first.nextCursor }, ownerId);
+
+    expect(first.items.map(event => event.todo_title)).toEqual(['C', 'B']);
+    expect(second.items.map(event => event.todo_title)).toEqual(['A']);
+  });
+
+  it('should keep entries of purged todos, with the purge job as actor', async () => {
+    const todo = await createTodo({ title: 'Old', description: null }, ownerId);
+    await db.update(todosTable)
+      .set({ deleted_at: new Date('2020-01-01T00:00:00Z') })
+      .execute();
+
+    await purgeTrash(30);
+
+    const result = await getActivityFeed({ limit: 20 }, ownerId);
+    expect(result.items.map(event => event.operation)).toEqual(['purged', 'created']);
+    expect(result.items[0].todo_id).toEqual(todo.id);
+    expect(result.items[0].actor_id).toBeNull();
+  });
+});
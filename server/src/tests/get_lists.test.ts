@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, todosTable } from '../db/schema';
+import { getLists } from '../handlers/get_lists';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('getLists', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create the Inbox automatically', async () => {
+    const result = await getLists(ownerId);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].name).toEqual('Inbox');
+    expect(result[0].is_inbox).toEqual(true);
+    expect(result[0].todo_count).toEqual(0);
+    expect(result[0].pending_count).toEqual(0);
+
+    // Calling again does not create a second Inbox
+    const again = await getLists(ownerId);
+    expect(again).toHaveLength(1);
+  });
+
+  it('should return lists with the Inbox first, then by sort order', async () => {
+    await db.insert(listsTable)
+      .values([
+        { owner_id: ownerId, name: 'Later', sort_order: 2 },
+        { owner_id: ownerId, name: 'Sooner', sort_order: 1 }
+      ])
+      .execute();
+
+    const result = await getLists(ownerId);
+
+    expect(result.map(list => list.name)).toEqual(['Inbox', 'Sooner', 'Later']);
+  });
+
+  it('should count todos and pending todos per list', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Done', description: null, completed: true, list_id: list.id },
+        { owner_id: ownerId, title: 'Open', description: null, completed: false, list_id: list.id },
+        { owner_id: ownerId, title: 'Elsewhere', description: null }
+      ])
+      .execute();
+
+    const result = await getLists(ownerId);
+    const work = result.find(item => item.id === list.id);
+
+    expect(work?.todo_count).toEqual(2);
+    expect(work?.pending_count).toEqual(1);
+    expect(typeof work?.todo_count).toBe('number');
+  });
+
+  it('should not count trashed todos', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Open', description: null, list_id: list.id },
+        { owner_id: ownerId, title: 'Trashed', description: null, list_id: list.id, deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getLists(ownerId);
+    const work = result.find(item => item.id === list.id);
+
+    expect(work?.todo_count).toEqual(1);
+    expect(work?.pending_count).toEqual(1);
+  });
+
+  it('should give every owner their own Inbox', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+
+    const mine = await getLists(ownerId);
+    const theirs = await getLists(otherOwnerId);
+
+    expect(mine).toHaveLength(1);
+    expect(theirs).toHaveLength(1);
+    expect(mine[0].is_inbox).toBe(true);
+    expect(theirs[0].is_inbox).toBe(true);
+    expect(mine[0].id).not.toEqual(theirs[0].id);
+  });
+});
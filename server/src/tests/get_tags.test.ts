@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { getTags } from '../handlers/get_tags';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('getTags', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return empty array when no tags exist', async () => {
+    const result = await getTags(ownerId);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return all tags ordered by name', async () => {
+    await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work', color: '#22c55e' },
+        { owner_id: ownerId, name: 'blocked', color: '#ef4444' },
+        { owner_id: ownerId, name: 'home', color: '#3b82f6' }
+      ])
+      .execute();
+
+    const result = await getTags(ownerId);
+
+    expect(result.map(tag => tag.name)).toEqual(['blocked', 'home', 'work']);
+    expect(result[0].color).toEqual('#ef4444');
+    expect(result[0].created_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createTodo } from '../handlers/create_todo';
+import { createTag } from '../handlers/create_tag';
+import { deleteTodo } from '../handlers/delete_todo';
+import { getTodo } from '../handlers/get_todo';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('getTodo', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return a todo with its tags by name', async () => {
+    const work = await createTag({ name: 'work' }, ownerId);
+    const home = await createTag({ name: 'home' }, ownerId);
+    const todo = await createTodo({ title: 'Buy milk', description: null, tag_ids: [work.id, home.id] }, ownerId);
+
+    const result = await getTodo({ id: todo.id }, ownerId);
+
+    expect(result).toMatchObject({ id: todo.id, title: 'Buy milk', version: todo.version });
+    expect(result.tags.map(tag => tag.name)).toEqual(['home', 'work']);
+  });
+
+  it('should return subtasks too', async () => {
+    const parent = await createTodo({ title: 'Trip', description: null }, ownerId);
+    const subtask = await createTodo({ title: 'Pack', description: null, parent_id: parent.id }, ownerId);
+
+    expect((await getTodo({ id: subtask.id }, ownerId)).parent_id).toEqual(parent.id);
+  });
+
+  it('should not find trashed todos or other users\' todos', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const theirs = await createTodo({ title: 'Theirs', description: null }, otherId);
+    const trashed = await createTodo({ title: 'Trashed', description: null }, ownerId);
+    await deleteTodo({ id: trashed.id, expectedVersion: trashed.version }, ownerId);
+
+    await expect(getTodo({ id: theirs.id }, ownerId)).rejects.toThrow(`Todo with id ${theirs.id} not found`);
+    await expect(getTodo({ id: trashed.id }, ownerId)).rejects.toThrow(`Todo with id ${trashed.id} not found`);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, todoEventsTable } from '../db/schema';
+import { getTodoHistoryInputSchema, type TodoEvent } from '../schema';
+import { getTodoHistory } from '../handlers/get_todo_history';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { restoreTodo } from '../handlers/restore_todo';
+import { emptyTrash } from '../handlers/empty_trash';
+import { attachTag } from '../handlers/attach_tag';
+import { detachTag } from '../handlers/detach_tag';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const historyOf = async (todoId: number): Promise<TodoEvent[]> =>
+  (await getTodoHistory(getTodoHistoryInputSchema.parse({ todo_id: todoId }), ownerId)).items;
+
+describe('getTodoHistory', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should record creation with the initial values', async () => {
+    const todo = await createTodo({ title: 'Write report', description: null, priority: 'high' }, ownerId);
+
+    const [event] = await historyOf(todo.id);
+
+    expect(event.operation).toEqual('created');
+    expect(event.actor_id).toEqual(ownerId);
+    expect(event.todo_title).toEqual('Write report');
+    expect(event.changes['title']).toEqual({ before: null, after: 'Write report' });
+    expect(event.changes['priority']).toEqual({ before: null, after: 'high' });
+    // Bookkeeping fields and empty values are left out
+    expect(event.changes['version']).toBeUndefined();
+    expect(event.changes['description']).toBeUndefined();
+  });
+
+  it('should record only the fields an update changed, newest first', async () => {
+    const todo = await createTodo({ title: 'Draft', description: null }, ownerId);
+    const due = new Date('2024-05-01T09:00:00Z');
+    await updateTodo({ id: todo.id, expectedVersion: todo.version, title: 'Final', due_at: due }, ownerId);
+
+    const [update, creation] = await historyOf(todo.id);
+
+    expect(creation.operation).toEqual('created');
+    expect(update.operation).toEqual('updated');
+    expect(update.changes).toEqual({
+      title: { before: 'Draft', after: 'Final' },
+      due_at: { before: null, after: due.toISOString() }
+    });
+  });
+
+  it('should not record updates that changed nothing', async () => {
+    const todo = await createTodo({ title: 'Same', description: null }, ownerId);
+    await updateTodo({ id: todo.id, expectedVersion: todo.version, title: 'Same' }, ownerId);
+
+    const events = await historyOf(todo.id);
+
+    expect(events.map(event => event.operation)).toEqual(['created']);
+  });
+
+  it('should not record writes that failed', async () => {
+    const todo = await createTodo({ title: 'Mine', description: null }, ownerId);
+    await expect(updateTodo({ id: todo.id, expectedVersion: todo.version + 1, title: 'Stale' }, ownerId)).rejects.toThrow();
+
+    const events = await historyOf(todo.id);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should record the trip through the trash', async () => {
+    const todo = await createTodo({ title: 'Temporary', description: null }, ownerId);
+    await deleteTodo({ id: todo.id, expectedVersion: todo.version }, ownerId);
+    await restoreTodo({ id: todo.id }, ownerId);
+    const [restored] = await historyOf(todo.id);
+    await deleteTodo({ id: todo.id, expectedVersion: todo.version + 2 }, ownerId);
+    await emptyTrash(ownerId);
+
+    const events = await historyOf(todo.id);
+
+    expect(events.map(event => event.operation)).toEqual(['purged', 'deleted', 'restored', 'deleted', 'created']);
+    expect(restored.changes['deleted_at'].after).toBeNull();
+    expect(events[0].changes['title']).toEqual({ before: 'Temporary', after: null });
+  });
+
+  it('should record tags being attached and detached', async () => {
+    const [work, home] = await db.insert(tagsTable)
+      .values([{ owner_id: ownerId, name: 'work' }, { owner_id: ownerId, name: 'home' }])
+      .returning()
+      .execute();
+    const todo = await createTodo({ title: 'Tagged', description: null, tag_ids: [work.id] }, ownerId);
+    await attachTag({ todo_id: todo.id, tag_id: home.id }, ownerId);
+    await detachTag({ todo_id: todo.id, tag_id: work.id }, ownerId);
+
+    const [detached, attached, created] = await historyOf(todo.id);
+
+    expect(created.changes['tags']).toEqual({ before: null, after: ['work'] });
+    expect(attached.changes).toEqual({ tags: { before: ['work'], after: ['home', 'work'] } });
+    expect(detached.changes).toEqual({ tags: { before: ['home', 'work'], after: ['home'] } });
+  });
+
+  it('should page through the history', async () => {
+    let todo = await createTodo({ title: 'Rev 0', description: null }, ownerId);
+    for (let revision = 1; revision <= 4; revision++) {
+      todo = await updateTodo({ id: todo.id, expectedVersion: todo.version, title: `Rev ${revision}` }, ownerId);
+    }
+
+    const first = await getTodoHistory({ todo_id: todo.id, limit: 3 }, ownerId);
+    const second = await getTodoHistory({ todo_id: todo.id, limit: 3, cursor: first.nextCursor }, ownerId);
+
+    expect(first.items.map(event => event.todo_title)).toEqual(['Rev 4', 'Rev 3', 'Rev 2']);
+    expect(second.items.map(event => event.todo_title)).toEqual(['Rev 1', 'Rev 0']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should not return history of another owner\'s todo', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const todo = await createTodo({ title: 'Theirs', description: null }, otherOwnerId);
+
+    expect(await historyOf(todo.id)).toEqual([]);
+    expect(await db.select().from(todoEventsTable).execute()).toHaveLength(1);
+  });
+});
@@ -1,18 +1,37 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
+import { getTodosInputSchema, type GetTodosInput } from '../schema';
 import { getTodos } from '../handlers/get_todos';
 
+// Owner of the records created in each test
+let ownerId: number;
+
+// Default listing input with every field spelled out
+const defaultInput: GetTodosInput = {
+  status: 'all',
+  sort_by: 'created_at',
+  sort_direction: 'desc',
+  time_zone: 'UTC',
+  limit: 20,
+  cursor: null
+};
+
 describe('getTodos', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should return empty array when no todos exist', async () => {
-    const result = await getTodos();
+    const result = await getTodos(defaultInput, ownerId);
     
-    expect(result).toEqual([]);
-    expect(result).toHaveLength(0);
+    expect(result.items).toEqual([]);
+    expect(result.items).toHaveLength(0);
+    expect(result.nextCursor).toBeNull();
+    expect(result.totalCount).toEqual(0);
   });
 
   it('should return all todos from database', async () => {
@@ -37,17 +56,19 @@ describe('getTodos', () => {
 
     // Insert test todos
     await db.insert(todosTable)
-      .values(testTodos)
+      .values(testTodos.map(item => ({ ...item, owner_id: ownerId })))
       .execute();
 
     // Fetch todos using handler
-    const result = await getTodos();
+    const result = await getTodos(defaultInput, ownerId);
 
     // Verify results
-    expect(result).toHaveLength(3);
+    expect(result.items).toHaveLength(3);
+    expect(result.totalCount).toEqual(3);
+    expect(result.nextCursor).toBeNull();
     
     // Sort results by title for consistent testing
-    const sortedResult = result.sort((a, b) => a.title.localeCompare(b.title));
+    const sortedResult = result.items.sort((a, b) => a.title.localeCompare(b.title));
 
     // Check first todo
     expect(sortedResult[0].title).toEqual('First Todo');
@@ -72,17 +93,18 @@ describe('getTodos', () => {
     // Create a test todo
     await db.insert(todosTable)
       .values({
+        owner_id: ownerId,
         title: 'Type Test Todo',
         description: 'Testing data types',
         completed: true
       })
       .execute();
 
-    const result = await getTodos();
+    const result = await getTodos(defaultInput, ownerId);
     
-    expect(result).toHaveLength(1);
+    expect(result.items).toHaveLength(1);
     
-    const todo = result[0];
+    const todo = result.items[0];
     expect(typeof todo.id).toBe('number');
     expect(typeof todo.title).toBe('string');
     expect(typeof todo.description).toBe('string');
@@ -101,21 +123,21 @@ describe('getTodos', () => {
     ];
 
     await db.insert(todosTable)
-      .values(mixedTodos)
+      .values(mixedTodos.map(item => ({ ...item, owner_id: ownerId })))
       .execute();
 
-    const result = await getTodos();
+    const result = await getTodos(defaultInput, ownerId);
     
-    expect(result).toHaveLength(4);
+    expect(result.items).toHaveLength(4);
     
-    const completedTodos = result.filter(todo => todo.completed);
-    const incompleteTodos = result.filter(todo => !todo.completed);
+    const completedTodos = result.items.filter(todo => todo.completed);
+    const incompleteTodos = result.items.filter(todo => !todo.completed);
     
     expect(completedTodos).toHaveLength(2);
     expect(incompleteTodos).toHaveLength(2);
     
     // Verify all todos have required fields
-    result.forEach(todo => {
+    result.items.forEach(todo => {
       expect(todo.id).toBeDefined();
       expect(todo.title).toBeDefined();
       expect(typeof todo.completed).toBe('boolean');
@@ -123,4 +145,396 @@ describe('getTodos', () => {
       expect(todo.updated_at).toBeInstanceOf(Date);
     });
   });
-});
\ No newline at end of file
+
+  it('should filter todos by status', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Done', description: null, completed: true },
+        { owner_id: ownerId, title: 'Open 1', description: null, completed: false },
+        { owner_id: ownerId, title: 'Open 2', description: null, completed: false }
+      ])
+      .execute();
+
+    const completed = await getTodos({ ...defaultInput, status: 'completed' }, ownerId);
+    expect(completed.items).toHaveLength(1);
+    expect(completed.items[0].title).toEqual('Done');
+    expect(completed.totalCount).toEqual(1);
+
+    const pending = await getTodos({ ...defaultInput, status: 'pending' }, ownerId);
+    expect(pending.items).toHaveLength(2);
+    expect(pending.items.every(todo => !todo.completed)).toBe(true);
+    expect(pending.totalCount).toEqual(2);
+  });
+
+  it('should filter todos by created date range', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Old', description: null, created_at: new Date('2024-01-01T00:00:00Z') },
+        { owner_id: ownerId, title: 'Middle', description: null, created_at: new Date('2024-06-01T00:00:00Z') },
+        { owner_id: ownerId, title: 'New', description: null, created_at: new Date('2025-01-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const result = await getTodos({
+      ...defaultInput,
+      created_from: new Date('2024-03-01T00:00:00Z'),
+      created_to: new Date('2024-12-31T00:00:00Z')
+    }, ownerId);
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].title).toEqual('Middle');
+    expect(result.totalCount).toEqual(1);
+  });
+
+  it('should sort todos by the requested field and direction', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Banana', description: null },
+        { owner_id: ownerId, title: 'Apple', description: null },
+        { owner_id: ownerId, title: 'Cherry', description: null }
+      ])
+      .execute();
+
+    const ascending = await getTodos({ ...defaultInput, sort_by: 'title', sort_direction: 'asc' }, ownerId);
+    expect(ascending.items.map(todo => todo.title)).toEqual(['Apple', 'Banana', 'Cherry']);
+
+    const descending = await getTodos({ ...defaultInput, sort_by: 'title', sort_direction: 'desc' }, ownerId);
+    expect(descending.items.map(todo => todo.title)).toEqual(['Cherry', 'Banana', 'Apple']);
+  });
+
+  it('should sort todos by manual position across pages', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Third', description: null, position: 'i' },
+        { owner_id: ownerId, title: 'First', description: null, position: 'a' },
+        { owner_id: ownerId, title: 'Fourth', description: null, position: 'z' },
+        { owner_id: ownerId, title: 'Second', description: null, position: 'a5' }
+      ])
+      .execute();
+
+    const input: GetTodosInput = { ...defaultInput, sort_by: 'position', sort_direction: 'asc', limit: 3 };
+    const first = await getTodos(input, ownerId);
+    const second = await getTodos({ ...input, cursor: first.nextCursor }, ownerId);
+
+    expect(first.items.map(todo => todo.title)).toEqual(['First', 'Second', 'Third']);
+    expect(second.items.map(todo => todo.title)).toEqual(['Fourth']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should paginate through all todos with cursors', async () => {
+    // Identical timestamps force the id tie-breaker to be used
+    const createdAt = new Date('2024-05-05T10:00:00.123Z');
+    await db.insert(todosTable)
+      .values(Array.from({ length: 7 }, (_, i) => ({
+        owner_id: ownerId,
+        title: `Todo ${i + 1}`,
+        description: null,
+        created_at: createdAt
+      })))
+      .execute();
+
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+
+    do {
+      const page = await getTodos({ ...defaultInput, limit: 3, cursor }, ownerId);
+      expect(page.totalCount).toEqual(7);
+      seen.push(...page.items.map(todo => todo.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor !== null);
+
+    expect(pages).toEqual(3);
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toEqual(7);
+  });
+
+  it('should paginate by timestamp with sub-millisecond precision rows', async () => {
+    // Database default timestamps carry microseconds
+    for (let i = 0; i < 5; i++) {
+      await db.insert(todosTable)
+        .values({ owner_id: ownerId, title: `Todo ${i + 1}`, description: null })
+        .execute();
+    }
+
+    const first = await getTodos({ ...defaultInput, sort_direction: 'asc', limit: 2 }, ownerId);
+    const second = await getTodos({ ...defaultInput, sort_direction: 'asc', limit: 2, cursor: first.nextCursor }, ownerId);
+    const third = await getTodos({ ...defaultInput, sort_direction: 'asc', limit: 2, cursor: second.nextCursor }, ownerId);
+
+    const titles = [...first.items, ...second.items, ...third.items].map(todo => todo.title);
+    expect(titles).toEqual(['Todo 1', 'Todo 2', 'Todo 3', 'Todo 4', 'Todo 5']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(getTodos({ ...defaultInput, cursor: 'not-a-cursor' }, ownerId)).rejects.toThrow(/invalid cursor/i);
+  });
+
+  it('should reject cursors created for a different sort field', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'A', description: null },
+        { owner_id: ownerId, title: 'B', description: null }
+      ])
+      .execute();
+
+    const page = await getTodos({ ...defaultInput, sort_by: 'title', limit: 1 }, ownerId);
+    expect(page.nextCursor).not.toBeNull();
+
+    await expect(getTodos({ ...defaultInput, sort_by: 'created_at', cursor: page.nextCursor }, ownerId))
+      .rejects.toThrow(/sort field/i);
+  });
+
+  it('should sort todos by due date with undated todos last', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'No due date', description: null },
+        { owner_id: ownerId, title: 'Later', description: null, due_at: new Date('2025-02-01T00:00:00Z') },
+        { owner_id: ownerId, title: 'Sooner', description: null, due_at: new Date('2025-01-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const ascending = await getTodos({ ...defaultInput, sort_by: 'due_at', sort_direction: 'asc' }, ownerId);
+    expect(ascending.items.map(todo => todo.title)).toEqual(['Sooner', 'Later', 'No due date']);
+
+    const descending = await getTodos({ ...defaultInput, sort_by: 'due_at', sort_direction: 'desc' }, ownerId);
+    expect(descending.items.map(todo => todo.title)).toEqual(['Later', 'Sooner', 'No due date']);
+
+    // Cursors work across the dated/undated boundary
+    const first = await getTodos({ ...defaultInput, sort_by: 'due_at', sort_direction: 'asc', limit: 2 }, ownerId);
+    const second = await getTodos({ ...defaultInput, sort_by: 'due_at', sort_direction: 'asc', limit: 2, cursor: first.nextCursor }, ownerId);
+    expect(second.items.map(todo => todo.title)).toEqual(['No due date']);
+  });
+
+  it('should group todos into overdue, today and upcoming buckets', async () => {
+    // 2025-03-10 14:00 in New York (EDT, UTC-4)
+    const now = new Date('2025-03-10T18:00:00Z');
+
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Yesterday', description: null, due_at: new Date('2025-03-09T15:00:00Z') },
+        { owner_id: ownerId, title: 'This morning', description: null, due_at: new Date('2025-03-10T13:00:00Z') },
+        { owner_id: ownerId, title: 'Done this morning', description: null, completed: true, due_at: new Date('2025-03-10T13:00:00Z') },
+        { owner_id: ownerId, title: 'Tonight', description: null, due_at: new Date('2025-03-11T02:00:00Z') },
+        { owner_id: ownerId, title: 'All day today', description: null, due_all_day: true, due_at: new Date('2025-03-10T00:00:00Z') },
+        { owner_id: ownerId, title: 'All day yesterday', description: null, due_all_day: true, due_at: new Date('2025-03-09T00:00:00Z') },
+        { owner_id: ownerId, title: 'Tomorrow', description: null, due_at: new Date('2025-03-11T14:00:00Z') },
+        { owner_id: ownerId, title: 'All day tomorrow', description: null, due_all_day: true, due_at: new Date('2025-03-11T00:00:00Z') },
+        { owner_id: ownerId, title: 'Undated', description: null }
+      ])
+      .execute();
+
+    const bucketTitles = async (due_bucket: 'overdue' | 'today' | 'upcoming') => {
+      const page = await getTodos({
+        ...defaultInput,
+        due_bucket,
+        time_zone: 'America/New_York',
+        sort_by: 'title',
+        sort_direction: 'asc'
+      }, ownerId, now);
+      return page.items.map(todo => todo.title);
+    };
+
+    expect(await bucketTitles('overdue')).toEqual(['All day yesterday', 'This morning', 'Yesterday']);
+    expect(await bucketTitles('today')).toEqual(['All day today', 'Done this morning', 'Tonight']);
+    expect(await bucketTitles('upcoming')).toEqual(['All day tomorrow', 'Tomorrow']);
+  });
+
+  it('should order by priority then due date by default', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Low', description: null, priority: 'low' },
+        { owner_id: ownerId, title: 'Urgent later', description: null, priority: 'urgent', due_at: new Date('2025-05-02T00:00:00Z') },
+        { owner_id: ownerId, title: 'None', description: null },
+        { owner_id: ownerId, title: 'Urgent undated', description: null, priority: 'urgent' },
+        { owner_id: ownerId, title: 'Urgent sooner', description: null, priority: 'urgent', due_at: new Date('2025-05-01T00:00:00Z') },
+        { owner_id: ownerId, title: 'Medium', description: null, priority: 'medium' }
+      ])
+      .execute();
+
+    const expected = ['Urgent sooner', 'Urgent later', 'Urgent undated', 'Medium', 'Low', 'None'];
+    const input = getTodosInputSchema.parse({});
+
+    const result = await getTodos(input, ownerId);
+    expect(result.items.map(todo => todo.title)).toEqual(expected);
+
+    // Walk the same ordering two at a time
+    const titles: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await getTodos({ ...input, limit: 2, cursor }, ownerId);
+      titles.push(...page.items.map(todo => todo.title));
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+    expect(titles).toEqual(expected);
+
+    const ascending = await getTodos({ ...input, sort_direction: 'asc' }, ownerId);
+    expect(ascending.items.map(todo => todo.title)).toEqual(['None', 'Low', 'Medium', 'Urgent sooner', 'Urgent later', 'Urgent undated']);
+  });
+
+  it('should return the tags of each todo', async () => {
+    const [todo, untagged] = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Tagged', description: null },
+        { owner_id: ownerId, title: 'Untagged', description: null }
+      ])
+      .returning()
+      .execute();
+    const tags = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work', color: '#22c55e' },
+        { owner_id: ownerId, name: 'blocked', color: '#ef4444' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values(tags.map(tag => ({ todo_id: todo.id, tag_id: tag.id })))
+      .execute();
+
+    const result = await getTodos(defaultInput, ownerId);
+
+    const tagged = result.items.find(item => item.id === todo.id);
+    const plain = result.items.find(item => item.id === untagged.id);
+    expect(tagged?.tags.map(tag => tag.name)).toEqual(['blocked', 'work']);
+    expect(plain?.tags).toEqual([]);
+  });
+
+  it('should filter todos by tags', async () => {
+    const todos = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Work only', description: null },
+        { owner_id: ownerId, title: 'Work and blocked', description: null },
+        { owner_id: ownerId, title: 'Nothing', description: null }
+      ])
+      .returning()
+      .execute();
+    const [work, blocked] = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work', color: '#22c55e' },
+        { owner_id: ownerId, name: 'blocked', color: '#ef4444' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable)
+      .values([
+        { todo_id: todos[0].id, tag_id: work.id },
+        { todo_id: todos[1].id, tag_id: work.id },
+        { todo_id: todos[1].id, tag_id: blocked.id }
+      ])
+      .execute();
+
+    const workTodos = await getTodos({ ...defaultInput, sort_by: 'title', sort_direction: 'asc', tag_ids: [work.id] }, ownerId);
+    expect(workTodos.items.map(todo => todo.title)).toEqual(['Work and blocked', 'Work only']);
+    expect(workTodos.totalCount).toEqual(2);
+
+    // Every listed tag must be present
+    const both = await getTodos({ ...defaultInput, tag_ids: [work.id, blocked.id] }, ownerId);
+    expect(both.items.map(todo => todo.title)).toEqual(['Work and blocked']);
+  });
+
+  it('should filter todos by list', async () => {
+    const [work, home] = await db.insert(listsTable)
+      .values([{ owner_id: ownerId, name: 'Work' }, { owner_id: ownerId, name: 'Home' }])
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Report', description: null, list_id: work.id },
+        { owner_id: ownerId, title: 'Dishes', description: null, list_id: home.id }
+      ])
+      .execute();
+
+    const result = await getTodos({ ...defaultInput, list_id: work.id }, ownerId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Report']);
+    expect(result.totalCount).toEqual(1);
+  });
+
+  it('should filter todos by search words in them or their subtasks', async () => {
+    const [trip, , chores] = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Plan the trip', description: null },
+        { owner_id: ownerId, title: 'Groceries', description: 'Oat milk and bread' },
+        { owner_id: ownerId, title: 'Chores', description: null }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Buy bread for the trip', description: null, parent_id: trip.id })
+      .execute();
+
+    const result = await getTodos({ ...defaultInput, sort_by: 'title', sort_direction: 'asc', search: 'brea' }, ownerId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Groceries', 'Plan the trip']);
+    expect(result.totalCount).toEqual(2);
+    expect(result.items.map(todo => todo.id)).not.toContain(chores.id);
+  });
+
+  it('should nest subtasks under their parent with completion roll-up', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    const [first, second] = await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'First step', description: null, parent_id: parent.id, completed: true },
+        { owner_id: ownerId, title: 'Second step', description: null, parent_id: parent.id }
+      ])
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Nested step', description: null, parent_id: second.id })
+      .execute();
+
+    const result = await getTodos(defaultInput, ownerId);
+
+    // Only top-level todos are listed and counted
+    expect(result.items).toHaveLength(1);
+    expect(result.totalCount).toEqual(1);
+
+    const [item] = result.items;
+    expect(item.progress).toEqual({ completed: 1, total: 2 });
+    expect(item.children.map(child => child.id)).toEqual([first.id, second.id]);
+    expect(item.children[0].progress).toEqual({ completed: 0, total: 0 });
+    expect(item.children[1].progress).toEqual({ completed: 0, total: 1 });
+    expect(item.children[1].children[0].title).toEqual('Nested step');
+    expect(item.children[1].children[0].children).toEqual([]);
+  });
+
+  it('should only return todos of the given owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Mine', description: null },
+        { owner_id: otherOwnerId, title: 'Theirs', description: null }
+      ])
+      .execute();
+
+    const result = await getTodos(defaultInput, ownerId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Mine']);
+    expect(result.totalCount).toEqual(1);
+  });
+
+  it('should leave out trashed todos and subtasks', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Kept step', description: null, parent_id: parent.id },
+        { owner_id: ownerId, title: 'Trashed step', description: null, parent_id: parent.id, deleted_at: new Date() },
+        { owner_id: ownerId, title: 'Trashed', description: null, deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getTodos(defaultInput, ownerId);
+
+    expect(result.items.map(todo => todo.title)).toEqual(['Parent']);
+    expect(result.totalCount).toEqual(1);
+    expect(result.items[0].children.map(child => child.title)).toEqual(['Kept step']);
+    expect(result.items[0].progress).toEqual({ completed: 0, total: 1 });
+  });
+});
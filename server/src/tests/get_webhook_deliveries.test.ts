@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { createWebhook } from '../handlers/create_webhook';
+import { getWebhookDeliveries } from '../handlers/get_webhook_deliveries';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('getWebhookDeliveries', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should page through deliveries newest first', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+    for (const title of ['First', 'Second', 'Third']) {
+      await createTodo({ title, description: null }, ownerId);
+    }
+
+    const first = await getWebhookDeliveries({ webhook_id: webhook.id, limit: 2 }, ownerId);
+    const second = await getWebhookDeliveries({ webhook_id: webhook.id, limit: 2, cursor: first.nextCursor }, ownerId);
+
+    const titleOf = (payload: Record<string, unknown>) => (payload['todo'] as { title: string }).title;
+    expect(first.items.map(delivery => titleOf(delivery.payload))).toEqual(['Third', 'Second']);
+    expect(second.items.map(delivery => titleOf(delivery.payload))).toEqual(['First']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should filter by status', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+    await createTodo({ title: 'First', description: null }, ownerId);
+    await createTodo({ title: 'Second', description: null }, ownerId);
+    const [dead] = await db.select().from(webhookDeliveriesTable).orderBy(webhookDeliveriesTable.id).limit(1).execute();
+    await db.update(webhookDeliveriesTable).set({ status: 'dead' }).where(eq(webhookDeliveriesTable.id, dead.id)).execute();
+
+    const result = await getWebhookDeliveries({ webhook_id: webhook.id, status: 'dead', limit: 20 }, ownerId);
+
+    expect(result.items.map(delivery => delivery.id)).toEqual([dead.id]);
+  });
+
+  it('should not show other users\' deliveries', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, otherId);
+
+    await expect(getWebhookDeliveries({ webhook_id: webhook.id, limit: 20 }, ownerId))
+      .rejects.toThrow(`Webhook with id ${webhook.id} not found`);
+  });
+});
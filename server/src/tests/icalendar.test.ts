@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'bun:test';
+import { type ExportedTodo } from '../schema';
+import { readICalendarTodos, toICalendar } from '../helpers/icalendar';
+
+const exportedTodo = (todo: Partial<ExportedTodo>): ExportedTodo => ({
+  id: 1,
+  title: 'Todo',
+  description: null,
+  completed: false,
+  priority: 'none',
+  list: null,
+  parent_id: null,
+  due_at: null,
+  due_all_day: false,
+  due_time_zone: null,
+  recurrence_rule: null,
+  tags: [],
+  created_at: '2026-10-01T08:00:00.000Z',
+  updated_at: '2026-10-02T08:00:00.000Z',
+  ...todo
+});
+
+const write = (todos: Partial<ExportedTodo>[], events = false): string =>
+  toICalendar(todos.map(exportedTodo), { name: 'Todos', events });
+
+describe('iCalendar', () => {
+  it('should write a VTODO per todo', () => {
+    const content = write([{
+      id: 4,
+      title: 'Send invoice',
+      description: 'For March',
+      completed: true,
+      priority: 'medium',
+      due_at: '2026-10-21T09:30:00.000Z',
+      tags: ['work', 'billing'],
+      parent_id: 2
+    }]);
+
+    expect(content).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//todo-app//Todos//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Todos',
+      'BEGIN:VTODO',
+      'UID:todo-4@todo-app',
+      'DTSTAMP:20261002T080000Z',
+      'CREATED:20261001T080000Z',
+      'LAST-MODIFIED:20261002T080000Z',
+      'SUMMARY:Send invoice',
+      'DESCRIPTION:For March',
+      'STATUS:COMPLETED',
+      'COMPLETED:20261002T080000Z',
+      'PRIORITY:5',
+      'DUE:20261021T093000Z',
+      'CATEGORIES:work,billing',
+      'RELATED-TO:todo-2@todo-app',
+      'END:VTODO',
+      'END:VCALENDAR',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should escape text and fold long lines without splitting characters', () => {
+    const title = 'Buy milk, eggs; and bread\\butter\n' + 'é'.repeat(60);
+    const content = write([{ title, tags: ['a,b'] }]);
+    const lines = content.split('\r\n');
+
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines).toContain('CATEGORIES:a\\,b');
+    expect(content).toContain('SUMMARY:Buy milk\\, eggs\\; and bread\\\\butter\\n');
+
+    const [todo] = readICalendarTodos(content);
+    expect(todo.title).toEqual(title);
+    expect(todo.tags).toEqual(['a,b']);
+  });
+
+  it('should write due times in their time zone, with its rules', () => {
+    const content = write([{
+      due_at: '2026-07-01T16:00:00.000Z',
+      due_time_zone: 'Europe/Lisbon',
+      recurrence_rule: 'FREQ=DAILY'
+    }]);
+
+    expect(content).toContain('DTSTART;TZID=Europe/Lisbon:20260701T170000\r\nDUE;TZID=Europe/Lisbon:20260701T170000\r\nRRULE:FREQ=DAILY\r\n');
+    expect(content).toContain([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260329T010000',
+      'RDATE:20270328T010000',
+      'TZOFFSETFROM:+0000',
+      'TZOFFSETTO:+0100',
+      'END:DAYLIGHT'
+    ].join('\r\n'));
+    expect(content).toContain('TZOFFSETFROM:+0100\r\nTZOFFSETTO:+0000\r\n');
+
+    expect(readICalendarTodos(content)[0]).toMatchObject({
+      due_at: '2026-07-01T16:00:00.000Z',
+      due_all_day: false,
+      due_time_zone: 'Europe/Lisbon',
+      recurrence_rule: 'FREQ=DAILY'
+    });
+  });
+
+  it('should write dated todos as events when asked', () => {
+    const content = write([
+      { id: 1, due_at: '2026-10-21T00:00:00.000Z', due_all_day: true },
+      { id: 2, due_at: '2026-10-21T09:30:00.000Z' },
+      { id: 3 }
+    ], true);
+
+    expect(content.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(content).toContain('UID:event-1@todo-app\r\n');
+    expect(content).toContain('DTSTART;VALUE=DATE:20261021\r\nDTEND;VALUE=DATE:20261022\r\n');
+    expect(content).toContain('DTSTART:20261021T093000Z\r\nTRANSP:TRANSPARENT\r\n');
+    // Events are left out when reading
+    expect(readICalendarTodos(content)).toHaveLength(3);
+  });
+
+  it('should read what other apps write', () => {
+    const [todo] = readICalendarTodos([
+      '\uFEFFBEGIN:VCALENDAR',
+      'BEGIN:VTIMEZONE',
+      'TZID:W. Europe Standard Time',
+      'END:VTIMEZONE',
+      'BEGIN:VTODO',
+      'UID:abc@example.com',
+      'SUMMARY;LANGUAGE=en:Call the ',
+      ' bank',
+      'PERCENT-COMPLETE:100',
+      'PRIORITY:7',
+      'DUE;TZID="W. Europe Standard Time":20261021T093000',
+      'RELATED-TO;RELTYPE=SIBLING:other@example.com',
+      'CATEGORIES:phone',
+      'CATEGORIES:town,phone',
+      'END:VTODO',
+      'END:VCALENDAR'
+    ].join('\n'));
+
+    expect(todo).toEqual({
+      line: 5,
+      uid: 'abc@example.com',
+      parent_uid: null,
+      cancelled: false,
+      title: 'Call the bank',
+      description: null,
+      completed: true,
+      priority: 'low',
+      // Zones that are not IANA names are read as UTC
+      due_at: '2026-10-21T09:30:00.000Z',
+      due_all_day: false,
+      due_time_zone: null,
+      recurrence_rule: null,
+      tags: ['phone', 'town']
+    });
+  });
+
+  it('should pass on due dates it cannot read', () => {
+    const [todo] = readICalendarTodos('BEGIN:VCALENDAR\nBEGIN:VTODO\nSUMMARY:x\nDUE:20261345\nEND:VTODO\nEND:VCALENDAR\n');
+
+    expect(todo.due_at).toEqual('20261345');
+  });
+
+  it('should reject files that are not iCalendar', () => {
+    expect(() => readICalendarTodos('BEGIN:VCARD\nEND:VCARD\n')).toThrow('The file is not an iCalendar file');
+    expect(() => readICalendarTodos('BEGIN:VCALENDAR\nBEGIN:VTODO\nEND:VCALENDAR\n')).toThrow('Line 3 ends VCALENDAR but VTODO is open');
+    expect(() => readICalendarTodos('BEGIN:VCALENDAR\nBEGIN:VTODO\n')).toThrow('VTODO on line 2 is never ended');
+    expect(() => readICalendarTodos('Hello there\n')).toThrow('Line 1 is not an iCalendar property');
+  });
+});
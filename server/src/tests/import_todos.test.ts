@@ -0,0 +1,300 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, todoEventsTable, todosTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { createList } from '../handlers/create_list';
+import { createTag } from '../handlers/create_tag';
+import { exportTodos } from '../handlers/export_todos';
+import { importTodos } from '../handlers/import_todos';
+import { tagNamesOf } from '../helpers/history';
+import { positionOrder } from '../helpers/positions';
+import { ValidationError } from '../errors';
+import { asc, eq, sql } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Top-level todos first, each level in the manual order
+const ownTodos = () => db.select()
+  .from(todosTable)
+  .where(eq(todosTable.owner_id, ownerId))
+  .orderBy(sql`${todosTable.parent_id} nulls first`, asc(positionOrder))
+  .execute();
+
+const exportFile = (todos: object[]): string =>
+  JSON.stringify({ format: 'todo-export', version: 1, exported_at: new Date().toISOString(), todos });
+
+describe('importTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should create todos from a JSON export, with their lists, tags and subtasks', async () => {
+    const result = await importTodos({
+      format: 'json',
+      dry_run: false,
+      content: exportFile([
+        { id: 101, title: 'Plan launch', list: 'Work', tags: ['Q3', 'urgent'], priority: 'high' },
+        { id: 102, title: 'Write post', parent_id: 101, due_at: '2026-05-04T00:00:00.000Z', due_all_day: true },
+        { id: 103, title: 'Book venue', parent_id: 101, completed: true }
+      ])
+    }, ownerId);
+
+    expect(result).toMatchObject({ dry_run: false, created: 3, updated: 0, skipped: 0 });
+
+    const [parent, ...subtasks] = await ownTodos();
+    const [work] = await db.select().from(listsTable).where(eq(listsTable.name, 'Work')).execute();
+    expect(parent).toMatchObject({ title: 'Plan launch', priority: 'high', list_id: work.id, parent_id: null });
+    expect(await tagNamesOf(db, parent.id)).toEqual(['Q3', 'urgent']);
+    // Subtasks keep the file's order and their parent's list
+    expect(subtasks.map(todo => [todo.title, todo.parent_id, todo.list_id, todo.completed])).toEqual([
+      ['Write post', parent.id, work.id, false],
+      ['Book venue', parent.id, work.id, true]
+    ]);
+    expect(subtasks[0].due_at).toEqual(new Date('2026-05-04T00:00:00.000Z'));
+
+    const events = await db.select().from(todoEventsTable).execute();
+    expect(events.map(event => event.operation)).toEqual(['created', 'created', 'created']);
+  });
+
+  it('should update matching todos and skip unchanged ones', async () => {
+    const kept = await createTodo({ title: 'Water plants', description: null }, ownerId);
+    const changed = await createTodo({ title: 'Pay rent', description: null }, ownerId);
+
+    const file = await exportTodos({ format: 'json' }, ownerId);
+    const exported = JSON.parse(file.content);
+    exported.todos = exported.todos.map((todo: { id: number }) =>
+      todo.id === changed.id ? { ...todo, title: 'Pay the rent', completed: true } : todo
+    );
+
+    const result = await importTodos({ format: 'json', dry_run: false, content: JSON.stringify(exported) }, ownerId);
+
+    expect(result).toMatchObject({ created: 0, updated: 1, skipped: 1 });
+    expect(result.items.find(item => item.title === 'Water plants')).toMatchObject({ action: 'skip', reason: 'Unchanged' });
+
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, changed.id)).execute();
+    expect(row).toMatchObject({ title: 'Pay the rent', completed: true, version: 2 });
+    const [unchanged] = await db.select().from(todosTable).where(eq(todosTable.id, kept.id)).execute();
+    expect(unchanged.version).toEqual(1);
+  });
+
+  it('should match todos without an id by title among their siblings', async () => {
+    const existing = await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    const result = await importTodos({
+      format: 'markdown',
+      dry_run: false,
+      content: '- [x] Buy milk\n- [ ] Buy bread\n'
+    }, ownerId);
+
+    expect(result.items.map(item => [item.title, item.action])).toEqual([['Buy milk', 'update'], ['Buy bread', 'create']]);
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, existing.id)).execute();
+    expect(row.completed).toBe(true);
+  });
+
+  it('should report what would happen without changing anything in a dry run', async () => {
+    await createTodo({ title: 'Existing', description: null }, ownerId);
+
+    const result = await importTodos({
+      format: 'json',
+      dry_run: true,
+      content: exportFile([
+        { title: 'Existing', description: 'Now with notes' },
+        { title: 'New one', list: 'Someday', tags: ['later'] },
+        { title: '' }
+      ])
+    }, ownerId);
+
+    expect(result).toMatchObject({ dry_run: true, created: 1, updated: 1, skipped: 1 });
+    expect(result.items[2]).toMatchObject({ row: 3, action: 'skip', reason: 'title: Title is required' });
+
+    const todos = await ownTodos();
+    expect(todos.map(todo => [todo.title, todo.description])).toEqual([['Existing', null]]);
+    expect(await db.select().from(listsTable).where(eq(listsTable.name, 'Someday')).execute()).toEqual([]);
+    expect(await db.select().from(tagsTable).execute()).toEqual([]);
+  });
+
+  it('should map CSV columns by header', async () => {
+    const list = await createList({ name: 'Errands' }, ownerId);
+    const content = [
+      'Task,Notes,Done,Labels,Ignored',
+      'Post letter,First class,yes,"post; town",x',
+      'Pick up parcel,,no,,y'
+    ].join('\n');
+
+    const result = await importTodos({
+      format: 'csv',
+      dry_run: false,
+      list_id: list.id,
+      csv_columns: { Task: 'title', Notes: 'description', Done: 'completed', Labels: 'tags', Ignored: null },
+      content
+    }, ownerId);
+
+    expect(result.items.map(item => [item.row, item.action])).toEqual([[2, 'create'], [3, 'create']]);
+    const todos = await ownTodos();
+    expect(todos.map(todo => [todo.title, todo.description, todo.completed, todo.list_id])).toEqual([
+      ['Post letter', 'First class', true, list.id],
+      ['Pick up parcel', null, false, list.id]
+    ]);
+    expect(await tagNamesOf(db, todos[0].id)).toEqual(['post', 'town']);
+  });
+
+  it('should require a CSV column for the title', async () => {
+    await expect(importTodos({ format: 'csv', dry_run: true, content: 'Task\nSomething\n' }, ownerId))
+      .rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should nest Markdown checklist items by indentation under their headings\' lists', async () => {
+    const content = [
+      '# Trip',
+      '',
+      'Some notes that are not todos.',
+      '- [ ] Pack',
+      '  - [x] Passport',
+      '  - [ ] Charger',
+      '    - [ ] Adapter',
+      '- [X] Book hotel'
+    ].join('\n');
+
+    const result = await importTodos({ format: 'markdown', dry_run: false, content }, ownerId);
+
+    expect(result.items.map(item => [item.row, item.title])).toEqual([
+      [4, 'Pack'], [5, 'Passport'], [6, 'Charger'], [7, 'Adapter'], [8, 'Book hotel']
+    ]);
+    const todos = await ownTodos();
+    const byTitle = new Map(todos.map(todo => [todo.title, todo]));
+    const [trip] = await db.select().from(listsTable).where(eq(listsTable.name, 'Trip')).execute();
+    expect(byTitle.get('Pack')).toMatchObject({ parent_id: null, list_id: trip.id, completed: false });
+    expect(byTitle.get('Passport')).toMatchObject({ parent_id: byTitle.get('Pack')!.id, completed: true });
+    expect(byTitle.get('Adapter')!.parent_id).toEqual(byTitle.get('Charger')!.id);
+    expect(byTitle.get('Book hotel')).toMatchObject({ parent_id: null, completed: true });
+  });
+
+  it('should skip records whose parent cannot be used', async () => {
+    const result = await importTodos({
+      format: 'json',
+      dry_run: false,
+      content: exportFile([
+        { id: 1, title: 'Weekly review', recurrence_rule: 'FREQ=WEEKLY' },
+        { id: 2, title: 'Clear inbox', parent_id: 1 },
+        { id: 3, title: 'Orphan', parent_id: 999 },
+        { id: 4, title: 'Loop A', parent_id: 5 },
+        { id: 5, title: 'Loop B', parent_id: 4 }
+      ])
+    }, ownerId);
+
+    expect(result.items.map(item => item.reason)).toEqual([
+      'Recurring todos need a due date',
+      'Its parent was skipped',
+      'Parent todo 999 not found',
+      'Its parent is one of its own subtasks',
+      'Its parent is one of its own subtasks'
+    ]);
+    expect(await ownTodos()).toEqual([]);
+  });
+
+  it('should read back its own exports in every format', async () => {
+    const parent = await createTodo({ title: 'Plan launch', description: null }, ownerId);
+    await createTodo({ title: 'Write post', description: null, parent_id: parent.id }, ownerId);
+
+    for (const format of ['json', 'csv', 'markdown', 'todotxt', 'ical'] as const) {
+      const file = await exportTodos({ format }, ownerId);
+      const result = await importTodos({ format, dry_run: true, content: file.content }, ownerId);
+
+      expect(result).toMatchObject({ created: 0, updated: 0, skipped: 2 });
+    }
+  });
+
+  it('should read VTODOs from iCalendar files', async () => {
+    const content = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Example//Tasks//EN',
+      'BEGIN:VTODO',
+      'UID:trip@example.com',
+      'SUMMARY:Plan the trip',
+      'DESCRIPTION:Flights\\, hotel\\nand a car',
+      'PRIORITY:2',
+      'DUE;TZID=Europe/Lisbon:20261021T093000',
+      'RRULE:FREQ=WEEKLY;BYDAY=WE',
+      'CATEGORIES:travel,family',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:passport@example.com',
+      'SUMMARY:Renew passport',
+      'STATUS:COMPLETED',
+      'RELATED-TO:trip@example.com',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:cruise@example.com',
+      'SUMMARY:Book a cruise',
+      'STATUS:CANCELLED',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Pack',
+      'RELATED-TO:elsewhere@example.com',
+      'END:VTODO',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const result = await importTodos({ format: 'ical', dry_run: false, content }, ownerId);
+
+    expect(result.items.map(item => [item.row, item.action, item.reason])).toEqual([
+      [4, 'create', null],
+      [13, 'create', null],
+      [19, 'skip', 'Cancelled'],
+      [24, 'skip', 'Its parent is not in the file']
+    ]);
+
+    const [trip, passport] = await ownTodos();
+    expect(trip).toMatchObject({
+      title: 'Plan the trip',
+      description: 'Flights, hotel\nand a car',
+      completed: false,
+      priority: 'high',
+      due_at: new Date('2026-10-21T08:30:00Z'),
+      due_all_day: false,
+      due_time_zone: 'Europe/Lisbon',
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=WE'
+    });
+    expect(await tagNamesOf(db, trip.id)).toEqual(['family', 'travel']);
+    expect(passport).toMatchObject({ title: 'Renew passport', completed: true, parent_id: trip.id });
+  });
+
+  it('should read back every field of its own iCalendar exports', async () => {
+    const tag = await createTag({ name: 'work' }, ownerId);
+    const parent = await createTodo({
+      title: 'Weekly report; draft, then send',
+      description: 'Numbers\nfrom the dashboard',
+      priority: 'urgent',
+      due_at: new Date('2026-03-27T17:00:00Z'),
+      due_time_zone: 'America/New_York',
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=FR',
+      tag_ids: [tag.id]
+    }, ownerId);
+    await createTodo({
+      title: 'Collect numbers',
+      description: null,
+      parent_id: parent.id,
+      priority: 'low',
+      due_at: new Date('2026-03-26T00:00:00Z'),
+      due_all_day: true
+    }, ownerId);
+
+    const file = await exportTodos({ format: 'ical', calendar_events: true }, ownerId);
+    const result = await importTodos({ format: 'ical', dry_run: true, content: file.content }, ownerId);
+
+    expect(result).toMatchObject({ created: 0, updated: 0, skipped: 2 });
+    expect(result.items.map(item => item.reason)).toEqual(['Unchanged', 'Unchanged']);
+  });
+
+  it('should reject unsupported export versions', async () => {
+    const content = JSON.stringify({ format: 'todo-export', version: 2, todos: [] });
+
+    await expect(importTodos({ format: 'json', dry_run: false, content }, ownerId))
+      .rejects.toThrow('Todo export version 2 is not supported');
+  });
+});
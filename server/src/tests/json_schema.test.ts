@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import { toJsonSchema } from '../helpers/jsonSchema';
+
+describe('toJsonSchema', () => {
+  it('should describe strings and numbers with their checks', () => {
+    expect(toJsonSchema(z.string().trim().min(1).max(50), { io: 'input' })).toEqual({ type: 'string', minLength: 1, maxLength: 50 });
+    expect(toJsonSchema(z.string().regex(/^#[0-9a-f]{6}$/), { io: 'input' })).toEqual({ type: 'string', pattern: '^#[0-9a-f]{6}$' });
+    expect(toJsonSchema(z.number().int().min(1).lt(10), { io: 'input' })).toEqual({ type: 'integer', minimum: 1, exclusiveMaximum: 10 });
+    expect(toJsonSchema(z.coerce.date(), { io: 'output' })).toEqual({ type: 'string', format: 'date-time' });
+  });
+
+  it('should only require fields with defaults in outputs', () => {
+    const schema = z.object({
+      title: z.string(),
+      limit: z.number().default(20),
+      cursor: z.string().nullable().optional()
+    });
+
+    expect(toJsonSchema(schema, { io: 'input' })).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        limit: { type: 'number', default: 20 },
+        cursor: { type: ['string', 'null'] }
+      },
+      required: ['title']
+    });
+    expect(toJsonSchema(schema, { io: 'output' })['required']).toEqual(['title', 'limit']);
+  });
+
+  it('should allow null in enums and around references', () => {
+    const priority = z.enum(['low', 'high']);
+
+    expect(toJsonSchema(priority.nullable(), { io: 'input' })).toEqual({ type: ['string', 'null'], enum: ['low', 'high', null] });
+    expect(toJsonSchema(priority.nullable(), { io: 'output', refs: new Map([[priority, 'Priority']]) }))
+      .toEqual({ anyOf: [{ $ref: '#/components/schemas/Priority' }, { type: 'null' }] });
+  });
+
+  it('should describe unions, literals, records and arrays', () => {
+    const schema = z.discriminatedUnion('type', [
+      z.object({ type: z.literal('deleted'), ids: z.array(z.number()).min(1).max(5) }),
+      z.object({ type: z.literal('renamed'), names: z.record(z.string()) })
+    ]);
+
+    expect(toJsonSchema(schema, { io: 'output' })).toEqual({
+      oneOf: [
+        {
+          type: 'object',
+          properties: { type: { type: 'string', const: 'deleted' }, ids: { type: 'array', items: { type: 'number' }, minItems: 1, maxItems: 5 } },
+          required: ['type', 'ids']
+        },
+        {
+          type: 'object',
+          properties: { type: { type: 'string', const: 'renamed' }, names: { type: 'object', additionalProperties: { type: 'string' } } },
+          required: ['type', 'names']
+        }
+      ]
+    });
+  });
+
+  it('should see through refinements and refer to recursive schemas', () => {
+    type Node = { name: string; children: Node[] };
+    const node: z.ZodType<Node> = z.object({ name: z.string().refine(name => name !== ''), children: z.lazy(() => z.array(node)) });
+
+    expect(toJsonSchema(node, { io: 'output', refs: new Map([[node, 'Node']]) })).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } },
+      required: ['name', 'children']
+    });
+  });
+
+  it('should keep descriptions', () => {
+    expect(toJsonSchema(z.boolean().describe('Whether it is done'), { io: 'input' })).toEqual({ type: 'boolean', description: 'Whether it is done' });
+  });
+});
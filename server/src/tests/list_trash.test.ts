@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { listTrash } from '../handlers/list_trash';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('listTrash', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should return trashed todos, most recently deleted first', async () => {
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Older', description: null, deleted_at: new Date('2024-01-01T00:00:00Z') },
+        { owner_id: ownerId, title: 'Live', description: null },
+        { owner_id: ownerId, title: 'Newer', description: null, deleted_at: new Date('2024-02-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const result = await listTrash(ownerId);
+
+    expect(result.map(todo => todo.title)).toEqual(['Newer', 'Older']);
+  });
+
+  it('should leave out subtasks trashed along with their parent', async () => {
+    const deletedAt = new Date();
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null, deleted_at: deletedAt })
+      .returning()
+      .execute();
+    const [live] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Live parent', description: null })
+      .returning()
+      .execute();
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Hidden step', description: null, parent_id: parent.id, deleted_at: deletedAt },
+        { owner_id: ownerId, title: 'Own step', description: null, parent_id: live.id, deleted_at: deletedAt }
+      ])
+      .execute();
+
+    const result = await listTrash(ownerId);
+
+    expect(result.map(todo => todo.title).sort()).toEqual(['Own step', 'Parent']);
+  });
+
+  it('should only return trash of the given owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values({ owner_id: otherOwnerId, title: 'Theirs', description: null, deleted_at: new Date() })
+      .execute();
+
+    expect(await listTrash(ownerId)).toEqual([]);
+  });
+});
@@ -0,0 +1,27 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { signUp } from '../handlers/sign_up';
+import { logIn } from '../handlers/log_in';
+import { getSessionUser } from '../helpers/auth';
+
+describe('logIn', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start a new session for valid credentials', async () => {
+    const account = await signUp({ email: 'ada@example.com', password: 'correct horse' });
+
+    const result = await logIn({ email: 'ada@example.com', password: 'correct horse' });
+
+    expect(result.user.id).toEqual(account.user.id);
+    expect(result.token).not.toEqual(account.token);
+    expect((await getSessionUser(result.token))?.email).toEqual('ada@example.com');
+  });
+
+  it('should reject a wrong password or unknown email', async () => {
+    await signUp({ email: 'ada@example.com', password: 'correct horse' });
+
+    await expect(logIn({ email: 'ada@example.com', password: 'wrong horse' })).rejects.toThrow(/invalid email or password/i);
+    await expect(logIn({ email: 'bob@example.com', password: 'correct horse' })).rejects.toThrow(/invalid email or password/i);
+  });
+});
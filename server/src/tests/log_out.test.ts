@@ -0,0 +1,22 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { signUp } from '../handlers/sign_up';
+import { logIn } from '../handlers/log_in';
+import { logOut } from '../handlers/log_out';
+import { getSessionUser } from '../helpers/auth';
+
+describe('logOut', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should end only the given session', async () => {
+    const first = await signUp({ email: 'ada@example.com', password: 'correct horse' });
+    const second = await logIn({ email: 'ada@example.com', password: 'correct horse' });
+
+    const result = await logOut(first.token);
+
+    expect(result.success).toBe(true);
+    expect(await getSessionUser(first.token)).toBeNull();
+    expect((await getSessionUser(second.token))?.id).toEqual(first.user.id);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type Todo } from '../schema';
+import { createTodo } from '../handlers/create_todo';
+import { getTodos } from '../handlers/get_todos';
+import { moveTodo } from '../handlers/move_todo';
+import { asc, eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Creates todos that end up in the given order, first to last
+const createInOrder = async (...titles: string[]): Promise<Todo[]> => {
+  const todos: Todo[] = [];
+  for (const title of [...titles].reverse()) {
+    todos.unshift(await createTodo({ title, description: null }, ownerId));
+  }
+  return todos;
+};
+
+const manualOrder = async (): Promise<string[]> => {
+  const page = await getTodos({
+    status: 'all',
+    sort_by: 'position',
+    sort_direction: 'asc',
+    time_zone: 'UTC',
+    limit: 100
+  }, ownerId);
+  return page.items.map(todo => todo.title);
+};
+
+describe('moveTodo', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should move a todo between two neighbours, rewriting only its row', async () => {
+    const [a, b, c, d] = await createInOrder('A', 'B', 'C', 'D');
+
+    const moved = await moveTodo({ id: d.id, before_id: a.id, after_id: b.id }, ownerId);
+
+    expect(moved.version).toEqual(d.version + 1);
+    expect(moved.position > a.position && moved.position < b.position).toBe(true);
+    expect(await manualOrder()).toEqual(['A', 'D', 'B', 'C']);
+
+    const others = await db.select().from(todosTable).where(eq(todosTable.id, c.id)).execute();
+    expect(others[0].position).toEqual(c.position);
+    expect(others[0].version).toEqual(c.version);
+  });
+
+  it('should place a todo right after or right before a single neighbour', async () => {
+    const [a, , c] = await createInOrder('A', 'B', 'C');
+
+    await moveTodo({ id: c.id, before_id: a.id }, ownerId);
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+
+    await moveTodo({ id: a.id, after_id: c.id }, ownerId);
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+
+    await moveTodo({ id: c.id, after_id: a.id }, ownerId);
+    expect(await manualOrder()).toEqual(['C', 'A', 'B']);
+
+    await moveTodo({ id: c.id, before_id: a.id, after_id: null }, ownerId);
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+  });
+
+  it('should spread ranks out when the neighbours share one', async () => {
+    // Rows from before manual ordering all have the default rank
+    const rows = await db.insert(todosTable)
+      .values(['A', 'B', 'C'].map(title => ({ owner_id: ownerId, title, description: null })))
+      .returning()
+      .execute();
+
+    await moveTodo({ id: rows[2].id, before_id: rows[0].id, after_id: rows[1].id }, ownerId);
+
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+    const positions = await db.select({ position: todosTable.position })
+      .from(todosTable)
+      .orderBy(asc(todosTable.id))
+      .execute();
+    expect(new Set(positions.map(row => row.position)).size).toEqual(3);
+  });
+
+  it('should keep moves within the todo\'s siblings', async () => {
+    const [a, b] = await createInOrder('A', 'B');
+    const subtask = await createTodo({ title: 'Subtask', description: null, parent_id: a.id }, ownerId);
+
+    await expect(moveTodo({ id: subtask.id, before_id: b.id }, ownerId)).rejects.toThrow(/not found among/i);
+    await expect(moveTodo({ id: b.id, after_id: subtask.id }, ownerId)).rejects.toThrow(/not found among/i);
+  });
+
+  it('should reject misordered neighbours and moves next to itself', async () => {
+    const [a, b, c] = await createInOrder('A', 'B', 'C');
+
+    await expect(moveTodo({ id: c.id, before_id: b.id, after_id: a.id }, ownerId)).rejects.toThrow(/must come ahead/i);
+    await expect(moveTodo({ id: c.id, before_id: c.id }, ownerId)).rejects.toThrow(/next to itself/i);
+    expect(await manualOrder()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should not move todos of other users or in the trash', async () => {
+    const [a, b] = await createInOrder('A', 'B');
+    const otherOwnerId = await createTestUser('other@example.com');
+
+    await expect(moveTodo({ id: b.id, after_id: a.id }, otherOwnerId)).rejects.toThrow(/not found/i);
+
+    await db.update(todosTable).set({ deleted_at: new Date() }).where(eq(todosTable.id, a.id)).execute();
+    await expect(moveTodo({ id: a.id, after_id: b.id }, ownerId)).rejects.toThrow(/not found/i);
+    await expect(moveTodo({ id: b.id, before_id: a.id }, ownerId)).rejects.toThrow(/not found among/i);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { rebalanceLongRanks } from '../helpers/positions';
+import { MAX_RANK_LENGTH } from '../helpers/ranks';
+import { asc, eq, sql } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const titlesInOrder = async (owner: number): Promise<string[]> => {
+  const rows = await db.select({ title: todosTable.title })
+    .from(todosTable)
+    .where(eq(todosTable.owner_id, owner))
+    .orderBy(asc(sql`${todosTable.position} collate "C"`), asc(todosTable.id))
+    .execute();
+  return rows.map(row => row.title);
+};
+
+describe('rebalanceLongRanks', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should shorten long ranks and keep the order', async () => {
+    const longRank = 'a'.repeat(MAX_RANK_LENGTH) + 'i';
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Second', description: null, position: longRank },
+        { owner_id: ownerId, title: 'First', description: null, position: 'a' },
+        { owner_id: ownerId, title: 'Third', description: null, position: 'b' }
+      ])
+      .execute();
+
+    expect(await rebalanceLongRanks()).toEqual(1);
+
+    expect(await titlesInOrder(ownerId)).toEqual(['First', 'Second', 'Third']);
+    const rows = await db.select().from(todosTable).execute();
+    expect(rows.every(row => row.position.length <= 2)).toBe(true);
+  });
+
+  it('should separate siblings that share a rank', async () => {
+    await db.insert(todosTable)
+      .values(['A', 'B', 'C'].map(title => ({ owner_id: ownerId, title, description: null })))
+      .execute();
+
+    expect(await rebalanceLongRanks()).toEqual(1);
+
+    expect(await titlesInOrder(ownerId)).toEqual(['A', 'B', 'C']);
+    const rows = await db.select().from(todosTable).execute();
+    expect(new Set(rows.map(row => row.position)).size).toEqual(3);
+  });
+
+  it('should leave users with short distinct ranks alone', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Mine', description: null, position: 'i' },
+        { owner_id: otherOwnerId, title: 'Theirs', description: null, position: 'i' }
+      ])
+      .execute();
+
+    expect(await rebalanceLongRanks()).toEqual(0);
+  });
+});
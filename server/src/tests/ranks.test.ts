@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { evenRanks, isValidRank, rankBetween } from '../helpers/ranks';
+
+describe('ranks', () => {
+  it('should rank between two neighbours', () => {
+    expect(rankBetween(null, null)).toEqual('i');
+    expect(rankBetween('a', 'c')).toEqual('b');
+    expect(rankBetween('a', 'b')).toEqual('ai');
+    expect(rankBetween('a', 'a1')).toEqual('a0i');
+    expect(rankBetween('az', 'b')).toEqual('azi');
+    expect(rankBetween('a5', 'b5')).toEqual('b');
+  });
+
+  it('should rank ahead of the first and after the last', () => {
+    expect(rankBetween(null, 'i')).toEqual('9');
+    expect(rankBetween(null, '1')).toEqual('0i');
+    expect(rankBetween(null, '01')).toEqual('00i');
+    expect(rankBetween('i', null)).toEqual('r');
+    expect(rankBetween('z', null)).toEqual('zi');
+  });
+
+  it('should keep finding ranks between the same neighbours', () => {
+    let before = 'a';
+    const after = 'b';
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween(before, after);
+      expect(isValidRank(rank)).toBe(true);
+      expect(rank > before && rank < after).toBe(true);
+      before = rank;
+    }
+
+    let last = 'i';
+    for (let i = 0; i < 50; i++) {
+      const rank = rankBetween(null, last);
+      expect(isValidRank(rank)).toBe(true);
+      expect(rank < last).toBe(true);
+      last = rank;
+    }
+  });
+
+  it('should reject invalid or misordered neighbours', () => {
+    expect(() => rankBetween('b', 'a')).toThrow(/does not sort before/);
+    expect(() => rankBetween('a', 'a')).toThrow(/does not sort before/);
+    expect(() => rankBetween('a0', null)).toThrow(/invalid rank/i);
+    expect(() => rankBetween(null, 'A')).toThrow(/invalid rank/i);
+    expect(isValidRank('')).toBe(false);
+  });
+
+  it('should spread ranks out evenly', () => {
+    expect(evenRanks(0)).toEqual([]);
+    expect(evenRanks(1)).toEqual(['i']);
+
+    for (const count of [2, 35, 36, 1000]) {
+      const ranks = evenRanks(count);
+      expect(ranks).toHaveLength(count);
+      expect(ranks.every(isValidRank)).toBe(true);
+      expect([...ranks].sort()).toEqual(ranks);
+      expect(new Set(ranks).size).toEqual(count);
+    }
+    // Short enough to leave room before they need spreading out again
+    expect(Math.max(...evenRanks(1000).map(rank => rank.length))).toBeLessThanOrEqual(3);
+  });
+});
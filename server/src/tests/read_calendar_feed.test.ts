@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createTodo } from '../handlers/create_todo';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { readCalendarFeed } from '../handlers/read_calendar_feed';
+import { calendarFeedToken } from '../helpers/calendarFeeds';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('readCalendarFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should serve the owner\'s todos as iCalendar', async () => {
+    await createTodo({ title: 'Mine', description: null, due_at: new Date('2026-10-21T09:30:00Z') }, ownerId);
+    const otherOwnerId = await createTestUser('other@example.com');
+    await createTodo({ title: 'Theirs', description: null }, otherOwnerId);
+    const feed = await createCalendarFeed({ include_events: true }, ownerId);
+
+    const file = await readCalendarFeed(calendarFeedToken(feed.path)!);
+
+    expect(file?.mime_type).toEqual('text/calendar');
+    expect(file?.content).toContain('SUMMARY:Mine\r\n');
+    expect(file?.content).not.toContain('Theirs');
+    expect(file?.content.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it('should return null for unknown tokens', async () => {
+    expect(await readCalendarFeed('not-a-feed-token')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test';
+import { formatRecurrenceRule, isValidRecurrenceRule, nextOccurrence, parseRecurrenceRule } from '../helpers/recurrence';
+
+// Due date of the occurrence after the given one, as an ISO string
+const nextDue = (rule: string, dueAt: string, allDay = false, timeZone = 'UTC'): string | undefined =>
+  nextOccurrence(rule, new Date(dueAt), allDay, timeZone)?.due_at.toISOString();
+
+describe('recurrence rules', () => {
+  it('should parse and format rules', () => {
+    const rule = parseRecurrenceRule('RRULE:freq=monthly;interval=2;byday=-1FR;count=6');
+
+    expect(rule).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ weekday: 'FR', ordinal: -1 }],
+      count: 6,
+      until: null
+    });
+    expect(formatRecurrenceRule(rule)).toEqual('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6');
+    expect(formatRecurrenceRule(parseRecurrenceRule('FREQ=DAILY;UNTIL=20260301T120000Z')))
+      .toEqual('FREQ=DAILY;UNTIL=20260301T120000Z');
+  });
+
+  it('should reject unsupported or malformed rules', () => {
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=MO,FR')).toBe(true);
+    expect(isValidRecurrenceRule('FREQ=HOURLY')).toBe(false);
+    expect(isValidRecurrenceRule('INTERVAL=2')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=DAILY;COUNT=3;UNTIL=20260101')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=YEARLY;BYDAY=MO')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=DAILY;BYMONTH=1')).toBe(false);
+  });
+
+  it('should repeat daily and every n days', () => {
+    expect(nextDue('FREQ=DAILY', '2026-01-30T09:00:00.000Z')).toEqual('2026-01-31T09:00:00.000Z');
+    expect(nextDue('FREQ=DAILY;INTERVAL=3', '2026-01-30T09:00:00.000Z')).toEqual('2026-02-02T09:00:00.000Z');
+    // Weekdays only: Friday is followed by Monday
+    expect(nextDue('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR', '2026-01-30T09:00:00.000Z')).toEqual('2026-02-02T09:00:00.000Z');
+  });
+
+  it('should repeat weekly on the given days', () => {
+    // Monday 2026-01-05 -> Thursday -> next Monday
+    expect(nextDue('FREQ=WEEKLY;BYDAY=MO,TH', '2026-01-05T08:00:00.000Z')).toEqual('2026-01-08T08:00:00.000Z');
+    expect(nextDue('FREQ=WEEKLY;BYDAY=MO,TH', '2026-01-08T08:00:00.000Z')).toEqual('2026-01-12T08:00:00.000Z');
+    // Every other week skips the week in between
+    expect(nextDue('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', '2026-01-08T08:00:00.000Z')).toEqual('2026-01-19T08:00:00.000Z');
+    expect(nextDue('FREQ=WEEKLY', '2026-01-08T08:00:00.000Z')).toEqual('2026-01-15T08:00:00.000Z');
+  });
+
+  it('should keep the wall clock time across DST transitions', () => {
+    // New York springs forward on 2026-03-08 and falls back on 2026-11-01
+    expect(nextDue('FREQ=DAILY', '2026-03-07T14:00:00.000Z', false, 'America/New_York')).toEqual('2026-03-08T13:00:00.000Z');
+    expect(nextDue('FREQ=DAILY', '2026-10-31T13:00:00.000Z', false, 'America/New_York')).toEqual('2026-11-01T14:00:00.000Z');
+    expect(nextDue('FREQ=WEEKLY', '2026-03-27T08:30:00.000Z', false, 'Europe/Lisbon')).toEqual('2026-04-03T07:30:00.000Z');
+  });
+
+  it('should use the offset from before the gap for skipped wall clock times', () => {
+    // 02:30 does not exist in New York on 2026-03-08; it becomes 03:30 EDT
+    expect(nextDue('FREQ=DAILY', '2026-03-07T07:30:00.000Z', false, 'America/New_York')).toEqual('2026-03-08T07:30:00.000Z');
+  });
+
+  it('should skip months without the due day', () => {
+    expect(nextDue('FREQ=MONTHLY', '2026-01-31T10:00:00.000Z')).toEqual('2026-03-31T10:00:00.000Z');
+    expect(nextDue('FREQ=MONTHLY', '2026-08-31T10:00:00.000Z')).toEqual('2026-10-31T10:00:00.000Z');
+    expect(nextDue('FREQ=MONTHLY', '2026-01-30T10:00:00.000Z')).toEqual('2026-03-30T10:00:00.000Z');
+    expect(nextDue('FREQ=MONTHLY;INTERVAL=3', '2026-11-15T10:00:00.000Z')).toEqual('2027-02-15T10:00:00.000Z');
+  });
+
+  it('should repeat monthly on ordinal weekdays', () => {
+    // Last Friday of January 2026 -> last Friday of February
+    expect(nextDue('FREQ=MONTHLY;BYDAY=-1FR', '2026-01-30T00:00:00.000Z', true)).toEqual('2026-02-27T00:00:00.000Z');
+    // First Monday
+    expect(nextDue('FREQ=MONTHLY;BYDAY=1MO', '2026-01-05T00:00:00.000Z', true)).toEqual('2026-02-02T00:00:00.000Z');
+  });
+
+  it('should repeat yearly and only on leap days in leap years', () => {
+    expect(nextDue('FREQ=YEARLY', '2026-12-31T00:00:00.000Z', true)).toEqual('2027-12-31T00:00:00.000Z');
+    expect(nextDue('FREQ=YEARLY', '2028-02-29T00:00:00.000Z', true)).toEqual('2032-02-29T00:00:00.000Z');
+  });
+
+  it('should keep all-day dates on their calendar date in any time zone', () => {
+    expect(nextDue('FREQ=DAILY', '2026-03-07T00:00:00.000Z', true, 'America/New_York')).toEqual('2026-03-08T00:00:00.000Z');
+  });
+
+  it('should count down and stop after COUNT occurrences', () => {
+    const next = nextOccurrence('FREQ=DAILY;COUNT=2', new Date('2026-01-01T09:00:00.000Z'), false, 'UTC');
+
+    expect(next?.recurrence_rule).toEqual('FREQ=DAILY;COUNT=1');
+    expect(nextOccurrence('FREQ=DAILY;COUNT=1', new Date('2026-01-02T09:00:00.000Z'), false, 'UTC')).toBeNull();
+  });
+
+  it('should stop after UNTIL', () => {
+    expect(nextDue('FREQ=DAILY;UNTIL=20260102', '2026-01-01T09:00:00.000Z')).toEqual('2026-01-02T09:00:00.000Z');
+    expect(nextDue('FREQ=DAILY;UNTIL=20260102', '2026-01-02T09:00:00.000Z')).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { resetDB, createDB } from '../helpers';
+import { signUp } from '../handlers/sign_up';
+import { createTodo } from '../handlers/create_todo';
+import { createTag } from '../handlers/create_tag';
+import { handleRest, isRestRequest, openApiDocument } from '../rest';
+
+let server: Server;
+let baseUrl: string;
+let ownerId: number;
+let token: string;
+
+// Sends a REST request, signed in as the test user unless told otherwise
+const request = (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+  fetch(`${baseUrl}${path}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...headers }
+  });
+
+// Response bodies, typed as the test expects them
+const json = <T>(response: Response): Promise<T> => response.json() as Promise<T>;
+
+type ApiError = {
+  error: { code: string; message: string; issues?: { fieldErrors: Record<string, string[]> }; current_todo?: { version: number } };
+};
+
+type OpenApiDocument = {
+  openapi: string;
+  servers: { url: string }[];
+  paths: Record<string, Record<string, {
+    operationId: string;
+    security?: unknown[];
+    parameters?: ({ name: string } & Record<string, unknown>)[];
+    requestBody?: { content: Record<string, { schema: { required?: string[] } }> };
+  }>>;
+  components: { schemas: Record<string, unknown> };
+};
+
+type Page = { items: { id: number; title: string }[]; totalCount: number };
+
+// Every $ref in a document, wherever it is
+const refsOf = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(refsOf);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, inner]) => key === '$ref' ? [inner as string] : refsOf(inner));
+  }
+  return [];
+};
+
+describe('REST API', () => {
+  beforeEach(async () => {
+    await createDB();
+    const account = await signUp({ email: 'ada@example.com', password: 'correct horse' });
+    ownerId = account.user.id;
+    token = account.token;
+
+    server = createServer((req, res) => {
+      if (isRestRequest(req.url)) {
+        handleRest(req, res);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  it('should only take requests for its own paths', () => {
+    expect(isRestRequest('/todos?status=pending')).toBe(true);
+    expect(isRestRequest('/lists/3')).toBe(true);
+    expect(isRestRequest('/openapi.json')).toBe(true);
+    // tRPC procedure paths are left alone
+    expect(isRestRequest('/getTodos?input=%7B%7D')).toBe(false);
+    expect(isRestRequest('/me,getLists?batch=1')).toBe(false);
+  });
+
+  it('should require a session token', async () => {
+    const response = await request('GET', '/todos', undefined, { Authorization: '' });
+
+    expect(response.status).toEqual(401);
+    expect(response.headers.get('www-authenticate')).toEqual('Bearer');
+    expect((await json<ApiError>(response)).error.code).toEqual('UNAUTHORIZED');
+  });
+
+  it('should sign in and return the account', async () => {
+    const logIn = await request('POST', '/auth/log-in', { email: 'ada@example.com', password: 'correct horse' }, { Authorization: '' });
+    const session = await json<{ token: string }>(logIn);
+    const account = await request('GET', '/account', undefined, { Authorization: `Bearer ${session.token}` });
+
+    expect(logIn.status).toEqual(200);
+    expect((await json<{ email: string }>(account)).email).toEqual('ada@example.com');
+  });
+
+  it('should create todos and list them with query options', async () => {
+    const created = await request('POST', '/todos', { title: 'Buy milk', description: null, priority: 'high', due_at: '2026-10-21T09:00:00.000Z' });
+    await request('POST', '/todos', { title: 'Walk dog', description: null });
+
+    const todo = await json<{ priority: string; due_at: string }>(created);
+    const page = await json<Page>(await request('GET', '/todos?sort_by=title&sort_direction=asc&limit=1'));
+
+    expect(created.status).toEqual(201);
+    expect(todo.priority).toEqual('high');
+    expect(todo.due_at).toEqual('2026-10-21T09:00:00.000Z');
+    expect(page.items.map(item => item.title)).toEqual(['Buy milk']);
+    expect(page.totalCount).toEqual(2);
+  });
+
+  it('should read array query parameters repeated or comma-separated', async () => {
+    const tag = await createTag({ name: 'home' }, ownerId);
+    const other = await createTag({ name: 'work' }, ownerId);
+    const todo = await createTodo({ title: 'Both', description: null, tag_ids: [tag.id, other.id] }, ownerId);
+    await createTodo({ title: 'One', description: null, tag_ids: [tag.id] }, ownerId);
+
+    const commas = await json<Page>(await request('GET', `/todos?tag_ids=${tag.id},${other.id}`));
+    const repeated = await json<Page>(await request('GET', `/todos?tag_ids=${tag.id}&tag_ids=${other.id}`));
+
+    expect(commas.items.map(item => item.id)).toEqual([todo.id]);
+    expect(repeated.items.map(item => item.id)).toEqual([todo.id]);
+  });
+
+  it('should report invalid input field by field', async () => {
+    const response = await request('POST', '/todos', { title: '', description: null });
+    const body = await json<ApiError>(response);
+
+    expect(response.status).toEqual(400);
+    expect(body.error.message).toEqual('Invalid input');
+    expect(body.error.issues?.fieldErrors['title']).toEqual(['Title is required']);
+  });
+
+  it('should reject bodies that are not JSON objects', async () => {
+    const response = await fetch(`${baseUrl}/todos`, { method: 'POST', body: '{title', headers: { Authorization: `Bearer ${token}` } });
+
+    expect(response.status).toEqual(400);
+    expect((await json<ApiError>(response)).error.message).toEqual('The request body is not valid JSON');
+  });
+
+  it('should reject malformed percent-escapes in the path', async () => {
+    const response = await request('GET', '/todos/%E0%A4%A');
+
+    expect(response.status).toEqual(400);
+    expect(await json<ApiError>(response)).toEqual({
+      error: { code: 'BAD_REQUEST', message: 'The path is not validly percent-encoded' }
+    });
+  });
+
+  it('should update a todo by id and refuse stale versions', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    const updated = await request('PATCH', `/todos/${todo.id}`, { expectedVersion: todo.version, completed: true });
+    const stale = await request('PATCH', `/todos/${todo.id}`, { expectedVersion: todo.version, title: 'Buy oat milk' });
+    const conflict = await json<ApiError>(stale);
+
+    expect(updated.status).toEqual(200);
+    expect((await json<{ completed: boolean }>(updated)).completed).toBe(true);
+    expect(stale.status).toEqual(409);
+    expect(conflict.error.current_todo?.version).toEqual(todo.version + 1);
+  });
+
+  it('should delete with the version in the query and tag through nested paths', async () => {
+    const todo = await createTodo({ title: 'Buy milk', description: null }, ownerId);
+    const tag = await createTag({ name: 'home' }, ownerId);
+
+    const tagged = await request('PUT', `/todos/${todo.id}/tags/${tag.id}`);
+    const deleted = await request('DELETE', `/todos/${todo.id}?expectedVersion=${todo.version}`);
+    const trash = await json<{ id: number }[]>(await request('GET', '/trash'));
+
+    expect(await json<{ success: boolean }>(tagged)).toEqual({ success: true });
+    expect(await json<{ success: boolean }>(deleted)).toEqual({ success: true });
+    expect(trash.map(item => item.id)).toEqual([todo.id]);
+  });
+
+  it('should answer unknown routes, methods and missing records', async () => {
+    const unknown = await request('GET', '/todos/1/nothing');
+    const wrongMethod = await request('PUT', '/todos');
+    const noFeed = await request('GET', '/calendar-feed');
+    const missing = await request('PATCH', '/todos/999999', { expectedVersion: 1, title: 'Nope' });
+
+    expect(unknown.status).toEqual(404);
+    expect(wrongMethod.status).toEqual(405);
+    expect(wrongMethod.headers.get('allow')).toEqual('GET, POST');
+    expect(noFeed.status).toEqual(404);
+    expect(missing.status).toEqual(404);
+  });
+
+  it('should serve an OpenAPI document for the routes', async () => {
+    const response = await request('GET', '/openapi.json', undefined, { 'X-Forwarded-Prefix': '/api' });
+    const document = await json<OpenApiDocument>(response);
+
+    expect(document.openapi).toEqual('3.1.0');
+    expect(document.servers).toEqual([{ url: '/api' }]);
+    expect(document.paths['/todos']['get'].operationId).toEqual('getTodos');
+    expect(document.paths['/todos/{id}']['patch'].parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'number' } }
+    ]);
+    expect(document.paths['/todos/{id}']['patch'].requestBody?.content['application/json'].schema.required).toEqual(['expectedVersion']);
+    expect(document.paths['/auth/log-in']['post'].security).toEqual([]);
+    for (const ref of refsOf(document)) {
+      expect(document.components.schemas[ref.replace('#/components/schemas/', '')]).toBeDefined();
+    }
+  });
+
+  it('should document query parameters with their constraints', () => {
+    const document = openApiDocument('') as OpenApiDocument;
+    const limit = document.paths['/todos']['get'].parameters?.find(parameter => parameter.name === 'limit');
+
+    expect(limit).toEqual({ name: 'limit', in: 'query', required: false, schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } });
+  });
+
+  it('should serve a docs page that loads the document', async () => {
+    const response = await request('GET', '/docs', undefined, { 'X-Forwarded-Prefix': '/api' });
+
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('var SPEC_URL = "/api/openapi.json";');
+  });
+});
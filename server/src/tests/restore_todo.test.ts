@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { restoreTodo } from '../handlers/restore_todo';
+import { deleteTodo } from '../handlers/delete_todo';
+import { eq } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Inserts a todo and moves it to the trash, returning the trashed row
+const createTrashedTodo = async (title: string, parentId: number | null = null) => {
+  const [todo] = await db.insert(todosTable)
+    .values({ owner_id: ownerId, title, description: null, parent_id: parentId })
+    .returning()
+    .execute();
+  await deleteTodo({ id: todo.id, expectedVersion: todo.version }, ownerId);
+  const [trashed] = await db.select().from(todosTable).where(eq(todosTable.id, todo.id)).execute();
+  return trashed;
+};
+
+describe('restoreTodo', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should restore a trashed todo', async () => {
+    const trashed = await createTrashedTodo('Trashed');
+
+    const result = await restoreTodo({ id: trashed.id }, ownerId);
+
+    expect(result.id).toEqual(trashed.id);
+    expect(result.deleted_at).toBeNull();
+    expect(result.version).toEqual(trashed.version + 1);
+
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, trashed.id)).execute();
+    expect(row.deleted_at).toBeNull();
+  });
+
+  it('should restore subtasks trashed along with the todo', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+    await deleteTodo({ id: parent.id, expectedVersion: parent.version }, ownerId);
+
+    await restoreTodo({ id: parent.id }, ownerId);
+
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(row.deleted_at).toBeNull();
+  });
+
+  it('should leave subtasks trashed earlier in the trash', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    const child = await createTrashedTodo('Child', parent.id);
+    const [current] = await db.select().from(todosTable).where(eq(todosTable.id, parent.id)).execute();
+    await deleteTodo({ id: parent.id, expectedVersion: current.version }, ownerId);
+
+    await restoreTodo({ id: parent.id }, ownerId);
+
+    const [row] = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(row.deleted_at).toEqual(child.deleted_at);
+  });
+
+  it('should not restore a subtask while its parent is trashed', async () => {
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null })
+      .returning()
+      .execute();
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+    await deleteTodo({ id: parent.id, expectedVersion: parent.version }, ownerId);
+
+    await expect(restoreTodo({ id: child.id }, ownerId)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('should throw when the todo is not in the trash', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Live', description: null })
+      .returning()
+      .execute();
+
+    await expect(restoreTodo({ id: todo.id }, ownerId)).rejects.toBeInstanceOf(NotFoundError);
+    await expect(restoreTodo({ id: 999 }, ownerId)).rejects.toThrow(/not in the trash/i);
+  });
+
+  it('should not restore todos of another owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const trashed = await createTrashedTodo('Mine');
+
+    await expect(restoreTodo({ id: trashed.id }, otherOwnerId)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { createWebhook } from '../handlers/create_webhook';
+import { retryWebhookDelivery } from '../handlers/retry_webhook_delivery';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Queues one delivery to a new webhook of the given user
+const queueDelivery = async (userId: number) => {
+  await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, userId);
+  await createTodo({ title: 'Buy milk', description: null }, userId);
+  const [delivery] = await db.select().from(webhookDeliveriesTable).execute();
+  return delivery;
+};
+
+describe('retryWebhookDelivery', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should queue a dead delivery again with fresh attempts', async () => {
+    const delivery = await queueDelivery(ownerId);
+    await db.update(webhookDeliveriesTable)
+      .set({ status: 'dead', attempts: 8, next_attempt_at: new Date('2024-01-01T00:00:00Z') })
+      .where(eq(webhookDeliveriesTable.id, delivery.id))
+      .execute();
+
+    const retried = await retryWebhookDelivery({ id: delivery.id }, ownerId);
+
+    expect(retried).toMatchObject({ id: delivery.id, status: 'pending', attempts: 0, payload: delivery.payload });
+    expect(retried.next_attempt_at.getTime()).toBeGreaterThan(new Date('2024-01-01T00:00:00Z').getTime());
+  });
+
+  it('should refuse deliveries still waiting to be sent', async () => {
+    const delivery = await queueDelivery(ownerId);
+
+    await expect(retryWebhookDelivery({ id: delivery.id }, ownerId)).rejects.toThrow('is already waiting to be sent');
+  });
+
+  it('should not retry other users\' deliveries', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const delivery = await queueDelivery(otherId);
+    await db.update(webhookDeliveriesTable).set({ status: 'dead' }).where(eq(webhookDeliveriesTable.id, delivery.id)).execute();
+
+    await expect(retryWebhookDelivery({ id: delivery.id }, ownerId)).rejects.toThrow(`Webhook delivery with id ${delivery.id} not found`);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createApiToken } from '../handlers/create_api_token';
+import { getApiTokens } from '../handlers/get_api_tokens';
+import { revokeApiToken } from '../handlers/revoke_api_token';
+import { authenticateToken } from '../helpers/auth';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('revokeApiToken', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should stop the token from working', async () => {
+    const created = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: null }, ownerId);
+
+    const result = await revokeApiToken({ id: created.id }, ownerId);
+
+    expect(result).toEqual({ success: true });
+    expect(await getApiTokens(ownerId)).toEqual([]);
+    expect(await authenticateToken(created.token)).toBeNull();
+  });
+
+  it('should not revoke other users\' tokens', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const created = await createApiToken({ name: 'Cron', scope: 'read_write', expires_in_days: null }, otherId);
+
+    await expect(revokeApiToken({ id: created.id }, ownerId)).rejects.toThrow(`API token with id ${created.id} not found`);
+    expect(await authenticateToken(created.token)).not.toBeNull();
+  });
+});
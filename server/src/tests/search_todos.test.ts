@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { type HighlightSegment } from '../schema';
+import { createTodo } from '../handlers/create_todo';
+import { searchTodos } from '../handlers/search_todos';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Segments as text with matches in brackets, e.g. 'Buy [milk]'
+const marked = (segments: HighlightSegment[]): string =>
+  segments.map(segment => segment.match ? `[${segment.text}]` : segment.text).join('');
+
+describe('searchTodos', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should find todos by the start of words in the title or description', async () => {
+    await createTodo({ title: 'Buy oat milk', description: null }, ownerId);
+    await createTodo({ title: 'Groceries', description: 'Remember the milkshake mix' }, ownerId);
+    await createTodo({ title: 'Call the bank', description: null }, ownerId);
+
+    const results = await searchTodos({ query: 'MIL', limit: 20 }, ownerId);
+
+    // Title matches rank above description matches
+    expect(results.map(result => result.todo.title)).toEqual(['Buy oat milk', 'Groceries']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should require every word of the query', async () => {
+    await createTodo({ title: 'Book flights to Lisbon', description: null }, ownerId);
+    await createTodo({ title: 'Book a table', description: 'Somewhere in Lisbon' }, ownerId);
+    await createTodo({ title: 'Read a book', description: null }, ownerId);
+
+    const results = await searchTodos({ query: 'book lis', limit: 20 }, ownerId);
+
+    expect(results.map(result => result.todo.title).sort()).toEqual(['Book a table', 'Book flights to Lisbon']);
+  });
+
+  it('should highlight matches in the title and the description', async () => {
+    await createTodo({ title: 'Buy oat milk', description: 'Oat milk from the corner shop, not the supermarket' }, ownerId);
+    await createTodo({ title: 'Milk the cows', description: 'Before breakfast' }, ownerId);
+
+    const results = await searchTodos({ query: 'milk', limit: 20 }, ownerId);
+    const byTitle = new Map(results.map(result => [result.todo.title, result]));
+
+    expect(marked(byTitle.get('Buy oat milk')!.title)).toEqual('Buy oat [milk]');
+    expect(marked(byTitle.get('Buy oat milk')!.snippet)).toContain('[milk] from the corner shop');
+    // Descriptions without a match give no snippet
+    expect(marked(byTitle.get('Milk the cows')!.title)).toEqual('[Milk] the cows');
+    expect(byTitle.get('Milk the cows')!.snippet).toEqual([]);
+  });
+
+  it('should return markup in titles as plain text', async () => {
+    await createTodo({ title: 'Fix <b>bold</b> rendering', description: null }, ownerId);
+
+    const [result] = await searchTodos({ query: 'rendering', limit: 20 }, ownerId);
+
+    expect(marked(result.title)).toEqual('Fix <b>bold</b> [rendering]');
+  });
+
+  it('should find subtasks along with their top-level todo', async () => {
+    const parent = await createTodo({ title: 'Plan the trip', description: null }, ownerId);
+    const child = await createTodo({ title: 'Pack', description: null, parent_id: parent.id }, ownerId);
+    const grandchild = await createTodo({ title: 'Passport photos', description: null, parent_id: child.id }, ownerId);
+
+    const [result] = await searchTodos({ query: 'passport', limit: 20 }, ownerId);
+
+    expect(result.todo.id).toEqual(grandchild.id);
+    expect(result.root_id).toEqual(parent.id);
+  });
+
+  it('should leave out trashed todos and todos of other users', async () => {
+    const trashed = await createTodo({ title: 'Renew passport', description: null }, ownerId);
+    await db.update(todosTable).set({ deleted_at: new Date() }).where(eq(todosTable.id, trashed.id)).execute();
+    const otherOwnerId = await createTestUser('other@example.com');
+    await createTodo({ title: 'Passport appointment', description: null }, otherOwnerId);
+
+    expect(await searchTodos({ query: 'passport', limit: 20 }, ownerId)).toEqual([]);
+  });
+
+  it('should return nothing for queries without words', async () => {
+    await createTodo({ title: 'Anything', description: null }, ownerId);
+
+    expect(await searchTodos({ query: '!!! & |', limit: 20 }, ownerId)).toEqual([]);
+  });
+
+  it('should follow edits to the title', async () => {
+    const todo = await createTodo({ title: 'Draft report', description: null }, ownerId);
+    await db.update(todosTable).set({ title: 'Final report' }).where(eq(todosTable.id, todo.id)).execute();
+
+    expect(await searchTodos({ query: 'draft', limit: 20 }, ownerId)).toEqual([]);
+    expect(await searchTodos({ query: 'final', limit: 20 }, ownerId)).toHaveLength(1);
+  });
+});
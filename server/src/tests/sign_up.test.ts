@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { signUpInputSchema } from '../schema';
+import { signUp } from '../handlers/sign_up';
+import { getSessionUser, hashToken } from '../helpers/auth';
+import { eq } from 'drizzle-orm';
+
+describe('signUp', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user with a hashed password and log them in', async () => {
+    const result = await signUp({ email: 'ada@example.com', password: 'correct horse', name: 'Ada' });
+
+    expect(result.user.email).toEqual('ada@example.com');
+    expect(result.user.name).toEqual('Ada');
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(result.token.length).toBeGreaterThan(20);
+    expect(result.expires_at > new Date()).toBe(true);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+    expect(users[0].password_hash).not.toEqual('correct horse');
+    expect(users[0].password_hash.startsWith('$argon2id$')).toBe(true);
+
+    // Only the token hash is stored, and it resolves to the new user
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(result.token)))
+      .execute();
+    expect(sessions).toHaveLength(1);
+    expect((await getSessionUser(result.token))?.id).toEqual(result.user.id);
+  });
+
+  it('should normalize emails and reject duplicates', async () => {
+    const input = signUpInputSchema.parse({ email: ' Ada@Example.com ', password: 'correct horse' });
+    expect(input.email).toEqual('ada@example.com');
+
+    await signUp(input);
+
+    await expect(signUp({ email: 'ada@example.com', password: 'another one' })).rejects.toThrow(/already exists/i);
+  });
+
+  it('should reject short passwords', () => {
+    expect(signUpInputSchema.safeParse({ email: 'ada@example.com', password: 'short' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'bun:test';
+import { type TodoPriority } from '../schema';
+import { formatTodoTxtLine, parseTodoTxt, parseTodoTxtLine, toTodoTxt, type TodoTxtTask } from '../helpers/todoTxt';
+
+const RUNS = 2000;
+
+// Small seeded generator, so a failing case can be replayed from its seed
+const randomSource = (seed: number) => {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(values: readonly T[]): T => values[int(0, values.length - 1)];
+  const maybe = <T>(value: () => T): T | null => next() < 0.5 ? value() : null;
+  return { int, pick, maybe };
+};
+
+type Random = ReturnType<typeof randomSource>;
+
+// Pieces that look like parts of the format, so generated text runs into every escape
+const PIECES = [
+  'a', 'Z', '1', 'é', '漢', ' ', '  ', '\t', '\n', '\r\n', '\u3000', '%', '%20', '\\', '+', '@', ':', 'x', '(A)',
+  '2026-01-31', '+Work', '@home', 'due:', 'due:2026-02-01', 'note:', 'title:x', 'pri:A', 'id:7', 'http://example.com'
+] as const;
+
+const text = (random: Random, maxPieces: number): string =>
+  Array.from({ length: random.int(1, maxPieces) }, () => random.pick(PIECES)).join('');
+
+// Text that is still there once trimmed, as titles and names are
+const nonBlank = (random: Random, maxPieces: number): string => {
+  const value = text(random, maxPieces).trim();
+  return value || 'a';
+};
+
+const date = (random: Random): Date =>
+  new Date(Date.UTC(random.int(1990, 2100), random.int(0, 11), random.int(1, 28), random.int(0, 23), random.int(0, 59),
+    random.pick([0, random.int(0, 59)]), random.pick([0, random.int(0, 999)])));
+
+const day = (random: Random): string => date(random).toISOString().slice(0, 10);
+
+const task = (random: Random): TodoTxtTask => {
+  const completed = random.pick([true, false]);
+  const due = random.maybe(() => date(random));
+  const dueAllDay = due !== null && random.pick([true, false]);
+  const completedOn = completed ? random.maybe(() => day(random)) : null;
+  // The format only has room for a creation date next to a completion date
+  const createdOn = !completed || completedOn !== null ? random.maybe(() => day(random)) : null;
+  const tags = [...new Set(Array.from({ length: random.int(0, 3) }, () => nonBlank(random, 3)))];
+
+  return {
+    id: random.maybe(() => random.int(1, 100000)),
+    title: nonBlank(random, 8),
+    description: random.maybe(() => text(random, 6)),
+    completed,
+    priority: random.pick<TodoPriority>(['none', 'low', 'medium', 'high', 'urgent']),
+    list: random.maybe(() => nonBlank(random, 3)),
+    parent_id: random.maybe(() => random.int(1, 100000)),
+    due_at: due === null ? null : (dueAllDay ? new Date(due.toISOString().slice(0, 10)) : due).toISOString(),
+    due_all_day: dueAllDay,
+    due_time_zone: due === null ? null : random.maybe(() => random.pick(['UTC', 'Europe/Lisbon', 'America/New_York'])),
+    recurrence_rule: due === null ? null : random.maybe(() => random.pick(['FREQ=DAILY', 'FREQ=WEEKLY;BYDAY=MO,TH'])),
+    tags,
+    created_on: createdOn,
+    completed_on: completedOn
+  };
+};
+
+// Checks the property for RUNS generated values; failures name their seed
+const forAll = <T>(generate: (random: Random) => T, property: (value: T) => void) => {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    const value = generate(randomSource(seed));
+    try {
+      property(value);
+    } catch (error) {
+      throw new Error(`Property failed for seed ${seed}: ${JSON.stringify(value)}\n${String(error)}`);
+    }
+  }
+};
+
+const emptyTask: TodoTxtTask = {
+  id: null,
+  title: '',
+  description: null,
+  completed: false,
+  priority: 'none',
+  list: null,
+  parent_id: null,
+  due_at: null,
+  due_all_day: false,
+  due_time_zone: null,
+  recurrence_rule: null,
+  tags: [],
+  created_on: null,
+  completed_on: null
+};
+
+describe('todo.txt', () => {
+  it('should read the parts of a line', () => {
+    expect(parseTodoTxtLine('(A) 2026-10-01 Call the bank +Errands @phone @town due:2026-10-20 tz:Europe/Lisbon')).toEqual({
+      ...emptyTask,
+      title: 'Call the bank',
+      priority: 'urgent',
+      list: 'Errands',
+      tags: ['phone', 'town'],
+      due_at: '2026-10-20T00:00:00.000Z',
+      due_all_day: true,
+      due_time_zone: 'Europe/Lisbon',
+      created_on: '2026-10-01'
+    });
+
+    expect(parseTodoTxtLine('x 2026-10-18 2026-10-01 Send invoice due:2026-10-21T09:30Z pri:B id:4 parent:2 note:For%20March')).toEqual({
+      ...emptyTask,
+      title: 'Send invoice',
+      completed: true,
+      priority: 'high',
+      due_at: '2026-10-21T09:30:00.000Z',
+      id: 4,
+      parent_id: 2,
+      description: 'For March',
+      created_on: '2026-10-01',
+      completed_on: '2026-10-18'
+    });
+  });
+
+  it('should leave words in the title that only look like extensions', () => {
+    const task = parseTodoTxtLine('(E) Meet at 10:30 due:tomorrow see http://example.com +Home +Garden 100%');
+
+    expect(task.title).toEqual('Meet at 10:30 due:tomorrow see http://example.com +Garden 100%');
+    expect(task.priority).toEqual('low');
+    expect(task.list).toEqual('Home');
+    expect(task.due_at).toBeNull();
+  });
+
+  it('should write a task on one line', () => {
+    const line = formatTodoTxtLine({
+      ...emptyTask,
+      title: 'x marks +the spot',
+      priority: 'medium',
+      list: 'Side projects',
+      tags: ['deep work'],
+      due_at: '2026-10-21T09:30:00.000Z',
+      id: 12,
+      created_on: '2026-10-01'
+    });
+
+    expect(line).toEqual('(C) 2026-10-01 \\x marks \\+the spot +Side%20projects @deep%20work due:2026-10-21T09:30Z id:12');
+  });
+
+  it('should keep titles with line breaks in an extension', () => {
+    const line = formatTodoTxtLine({ ...emptyTask, title: 'Pack\nthe bags' });
+
+    expect(line).toEqual('Pack the bags title:Pack%0Athe%20bags');
+    expect(parseTodoTxtLine(line).title).toEqual('Pack\nthe bags');
+  });
+
+  it('should read files line by line, skipping blank lines', () => {
+    const tasks = parseTodoTxt('\uFEFFFirst\r\n\r\n  \nx Second\n');
+
+    expect(tasks.map(({ line, task }) => [line, task.title, task.completed])).toEqual([
+      [1, 'First', false],
+      [4, 'Second', true]
+    ]);
+  });
+
+  it('should read back every task it writes', () => {
+    forAll(task, (value) => {
+      expect(parseTodoTxtLine(formatTodoTxtLine(value))).toEqual(value);
+    });
+  });
+
+  it('should write each task on a line of its own', () => {
+    forAll((random: Random) => Array.from({ length: random.int(0, 5) }, () => task(random)), (tasks) => {
+      expect(parseTodoTxt(toTodoTxt(tasks)).map(({ task }) => task)).toEqual(tasks);
+    });
+  });
+
+  it('should read any line, and write what it read back the same way', () => {
+    forAll((random: Random) => text(random, 12).replace(/[\r\n]/g, ''), (line) => {
+      const once = formatTodoTxtLine(parseTodoTxtLine(line));
+      expect(formatTodoTxtLine(parseTodoTxtLine(once))).toEqual(once);
+    });
+  });
+});
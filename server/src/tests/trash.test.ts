@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { todosTable } from '../db/schema';
+import { purgeTrash } from '../helpers/trash';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('purgeTrash', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should delete todos trashed before the retention period', async () => {
+    const now = new Date('2024-03-31T12:00:00Z');
+    await db.insert(todosTable)
+      .values([
+        { owner_id: ownerId, title: 'Expired', description: null, deleted_at: new Date('2024-03-01T11:00:00Z') },
+        { owner_id: ownerId, title: 'Recent', description: null, deleted_at: new Date('2024-03-01T13:00:00Z') },
+        { owner_id: ownerId, title: 'Live', description: null }
+      ])
+      .execute();
+
+    const deleted = await purgeTrash(30, now);
+
+    expect(deleted).toEqual(1);
+    const remaining = await db.select().from(todosTable).execute();
+    expect(remaining.map(todo => todo.title).sort()).toEqual(['Live', 'Recent']);
+  });
+});
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createCalendarFeed } from '../handlers/create_calendar_feed';
+import { updateCalendarFeed } from '../handlers/update_calendar_feed';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { readCalendarFeed } from '../handlers/read_calendar_feed';
+import { calendarFeedToken } from '../helpers/calendarFeeds';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('updateCalendarFeed', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should change what the feed holds, keeping its URL', async () => {
+    const created = await createCalendarFeed({ include_events: false }, ownerId);
+
+    const updated = await updateCalendarFeed({ include_events: true }, ownerId);
+
+    expect(updated).toEqual({ include_events: true, created_at: created.created_at });
+    expect(await getCalendarFeed(ownerId)).toEqual(updated);
+    expect(await readCalendarFeed(calendarFeedToken(created.path)!)).not.toBeNull();
+  });
+
+  it('should reject users without a feed', async () => {
+    await expect(updateCalendarFeed({ include_events: true }, ownerId)).rejects.toThrow('Calendar feed not found');
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { updateList } from '../handlers/update_list';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('updateList', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should update list fields', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work', color: '#22c55e', icon: '💼', sort_order: 1 })
+      .returning()
+      .execute();
+
+    const result = await updateList({
+      id: list.id,
+      name: 'Office',
+      color: '#ef4444',
+      icon: '🏢',
+      sort_order: 3
+    }, ownerId);
+
+    expect(result.name).toEqual('Office');
+    expect(result.color).toEqual('#ef4444');
+    expect(result.icon).toEqual('🏢');
+    expect(result.sort_order).toEqual(3);
+
+    const saved = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, list.id))
+      .execute();
+
+    expect(saved[0].name).toEqual('Office');
+  });
+
+  it('should leave omitted fields unchanged', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work', color: '#22c55e', icon: '💼', sort_order: 1 })
+      .returning()
+      .execute();
+
+    const result = await updateList({ id: list.id, icon: '🧰' }, ownerId);
+
+    expect(result.name).toEqual('Work');
+    expect(result.color).toEqual('#22c55e');
+    expect(result.icon).toEqual('🧰');
+  });
+
+  it('should throw error when list does not exist', async () => {
+    await expect(updateList({ id: 999, name: 'Missing' }, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { updateTag } from '../handlers/update_tag';
+import { eq } from 'drizzle-orm';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+const createTestTag = async (name: string, color: string) => {
+  const result = await db.insert(tagsTable)
+    .values({ owner_id: ownerId, name, color })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('updateTag', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should rename a tag', async () => {
+    const tag = await createTestTag('wrok', '#22c55e');
+
+    const result = await updateTag({ id: tag.id, name: 'work' }, ownerId);
+
+    expect(result.name).toEqual('work');
+    expect(result.color).toEqual('#22c55e'); // Should remain unchanged
+  });
+
+  it('should recolor a tag', async () => {
+    const tag = await createTestTag('work', '#22c55e');
+
+    const result = await updateTag({ id: tag.id, color: '#ef4444' }, ownerId);
+
+    expect(result.name).toEqual('work'); // Should remain unchanged
+    expect(result.color).toEqual('#ef4444');
+
+    const saved = await db.select()
+      .from(tagsTable)
+      .where(eq(tagsTable.id, tag.id))
+      .execute();
+
+    expect(saved[0].color).toEqual('#ef4444');
+  });
+
+  it('should allow changing only the case of a name', async () => {
+    const tag = await createTestTag('work', '#22c55e');
+
+    const result = await updateTag({ id: tag.id, name: 'Work' }, ownerId);
+
+    expect(result.name).toEqual('Work');
+  });
+
+  it('should reject renaming to another tag\'s name', async () => {
+    await createTestTag('home', '#3b82f6');
+    const tag = await createTestTag('work', '#22c55e');
+
+    await expect(updateTag({ id: tag.id, name: 'Home' }, ownerId)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should throw error when tag does not exist', async () => {
+    await expect(updateTag({ id: 999, name: 'missing' }, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
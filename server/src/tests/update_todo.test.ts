@@ -1,15 +1,20 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { todosTable } from '../db/schema';
+import { listsTable, tagsTable, todosTable, todoTagsTable } from '../db/schema';
 import { type UpdateTodoInput, type CreateTodoInput } from '../schema';
 import { updateTodo } from '../handlers/update_todo';
 import { eq } from 'drizzle-orm';
+import { VersionConflictError } from '../errors';
+
+// Owner of the records created in each test
+let ownerId: number;
 
 // Helper function to create a test todo
 const createTestTodo = async (input: CreateTodoInput) => {
   const result = await db.insert(todosTable)
     .values({
+      owner_id: ownerId,
       title: input.title,
       description: input.description,
       completed: false
@@ -21,7 +26,10 @@ const createTestTodo = async (input: CreateTodoInput) => {
 };
 
 describe('updateTodo', () => {
-  beforeEach(createDB);
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
   afterEach(resetDB);
 
   it('should update todo title', async () => {
@@ -33,10 +41,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       title: 'Updated Title'
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify the result
     expect(result.id).toEqual(testTodo.id);
@@ -57,10 +66,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       description: 'Updated description'
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify the result
     expect(result.id).toEqual(testTodo.id);
@@ -80,10 +90,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       completed: true
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify the result
     expect(result.id).toEqual(testTodo.id);
@@ -103,12 +114,13 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       title: 'Updated Title',
       description: 'Updated description',
       completed: true
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify all fields were updated
     expect(result.id).toEqual(testTodo.id);
@@ -129,10 +141,11 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       description: null
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify description was set to null
     expect(result.description).toBeNull();
@@ -148,11 +161,12 @@ describe('updateTodo', () => {
 
     const updateInput: UpdateTodoInput = {
       id: testTodo.id,
+      expectedVersion: testTodo.version,
       title: 'Updated Title',
       completed: true
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Query the database directly to verify persistence
     const todos = await db.select()
@@ -170,10 +184,11 @@ describe('updateTodo', () => {
   it('should throw error when todo does not exist', async () => {
     const updateInput: UpdateTodoInput = {
       id: 999, // Non-existent ID
+      expectedVersion: 1,
       title: 'Updated Title'
     };
 
-    await expect(updateTodo(updateInput)).rejects.toThrow(/not found/i);
+    await expect(updateTodo(updateInput, ownerId)).rejects.toThrow(/not found/i);
   });
 
   it('should update only timestamp when no other fields provided', async () => {
@@ -184,11 +199,12 @@ describe('updateTodo', () => {
     });
 
     const updateInput: UpdateTodoInput = {
-      id: testTodo.id
+      id: testTodo.id,
+      expectedVersion: testTodo.version
       // No other fields provided
     };
 
-    const result = await updateTodo(updateInput);
+    const result = await updateTodo(updateInput, ownerId);
 
     // Verify only timestamp was updated
     expect(result.id).toEqual(testTodo.id);
@@ -199,4 +215,331 @@ describe('updateTodo', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
     expect(result.updated_at > testTodo.updated_at).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should set and clear a due date', async () => {
+    const testTodo = await createTestTodo({
+      title: 'Test Title',
+      description: null
+    });
+
+    const dueAt = new Date('2025-06-01T09:00:00Z');
+    const withDueDate = await updateTodo({
+      id: testTodo.id,
+      expectedVersion: testTodo.version,
+      due_at: dueAt,
+      due_time_zone: 'America/New_York'
+    }, ownerId);
+
+    expect(withDueDate.due_at).toEqual(dueAt);
+    expect(withDueDate.due_all_day).toEqual(false);
+    expect(withDueDate.due_time_zone).toEqual('America/New_York');
+
+    const cleared = await updateTodo({
+      id: testTodo.id,
+      expectedVersion: withDueDate.version,
+      due_at: null,
+      due_time_zone: null
+    }, ownerId);
+
+    expect(cleared.due_at).toBeNull();
+    expect(cleared.due_time_zone).toBeNull();
+  });
+
+  it('should keep only the calendar date when switching to all-day', async () => {
+    const testTodo = await createTestTodo({
+      title: 'Test Title',
+      description: null
+    });
+
+    const timed = await updateTodo({
+      id: testTodo.id,
+      expectedVersion: testTodo.version,
+      due_at: new Date('2025-06-01T18:45:00Z')
+    }, ownerId);
+
+    const result = await updateTodo({
+      id: testTodo.id,
+      expectedVersion: timed.version,
+      due_all_day: true
+    }, ownerId);
+
+    expect(result.due_all_day).toEqual(true);
+    expect(result.due_at).toEqual(new Date('2025-06-01T00:00:00Z'));
+  });
+
+  it('should update todo priority', async () => {
+    const testTodo = await createTestTodo({
+      title: 'Test Title',
+      description: null
+    });
+
+    const result = await updateTodo({
+      id: testTodo.id,
+      expectedVersion: testTodo.version,
+      priority: 'high'
+    }, ownerId);
+
+    expect(result.priority).toEqual('high');
+    expect(result.title).toEqual('Test Title'); // Should remain unchanged
+  });
+
+  it('should move a todo to another list', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+
+    const result = await updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, list_id: list.id }, ownerId);
+
+    expect(result.list_id).toEqual(list.id);
+  });
+
+  it('should throw error when moving to a missing list', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+
+    await expect(updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, list_id: 999 }, ownerId)).rejects.toThrow(/list.*not found/i);
+  });
+
+  it('should move a todo under a parent', async () => {
+    const parent = await createTestTodo({ title: 'Parent', description: null });
+    const child = await createTestTodo({ title: 'Child', description: null });
+
+    const result = await updateTodo({ id: child.id, expectedVersion: child.version, parent_id: parent.id }, ownerId);
+    expect(result.parent_id).toEqual(parent.id);
+
+    // Clearing the parent makes it a top-level todo again
+    const detached = await updateTodo({ id: child.id, expectedVersion: result.version, parent_id: null }, ownerId);
+    expect(detached.parent_id).toBeNull();
+  });
+
+  it('should reject making a todo its own parent', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+
+    await expect(updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, parent_id: testTodo.id }, ownerId)).rejects.toThrow(/own parent/i);
+  });
+
+  it('should reject moving a todo under one of its subtasks', async () => {
+    const root = await createTestTodo({ title: 'Root', description: null });
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: root.id })
+      .returning()
+      .execute();
+    const [grandchild] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Grandchild', description: null, parent_id: child.id })
+      .returning()
+      .execute();
+
+    await expect(updateTodo({ id: root.id, expectedVersion: root.version, parent_id: grandchild.id }, ownerId)).rejects.toThrow(/subtask/i);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, root.id)).execute();
+    expect(rows[0].parent_id).toBeNull();
+  });
+
+  it('should throw error when the parent does not exist', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+
+    await expect(updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, parent_id: 999 }, ownerId)).rejects.toThrow(/parent.*not found/i);
+  });
+
+  it('should move subtasks along with their parent to another list', async () => {
+    const parent = await createTestTodo({ title: 'Parent', description: null });
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+
+    await updateTodo({ id: parent.id, expectedVersion: parent.version, list_id: list.id }, ownerId);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(rows[0].list_id).toEqual(list.id);
+  });
+
+  it('should move a todo and its subtasks into the list of a new parent', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const [parent] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Parent', description: null, list_id: list.id })
+      .returning()
+      .execute();
+    const todo = await createTestTodo({ title: 'Moving', description: null });
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: todo.id })
+      .returning()
+      .execute();
+
+    const result = await updateTodo({ id: todo.id, expectedVersion: todo.version, parent_id: parent.id }, ownerId);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(result.list_id).toEqual(list.id);
+    expect(rows[0].list_id).toEqual(list.id);
+  });
+
+  it('should keep subtasks in their parent\'s list', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const parent = await createTestTodo({ title: 'Parent', description: null });
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+
+    await expect(updateTodo({ id: child.id, expectedVersion: child.version, list_id: list.id }, ownerId)).rejects.toThrow(/parent's list/i);
+
+    // Leaving the parent frees the todo to move
+    const moved = await updateTodo({ id: child.id, expectedVersion: child.version, parent_id: null, list_id: list.id }, ownerId);
+    expect(moved.list_id).toEqual(list.id);
+  });
+
+  it('should create the next occurrence when completing a recurring todo', async () => {
+    const [tag] = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name: 'chores' })
+      .returning()
+      .execute();
+    const [todo] = await db.insert(todosTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Take out trash',
+        description: null,
+        priority: 'high',
+        due_at: new Date('2026-03-07T14:00:00.000Z'), // 09:00 in New York
+        due_time_zone: 'America/New_York',
+        recurrence_rule: 'FREQ=WEEKLY;COUNT=3'
+      })
+      .returning()
+      .execute();
+    await db.insert(todoTagsTable).values({ todo_id: todo.id, tag_id: tag.id }).execute();
+
+    const result = await updateTodo({ id: todo.id, expectedVersion: todo.version, completed: true }, ownerId);
+
+    // The series moves on to the new occurrence
+    expect(result.completed).toBe(true);
+    expect(result.recurrence_rule).toBeNull();
+
+    const next = await db.select()
+      .from(todosTable)
+      .where(eq(todosTable.completed, false))
+      .execute();
+    expect(next).toHaveLength(1);
+    expect(next[0].title).toEqual('Take out trash');
+    expect(next[0].priority).toEqual('high');
+    expect(next[0].due_at).toEqual(new Date('2026-03-14T13:00:00.000Z')); // Still 09:00, now EDT
+    expect(next[0].recurrence_rule).toEqual('FREQ=WEEKLY;COUNT=2');
+
+    const nextTags = await db.select()
+      .from(todoTagsTable)
+      .where(eq(todoTagsTable.todo_id, next[0].id))
+      .execute();
+    expect(nextTags.map(row => row.tag_id)).toEqual([tag.id]);
+  });
+
+  it('should not create another occurrence once the series has ended', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Last time',
+        description: null,
+        due_at: new Date('2026-01-31T00:00:00.000Z'),
+        due_all_day: true,
+        recurrence_rule: 'FREQ=MONTHLY;COUNT=1'
+      })
+      .returning()
+      .execute();
+
+    const result = await updateTodo({ id: todo.id, expectedVersion: todo.version, completed: true }, ownerId);
+
+    expect(result.recurrence_rule).toBeNull();
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(1);
+  });
+
+  it('should only create one occurrence when completing twice', async () => {
+    const [todo] = await db.insert(todosTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Water plants',
+        description: null,
+        due_at: new Date('2026-01-31T00:00:00.000Z'),
+        due_all_day: true,
+        recurrence_rule: 'FREQ=MONTHLY'
+      })
+      .returning()
+      .execute();
+
+    const completed = await updateTodo({ id: todo.id, expectedVersion: todo.version, completed: true }, ownerId);
+    const reopened = await updateTodo({ id: todo.id, expectedVersion: completed.version, completed: false }, ownerId);
+    await updateTodo({ id: todo.id, expectedVersion: reopened.version, completed: true }, ownerId);
+
+    const todos = await db.select().from(todosTable).execute();
+    expect(todos).toHaveLength(2);
+    const next = todos.find(row => row.id !== todo.id);
+    expect(next?.due_at).toEqual(new Date('2026-03-31T00:00:00.000Z')); // February has no 31st
+  });
+
+  it('should reject recurrence rules on todos without a due date', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+
+    await expect(updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, recurrence_rule: 'FREQ=DAILY' }, ownerId)).rejects.toThrow(/due date/i);
+  });
+
+  it('should not update todos of another owner', async () => {
+    const otherOwnerId = await createTestUser('other@example.com');
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+
+    await expect(updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, title: 'Hijacked' }, otherOwnerId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should increment the version on every update', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+    expect(testTodo.version).toEqual(1);
+
+    const first = await updateTodo({ id: testTodo.id, expectedVersion: 1, title: 'First' }, ownerId);
+    const second = await updateTodo({ id: testTodo.id, expectedVersion: first.version, title: 'Second' }, ownerId);
+
+    expect(first.version).toEqual(2);
+    expect(second.version).toEqual(3);
+  });
+
+  it('should reject stale writes with the current row', async () => {
+    const testTodo = await createTestTodo({ title: 'Test Title', description: null });
+    // Another tab saves first
+    await updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, title: 'Theirs' }, ownerId);
+
+    const error = await updateTodo({ id: testTodo.id, expectedVersion: testTodo.version, title: 'Mine' }, ownerId)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(VersionConflictError);
+    const { current } = error as VersionConflictError;
+    expect(current.title).toEqual('Theirs');
+    expect(current.version).toEqual(2);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, testTodo.id)).execute();
+    expect(rows[0].title).toEqual('Theirs');
+    expect(rows[0].version).toEqual(2);
+  });
+
+  it('should bump the version of subtasks moved to another list', async () => {
+    const [list] = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const parent = await createTestTodo({ title: 'Parent', description: null });
+    const [child] = await db.insert(todosTable)
+      .values({ owner_id: ownerId, title: 'Child', description: null, parent_id: parent.id })
+      .returning()
+      .execute();
+
+    await updateTodo({ id: parent.id, expectedVersion: parent.version, list_id: list.id }, ownerId);
+
+    const rows = await db.select().from(todosTable).where(eq(todosTable.id, child.id)).execute();
+    expect(rows[0].version).toEqual(child.version + 1);
+  });
+});
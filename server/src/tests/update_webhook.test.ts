@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createWebhook } from '../handlers/create_webhook';
+import { updateWebhook } from '../handlers/update_webhook';
+
+// Owner of the records created in each test
+let ownerId: number;
+
+describe('updateWebhook', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+  });
+  afterEach(resetDB);
+
+  it('should change the given fields only', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+
+    const updated = await updateWebhook({ id: webhook.id, events: ['todo.completed', 'todo.deleted'], enabled: false }, ownerId);
+
+    expect(updated).toEqual({
+      id: webhook.id,
+      url: 'https://example.com/hooks',
+      events: ['todo.completed', 'todo.deleted'],
+      enabled: false,
+      created_at: webhook.created_at
+    });
+  });
+
+  it('should return the webhook unchanged when nothing is given', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, ownerId);
+
+    const result = await updateWebhook({ id: webhook.id }, ownerId);
+
+    expect(result.url).toEqual(webhook.url);
+  });
+
+  it('should not change other users\' webhooks', async () => {
+    const otherId = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['todo.created'], enabled: true }, otherId);
+
+    await expect(updateWebhook({ id: webhook.id, enabled: false }, ownerId)).rejects.toThrow(`Webhook with id ${webhook.id} not found`);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import { type AddressInfo } from 'net';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { createTodo } from '../handlers/create_todo';
+import { updateTodo } from '../handlers/update_todo';
+import { createWebhook } from '../handlers/create_webhook';
+import { updateWebhook } from '../handlers/update_webhook';
+import { deliverWebhooks, isPrivateAddress, retryDelayMs, signWebhookPayload } from '../helpers/webhooks';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Owner of the records created in each test
+let ownerId: number;
+
+// Stands in for the service a webhook points at: records what it is sent and
+// answers with the status of the test's choosing
+let receiver: Server;
+let receiverUrl: string;
+let responseStatus: number;
+let received: { headers: IncomingHttpHeaders; body: string }[];
+
+const deliveries = () => db.select().from(webhookDeliveriesTable).orderBy(webhookDeliveriesTable.id).execute();
+
+describe('webhooks', () => {
+  beforeEach(async () => {
+    await createDB();
+    ownerId = await createTestUser();
+    // The receiver listens on loopback
+    process.env['WEBHOOKS_ALLOW_PRIVATE_ADDRESSES'] = 'true';
+
+    responseStatus = 200;
+    received = [];
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => body += chunk.toString());
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus);
+        res.end(responseStatus === 200 ? 'ok' : 'Receiver is down');
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+  afterEach(async () => {
+    delete process.env['WEBHOOKS_ALLOW_PRIVATE_ADDRESSES'];
+    await new Promise(resolve => receiver.close(resolve));
+    await resetDB();
+  });
+
+  it('should queue the subscribed events of todo writes', async () => {
+    await createWebhook({ url: receiverUrl, events: ['todo.created', 'todo.completed'], enabled: true }, ownerId);
+    const todo = await createTodo({ title: 'Buy milk', description: null }, ownerId);
+    const renamed = await updateTodo({ id: todo.id, expectedVersion: todo.version, title: 'Buy oat milk' }, ownerId);
+    await updateTodo({ id: todo.id, expectedVersion: renamed.version, completed: true }, ownerId);
+
+    const queued = await deliveries();
+
+    expect(queued.map(delivery => delivery.event)).toEqual(['todo.created', 'todo.completed']);
+    expect(queued.every(delivery => delivery.status === 'pending')).toBe(true);
+    expect(queued[1].payload['todo']).toMatchObject({ id: todo.id, title: 'Buy oat milk', completed: true });
+    expect(queued[1].payload['changes']).toEqual({ completed: { before: false, after: true } });
+  });
+
+  it('should not queue events for disabled webhooks or other users', async () => {
+    const otherId = await createTestUser('other@example.com');
+    await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, otherId);
+    await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: false }, ownerId);
+
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    expect(await deliveries()).toEqual([]);
+  });
+
+  it('should POST deliveries signed with the webhook secret', async () => {
+    const webhook = await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, ownerId);
+    const todo = await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    const attempted = await deliverWebhooks();
+    const [request] = received;
+    const [delivery] = await deliveries();
+
+    expect(attempted).toEqual(1);
+    expect(request.headers['content-type']).toEqual('application/json');
+    expect(request.headers['x-webhook-event']).toEqual('todo.created');
+    expect(request.headers['x-webhook-id']).toEqual(String(delivery.id));
+    expect(request.headers['x-webhook-signature'])
+      .toEqual(signWebhookPayload(webhook.secret, Number(request.headers['x-webhook-timestamp']), request.body));
+    expect(JSON.parse(request.body)).toMatchObject({ event: 'todo.created', todo: { id: todo.id, title: 'Buy milk' } });
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, response_status: 200, last_error: null });
+    expect(await deliverWebhooks()).toEqual(0);
+  });
+
+  it('should sign with HMAC-SHA256 over the timestamp and body', () => {
+    expect(signWebhookPayload('secret', 1700000000, '{"a":1}'))
+      .toEqual('v1=49f24e537407743fa4a0242bb63b94b9a47ee99cbbe071ccd8a22550ae411686');
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, ownerId);
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+    const now = new Date();
+    responseStatus = 500;
+
+    await deliverWebhooks(now);
+    const [failed] = await deliveries();
+
+    expect(failed).toMatchObject({ status: 'pending', attempts: 1, response_status: 500, last_error: 'HTTP 500' });
+    expect(failed.next_attempt_at).toEqual(new Date(now.getTime() + retryDelayMs(1)));
+    // Not due again until the delay has passed
+    expect(await deliverWebhooks(new Date(now.getTime() + retryDelayMs(1) - 1000))).toEqual(0);
+
+    responseStatus = 200;
+    await deliverWebhooks(new Date(now.getTime() + retryDelayMs(1)));
+
+    expect((await deliveries())[0]).toMatchObject({ status: 'delivered', attempts: 2 });
+    expect(received.map(request => request.headers['x-webhook-id'])).toEqual([String(failed.id), String(failed.id)]);
+  });
+
+  it('should double the delay after each failure up to a limit', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(20)).toEqual(6 * HOUR_MS);
+  });
+
+  it('should give up on deliveries that fail every attempt', async () => {
+    await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, ownerId);
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+    responseStatus = 503;
+
+    // Each run is late enough for the previous delay to have passed
+    for (let run = 0; run < 10; run++) {
+      await deliverWebhooks(new Date(Date.now() + run * 7 * HOUR_MS));
+    }
+
+    expect((await deliveries())[0]).toMatchObject({ status: 'dead', attempts: 8, response_status: 503 });
+    expect(received.length).toEqual(8);
+  });
+
+  it('should record failures to connect', async () => {
+    const webhook = await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, ownerId);
+    await updateWebhook({ id: webhook.id, url: 'http://127.0.0.1:9/unreachable' }, ownerId);
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    await deliverWebhooks();
+    const [delivery] = await deliveries();
+
+    expect(delivery).toMatchObject({ status: 'pending', attempts: 1, response_status: null });
+    expect(delivery.last_error).not.toBeNull();
+  });
+
+  it('should refuse to deliver to private addresses', async () => {
+    delete process.env['WEBHOOKS_ALLOW_PRIVATE_ADDRESSES'];
+    const port = new URL(receiverUrl).port;
+    const urls = [
+      receiverUrl,
+      `http://[::ffff:127.0.0.1]:${port}/hooks`,
+      `http://[::ffff:7f00:1]:${port}/hooks`,
+      `http://localhost:${port}/hooks` // A name that resolves to loopback
+    ];
+    for (const url of urls) {
+      await createWebhook({ url, events: ['todo.created'], enabled: true }, ownerId);
+    }
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+
+    await deliverWebhooks();
+
+    expect(received).toEqual([]);
+    expect((await deliveries()).map(delivery => delivery.last_error))
+      .toEqual(urls.map(() => 'URL resolves to a private or reserved address'));
+  });
+
+  it('should tell private addresses from public ones', () => {
+    const privateAddresses = ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::127.0.0.1', '64:ff9b::7f00:1', '2002:a9fe:a9fe::1'];
+    const publicAddresses = ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808'];
+
+    expect(privateAddresses.filter(address => !isPrivateAddress(address))).toEqual([]);
+    expect(publicAddresses.filter(isPrivateAddress)).toEqual([]);
+  });
+
+  it('should hold back deliveries of disabled webhooks until enabled again', async () => {
+    const webhook = await createWebhook({ url: receiverUrl, events: ['todo.created'], enabled: true }, ownerId);
+    await createTodo({ title: 'Buy milk', description: null }, ownerId);
+    await updateWebhook({ id: webhook.id, enabled: false }, ownerId);
+
+    expect(await deliverWebhooks()).toEqual(0);
+
+    await updateWebhook({ id: webhook.id, enabled: true }, ownerId);
+
+    expect(await deliverWebhooks()).toEqual(1);
+    expect(received.length).toEqual(1);
+  });
+});
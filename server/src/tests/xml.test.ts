@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import { childElement, childElements, escapeXml, parseXml } from '../helpers/xml';
+
+describe('xml', () => {
+  it('should resolve namespace prefixes and defaults', () => {
+    const root = parseXml('<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><prop xmlns="urn:ietf:params:xml:ns:caldav"><calendar-data/><d:getetag/></prop></d:propfind>');
+
+    expect(root.namespace).toEqual('DAV:');
+    expect(root.name).toEqual('propfind');
+    expect(root.children[0].children.map(({ namespace, name }) => `${namespace} ${name}`))
+      .toEqual(['urn:ietf:params:xml:ns:caldav calendar-data', 'DAV: getetag']);
+  });
+
+  it('should decode text, attributes and CDATA', () => {
+    const root = parseXml(`<a x="1 &amp; 2" y='&#x41;'>Tom &lt;3<![CDATA[ <raw> ]]><!-- skipped --></a>`);
+
+    expect(root.attributes.get('x')).toEqual('1 & 2');
+    expect(root.attributes.get('y')).toEqual('A');
+    expect(root.text).toEqual('Tom <3 <raw> ');
+  });
+
+  it('should find children by namespace and name', () => {
+    const root = parseXml('<m xmlns="DAV:" xmlns:o="other"><href>a</href><o:href>b</o:href><href>c</href></m>');
+
+    expect(childElements(root, 'DAV:', 'href').map(element => element.text)).toEqual(['a', 'c']);
+    expect(childElement(root, 'other', 'href')?.text).toEqual('b');
+    expect(childElement(root, 'DAV:', 'prop')).toBeUndefined();
+  });
+
+  it('should reject documents that are not well-formed', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow('Unexpected </a>');
+    expect(() => parseXml('<a>')).toThrow('<a> is never closed');
+    expect(() => parseXml('<x:a/>')).toThrow('Unknown namespace prefix "x"');
+    expect(() => parseXml('<a/><b/>')).toThrow('more than one root element');
+    expect(() => parseXml('text')).toThrow('Text outside of the root element');
+  });
+
+  it('should escape markup characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toEqual('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  });
+});